@@ -1,8 +1,9 @@
-import { User } from '../models/User';
-import { UserRole } from '../enums/UserRole';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
 
 /**
- * Mock user repository for development purposes
+ * In-memory user repository for tests
+ * Stands in for UserRepository with a fixed admin, editor and viewer
  */
 export class MockUserRepository {
   private users: User[];
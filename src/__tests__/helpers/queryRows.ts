@@ -0,0 +1,11 @@
+import { EntityQuery } from '../../database/Query';
+import { applyQuery } from '../../database/queryEvaluation';
+
+/**
+ * Builds a stand-in for IDatabase.find that answers structured queries from fixed rows
+ * Queries are evaluated the way the JSON backend evaluates them
+ * @param rows The entities the database holds, in the order they were stored
+ * @returns Function resolving each query to the rows it selects
+ */
+export const queryRows = <T extends object>(rows: T[]) =>
+  async (query: EntityQuery): Promise<T[]> => applyQuery(rows, query);
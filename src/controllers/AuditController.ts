@@ -0,0 +1,89 @@
+import { Request, Response } from 'express';
+import { AuditService } from '../services/AuditService';
+import { AuditFilter } from '../repositories/AuditRepository';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Controller for reading the audit log
+ */
+export class AuditController {
+  private auditService: AuditService;
+  
+  /**
+   * Creates a new AuditController instance
+   * @param auditService The audit service to use
+   */
+  constructor(auditService?: AuditService) {
+    this.auditService = auditService || new AuditService();
+  }
+  
+  /**
+   * Gets audit entries, newest first
+   * Accepts optional `actorId`, `entityType`, `entityId`, `from` and `to` in the query;
+   * `from` and `to` are ISO dates bounding the time of the change
+   * @param req Express request
+   * @param res Express response
+   */
+  public getAuditEntries = async (req: Request, res: Response): Promise<void> => {
+    const { actorId, entityType, entityId, from, to } = req.query;
+    
+    if (entityType !== undefined && !this.isEntityType(entityType)) {
+      throw new ValidationError(`Entity type must be one of: ${Object.values(AuditEntityType).join(', ')}`);
+    }
+    
+    const fromDate = this.parseDate(from);
+    const toDate = this.parseDate(to);
+    
+    if (fromDate === null || toDate === null) {
+      throw new ValidationError('From and to must be valid dates');
+    }
+    
+    if (fromDate && toDate && fromDate.getTime() > toDate.getTime()) {
+      throw new ValidationError('From must not be after to');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const filter: AuditFilter = {
+      actorId: typeof actorId === 'string' ? actorId : undefined,
+      entityType,
+      entityId: typeof entityId === 'string' ? entityId : undefined,
+      from: fromDate,
+      to: toDate
+    };
+    
+    const entries = await this.auditService.getEntries(filter, req.user);
+    
+    res.status(200).json(entries);
+  };
+  
+  /**
+   * Checks if a value is an audit entity type
+   * @param value The value to check
+   */
+  private isEntityType(value: unknown): value is AuditEntityType {
+    return Object.values(AuditEntityType).includes(value as AuditEntityType);
+  }
+  
+  /**
+   * Parses an optional date from the query string
+   * @param value The query value
+   * @returns The date, undefined if no value was given, or null if the value is not a valid date
+   */
+  private parseDate(value: unknown): Date | undefined | null {
+    if (value === undefined) {
+      return undefined;
+    }
+    
+    if (typeof value !== 'string') {
+      return null;
+    }
+    
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+}
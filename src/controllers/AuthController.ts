@@ -0,0 +1,88 @@
+import { Request, Response } from 'express';
+import { AuthService } from '../services/AuthService';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Controller for authentication operations
+ */
+export class AuthController {
+  private authService: AuthService;
+  
+  /**
+   * Creates a new AuthController instance
+   * @param authService The auth service to use
+   */
+  constructor(authService?: AuthService) {
+    this.authService = authService || new AuthService();
+  }
+  
+  /**
+   * Logs a user in with email and password
+   * @param req Express request
+   * @param res Express response
+   */
+  public login = async (req: Request, res: Response): Promise<void> => {
+    const { email, password } = req.body;
+    
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      throw new ValidationError('Email and password are required');
+    }
+    
+    const result = await this.authService.login(email, password);
+    
+    if (!result) {
+      throw new AuthenticationError('Invalid email or password');
+    }
+    
+    // User.toJSON leaves out the password hash and salt
+    res.status(200).json(result);
+  };
+  
+  /**
+   * Exchanges a refresh token for new tokens
+   * @param req Express request
+   * @param res Express response
+   */
+  public refresh = async (req: Request, res: Response): Promise<void> => {
+    const { refreshToken } = req.body;
+    
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new ValidationError('Refresh token is required');
+    }
+    
+    const result = await this.authService.refresh(refreshToken);
+    
+    res.status(200).json(result);
+  };
+  
+  /**
+   * Logs out by revoking the session of a refresh token
+   * @param req Express request
+   * @param res Express response
+   */
+  public logout = async (req: Request, res: Response): Promise<void> => {
+    const { refreshToken } = req.body;
+    
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new ValidationError('Refresh token is required');
+    }
+    
+    await this.authService.logout(refreshToken);
+    
+    res.status(204).send();
+  };
+  
+  /**
+   * Revokes all sessions of a user
+   * @param req Express request
+   * @param res Express response
+   */
+  public revokeSessions = async (req: Request, res: Response): Promise<void> => {
+    const { userId } = req.params;
+    
+    const revoked = await this.authService.revokeAllSessions(userId);
+    
+    res.status(200).json({ userId, revoked });
+  };
+}
@@ -0,0 +1,162 @@
+import { Request, Response } from 'express';
+import { SecureResourceService } from '../services/SecureResourceService';
+import { ResourceType } from '../enums/ResourceType';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { NotFoundError } from '../errors/NotFoundError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Controller for Resource-related operations
+ */
+export class ResourceController {
+  private resourceService: SecureResourceService;
+  
+  /**
+   * Creates a new ResourceController instance
+   * @param resourceService The resource service to use
+   */
+  constructor(resourceService?: SecureResourceService) {
+    this.resourceService = resourceService || new SecureResourceService();
+  }
+  
+  /**
+   * Creates a new resource
+   * @param req Express request
+   * @param res Express response
+   */
+  public createResource = async (req: Request, res: Response): Promise<void> => {
+    const { topicId, url, description, type } = req.body;
+    
+    if (!topicId || !url || !description || !type) {
+      throw new ValidationError('Topic ID, URL, description and type are required');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const resource = await this.resourceService.createResource(
+      topicId,
+      url,
+      description,
+      type,
+      req.user
+    );
+    
+    res.status(201).json(resource);
+  };
+  
+  /**
+   * Gets a resource by ID
+   * @param req Express request
+   * @param res Express response
+   */
+  public getResource = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const resource = await this.resourceService.getResource(id, req.user);
+    
+    if (!resource) {
+      throw new NotFoundError(`Resource with ID ${id} not found`);
+    }
+    
+    res.status(200).json(resource);
+  };
+  
+  /**
+   * Gets all resources
+   * Accepts an optional `type` in the query to return only resources of that type
+   * @param req Express request
+   * @param res Express response
+   */
+  public getAllResources = async (req: Request, res: Response): Promise<void> => {
+    const { type } = req.query;
+    
+    if (type !== undefined && !Object.values(ResourceType).includes(type as ResourceType)) {
+      throw new ValidationError(`Resource type must be one of: ${Object.values(ResourceType).join(', ')}`);
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const resources = await this.resourceService.getAllResources(
+      req.user,
+      type as ResourceType | undefined
+    );
+    
+    res.status(200).json(resources);
+  };
+  
+  /**
+   * Gets the resources of a topic
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTopicResources = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const resources = await this.resourceService.getResourcesByTopic(id, req.user);
+    
+    res.status(200).json(resources);
+  };
+  
+  /**
+   * Updates a resource
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateResource = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { url, description, type } = req.body;
+    
+    if (url === undefined && description === undefined && type === undefined) {
+      throw new ValidationError('At least one of url, description or type is required');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const resource = await this.resourceService.updateResource(
+      id,
+      { url, description, type },
+      req.user
+    );
+    
+    if (!resource) {
+      throw new NotFoundError(`Resource with ID ${id} not found`);
+    }
+    
+    res.status(200).json(resource);
+  };
+  
+  /**
+   * Deletes a resource
+   * @param req Express request
+   * @param res Express response
+   */
+  public deleteResource = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const deleted = await this.resourceService.deleteResource(id, req.user);
+    
+    if (!deleted) {
+      throw new NotFoundError(`Resource with ID ${id} not found`);
+    }
+    
+    res.status(204).send();
+  };
+}
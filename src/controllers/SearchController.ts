@@ -0,0 +1,60 @@
+import { Request, Response } from 'express';
+import { SearchResultType, SearchService } from '../services/SearchService';
+import { SEARCH_MAX_LIMIT } from '../validation/schemas/searchSchemas';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Number of results when no limit is given
+ */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Controller for full-text search
+ */
+export class SearchController {
+  private searchService: SearchService;
+  
+  /**
+   * Creates a new SearchController instance
+   * @param searchService The search service to use
+   */
+  constructor(searchService?: SearchService) {
+    this.searchService = searchService || new SearchService();
+  }
+  
+  /**
+   * Searches topics and resources the user may read, best match first
+   * Accepts the search text as `q`, and optional `limit` and `type` (topic or resource) in the query
+   * @param req Express request
+   * @param res Express response
+   */
+  public search = async (req: Request, res: Response): Promise<void> => {
+    const { q, limit, type } = req.query;
+    
+    if (typeof q !== 'string' || q.trim().length === 0) {
+      throw new ValidationError('Search text is required');
+    }
+    
+    const parsedLimit = limit === undefined ? DEFAULT_SEARCH_LIMIT : Number(limit);
+    
+    if (!Number.isInteger(parsedLimit) || parsedLimit < 1 || parsedLimit > SEARCH_MAX_LIMIT) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${SEARCH_MAX_LIMIT}`);
+    }
+    
+    if (type !== undefined && type !== 'topic' && type !== 'resource') {
+      throw new ValidationError('Type must be one of: topic, resource');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const results = await this.searchService.search(q, req.user, {
+      limit: parsedLimit,
+      type: type as SearchResultType | undefined
+    });
+    
+    res.status(200).json(results);
+  };
+}
@@ -1,5 +1,24 @@
 import { Request, Response } from 'express';
 import { SecureTopicService } from '../services/SecureTopicService';
+import { DiffGranularity } from '../utils/textDiff';
+import { DEFAULT_TOPIC_SORT_FIELD, TopicPathDirection, TopicSortField } from '../repositories/TopicRepository';
+import { SortDirection } from '../database/PageQuery';
+import { decodeCursor, encodeCursor } from '../utils/pageCursor';
+import { matchesETag, parseETags, versionETag, versionFromETag } from '../utils/etag';
+import { TOPIC_PAGE_MAX_LIMIT } from '../validation/schemas/topicSchemas';
+import { TopicAclEntryInput, TopicDeleteMode } from '../services/ITopicService';
+import { Topic } from '../models/Topic';
+import { AclPrincipalType } from '../enums/AclPrincipalType';
+import { TopicPermission } from '../enums/TopicPermission';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { NotFoundError } from '../errors/NotFoundError';
+import { PreconditionFailedError } from '../errors/PreconditionFailedError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Number of topics on a page when no limit is given
+ */
+const DEFAULT_PAGE_LIMIT = 20;
 
 /**
  * Controller for Topic-related operations
@@ -21,200 +40,217 @@ export class TopicController {
    * @param res Express response
    */
   public createTopic = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { name, content, parentTopicId } = req.body;
-      
-      if (!name || !content) {
-        res.status(400).json({ message: 'Name and content are required' });
-        return;
-      }
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topic = await this.topicService.createTopic(
-        name,
-        content,
-        req.user,
-        parentTopicId
-      );
-      
-      res.status(201).json(topic);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else if (error instanceof Error && error.message.includes('not found')) {
-        res.status(404).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error creating topic', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    const { name, content, parentTopicId } = req.body;
+    
+    if (!name || !content) {
+      throw new ValidationError('Name and content are required');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
     }
+    
+    const topic = await this.topicService.createTopic(
+      name,
+      content,
+      req.user,
+      parentTopicId
+    );
+    
+    res.setHeader('ETag', versionETag(topic.version));
+    res.status(201).json(topic);
   };
   
   /**
    * Gets a topic by ID
+   * The response is tagged with the version; If-None-Match naming it gets 304
    * @param req Express request
    * @param res Express response
    */
   public getTopic = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topic = await this.topicService.getTopic(id, req.user);
-      
-      if (!topic) {
-        res.status(404).json({ message: `Topic with ID ${id} not found` });
-        return;
-      }
-      
-      res.status(200).json(topic);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error retrieving topic', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const topic = await this.topicService.getTopic(id, req.user);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
     }
+    
+    this.sendTopicVersion(req, res, topic);
   };
   
   /**
    * Updates a topic
+   * With If-Match, the update is only made if the topic is still at the version it names
    * @param req Express request
    * @param res Express response
    */
   public updateTopic = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      const { content, name } = req.body;
-      
-      if (!content) {
-        res.status(400).json({ message: 'Content is required' });
-        return;
-      }
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topic = await this.topicService.updateTopic(
-        id,
-        content,
-        req.user,
-        name
-      );
-      
-      if (!topic) {
-        res.status(404).json({ message: `Topic with ID ${id} not found` });
-        return;
-      }
-      
-      res.status(200).json(topic);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error updating topic', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    const { id } = req.params;
+    const { content, name } = req.body;
+    
+    if (!content) {
+      throw new ValidationError('Content is required');
     }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const topic = await this.topicService.updateTopic(
+      id,
+      content,
+      req.user,
+      name,
+      this.expectedVersion(req)
+    );
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.setHeader('ETag', versionETag(topic.version));
+    res.status(200).json(topic);
   };
   
   /**
    * Deletes a topic
+   * Accepts `mode` (orphan-check, cascade or reparent) and `dryRun` in the query;
+   * a dry run responds with what the deletion would change instead of deleting.
+   * With If-Match, the topic is only deleted if it is still at the version it names
    * @param req Express request
    * @param res Express response
    */
   public deleteTopic = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const deleted = await this.topicService.deleteTopic(id, req.user);
+    const { id } = req.params;
+    const mode = req.query.mode ?? 'orphan-check';
+    
+    if (!this.isDeleteMode(mode)) {
+      throw new ValidationError('Mode must be one of: orphan-check, cascade, reparent');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    if (req.query.dryRun === 'true') {
+      const plan = await this.topicService.planTopicDeletion(id, mode, req.user);
       
-      if (!deleted) {
-        res.status(404).json({ message: `Topic with ID ${id} not found` });
-        return;
+      if (!plan) {
+        throw new NotFoundError(`Topic with ID ${id} not found`);
       }
       
-      res.status(204).send();
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else if (error instanceof Error && error.message.includes('child topics')) {
-        res.status(400).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error deleting topic', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+      res.status(200).json(plan);
+      return;
+    }
+    
+    const deleted = await this.topicService.deleteTopic(id, req.user, mode, this.expectedVersion(req));
+    
+    if (!deleted) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(204).send();
+  };
+  
+  /**
+   * Moves a topic under a new parent
+   * Expects `newParentId` in the body: the ID of the new parent, or null to make the topic a root topic
+   * @param req Express request
+   * @param res Express response
+   */
+  public moveTopic = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { newParentId } = req.body;
+    
+    if (newParentId !== null && typeof newParentId !== 'string') {
+      throw new ValidationError('New parent ID must be a topic ID or null');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
     }
+    
+    const topic = await this.topicService.moveTopic(id, newParentId, req.user);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(200).json(topic);
+  };
+  
+  /**
+   * Copies a topic and its subtree under a parent
+   * Expects `targetParentId` in the body: the ID of the parent of the copy, or null for a root topic.
+   * Optional `includeResources` and `includeHistory` booleans also copy resources and every version
+   * @param req Express request
+   * @param res Express response
+   */
+  public copyTopic = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { targetParentId, includeResources = false, includeHistory = false } = req.body;
+    
+    if (targetParentId !== null && typeof targetParentId !== 'string') {
+      throw new ValidationError('Target parent ID must be a topic ID or null');
+    }
+    
+    if (typeof includeResources !== 'boolean' || typeof includeHistory !== 'boolean') {
+      throw new ValidationError('Include resources and include history must be booleans');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const copy = await this.topicService.copyTopic(id, { targetParentId, includeResources, includeHistory }, req.user);
+    
+    if (!copy) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(201).json(copy);
   };
   
   /**
-   * Gets all topics
+   * Gets one page of topics
+   * Accepts `limit`, `cursor`, `sortBy`, `order`, `parentTopicId`, `updatedSince` and `namePrefix` in the query
    * @param req Express request
    * @param res Express response
    */
   public getAllTopics = async (req: Request, res: Response): Promise<void> => {
-    try {
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topics = await this.topicService.getAllTopics(req.user);
-      
-      res.status(200).json(topics);
-    } catch (error) {
-      res.status(500).json({ 
-        message: 'Error retrieving topics', 
-        error: error instanceof Error ? error.message : String(error)
-      });
+    const parentTopicId = typeof req.query.parentTopicId === 'string' ? req.query.parentTopicId : undefined;
+    
+    await this.sendTopicPage(req, res, parentTopicId);
+  };
+  
+  /**
+   * Gets the topics owned by the authenticated user
+   * @param req Express request
+   * @param res Express response
+   */
+  public getMyTopics = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
     }
+    
+    const topics = await this.topicService.getOwnedTopics(req.user);
+    
+    res.status(200).json(topics);
   };
   
   /**
-   * Gets all root topics
+   * Gets one page of root topics
+   * Accepts the same query parameters as getAllTopics, except `parentTopicId`
    * @param req Express request
    * @param res Express response
    */
   public getRootTopics = async (req: Request, res: Response): Promise<void> => {
-    try {
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topics = await this.topicService.getRootTopics(req.user);
-      
-      res.status(200).json(topics);
-    } catch (error) {
-      res.status(500).json({ 
-        message: 'Error retrieving root topics', 
-        error: error instanceof Error ? error.message : String(error)
-      });
-    }
+    await this.sendTopicPage(req, res, null);
   };
   
   /**
@@ -223,29 +259,15 @@ export class TopicController {
    * @param res Express response
    */
   public getChildTopics = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { parentId } = req.params;
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const topics = await this.topicService.getChildTopics(parentId, req.user);
-      
-      res.status(200).json(topics);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else if (error instanceof Error && error.message.includes('not found')) {
-        res.status(404).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error retrieving child topics', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    const { parentId } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
     }
+    
+    const topics = await this.topicService.getChildTopics(parentId, req.user);
+    
+    res.status(200).json(topics);
   };
   
   /**
@@ -254,31 +276,358 @@ export class TopicController {
    * @param res Express response
    */
   public getTopicTree = async (req: Request, res: Response): Promise<void> => {
-    try {
-      const { id } = req.params;
-      
-      if (!req.user) {
-        res.status(401).json({ message: 'User not authenticated' });
-        return;
-      }
-      
-      const tree = await this.topicService.getTopicTree(id, req.user);
-      
-      if (!tree) {
-        res.status(404).json({ message: `Topic with ID ${id} not found` });
-        return;
-      }
-      
-      res.status(200).json(tree);
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('permission')) {
-        res.status(403).json({ message: error.message });
-      } else {
-        res.status(500).json({ 
-          message: 'Error retrieving topic tree', 
-          error: error instanceof Error ? error.message : String(error)
-        });
-      }
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
     }
+    
+    const tree = await this.topicService.getTopicTree(id, req.user);
+    
+    if (!tree) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(200).json(tree);
   };
-} 
\ No newline at end of file
+  
+  /**
+   * Gets all versions of a topic
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTopicVersions = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const topic = await this.topicService.getTopic(id, req.user);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    const versions = await this.topicService.getAllTopicVersions(topic.rootTopicId, req.user);
+    
+    res.status(200).json(versions);
+  };
+  
+  /**
+   * Gets a specific version of a topic
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTopicVersion = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const version = this.parsePositiveInteger(req.params.version);
+    
+    if (version === null) {
+      throw new ValidationError('Version must be a positive integer');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const topic = await this.topicService.getTopic(id, req.user);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    const topicVersion = await this.topicService.getTopicVersion(
+      topic.rootTopicId,
+      version,
+      req.user
+    );
+    
+    if (!topicVersion) {
+      throw new NotFoundError(`Version ${version} of topic ${id} not found`);
+    }
+    
+    this.sendTopicVersion(req, res, topicVersion);
+  };
+  
+  /**
+   * Compares two versions of a topic
+   * Expects `from` and `to` version numbers and an optional `granularity` (line or word) in the query
+   * @param req Express request
+   * @param res Express response
+   */
+  public diffTopicVersions = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const fromVersion = this.parsePositiveInteger(req.query.from);
+    const toVersion = this.parsePositiveInteger(req.query.to);
+    const granularity = req.query.granularity ?? 'line';
+    
+    if (fromVersion === null || toVersion === null) {
+      throw new ValidationError('Query parameters from and to must be positive integers');
+    }
+    
+    if (granularity !== 'line' && granularity !== 'word') {
+      throw new ValidationError('Granularity must be either line or word');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const diff = await this.topicService.diffTopicVersions(
+      id,
+      fromVersion,
+      toVersion,
+      req.user,
+      granularity as DiffGranularity
+    );
+    
+    if (!diff) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(200).json(diff);
+  };
+  
+  /**
+   * Reverts a topic to an earlier version
+   * @param req Express request
+   * @param res Express response
+   */
+  public revertTopic = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const version = this.parsePositiveInteger(req.params.version);
+    
+    if (version === null) {
+      throw new ValidationError('Version must be a positive integer');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const topic = await this.topicService.revertTopic(id, version, req.user);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(201).json(topic);
+  };
+  
+  /**
+   * Gets the access control entries attached to a topic
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTopicAcl = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const entries = await this.topicService.getTopicAcl(id, req.user);
+    
+    if (!entries) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(200).json(entries);
+  };
+  
+  /**
+   * Replaces the access control entries attached to a topic
+   * Expects `entries` in the body: a list of `principalType`, `principalId` and `permission`
+   * @param req Express request
+   * @param res Express response
+   */
+  public setTopicAcl = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { entries } = req.body;
+    
+    if (!Array.isArray(entries) || !entries.every(entry => this.isAclEntry(entry))) {
+      throw new ValidationError(
+        `Entries must be a list of principalType (${Object.values(AclPrincipalType).join(', ')}), ` +
+        `principalId and permission (${Object.values(TopicPermission).join(', ')})`
+      );
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const stored = await this.topicService.setTopicAcl(id, entries, req.user);
+    
+    if (!stored) {
+      throw new NotFoundError(`Topic with ID ${id} not found`);
+    }
+    
+    res.status(200).json(stored);
+  };
+  
+  /**
+   * Finds the shortest path between two topics
+   * Accepts an optional `maxDepth` (positive integer) and `direction` (any, ancestors or descendants) in the query
+   * @param req Express request
+   * @param res Express response
+   */
+  public findPath = async (req: Request, res: Response): Promise<void> => {
+    const { id, targetId } = req.params;
+    const maxDepth = req.query.maxDepth === undefined
+      ? undefined
+      : this.parsePositiveInteger(req.query.maxDepth);
+    const direction = req.query.direction ?? 'any';
+    
+    if (maxDepth === null) {
+      throw new ValidationError('maxDepth must be a positive integer');
+    }
+    
+    if (direction !== 'any' && direction !== 'ancestors' && direction !== 'descendants') {
+      throw new ValidationError('Direction must be one of any, ancestors or descendants');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const path = await this.topicService.findPath(id, targetId, req.user, {
+      maxDepth,
+      direction: direction as TopicPathDirection
+    });
+    
+    if (!path) {
+      throw new NotFoundError(`No path found from topic ${id} to topic ${targetId}`);
+    }
+    
+    res.status(200).json({
+      hops: path.length - 1,
+      breadcrumb: path.map(topic => topic.name),
+      path
+    });
+  };
+  
+  /**
+   * Sends one page of topics, with a Link header pointing at the next page if there is one
+   * @param req Express request
+   * @param res Express response
+   * @param parentTopicId ID of the parent to list the children of, null for root topics, or undefined for all topics
+   */
+  private async sendTopicPage(req: Request, res: Response, parentTopicId: string | null | undefined): Promise<void> {
+    const { cursor, updatedSince, namePrefix } = req.query;
+    const sortBy = (req.query.sortBy ?? DEFAULT_TOPIC_SORT_FIELD) as TopicSortField;
+    const limit = req.query.limit === undefined ? DEFAULT_PAGE_LIMIT : this.parsePositiveInteger(req.query.limit);
+    const after = typeof cursor === 'string' ? decodeCursor(cursor, sortBy) : undefined;
+    
+    if (limit === null || limit > TOPIC_PAGE_MAX_LIMIT) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${TOPIC_PAGE_MAX_LIMIT}`);
+    }
+    
+    if (after === null) {
+      throw new ValidationError('Cursor is not valid for this listing');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const page = await this.topicService.listTopics({
+      parentTopicId,
+      updatedSince: typeof updatedSince === 'string' ? new Date(updatedSince) : undefined,
+      namePrefix: typeof namePrefix === 'string' ? namePrefix : undefined,
+      sortBy,
+      sortDirection: (req.query.order ?? 'asc') as SortDirection,
+      after,
+      limit
+    }, req.user);
+    
+    if (page.next) {
+      const next = new URL(req.originalUrl, 'http://localhost');
+      next.searchParams.set('cursor', encodeCursor(page.next, sortBy));
+      res.setHeader('Link', `<${next.pathname}${next.search}>; rel="next"`);
+    }
+    
+    res.status(200).json(page.items);
+  }
+  
+  /**
+   * Sends a topic version tagged with its version number
+   * Answers 304 without a body if the client's If-None-Match already names the version
+   * @param req Express request
+   * @param res Express response
+   * @param topic The topic version to send
+   */
+  private sendTopicVersion(req: Request, res: Response, topic: Topic): void {
+    const etag = versionETag(topic.version);
+    res.setHeader('ETag', etag);
+    
+    if (matchesETag(parseETags(req.headers['if-none-match']), etag)) {
+      res.status(304).send();
+      return;
+    }
+    
+    res.status(200).json(topic);
+  }
+  
+  /**
+   * Reads the version a change is based on from the If-Match header
+   * @param req Express request
+   * @returns The version, or undefined if the header is missing or `*`
+   * @throws ValidationError if the header names more than one entity tag
+   * @throws PreconditionFailedError if the entity tag is not the tag of a topic version
+   */
+  private expectedVersion(req: Request): number | undefined {
+    const tags = parseETags(req.headers['if-match']);
+    
+    if (tags === null || tags === '*') {
+      return undefined;
+    }
+    
+    if (tags.length !== 1) {
+      throw new ValidationError('If-Match must name a single ETag');
+    }
+    
+    const version = versionFromETag(tags[0]);
+    
+    if (version === null) {
+      throw new PreconditionFailedError(`If-Match ${tags[0]} does not name a version of the topic`);
+    }
+    
+    return version;
+  }
+  
+  /**
+   * Parses a positive integer, such as a version number, from a route or query parameter
+   * @param value The raw parameter value
+   * @returns The number, or null if it is not a positive integer
+   */
+  private parsePositiveInteger(value: unknown): number | null {
+    if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+      return null;
+    }
+    
+    const parsed = Number(value);
+    return parsed >= 1 ? parsed : null;
+  }
+  
+  /**
+   * Checks whether a value is a topic delete mode
+   * @param value The raw value
+   */
+  private isDeleteMode(value: unknown): value is TopicDeleteMode {
+    return value === 'orphan-check' || value === 'cascade' || value === 'reparent';
+  }
+  
+  /**
+   * Checks whether a value is a well-formed access control entry
+   * @param value The raw value
+   */
+  private isAclEntry(value: unknown): value is TopicAclEntryInput {
+    const entry = value as Partial<TopicAclEntryInput> | null;
+    
+    return typeof entry === 'object' && entry !== null &&
+      Object.values(AclPrincipalType).includes(entry.principalType as AclPrincipalType) &&
+      typeof entry.principalId === 'string' && entry.principalId.trim().length > 0 &&
+      Object.values(TopicPermission).includes(entry.permission as TopicPermission);
+  }
+}
@@ -0,0 +1,55 @@
+import { Request, Response } from 'express';
+import { TrashService } from '../services/TrashService';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { NotFoundError } from '../errors/NotFoundError';
+
+/**
+ * Controller for the trash of deleted topics and resources
+ */
+export class TrashController {
+  private trashService: TrashService;
+  
+  /**
+   * Creates a new TrashController instance
+   * @param trashService The trash service to use
+   */
+  constructor(trashService?: TrashService) {
+    this.trashService = trashService || new TrashService();
+  }
+  
+  /**
+   * Gets the topics and resources in the trash
+   * @param req Express request
+   * @param res Express response
+   */
+  public getTrash = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const trash = await this.trashService.getTrash(req.user);
+    
+    res.status(200).json(trash);
+  };
+  
+  /**
+   * Takes a topic, with the subtree deleted together with it, or a resource out of the trash
+   * @param req Express request
+   * @param res Express response
+   */
+  public restore = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const restored = await this.trashService.restore(id, req.user);
+    
+    if (!restored) {
+      throw new NotFoundError(`Nothing with ID ${id} is in the trash`);
+    }
+    
+    res.status(200).json(restored);
+  };
+}
@@ -0,0 +1,252 @@
+import { Request, Response } from 'express';
+import { SecureUserService } from '../services/SecureUserService';
+import { User } from '../models/User';
+import { UserRole } from '../enums/UserRole';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { NotFoundError } from '../errors/NotFoundError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * User fields that may leave the server
+ */
+interface PublicUser {
+  id: string;
+  name: string;
+  email: string;
+  role: UserRole;
+  groups: string[];
+  createdAt: Date;
+}
+
+/**
+ * Controller for User-related operations
+ */
+export class UserController {
+  private userService: SecureUserService;
+  
+  /**
+   * Creates a new UserController instance
+   * @param userService The user service to use
+   */
+  constructor(userService?: SecureUserService) {
+    this.userService = userService || new SecureUserService();
+  }
+  
+  /**
+   * Gets all users
+   * Accepts an optional `role` in the query to return only users with that role
+   * @param req Express request
+   * @param res Express response
+   */
+  public getAllUsers = async (req: Request, res: Response): Promise<void> => {
+    const { role } = req.query;
+    
+    if (role !== undefined && !this.isRole(role)) {
+      throw new ValidationError(`Role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const users = await this.userService.getAllUsers(req.user, role);
+    
+    res.status(200).json(users.map(user => this.toPublicUser(user)));
+  };
+  
+  /**
+   * Creates a new user
+   * @param req Express request
+   * @param res Express response
+   */
+  public createUser = async (req: Request, res: Response): Promise<void> => {
+    const { name, email, password, role = UserRole.VIEWER } = req.body;
+    
+    if (!name || !email || !password) {
+      throw new ValidationError('Name, email and password are required');
+    }
+    
+    if (!this.isRole(role)) {
+      throw new ValidationError(`Role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.createUser(name, email, password, role, req.user);
+    
+    res.status(201).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Gets a user by ID
+   * @param req Express request
+   * @param res Express response
+   */
+  public getUser = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.getUser(id, req.user);
+    
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    res.status(200).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Gets the profile of the authenticated user
+   * @param req Express request
+   * @param res Express response
+   */
+  public getProfile = async (req: Request, res: Response): Promise<void> => {
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.getUser(req.user.id, req.user);
+    
+    if (!user) {
+      throw new NotFoundError(`User with ID ${req.user.id} not found`);
+    }
+    
+    res.status(200).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Updates the profile of the authenticated user
+   * Changing the password requires `currentPassword`
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateProfile = async (req: Request, res: Response): Promise<void> => {
+    const { name, email, password, currentPassword } = req.body;
+    
+    if (name === undefined && email === undefined && password === undefined) {
+      throw new ValidationError('At least one of name, email or password is required');
+    }
+    
+    if (password !== undefined && !currentPassword) {
+      throw new ValidationError('Current password is required to change the password');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.updateProfile(
+      req.user.id,
+      { name, email, password, currentPassword },
+      req.user
+    );
+    
+    if (!user) {
+      throw new NotFoundError(`User with ID ${req.user.id} not found`);
+    }
+    
+    res.status(200).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Changes the role of a user
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateRole = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { role } = req.body;
+    
+    if (!this.isRole(role)) {
+      throw new ValidationError(`Role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.updateRole(id, role, req.user);
+    
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    res.status(200).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Replaces the groups a user belongs to
+   * @param req Express request
+   * @param res Express response
+   */
+  public updateGroups = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const { groups } = req.body;
+    
+    if (!Array.isArray(groups) || groups.some(group => typeof group !== 'string')) {
+      throw new ValidationError('Groups must be an array of group names');
+    }
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const user = await this.userService.updateGroups(id, groups, req.user);
+    
+    if (!user) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    res.status(200).json(this.toPublicUser(user));
+  };
+  
+  /**
+   * Deletes a user
+   * @param req Express request
+   * @param res Express response
+   */
+  public deleteUser = async (req: Request, res: Response): Promise<void> => {
+    const { id } = req.params;
+    
+    if (!req.user) {
+      throw new AuthenticationError('User not authenticated');
+    }
+    
+    const deleted = await this.userService.deleteUser(id, req.user);
+    
+    if (!deleted) {
+      throw new NotFoundError(`User with ID ${id} not found`);
+    }
+    
+    res.status(204).send();
+  };
+  
+  /**
+   * Picks the fields of a user that may be sent to clients
+   * Password hash and salt are never included, whatever the shape of the stored user
+   * @param user The user to expose
+   */
+  private toPublicUser(user: User): PublicUser {
+    return {
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      groups: user.groups,
+      createdAt: user.createdAt
+    };
+  }
+  
+  /**
+   * Checks whether a value is a known user role
+   * @param value The raw value
+   */
+  private isRole(value: unknown): value is UserRole {
+    return Object.values(UserRole).includes(value as UserRole);
+  }
+}
@@ -0,0 +1,119 @@
+import { Request, Response } from 'express';
+import { AuditController } from '../AuditController';
+import { AuditService } from '../../services/AuditService';
+import { AuditEntry } from '../../models/AuditEntry';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { ValidationError } from '../../errors/ValidationError';
+
+// Mock the AuditService
+jest.mock('../../services/AuditService');
+
+describe('AuditController', () => {
+  let auditController: AuditController;
+  let mockAuditService: jest.Mocked<AuditService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let adminUser: User;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN, 'admin-id');
+    
+    mockRequest = {
+      params: {},
+      query: {},
+      user: adminUser
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    
+    auditController = new AuditController(mockAuditService);
+  });
+  
+  describe('getAuditEntries', () => {
+    it('should return the entries matching the query', async () => {
+      // Arrange
+      const entries = [new AuditEntry('editor-id', AuditAction.DELETE, AuditEntityType.TOPIC, 'topic-id')];
+      mockAuditService.getEntries.mockResolvedValue(entries);
+      mockRequest.query = {
+        actorId: 'editor-id',
+        entityType: 'Topic',
+        entityId: 'topic-id',
+        from: '2026-01-01T00:00:00Z',
+        to: '2026-01-31T00:00:00Z'
+      };
+      
+      // Act
+      await auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockAuditService.getEntries).toHaveBeenCalledWith({
+        actorId: 'editor-id',
+        entityType: AuditEntityType.TOPIC,
+        entityId: 'topic-id',
+        from: new Date('2026-01-01T00:00:00Z'),
+        to: new Date('2026-01-31T00:00:00Z')
+      }, adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(entries);
+    });
+    
+    it('should throw a ValidationError for an unknown entity type', async () => {
+      // Arrange
+      mockRequest.query = { entityType: 'Planet' };
+      
+      // Act
+      const act = auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockAuditService.getEntries).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError for invalid or reversed dates', async () => {
+      // Act
+      mockRequest.query = { from: 'yesterday' };
+      const invalid = auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      mockRequest.query = { from: '2026-02-01', to: '2026-01-01' };
+      const reversed = auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(invalid).rejects.toThrow(ValidationError);
+      await expect(reversed).rejects.toThrow(ValidationError);
+      expect(mockAuditService.getEntries).not.toHaveBeenCalled();
+    });
+    
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+    });
+    
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
+      // Arrange
+      mockAuditService.getEntries.mockRejectedValue(new PermissionDeniedError('User does not have permission to read the audit log'));
+      
+      // Act
+      const act = auditController.getAuditEntries(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+    });
+  });
+});
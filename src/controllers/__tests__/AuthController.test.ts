@@ -0,0 +1,213 @@
+import { Request, Response } from 'express';
+import { AuthController } from '../AuthController';
+import { AuthService } from '../../services/AuthService';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { ValidationError } from '../../errors/ValidationError';
+
+// Mock the AuthService
+jest.mock('../../services/AuthService');
+
+describe('AuthController', () => {
+  let authController: AuthController;
+  let mockAuthService: jest.Mocked<AuthService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockAuthService = new AuthService() as jest.Mocked<AuthService>;
+    
+    mockRequest = {
+      body: {}
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis()
+    };
+    
+    authController = new AuthController(mockAuthService);
+  });
+  
+  describe('login', () => {
+    it('should return the access token without password fields', async () => {
+      // Arrange
+      const user = User.createWithPassword('Test User', 'test@example.com', 'password123', UserRole.EDITOR);
+      mockRequest.body = { email: 'test@example.com', password: 'password123' };
+      mockAuthService.login.mockResolvedValue({
+        accessToken: 'signed-token',
+        tokenType: 'Bearer',
+        expiresIn: 900,
+        refreshToken: 'refresh-token',
+        refreshExpiresIn: 1209600,
+        user
+      });
+      
+      // Act
+      await authController.login(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockAuthService.login).toHaveBeenCalledWith('test@example.com', 'password123');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      const body = JSON.parse(JSON.stringify((mockResponse.json as jest.Mock).mock.calls[0][0]));
+      expect(body.accessToken).toBe('signed-token');
+      expect(body.user).not.toHaveProperty('passwordHash');
+      expect(body.user).not.toHaveProperty('passwordSalt');
+    });
+    
+    it('should throw a ValidationError if credentials are missing', async () => {
+      // Arrange
+      mockRequest.body = { email: 'test@example.com' };
+      
+      // Act
+      const act = authController.login(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockAuthService.login).not.toHaveBeenCalled();
+    });
+    
+    it('should throw an AuthenticationError for wrong credentials', async () => {
+      // Arrange
+      mockRequest.body = { email: 'test@example.com', password: 'wrong-password' };
+      mockAuthService.login.mockResolvedValue(null);
+      
+      // Act
+      const act = authController.login(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      await expect(act).rejects.toThrow('Invalid email or password');
+    });
+    
+    it('should pass on unexpected errors', async () => {
+      // Arrange
+      mockRequest.body = { email: 'test@example.com', password: 'password123' };
+      mockAuthService.login.mockRejectedValue(new Error('Database error'));
+      
+      // Act
+      const act = authController.login(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Database error');
+    });
+  });
+  
+  describe('refresh', () => {
+    it('should return the new tokens', async () => {
+      // Arrange
+      const user = new User('Test User', 'test@example.com', UserRole.EDITOR);
+      const result = {
+        accessToken: 'new-access-token',
+        tokenType: 'Bearer' as const,
+        expiresIn: 900,
+        refreshToken: 'new-refresh-token',
+        refreshExpiresIn: 1209600,
+        user
+      };
+      mockRequest.body = { refreshToken: 'refresh-token' };
+      mockAuthService.refresh.mockResolvedValue(result);
+      
+      // Act
+      await authController.refresh(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockAuthService.refresh).toHaveBeenCalledWith('refresh-token');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(result);
+    });
+    
+    it('should throw a ValidationError if the refresh token is missing', async () => {
+      // Act
+      const act = authController.refresh(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockAuthService.refresh).not.toHaveBeenCalled();
+    });
+    
+    it('should throw an AuthenticationError if the refresh token is rejected', async () => {
+      // Arrange
+      mockRequest.body = { refreshToken: 'reused-token' };
+      mockAuthService.refresh.mockRejectedValue(new AuthenticationError('Refresh token reuse detected'));
+      
+      // Act
+      const act = authController.refresh(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      await expect(act).rejects.toThrow('Refresh token reuse detected');
+    });
+    
+    it('should pass on unexpected errors', async () => {
+      // Arrange
+      mockRequest.body = { refreshToken: 'refresh-token' };
+      mockAuthService.refresh.mockRejectedValue(new Error('Database error'));
+      
+      // Act
+      const act = authController.refresh(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Database error');
+    });
+  });
+  
+  describe('logout', () => {
+    it('should revoke the session and return 204', async () => {
+      // Arrange
+      mockRequest.body = { refreshToken: 'refresh-token' };
+      mockAuthService.logout.mockResolvedValue();
+      
+      // Act
+      await authController.logout(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockAuthService.logout).toHaveBeenCalledWith('refresh-token');
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(mockResponse.send).toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError if the refresh token is missing', async () => {
+      // Act
+      const act = authController.logout(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockAuthService.logout).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('revokeSessions', () => {
+    it('should return the number of revoked sessions', async () => {
+      // Arrange
+      mockRequest.params = { userId: 'user-id' };
+      mockAuthService.revokeAllSessions.mockResolvedValue(2);
+      
+      // Act
+      await authController.revokeSessions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockAuthService.revokeAllSessions).toHaveBeenCalledWith('user-id');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({ userId: 'user-id', revoked: 2 });
+    });
+    
+    it('should throw a NotFoundError if the user does not exist', async () => {
+      // Arrange
+      mockRequest.params = { userId: 'missing-id' };
+      mockAuthService.revokeAllSessions.mockRejectedValue(new NotFoundError('User with ID missing-id not found'));
+      
+      // Act
+      const act = authController.revokeSessions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { Request, Response } from 'express';
+import { ResourceController } from '../ResourceController';
+import { SecureResourceService } from '../../services/SecureResourceService';
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { ResourceType } from '../../enums/ResourceType';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { ValidationError } from '../../errors/ValidationError';
+
+// Mock the SecureResourceService
+jest.mock('../../services/SecureResourceService');
+
+describe('ResourceController', () => {
+  let resourceController: ResourceController;
+  let mockResourceService: jest.Mocked<SecureResourceService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let mockUser: User;
+  let mockResource: Resource;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockResourceService = new SecureResourceService() as jest.Mocked<SecureResourceService>;
+    mockUser = new User('Test User', 'test@example.com', UserRole.ADMIN, 'test-id');
+    mockResource = new Resource('topic-id', 'https://example.com', 'Example', ResourceType.LINK);
+    
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+      user: mockUser
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis()
+    };
+    
+    resourceController = new ResourceController(mockResourceService);
+  });
+  
+  describe('createResource', () => {
+    it('should create a resource successfully', async () => {
+      // Arrange
+      mockRequest.body = {
+        topicId: 'topic-id',
+        url: 'https://example.com',
+        description: 'Example',
+        type: ResourceType.LINK
+      };
+      mockResourceService.createResource.mockResolvedValue(mockResource);
+      
+      // Act
+      await resourceController.createResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResourceService.createResource).toHaveBeenCalledWith(
+        'topic-id', 'https://example.com', 'Example', ResourceType.LINK, mockUser
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockResource);
+    });
+    
+    it('should throw a ValidationError if required fields are missing', async () => {
+      // Arrange
+      mockRequest.body = { topicId: 'topic-id' };
+      
+      // Act
+      const act = resourceController.createResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockResourceService.createResource).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError if the resource is invalid', async () => {
+      // Arrange
+      mockRequest.body = {
+        topicId: 'topic-id',
+        url: 'not a url',
+        description: 'Example',
+        type: ResourceType.LINK
+      };
+      mockResourceService.createResource.mockRejectedValue(
+        new ValidationError('Invalid resource: Resource URL is not valid')
+      );
+      
+      // Act
+      const act = resourceController.createResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Invalid resource: Resource URL is not valid');
+    });
+    
+    it('should throw a NotFoundError if the topic does not exist', async () => {
+      // Arrange
+      mockRequest.body = {
+        topicId: 'missing-id',
+        url: 'https://example.com',
+        description: 'Example',
+        type: ResourceType.LINK
+      };
+      mockResourceService.createResource.mockRejectedValue(new NotFoundError('Topic with ID missing-id not found'));
+      
+      // Act
+      const act = resourceController.createResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+    
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
+      // Arrange
+      mockRequest.body = {
+        topicId: 'topic-id',
+        url: 'https://example.com',
+        description: 'Example',
+        type: ResourceType.LINK
+      };
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = resourceController.createResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+    });
+  });
+  
+  describe('getResource', () => {
+    it('should return the resource', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      mockResourceService.getResource.mockResolvedValue(mockResource);
+      
+      // Act
+      await resourceController.getResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockResource);
+    });
+    
+    it('should throw a NotFoundError if the resource does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockResourceService.getResource.mockResolvedValue(null);
+      
+      // Act
+      const act = resourceController.getResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Resource with ID missing-id not found');
+    });
+    
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      const permissionError = new PermissionDeniedError('User does not have permission to read this resource');
+      mockResourceService.getResource.mockRejectedValue(permissionError);
+      
+      // Act
+      const act = resourceController.getResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      await expect(act).rejects.toThrow(permissionError.message);
+    });
+  });
+  
+  describe('getAllResources', () => {
+    it('should return resources filtered by type', async () => {
+      // Arrange
+      mockRequest.query = { type: 'link' };
+      mockResourceService.getAllResources.mockResolvedValue([mockResource]);
+      
+      // Act
+      await resourceController.getAllResources(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResourceService.getAllResources).toHaveBeenCalledWith(mockUser, ResourceType.LINK);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith([mockResource]);
+    });
+    
+    it('should throw a ValidationError for an unknown type', async () => {
+      // Arrange
+      mockRequest.query = { type: 'podcast' };
+      
+      // Act
+      const act = resourceController.getAllResources(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockResourceService.getAllResources).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getTopicResources', () => {
+    it('should return the resources of a topic', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockResourceService.getResourcesByTopic.mockResolvedValue([mockResource]);
+      
+      // Act
+      await resourceController.getTopicResources(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResourceService.getResourcesByTopic).toHaveBeenCalledWith('topic-id', mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith([mockResource]);
+    });
+    
+    it('should throw a NotFoundError if the topic does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockResourceService.getResourcesByTopic.mockRejectedValue(new NotFoundError('Topic with ID missing-id not found'));
+      
+      // Act
+      const act = resourceController.getTopicResources(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+  });
+  
+  describe('updateResource', () => {
+    it('should update a resource', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      mockRequest.body = { description: 'Updated' };
+      mockResourceService.updateResource.mockResolvedValue(mockResource);
+      
+      // Act
+      await resourceController.updateResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResourceService.updateResource).toHaveBeenCalledWith(
+        mockResource.id,
+        { url: undefined, description: 'Updated', type: undefined },
+        mockUser
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+    
+    it('should throw a ValidationError if no fields are given', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      
+      // Act
+      const act = resourceController.updateResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockResourceService.updateResource).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError if the change is invalid', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      mockRequest.body = { type: 'podcast' };
+      mockResourceService.updateResource.mockRejectedValue(
+        new ValidationError('Invalid resource: Resource type must be one of: video, article')
+      );
+      
+      // Act
+      const act = resourceController.updateResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+    });
+  });
+  
+  describe('deleteResource', () => {
+    it('should delete a resource', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      mockResourceService.deleteResource.mockResolvedValue(true);
+      
+      // Act
+      await resourceController.deleteResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+      expect(mockResponse.send).toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if the resource does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockResourceService.deleteResource.mockResolvedValue(false);
+      
+      // Act
+      const act = resourceController.deleteResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+    
+    it('should pass on unexpected errors', async () => {
+      // Arrange
+      mockRequest.params = { id: mockResource.id };
+      mockResourceService.deleteResource.mockRejectedValue(new Error('Disk full'));
+      
+      // Act
+      const act = resourceController.deleteResource(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+    });
+  });
+});
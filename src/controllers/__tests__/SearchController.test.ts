@@ -0,0 +1,117 @@
+import { Request, Response } from 'express';
+import { SearchController } from '../SearchController';
+import { SearchResult, SearchService } from '../../services/SearchService';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { ValidationError } from '../../errors/ValidationError';
+
+// Mock the SearchService
+jest.mock('../../services/SearchService');
+
+describe('SearchController', () => {
+  let searchController: SearchController;
+  let mockSearchService: jest.Mocked<SearchService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let viewerUser: User;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockSearchService = new SearchService() as jest.Mocked<SearchService>;
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER, 'viewer-id');
+    
+    mockRequest = {
+      params: {},
+      query: { q: 'databases' },
+      user: viewerUser
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    
+    searchController = new SearchController(mockSearchService);
+  });
+  
+  describe('search', () => {
+    it('should return the results of the search', async () => {
+      // Arrange
+      const results: SearchResult[] = [
+        { type: 'topic', id: 'topic-id', title: 'Databases', score: 1.5, snippets: [] }
+      ];
+      mockSearchService.search.mockResolvedValue(results);
+      mockRequest.query = { q: 'databases', limit: '5', type: 'topic' };
+      
+      // Act
+      await searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockSearchService.search).toHaveBeenCalledWith('databases', viewerUser, { limit: 5, type: 'topic' });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(results);
+    });
+    
+    it('should return 20 results of any type by default', async () => {
+      // Arrange
+      mockSearchService.search.mockResolvedValue([]);
+      
+      // Act
+      await searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockSearchService.search).toHaveBeenCalledWith('databases', viewerUser, { limit: 20, type: undefined });
+    });
+    
+    it('should reject a missing or blank search text', async () => {
+      // Arrange
+      mockRequest.query = { q: '  ' };
+      
+      // Act
+      const act = searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Search text is required');
+      expect(mockSearchService.search).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a limit out of range', async () => {
+      // Arrange
+      mockRequest.query = { q: 'databases', limit: '51' };
+      
+      // Act
+      const act = searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Limit must be an integer between 1 and 50');
+    });
+    
+    it('should reject an unknown type', async () => {
+      // Arrange
+      mockRequest.query = { q: 'databases', type: 'user' };
+      
+      // Act
+      const act = searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Type must be one of: topic, resource');
+    });
+    
+    it('should reject unauthenticated requests', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = searchController.search(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+    });
+  });
+});
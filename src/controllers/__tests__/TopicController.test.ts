@@ -1,9 +1,19 @@
 import { Request, Response } from 'express';
 import { TopicController } from '../TopicController';
 import { SecureTopicService } from '../../services/SecureTopicService';
+import { TopicDeletionPlan } from '../../services/ITopicService';
 import { User } from '../../models/User';
 import { UserRole } from '../../enums/UserRole';
 import { Topic } from '../../models/Topic';
+import { TopicAclEntry } from '../../models/TopicAclEntry';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { PreconditionFailedError } from '../../errors/PreconditionFailedError';
+import { ValidationError } from '../../errors/ValidationError';
+import { encodeCursor } from '../../utils/pageCursor';
 
 // Mock the SecureTopicService
 jest.mock('../../services/SecureTopicService');
@@ -33,13 +43,16 @@ describe('TopicController', () => {
     mockRequest = {
       params: {},
       body: {},
+      query: {},
+      headers: {},
       user: mockUser
     };
     
     mockResponse = {
       status: jest.fn().mockReturnThis(),
       json: jest.fn().mockReturnThis(),
-      send: jest.fn().mockReturnThis()
+      send: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis()
     };
     
     // Create the controller with the mock service
@@ -94,7 +107,7 @@ describe('TopicController', () => {
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
     });
     
-    it('should return 400 if name or content is missing', async () => {
+    it('should throw a ValidationError if name or content is missing', async () => {
       // Arrange
       mockRequest.body = {
         name: 'New Topic'
@@ -102,15 +115,15 @@ describe('TopicController', () => {
       };
       
       // Act
-      await topicController.createTopic(mockRequest as Request, mockResponse as Response);
+      const act = topicController.createTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Name and content are required');
       expect(mockTopicService.createTopic).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(400);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Name and content are required' });
     });
     
-    it('should return 401 if user is not authenticated', async () => {
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
       // Arrange
       mockRequest.body = {
         name: 'New Topic',
@@ -119,31 +132,31 @@ describe('TopicController', () => {
       mockRequest.user = undefined;
       
       // Act
-      await topicController.createTopic(mockRequest as Request, mockResponse as Response);
+      const act = topicController.createTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      await expect(act).rejects.toThrow('User not authenticated');
       expect(mockTopicService.createTopic).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'User not authenticated' });
     });
     
-    it('should return 403 if user does not have permission', async () => {
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
       // Arrange
       mockRequest.body = {
         name: 'New Topic',
         content: 'New Content'
       };
       
-      const permissionError = new Error('User does not have permission to create topics');
+      const permissionError = new PermissionDeniedError('User does not have permission to create topics');
       mockTopicService.createTopic.mockRejectedValue(permissionError);
       
       // Act
-      await topicController.createTopic(mockRequest as Request, mockResponse as Response);
+      const act = topicController.createTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      await expect(act).rejects.toThrow(permissionError.message);
       expect(mockTopicService.createTopic).toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(403);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: permissionError.message });
     });
   });
   
@@ -161,11 +174,47 @@ describe('TopicController', () => {
       
       // Assert
       expect(mockTopicService.getTopic).toHaveBeenCalledWith('topic-id', mockUser);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"1"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
+    });
+    
+    it('should answer 304 without a body if If-None-Match names the current version', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.headers = { 'if-none-match': 'W/"1"' };
+      
+      mockTopicService.getTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.getTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"1"');
+      expect(mockResponse.status).toHaveBeenCalledWith(304);
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+    
+    it('should send the topic if If-None-Match names another version', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.headers = { 'if-none-match': '"2"' };
+      
+      mockTopicService.getTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.getTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
     });
     
-    it('should return 404 if topic is not found', async () => {
+    it('should throw a NotFoundError if topic is not found', async () => {
       // Arrange
       mockRequest.params = {
         id: 'non-existent-id'
@@ -174,15 +223,15 @@ describe('TopicController', () => {
       mockTopicService.getTopic.mockResolvedValue(null);
       
       // Act
-      await topicController.getTopic(mockRequest as Request, mockResponse as Response);
+      const act = topicController.getTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow(`Topic with ID non-existent-id not found`);
       expect(mockTopicService.getTopic).toHaveBeenCalledWith('non-existent-id', mockUser);
-      expect(mockResponse.status).toHaveBeenCalledWith(404);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: `Topic with ID non-existent-id not found` });
     });
     
-    it('should return 401 if user is not authenticated', async () => {
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
       // Arrange
       mockRequest.params = {
         id: 'topic-id'
@@ -190,12 +239,12 @@ describe('TopicController', () => {
       mockRequest.user = undefined;
       
       // Act
-      await topicController.getTopic(mockRequest as Request, mockResponse as Response);
+      const act = topicController.getTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      await expect(act).rejects.toThrow('User not authenticated');
       expect(mockTopicService.getTopic).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'User not authenticated' });
     });
   });
   
@@ -219,6 +268,7 @@ describe('TopicController', () => {
         'topic-id',
         'Updated Content',
         mockUser,
+        undefined,
         undefined
       );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
@@ -245,13 +295,14 @@ describe('TopicController', () => {
         'topic-id',
         'Updated Content',
         mockUser,
-        'Updated Name'
+        'Updated Name',
+        undefined
       );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
     });
     
-    it('should return 400 if content is missing', async () => {
+    it('should throw a ValidationError if content is missing', async () => {
       // Arrange
       mockRequest.params = {
         id: 'topic-id'
@@ -261,13 +312,91 @@ describe('TopicController', () => {
         name: 'Updated Name'
       };
       
+      // Act
+      const act = topicController.updateTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Content is required');
+      expect(mockTopicService.updateTopic).not.toHaveBeenCalled();
+    });
+    
+    it('should pass the version named by If-Match and tag the new version', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.body = {
+        content: 'Updated Content'
+      };
+      mockRequest.headers = { 'if-match': '"1"' };
+      
+      const updated = mockTopic.createNewVersion('Updated Content');
+      mockTopicService.updateTopic.mockResolvedValue(updated);
+      
       // Act
       await topicController.updateTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      expect(mockTopicService.updateTopic).toHaveBeenCalledWith('topic-id', 'Updated Content', mockUser, undefined, 1);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"2"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+    
+    it('should not check the version if If-Match is *', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.body = {
+        content: 'Updated Content'
+      };
+      mockRequest.headers = { 'if-match': '*' };
+      
+      mockTopicService.updateTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.updateTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.updateTopic).toHaveBeenCalledWith('topic-id', 'Updated Content', mockUser, undefined, undefined);
+    });
+    
+    it('should throw a PreconditionFailedError if If-Match is not the tag of a version', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.body = {
+        content: 'Updated Content'
+      };
+      mockRequest.headers = { 'if-match': 'W/"1"' };
+      
+      // Act
+      const act = topicController.updateTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PreconditionFailedError);
+      await expect(act).rejects.toThrow('If-Match W/"1" does not name a version of the topic');
       expect(mockTopicService.updateTopic).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(400);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Content is required' });
+    });
+    
+    it('should throw a ValidationError if If-Match names several tags', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.body = {
+        content: 'Updated Content'
+      };
+      mockRequest.headers = { 'if-match': '"1", "2"' };
+      
+      // Act
+      const act = topicController.updateTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('If-Match must name a single ETag');
     });
   });
   
@@ -284,12 +413,12 @@ describe('TopicController', () => {
       await topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
-      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('topic-id', mockUser);
+      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('topic-id', mockUser, 'orphan-check', undefined);
       expect(mockResponse.status).toHaveBeenCalledWith(204);
       expect(mockResponse.send).toHaveBeenCalled();
     });
     
-    it('should return 404 if topic is not found', async () => {
+    it('should throw a NotFoundError if topic is not found', async () => {
       // Arrange
       mockRequest.params = {
         id: 'non-existent-id'
@@ -297,48 +426,245 @@ describe('TopicController', () => {
       
       mockTopicService.deleteTopic.mockResolvedValue(false);
       
+      // Act
+      const act = topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow(`Topic with ID non-existent-id not found`);
+      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('non-existent-id', mockUser, 'orphan-check', undefined);
+    });
+    
+    it('should delete a subtree in the requested mode', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.query = { mode: 'cascade', dryRun: 'false' };
+      
+      mockTopicService.deleteTopic.mockResolvedValue(true);
+      
+      // Act
+      await topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('topic-id', mockUser, 'cascade', undefined);
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+    
+    it('should pass the version named by If-Match', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.headers = { 'if-match': '"4"' };
+      
+      mockTopicService.deleteTopic.mockResolvedValue(true);
+      
+      // Act
+      await topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('topic-id', mockUser, 'orphan-check', 4);
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+    
+    it('should report what would be deleted on a dry run without deleting', async () => {
+      // Arrange
+      const plan: TopicDeletionPlan = {
+        mode: 'reparent',
+        deletedTopics: [mockTopic],
+        deletedResources: [],
+        movedTopics: [],
+        newParentTopicId: null
+      };
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.query = { mode: 'reparent', dryRun: 'true' };
+      
+      mockTopicService.planTopicDeletion.mockResolvedValue(plan);
+      
       // Act
       await topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
       
       // Assert
-      expect(mockTopicService.deleteTopic).toHaveBeenCalledWith('non-existent-id', mockUser);
-      expect(mockResponse.status).toHaveBeenCalledWith(404);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: `Topic with ID non-existent-id not found` });
+      expect(mockTopicService.planTopicDeletion).toHaveBeenCalledWith('topic-id', 'reparent', mockUser);
+      expect(mockTopicService.deleteTopic).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(plan);
+    });
+    
+    it('should throw a NotFoundError on a dry run for a missing topic', async () => {
+      // Arrange
+      mockRequest.params = { id: 'non-existent-id' };
+      mockRequest.query = { dryRun: 'true' };
+      
+      mockTopicService.planTopicDeletion.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+    
+    it('should throw a ValidationError for an unknown mode', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.query = { mode: 'recursive' };
+      
+      // Act
+      const act = topicController.deleteTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Mode must be one of: orphan-check, cascade, reparent');
+      expect(mockTopicService.deleteTopic).not.toHaveBeenCalled();
     });
   });
   
   describe('getAllTopics', () => {
-    it('should get all topics successfully', async () => {
+    beforeEach(() => {
+      mockRequest.query = {};
+      mockRequest.originalUrl = '/api/topics?limit=2';
+      mockResponse.setHeader = jest.fn().mockReturnThis();
+    });
+    
+    it('should get the first page of topics with the default options', async () => {
       // Arrange
       const mockTopics = [mockTopic, new Topic('Another Topic', 'Another Content')];
-      mockTopicService.getAllTopics.mockResolvedValue(mockTopics);
+      mockTopicService.listTopics.mockResolvedValue({ items: mockTopics, next: null });
       
       // Act
       await topicController.getAllTopics(mockRequest as Request, mockResponse as Response);
       
       // Assert
-      expect(mockTopicService.getAllTopics).toHaveBeenCalledWith(mockUser);
+      expect(mockTopicService.listTopics).toHaveBeenCalledWith({
+        parentTopicId: undefined,
+        updatedSince: undefined,
+        namePrefix: undefined,
+        sortBy: 'createdAt',
+        sortDirection: 'asc',
+        after: undefined,
+        limit: 20
+      }, mockUser);
+      expect(mockResponse.setHeader).not.toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopics);
     });
+    
+    it('should pass filters, sort order and cursor on to the service', async () => {
+      // Arrange
+      const cursor = encodeCursor({ value: 'Alpha', id: 'alpha-id' }, 'name');
+      mockRequest.query = {
+        parentTopicId: 'parent-id',
+        updatedSince: '2026-01-01T00:00:00Z',
+        namePrefix: 'Ty',
+        sortBy: 'name',
+        order: 'desc',
+        cursor,
+        limit: '2'
+      };
+      mockTopicService.listTopics.mockResolvedValue({ items: [mockTopic], next: null });
+      
+      // Act
+      await topicController.getAllTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.listTopics).toHaveBeenCalledWith({
+        parentTopicId: 'parent-id',
+        updatedSince: new Date('2026-01-01T00:00:00Z'),
+        namePrefix: 'Ty',
+        sortBy: 'name',
+        sortDirection: 'desc',
+        after: { value: 'Alpha', id: 'alpha-id' },
+        limit: 2
+      }, mockUser);
+    });
+    
+    it('should link to the next page', async () => {
+      // Arrange
+      const next = { value: '2026-01-01T00:00:00.000Z', id: mockTopic.id };
+      mockTopicService.listTopics.mockResolvedValue({ items: [mockTopic], next });
+      
+      // Act
+      await topicController.getAllTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        'Link',
+        `</api/topics?limit=2&cursor=${encodeCursor(next, 'createdAt')}>; rel="next"`
+      );
+    });
+    
+    it('should throw a ValidationError for a cursor of another sort order', async () => {
+      // Arrange
+      mockRequest.query = { cursor: encodeCursor({ value: 'Alpha', id: 'alpha-id' }, 'name') };
+      
+      // Act
+      const act = topicController.getAllTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockTopicService.listTopics).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError for a limit above the maximum', async () => {
+      // Arrange
+      mockRequest.query = { limit: '101' };
+      
+      // Act
+      const act = topicController.getAllTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockTopicService.listTopics).not.toHaveBeenCalled();
+    });
   });
   
   describe('getRootTopics', () => {
-    it('should get root topics successfully', async () => {
+    it('should get a page of root topics', async () => {
       // Arrange
       const mockTopics = [mockTopic, new Topic('Another Root Topic', 'Another Content')];
-      mockTopicService.getRootTopics.mockResolvedValue(mockTopics);
+      mockRequest.query = { parentTopicId: 'parent-id' };
+      mockTopicService.listTopics.mockResolvedValue({ items: mockTopics, next: null });
       
       // Act
       await topicController.getRootTopics(mockRequest as Request, mockResponse as Response);
       
       // Assert
-      expect(mockTopicService.getRootTopics).toHaveBeenCalledWith(mockUser);
+      expect(mockTopicService.listTopics).toHaveBeenCalledWith(
+        expect.objectContaining({ parentTopicId: null }),
+        mockUser
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopics);
     });
   });
   
+  describe('getMyTopics', () => {
+    it('should get the topics owned by the user', async () => {
+      // Arrange
+      const mockTopics = [mockTopic];
+      mockTopicService.getOwnedTopics.mockResolvedValue(mockTopics);
+      
+      // Act
+      await topicController.getMyTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.getOwnedTopics).toHaveBeenCalledWith(mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockTopics);
+    });
+    
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = topicController.getMyTopics(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      expect(mockTopicService.getOwnedTopics).not.toHaveBeenCalled();
+    });
+  });
+  
   describe('getChildTopics', () => {
     it('should get child topics successfully', async () => {
       // Arrange
@@ -381,7 +707,7 @@ describe('TopicController', () => {
       expect(mockResponse.json).toHaveBeenCalledWith(mockTopicTree);
     });
     
-    it('should return 404 if topic is not found', async () => {
+    it('should throw a NotFoundError if topic is not found', async () => {
       // Arrange
       mockRequest.params = {
         id: 'non-existent-id'
@@ -390,12 +716,549 @@ describe('TopicController', () => {
       mockTopicService.getTopicTree.mockResolvedValue(null);
       
       // Act
-      await topicController.getTopicTree(mockRequest as Request, mockResponse as Response);
+      const act = topicController.getTopicTree(mockRequest as Request, mockResponse as Response);
       
       // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow(`Topic with ID non-existent-id not found`);
       expect(mockTopicService.getTopicTree).toHaveBeenCalledWith('non-existent-id', mockUser);
-      expect(mockResponse.status).toHaveBeenCalledWith(404);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: `Topic with ID non-existent-id not found` });
     });
   });
-}); 
\ No newline at end of file
+  
+  describe('getTopicVersions', () => {
+    it('should get all versions of a topic successfully', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      
+      const versions = [mockTopic, mockTopic.createNewVersion('Updated Content')];
+      mockTopicService.getTopic.mockResolvedValue(versions[1]);
+      mockTopicService.getAllTopicVersions.mockResolvedValue(versions);
+      
+      // Act
+      await topicController.getTopicVersions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.getTopic).toHaveBeenCalledWith('topic-id', mockUser);
+      expect(mockTopicService.getAllTopicVersions).toHaveBeenCalledWith(mockTopic.rootTopicId, mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(versions);
+    });
+    
+    it('should throw a NotFoundError if topic is not found', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'non-existent-id'
+      };
+      
+      mockTopicService.getTopic.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.getTopicVersions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      expect(mockTopicService.getAllTopicVersions).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getTopicVersion', () => {
+    it('should get a specific version successfully', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id',
+        version: '1'
+      };
+      
+      mockTopicService.getTopic.mockResolvedValue(mockTopic);
+      mockTopicService.getTopicVersion.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.getTopicVersion(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.getTopicVersion).toHaveBeenCalledWith(mockTopic.rootTopicId, 1, mockUser);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('ETag', '"1"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
+    });
+    
+    it('should throw a ValidationError if version is not a positive integer', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id',
+        version: 'latest'
+      };
+      
+      // Act
+      const act = topicController.getTopicVersion(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Version must be a positive integer');
+      expect(mockTopicService.getTopic).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if version is not found', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id',
+        version: '9'
+      };
+      
+      mockTopicService.getTopic.mockResolvedValue(mockTopic);
+      mockTopicService.getTopicVersion.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.getTopicVersion(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Version 9 of topic topic-id not found');
+    });
+  });
+  
+  describe('diffTopicVersions', () => {
+    it('should diff two versions successfully', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.query = {
+        from: '1',
+        to: '2',
+        granularity: 'word'
+      };
+      
+      const diff = {
+        rootTopicId: 'topic-id',
+        fromVersion: 1,
+        toVersion: 2,
+        granularity: 'word' as const,
+        name: [],
+        content: []
+      };
+      mockTopicService.diffTopicVersions.mockResolvedValue(diff);
+      
+      // Act
+      await topicController.diffTopicVersions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.diffTopicVersions).toHaveBeenCalledWith('topic-id', 1, 2, mockUser, 'word');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(diff);
+    });
+    
+    it('should throw a ValidationError if versions are missing', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.query = {
+        from: '1'
+      };
+      
+      // Act
+      const act = topicController.diffTopicVersions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockTopicService.diffTopicVersions).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if a version is not found', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id'
+      };
+      mockRequest.query = {
+        from: '1',
+        to: '5'
+      };
+      
+      mockTopicService.diffTopicVersions.mockRejectedValue(new NotFoundError('Version 5 of topic topic-id not found'));
+      
+      // Act
+      const act = topicController.diffTopicVersions(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Version 5 of topic topic-id not found');
+    });
+  });
+  
+  describe('moveTopic', () => {
+    it('should move a topic successfully', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = { newParentId: 'parent-id' };
+      
+      mockTopicService.moveTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.moveTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.moveTopic).toHaveBeenCalledWith('topic-id', 'parent-id', mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
+    });
+    
+    it('should move a topic to the root when the new parent is null', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = { newParentId: null };
+      
+      mockTopicService.moveTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.moveTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.moveTopic).toHaveBeenCalledWith('topic-id', null, mockUser);
+    });
+    
+    it('should throw a ValidationError if the new parent is missing', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = {};
+      
+      // Act
+      const act = topicController.moveTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('New parent ID must be a topic ID or null');
+      expect(mockTopicService.moveTopic).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if topic is not found', async () => {
+      // Arrange
+      mockRequest.params = { id: 'non-existent-id' };
+      mockRequest.body = { newParentId: null };
+      
+      mockTopicService.moveTopic.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.moveTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Topic with ID non-existent-id not found');
+    });
+  });
+  
+  describe('copyTopic', () => {
+    it('should copy a topic and respond with the copy', async () => {
+      // Arrange
+      const copy = { tree: { topic: mockTopic, children: [] }, resources: [] };
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = { targetParentId: 'parent-id', includeResources: true, includeHistory: true };
+      
+      mockTopicService.copyTopic.mockResolvedValue(copy);
+      
+      // Act
+      await topicController.copyTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.copyTopic).toHaveBeenCalledWith(
+        'topic-id',
+        { targetParentId: 'parent-id', includeResources: true, includeHistory: true },
+        mockUser
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(copy);
+    });
+    
+    it('should copy only the latest versions of the topics by default', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = { targetParentId: null };
+      
+      mockTopicService.copyTopic.mockResolvedValue({ tree: { topic: mockTopic, children: [] }, resources: [] });
+      
+      // Act
+      await topicController.copyTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.copyTopic).toHaveBeenCalledWith(
+        'topic-id',
+        { targetParentId: null, includeResources: false, includeHistory: false },
+        mockUser
+      );
+    });
+    
+    it('should throw a ValidationError if the target parent is missing', async () => {
+      // Arrange
+      mockRequest.params = { id: 'topic-id' };
+      mockRequest.body = { includeResources: true };
+      
+      // Act
+      const act = topicController.copyTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      await expect(act).rejects.toThrow('Target parent ID must be a topic ID or null');
+      expect(mockTopicService.copyTopic).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if topic is not found', async () => {
+      // Arrange
+      mockRequest.params = { id: 'non-existent-id' };
+      mockRequest.body = { targetParentId: null };
+      
+      mockTopicService.copyTopic.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.copyTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+  });
+  
+  describe('revertTopic', () => {
+    it('should revert a topic successfully', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id',
+        version: '1'
+      };
+      
+      mockTopicService.revertTopic.mockResolvedValue(mockTopic);
+      
+      // Act
+      await topicController.revertTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.revertTopic).toHaveBeenCalledWith('topic-id', 1, mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(mockResponse.json).toHaveBeenCalledWith(mockTopic);
+    });
+    
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
+      // Arrange
+      mockRequest.params = {
+        id: 'topic-id',
+        version: '1'
+      };
+      
+      const permissionError = new PermissionDeniedError('User does not have permission to update this topic');
+      mockTopicService.revertTopic.mockRejectedValue(permissionError);
+      
+      // Act
+      const act = topicController.revertTopic(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      await expect(act).rejects.toThrow(permissionError.message);
+    });
+  });
+  
+  describe('findPath', () => {
+    it('should return the path with hop count and breadcrumb', async () => {
+      // Arrange
+      const parentTopic = new Topic('Parent Topic', 'Parent Content');
+      const childTopic = new Topic('Child Topic', 'Child Content', 1, parentTopic.rootTopicId);
+      mockRequest.params = { id: childTopic.id, targetId: parentTopic.id };
+      mockRequest.query = { maxDepth: '3', direction: 'ancestors' };
+      
+      mockTopicService.findPath.mockResolvedValue([childTopic, parentTopic]);
+      
+      // Act
+      await topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.findPath).toHaveBeenCalledWith(
+        childTopic.id,
+        parentTopic.id,
+        mockUser,
+        { maxDepth: 3, direction: 'ancestors' }
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        hops: 1,
+        breadcrumb: ['Child Topic', 'Parent Topic'],
+        path: [childTopic, parentTopic]
+      });
+    });
+    
+    it('should use the default options when none are given', async () => {
+      // Arrange
+      mockRequest.params = { id: 'start-id', targetId: 'end-id' };
+      mockRequest.query = {};
+      
+      mockTopicService.findPath.mockResolvedValue([mockTopic]);
+      
+      // Act
+      await topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.findPath).toHaveBeenCalledWith(
+        'start-id',
+        'end-id',
+        mockUser,
+        { maxDepth: undefined, direction: 'any' }
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        hops: 0,
+        breadcrumb: ['Test Topic'],
+        path: [mockTopic]
+      });
+    });
+    
+    it('should throw a ValidationError if maxDepth is not a positive integer', async () => {
+      // Arrange
+      mockRequest.params = { id: 'start-id', targetId: 'end-id' };
+      mockRequest.query = { maxDepth: '0' };
+      
+      // Act
+      const act = topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockTopicService.findPath).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError if direction is invalid', async () => {
+      // Arrange
+      mockRequest.params = { id: 'start-id', targetId: 'end-id' };
+      mockRequest.query = { direction: 'sideways' };
+      
+      // Act
+      const act = topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockTopicService.findPath).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if no path exists', async () => {
+      // Arrange
+      mockRequest.params = { id: 'start-id', targetId: 'end-id' };
+      mockRequest.query = {};
+      
+      mockTopicService.findPath.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('No path found from topic start-id to topic end-id');
+    });
+    
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
+      // Arrange
+      mockRequest.params = { id: 'start-id', targetId: 'end-id' };
+      mockRequest.query = {};
+      
+      const permissionError = new PermissionDeniedError('User does not have permission to read one of the topics');
+      mockTopicService.findPath.mockRejectedValue(permissionError);
+      
+      // Act
+      const act = topicController.findPath(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      await expect(act).rejects.toThrow(permissionError.message);
+    });
+  });
+  
+  describe('getTopicAcl', () => {
+    it('should return the entries of a topic', async () => {
+      // Arrange
+      const entries = [new TopicAclEntry(mockTopic.rootTopicId, AclPrincipalType.GROUP, 'team', TopicPermission.READ)];
+      mockRequest.params = { id: mockTopic.id };
+      mockTopicService.getTopicAcl.mockResolvedValue(entries);
+      
+      // Act
+      await topicController.getTopicAcl(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.getTopicAcl).toHaveBeenCalledWith(mockTopic.id, mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(entries);
+    });
+    
+    it('should throw a NotFoundError if the topic does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockTopicService.getTopicAcl.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.getTopicAcl(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+    
+    it('should throw a PermissionDeniedError if the user may not manage the topic', async () => {
+      // Arrange
+      mockRequest.params = { id: mockTopic.id };
+      mockTopicService.getTopicAcl.mockRejectedValue(
+        new PermissionDeniedError('User does not have permission to manage access to this topic')
+      );
+      
+      // Act
+      const act = topicController.getTopicAcl(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+    });
+  });
+  
+  describe('setTopicAcl', () => {
+    it('should replace the entries of a topic', async () => {
+      // Arrange
+      const entries = [{ principalType: AclPrincipalType.USER, principalId: 'user-id', permission: TopicPermission.WRITE }];
+      mockRequest.params = { id: mockTopic.id };
+      mockRequest.body = { entries };
+      mockTopicService.setTopicAcl.mockResolvedValue([]);
+      
+      // Act
+      await topicController.setTopicAcl(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTopicService.setTopicAcl).toHaveBeenCalledWith(mockTopic.id, entries, mockUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+    
+    it('should throw a ValidationError for malformed entries', async () => {
+      // Arrange
+      mockRequest.params = { id: mockTopic.id };
+      
+      for (const entries of [
+        undefined,
+        [{ principalType: 'Team', principalId: 'team', permission: TopicPermission.READ }],
+        [{ principalType: AclPrincipalType.GROUP, principalId: ' ', permission: TopicPermission.READ }],
+        [{ principalType: AclPrincipalType.GROUP, principalId: 'team', permission: 'Owner' }]
+      ]) {
+        mockRequest.body = { entries };
+        
+        // Act
+        const act = topicController.setTopicAcl(mockRequest as Request, mockResponse as Response);
+        
+        // Assert
+        await expect(act).rejects.toThrow(ValidationError);
+      }
+      
+      expect(mockResponse.status).not.toHaveBeenCalled();
+      expect(mockTopicService.setTopicAcl).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if the topic does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockRequest.body = { entries: [] };
+      mockTopicService.setTopicAcl.mockResolvedValue(null);
+      
+      // Act
+      const act = topicController.setTopicAcl(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+  });
+});
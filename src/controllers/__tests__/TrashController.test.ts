@@ -0,0 +1,112 @@
+import { Request, Response } from 'express';
+import { TrashController } from '../TrashController';
+import { TrashService } from '../../services/TrashService';
+import { Topic } from '../../models/Topic';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+
+// Mock the TrashService
+jest.mock('../../services/TrashService');
+
+describe('TrashController', () => {
+  let trashController: TrashController;
+  let mockTrashService: jest.Mocked<TrashService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let adminUser: User;
+  let trashedTopic: Topic;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockTrashService = new TrashService() as jest.Mocked<TrashService>;
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN, 'admin-id');
+    trashedTopic = new Topic('Topic', 'Content').moveToTrash(adminUser.id);
+    
+    mockRequest = {
+      params: {},
+      query: {},
+      user: adminUser
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    };
+    
+    trashController = new TrashController(mockTrashService);
+  });
+  
+  describe('getTrash', () => {
+    it('should return the contents of the trash', async () => {
+      // Arrange
+      const trash = { topics: [trashedTopic], resources: [] };
+      mockTrashService.getTrash.mockResolvedValue(trash);
+      
+      // Act
+      await trashController.getTrash(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTrashService.getTrash).toHaveBeenCalledWith(adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(trash);
+    });
+    
+    it('should let a PermissionDeniedError from the service propagate', async () => {
+      // Arrange
+      mockTrashService.getTrash.mockRejectedValue(new PermissionDeniedError('User does not have permission to manage the trash'));
+      
+      // Act
+      const act = trashController.getTrash(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+    });
+    
+    it('should throw an AuthenticationError if user not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = trashController.getTrash(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+      expect(mockTrashService.getTrash).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('restore', () => {
+    it('should return what was restored', async () => {
+      // Arrange
+      const restored = { topics: [trashedTopic.restoreFromTrash()], resources: [] };
+      mockRequest.params = { id: trashedTopic.id };
+      mockTrashService.restore.mockResolvedValue(restored);
+      
+      // Act
+      await trashController.restore(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockTrashService.restore).toHaveBeenCalledWith(trashedTopic.id, adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(restored);
+    });
+    
+    it('should throw a NotFoundError if nothing with the ID is in the trash', async () => {
+      // Arrange
+      mockRequest.params = { id: 'non-existent-id' };
+      mockTrashService.restore.mockResolvedValue(null);
+      
+      // Act
+      const act = trashController.restore(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Nothing with ID non-existent-id is in the trash');
+    });
+  });
+});
@@ -0,0 +1,350 @@
+import { Request, Response } from 'express';
+import { UserController } from '../UserController';
+import { SecureUserService } from '../../services/SecureUserService';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { ConflictError } from '../../errors/ConflictError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { ValidationError } from '../../errors/ValidationError';
+
+// Mock the SecureUserService
+jest.mock('../../services/SecureUserService');
+
+describe('UserController', () => {
+  let userController: UserController;
+  let mockUserService: jest.Mocked<SecureUserService>;
+  let mockRequest: Partial<Request>;
+  let mockResponse: Partial<Response>;
+  let adminUser: User;
+  let storedUser: User;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockUserService = new SecureUserService() as jest.Mocked<SecureUserService>;
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN, 'admin-id');
+    storedUser = User.createWithPassword('Stored User', 'stored@example.com', 'password123');
+    
+    mockRequest = {
+      params: {},
+      query: {},
+      body: {},
+      user: adminUser
+    };
+    
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      send: jest.fn().mockReturnThis()
+    };
+    
+    userController = new UserController(mockUserService);
+  });
+  
+  /**
+   * Gets the body passed to res.json in the first call
+   */
+  const responseBody = (): unknown => (mockResponse.json as jest.Mock).mock.calls[0][0];
+  
+  describe('getAllUsers', () => {
+    it('should return users without password fields', async () => {
+      // Arrange
+      mockUserService.getAllUsers.mockResolvedValue([storedUser]);
+      
+      // Act
+      await userController.getAllUsers(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseBody()).toEqual([{
+        id: storedUser.id,
+        name: 'Stored User',
+        email: 'stored@example.com',
+        role: UserRole.VIEWER,
+        groups: [],
+        createdAt: storedUser.createdAt
+      }]);
+    });
+    
+    it('should never expose password fields, even for plain stored objects', async () => {
+      // Arrange
+      const plainUser = {
+        id: 'plain-id',
+        name: 'Plain User',
+        email: 'plain@example.com',
+        role: UserRole.VIEWER,
+        createdAt: new Date(),
+        passwordHash: 'hash',
+        passwordSalt: 'salt'
+      } as unknown as User;
+      mockUserService.getAllUsers.mockResolvedValue([plainUser]);
+      
+      // Act
+      await userController.getAllUsers(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      const body = JSON.stringify(responseBody());
+      expect(body).not.toContain('passwordHash');
+      expect(body).not.toContain('passwordSalt');
+    });
+    
+    it('should throw a ValidationError for an unknown role filter', async () => {
+      // Arrange
+      mockRequest.query = { role: 'Owner' };
+      
+      // Act
+      const act = userController.getAllUsers(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockUserService.getAllUsers).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a PermissionDeniedError if user does not have permission', async () => {
+      // Arrange
+      const permissionError = new PermissionDeniedError('User does not have permission to list users');
+      mockUserService.getAllUsers.mockRejectedValue(permissionError);
+      
+      // Act
+      const act = userController.getAllUsers(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      await expect(act).rejects.toThrow(permissionError.message);
+    });
+  });
+  
+  describe('createUser', () => {
+    it('should create a user with the viewer role by default', async () => {
+      // Arrange
+      mockRequest.body = { name: 'Stored User', email: 'stored@example.com', password: 'password123' };
+      mockUserService.createUser.mockResolvedValue(storedUser);
+      
+      // Act
+      await userController.createUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockUserService.createUser).toHaveBeenCalledWith(
+        'Stored User', 'stored@example.com', 'password123', UserRole.VIEWER, adminUser
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(201);
+      expect(responseBody()).not.toHaveProperty('passwordHash');
+    });
+    
+    it('should throw a ValidationError if required fields are missing', async () => {
+      // Arrange
+      mockRequest.body = { name: 'Stored User' };
+      
+      // Act
+      const act = userController.createUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+    });
+    
+    it('should throw a ValidationError for invalid user data', async () => {
+      // Arrange
+      mockRequest.body = { name: 'Stored User', email: 'bad', password: 'password123' };
+      mockUserService.createUser.mockRejectedValue(new ValidationError('Invalid user: User email is not valid'));
+      
+      // Act
+      const act = userController.createUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+    });
+    
+    it('should throw a ConflictError if the email is taken', async () => {
+      // Arrange
+      mockRequest.body = { name: 'Stored User', email: 'stored@example.com', password: 'password123' };
+      mockUserService.createUser.mockRejectedValue(new ConflictError('User with email stored@example.com already exists'));
+      
+      // Act
+      const act = userController.createUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ConflictError);
+    });
+  });
+  
+  describe('getUser', () => {
+    it('should throw a NotFoundError if the user does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockUserService.getUser.mockResolvedValue(null);
+      
+      // Act
+      const act = userController.getUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('User with ID missing-id not found');
+    });
+  });
+  
+  describe('getProfile', () => {
+    it('should return the profile of the authenticated user', async () => {
+      // Arrange
+      mockUserService.getUser.mockResolvedValue(adminUser);
+      
+      // Act
+      await userController.getProfile(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockUserService.getUser).toHaveBeenCalledWith('admin-id', adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+    
+    it('should throw an AuthenticationError if user is not authenticated', async () => {
+      // Arrange
+      mockRequest.user = undefined;
+      
+      // Act
+      const act = userController.getProfile(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(AuthenticationError);
+    });
+  });
+  
+  describe('updateProfile', () => {
+    it('should update the profile of the authenticated user', async () => {
+      // Arrange
+      mockRequest.body = { name: 'New Name' };
+      mockUserService.updateProfile.mockResolvedValue(adminUser);
+      
+      // Act
+      await userController.updateProfile(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockUserService.updateProfile).toHaveBeenCalledWith(
+        'admin-id',
+        { name: 'New Name', email: undefined, password: undefined, currentPassword: undefined },
+        adminUser
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+    
+    it('should throw a ValidationError when changing the password without the current password', async () => {
+      // Arrange
+      mockRequest.body = { password: 'new-password' };
+      
+      // Act
+      const act = userController.updateProfile(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockUserService.updateProfile).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a ValidationError if nothing is changed', async () => {
+      // Act
+      const act = userController.updateProfile(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+    });
+  });
+  
+  describe('updateRole', () => {
+    it('should change the role of a user', async () => {
+      // Arrange
+      mockRequest.params = { id: storedUser.id };
+      mockRequest.body = { role: UserRole.EDITOR };
+      mockUserService.updateRole.mockResolvedValue(storedUser.updateRole(UserRole.EDITOR));
+      
+      // Act
+      await userController.updateRole(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockUserService.updateRole).toHaveBeenCalledWith(storedUser.id, UserRole.EDITOR, adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseBody()).toEqual(expect.objectContaining({ role: UserRole.EDITOR }));
+    });
+    
+    it('should throw a ValidationError for an unknown role', async () => {
+      // Arrange
+      mockRequest.params = { id: storedUser.id };
+      mockRequest.body = { role: 'Owner' };
+      
+      // Act
+      const act = userController.updateRole(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockUserService.updateRole).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('updateGroups', () => {
+    it('should replace the groups of a user', async () => {
+      // Arrange
+      mockRequest.params = { id: storedUser.id };
+      mockRequest.body = { groups: ['team'] };
+      mockUserService.updateGroups.mockResolvedValue(storedUser.updateGroups(['team']));
+      
+      // Act
+      await userController.updateGroups(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockUserService.updateGroups).toHaveBeenCalledWith(storedUser.id, ['team'], adminUser);
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(responseBody()).toEqual(expect.objectContaining({ groups: ['team'] }));
+    });
+    
+    it('should throw a ValidationError if groups is not a list of names', async () => {
+      // Arrange
+      mockRequest.params = { id: storedUser.id };
+      mockRequest.body = { groups: 'team' };
+      
+      // Act
+      const act = userController.updateGroups(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+      expect(mockUserService.updateGroups).not.toHaveBeenCalled();
+    });
+    
+    it('should throw a NotFoundError if the user does not exist', async () => {
+      // Arrange
+      mockRequest.params = { id: 'missing-id' };
+      mockRequest.body = { groups: [] };
+      mockUserService.updateGroups.mockResolvedValue(null);
+      
+      // Act
+      const act = userController.updateGroups(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+    });
+  });
+  
+  describe('deleteUser', () => {
+    it('should delete a user', async () => {
+      // Arrange
+      mockRequest.params = { id: storedUser.id };
+      mockUserService.deleteUser.mockResolvedValue(true);
+      
+      // Act
+      await userController.deleteUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+    
+    it('should throw a ValidationError when admins delete themselves', async () => {
+      // Arrange
+      mockRequest.params = { id: 'admin-id' };
+      mockUserService.deleteUser.mockRejectedValue(new ValidationError('Invalid user: Admins cannot delete their own account'));
+      
+      // Act
+      const act = userController.deleteUser(mockRequest as Request, mockResponse as Response);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ValidationError);
+    });
+  });
+});
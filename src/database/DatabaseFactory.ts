@@ -1,34 +1,252 @@
 import { IDatabase } from './IDatabase';
+import { EntityMapper, EntityRecord, PassThroughMapper } from './EntityMapper';
 import { JsonDatabase } from './JsonDatabase';
+import { SqliteDatabase } from './SqliteDatabase';
+import { getCurrentTransaction, Transaction, TransactionManager } from './Transaction';
+import { JsonTransactionManager } from './JsonTransaction';
+import { SqliteTransactionManager } from './SqliteTransaction';
+import { entityMappers } from './mappers';
+import { entityIndexes } from './indexes';
 import { IEntity } from '../interfaces/IEntity';
 
+/**
+ * Supported database backends
+ */
+export type DatabaseDriver = 'json' | 'sqlite';
+
+/**
+ * Configuration used when creating database instances
+ */
+export interface DatabaseConfig {
+  driver: DatabaseDriver;
+  dataDir?: string; // Directory for JSON files (json driver)
+  fsync?: boolean; // Flush every JSON file write to disk (json driver)
+  sqliteFile?: string; // Path of the database file (sqlite driver)
+}
+
 /**
  * Factory for creating and managing database instances
- * Ensures only one database instance exists per entity type
+ * Ensures only one database instance exists per entity type, converting
+ * entities to and from storage with the mapper registered for the type and
+ * indexing the fields registered for it.
+ * Transactions span the instances of every entity type
  */
 export class DatabaseFactory {
   private static instances: Map<string, IDatabase<IEntity>> = new Map();
+  private static config: DatabaseConfig | null = null;
+  private static mappers: Map<string, EntityMapper<IEntity>> = new Map(Object.entries(entityMappers));
+  private static indexes: Map<string, string[]> = new Map(Object.entries(entityIndexes));
+  private static transactionManager: TransactionManager | null = null;
+
+  /**
+   * Sets the configuration used for new database instances
+   * Existing instances are discarded so the new configuration takes effect
+   *
+   * @param config The database configuration
+   */
+  public static configure(config: DatabaseConfig): void {
+    this.clearDatabases();
+    this.config = config;
+  }
+
+  /**
+   * Registers the mapper used to store an entity type
+   * Replaces any mapper registered before; an existing instance is discarded so the mapper takes effect
+   *
+   * @param entityName The name of the entity type
+   * @param mapper The mapper converting the entities to and from their stored records
+   */
+  public static registerMapper<T extends IEntity, R extends EntityRecord>(
+    entityName: string,
+    mapper: EntityMapper<T, R>
+  ): void {
+    this.mappers.set(entityName, mapper as unknown as EntityMapper<IEntity>);
+    this.closeDatabase(entityName);
+  }
+
+  /**
+   * Gets the mapper used to store an entity type
+   * Entity types without a registered mapper are stored as they are
+   *
+   * @param entityName The name of the entity type
+   */
+  public static getMapper<T extends IEntity>(entityName: string): EntityMapper<T> {
+    const mapper = this.mappers.get(entityName) ?? new PassThroughMapper<IEntity>();
+    return mapper as unknown as EntityMapper<T>;
+  }
+
+  /**
+   * Registers the fields indexed for an entity type
+   * Replaces any fields registered before; an existing instance is discarded so the indexes take effect
+   *
+   * @param entityName The name of the entity type
+   * @param fields The fields to index
+   */
+  public static registerIndexes(entityName: string, fields: string[]): void {
+    this.indexes.set(entityName, fields);
+    this.closeDatabase(entityName);
+  }
+
+  /**
+   * Gets the fields indexed for an entity type
+   *
+   * @param entityName The name of the entity type
+   */
+  public static getIndexes(entityName: string): string[] {
+    return this.indexes.get(entityName) ?? [];
+  }
+
+  /**
+   * Gets the active configuration
+   * Falls back to the DB_DRIVER, DB_DATA_DIR, DB_FSYNC and DB_SQLITE_FILE environment variables
+   */
+  public static getConfig(): DatabaseConfig {
+    if (this.config) {
+      return this.config;
+    }
+
+    const driver = process.env.DB_DRIVER || 'json';
+
+    if (driver !== 'json' && driver !== 'sqlite') {
+      throw new Error(`Unsupported database driver ${driver}`);
+    }
+
+    return {
+      driver,
+      dataDir: process.env.DB_DATA_DIR || undefined,
+      fsync: process.env.DB_FSYNC === 'true',
+      sqliteFile: process.env.DB_SQLITE_FILE || undefined
+    };
+  }
 
   /**
    * Gets a database instance for the specified entity type
    * Creates a new instance if one doesn't exist
-   * 
+   *
    * @param entityName The name of the entity type
    * @returns A database instance for the entity type
    */
   public static getDatabase<T extends IEntity>(entityName: string): IDatabase<T> {
     if (!this.instances.has(entityName)) {
-      this.instances.set(entityName, new JsonDatabase<T>(entityName));
+      this.instances.set(entityName, this.createDatabase<T>(entityName));
     }
 
     return this.instances.get(entityName) as IDatabase<T>;
   }
 
   /**
-   * Clears all database instances
+   * Begins a transaction on the configured database
+   * Database calls take part in it while they run inside transaction.run; it must end with
+   * commit or rollback, since other writes wait for it until then
+   *
+   * @returns Promise resolving to the transaction
+   * @throws Error if the calling code already runs in a transaction
+   */
+  public static beginTransaction(): Promise<Transaction> {
+    return this.getTransactionManager().begin();
+  }
+
+  /**
+   * Runs work as one transaction
+   * Commits once the work is done, or rolls back and rethrows if it fails.
+   * Work that already runs in a transaction simply becomes part of it
+   *
+   * @param work The work to run
+   * @returns Promise resolving to the result of the work
+   */
+  public static async transaction<T>(work: () => Promise<T>): Promise<T> {
+    if (getCurrentTransaction()) {
+      return work();
+    }
+
+    const transaction = await this.beginTransaction();
+    let result: T;
+
+    try {
+      result = await transaction.run(work);
+    } catch (error) {
+      await transaction.rollback();
+      throw error;
+    }
+
+    await transaction.commit();
+    return result;
+  }
+
+  /**
+   * Gets the transaction manager of the configured database
+   * Creates it if it doesn't exist
+   */
+  private static getTransactionManager(): TransactionManager {
+    if (!this.transactionManager) {
+      const config = this.getConfig();
+
+      this.transactionManager = config.driver === 'sqlite'
+        ? new SqliteTransactionManager(config.sqliteFile)
+        : new JsonTransactionManager(config.dataDir, { fsync: config.fsync });
+    }
+
+    return this.transactionManager;
+  }
+
+  /**
+   * Creates a database instance for the configured driver
+   * @param entityName The name of the entity type
+   */
+  private static createDatabase<T extends IEntity>(entityName: string): IDatabase<T> {
+    const config = this.getConfig();
+    const mapper = this.getMapper<T>(entityName);
+    const transactions = this.getTransactionManager();
+    const indexes = this.getIndexes(entityName);
+
+    if (config.driver === 'sqlite') {
+      return new SqliteDatabase<T>(
+        entityName,
+        config.sqliteFile,
+        mapper,
+        transactions as SqliteTransactionManager,
+        indexes
+      );
+    }
+
+    return new JsonDatabase<T>(
+      entityName,
+      config.dataDir,
+      { fsync: config.fsync, transactions: transactions as JsonTransactionManager, indexes },
+      mapper
+    );
+  }
+
+  /**
+   * Discards the instance of one entity type, if there is one
+   * @param entityName The name of the entity type
+   */
+  private static closeDatabase(entityName: string): void {
+    const instance = this.instances.get(entityName);
+
+    if (instance instanceof SqliteDatabase) {
+      instance.close();
+    }
+
+    this.instances.delete(entityName);
+  }
+
+  /**
+   * Clears all database instances and the transaction manager
    * Useful for testing
    */
   public static clearDatabases(): void {
+    for (const instance of this.instances.values()) {
+      if (instance instanceof SqliteDatabase) {
+        instance.close();
+      }
+    }
+
+    if (this.transactionManager instanceof SqliteTransactionManager) {
+      this.transactionManager.close();
+    }
+
     this.instances.clear();
+    this.transactionManager = null;
   }
-} 
\ No newline at end of file
+}
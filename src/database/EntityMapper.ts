@@ -0,0 +1,51 @@
+import { IEntity } from '../interfaces/IEntity';
+
+/**
+ * An entity in the form it is kept in storage
+ * Records are plain objects that survive a round trip through JSON
+ */
+export interface EntityRecord {
+  id: string;
+}
+
+/**
+ * Converts entities of one type to the records kept in storage and back
+ * Databases store what toRecord returns and hand out what fromRecord returns
+ */
+export interface EntityMapper<T extends IEntity, R extends EntityRecord = EntityRecord> {
+  /**
+   * Converts an entity to the record kept in storage
+   * @param entity The entity to store
+   * @returns The record, including any fields the entity keeps private
+   */
+  toRecord(entity: T): R;
+
+  /**
+   * Restores an entity from its stored record
+   * @param record The record read from storage
+   * @returns The entity, with its methods and dates
+   */
+  fromRecord(record: R): T;
+}
+
+/**
+ * Mapper for entity types without one of their own
+ * Entities are stored as they are and read back as the plain objects storage returns
+ */
+export class PassThroughMapper<T extends IEntity> implements EntityMapper<T> {
+  /**
+   * Stores the entity as it is
+   * @param entity The entity to store
+   */
+  public toRecord(entity: T): EntityRecord {
+    return entity;
+  }
+
+  /**
+   * Reads the record back as the entity
+   * @param record The record read from storage
+   */
+  public fromRecord(record: EntityRecord): T {
+    return record as unknown as T;
+  }
+}
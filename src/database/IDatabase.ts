@@ -1,3 +1,6 @@
+import { FieldCondition, Page, PageQuery } from './PageQuery';
+import { EntityQuery, ProjectedRecord, ProjectionQuery } from './Query';
+
 /**
  * Interface for database operations
  * Provides methods for CRUD operations on entities
@@ -40,8 +43,45 @@ export interface IDatabase<T> {
   
   /**
    * Finds entities by a query function
+   * The function is opaque to the database, which has to load every entity to run it.
+   * The repositories no longer use it, and it is kept only for existing callers
+   * @deprecated Use find, whose queries the database evaluates itself
    * @param queryFn Function that returns true for entities that match the query
    * @returns Promise resolving to an array of matching entities
    */
   query(queryFn: (entity: T) => boolean): Promise<T[]>;
+  
+  /**
+   * Finds the entities a structured query selects
+   * The query is plain data, so the database evaluates it itself and can use its indexes
+   * @param query The filter, grouping, sort order and limit
+   * @returns Promise resolving to the selected entities
+   * @throws Error if a field name is not a plain identifier
+   */
+  find(query: EntityQuery): Promise<T[]>;
+  
+  /**
+   * Finds some stored fields of the entities a structured query selects
+   * @param query The filter, grouping, sort order and limit, and the fields to pick
+   * @returns Promise resolving to one record of the picked fields per selected entity
+   * @throws Error if a field name is not a plain identifier
+   */
+  findProjected(query: ProjectionQuery): Promise<ProjectedRecord[]>;
+  
+  /**
+   * Finds the entities that meet all of a set of conditions on their stored fields
+   * Unlike query, the conditions are evaluated by the database, which answers those on indexed fields from the index
+   * @param where The conditions
+   * @returns Promise resolving to the matching entities, in the order they were stored
+   * @throws Error if a field name is not a plain identifier
+   */
+  findBy(where: FieldCondition[]): Promise<T[]>;
+  
+  /**
+   * Finds one page of entities, filtered and sorted by their stored fields
+   * @param pageQuery The conditions, sort order and position of the page
+   * @returns Promise resolving to the entities of the page
+   * @throws Error if a field name is not a plain identifier
+   */
+  findPage(pageQuery: PageQuery): Promise<Page<T>>;
 } 
\ No newline at end of file
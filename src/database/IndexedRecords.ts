@@ -0,0 +1,178 @@
+import { EntityRecord } from './EntityMapper';
+import { FieldValue } from './PageQuery';
+
+/**
+ * Key a value is filed under in an index
+ * Values are compared as strings, the way the JSON backend compares them; missing values are filed under null
+ */
+type IndexKey = string | null;
+
+/**
+ * Records of an entity type by ID, with secondary indexes on some of their fields
+ * The indexes are kept up to date by every set and delete, so looking records up by an indexed field
+ * never has to scan all of them
+ */
+export class IndexedRecords extends Map<string, EntityRecord> {
+  private readonly indexes: Map<string, Map<IndexKey, Set<string>>>;
+
+  /**
+   * Creates a new IndexedRecords instance
+   * @param fields The fields to index
+   * @param records The records to start with
+   */
+  constructor(public readonly fields: string[], records: Iterable<EntityRecord> = []) {
+    super();
+    this.indexes = new Map(fields.map(field => [field, new Map()]));
+
+    for (const record of records) {
+      this.set(record.id, record);
+    }
+  }
+
+  /**
+   * Converts a value to the key it is filed under
+   * @param value The value of a field
+   */
+  public static toKey(value: unknown): IndexKey {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      return String(value);
+    }
+
+    return null;
+  }
+
+  /**
+   * Stores a record and files it in every index
+   * @param id The ID of the record
+   * @param record The record
+   */
+  public override set(id: string, record: EntityRecord): this {
+    const previous = super.get(id);
+    super.set(id, record);
+
+    for (const [field, index] of this.indexes) {
+      const key = this.keyOf(record, field);
+      const previousKey = previous ? this.keyOf(previous, field) : undefined;
+
+      // An unchanged key keeps its place, so lookups keep returning records in the order they were stored
+      if (key !== previousKey) {
+        if (previousKey !== undefined) {
+          this.unfile(index, previousKey, id);
+        }
+
+        this.file(index, key, id);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Removes a record and takes it out of every index
+   * @param id The ID of the record
+   * @returns True if there was such a record
+   */
+  public override delete(id: string): boolean {
+    const previous = super.get(id);
+
+    if (!previous) {
+      return false;
+    }
+
+    for (const [field, index] of this.indexes) {
+      this.unfile(index, this.keyOf(previous, field), id);
+    }
+
+    return super.delete(id);
+  }
+
+  /**
+   * Removes every record and empties the indexes
+   */
+  public override clear(): void {
+    super.clear();
+
+    for (const index of this.indexes.values()) {
+      index.clear();
+    }
+  }
+
+  /**
+   * Copies the records and their indexes, so the copy can be changed on its own
+   */
+  public clone(): IndexedRecords {
+    return new IndexedRecords(this.fields, this.values());
+  }
+
+  /**
+   * Checks whether a field is indexed
+   * @param field The name of the field
+   */
+  public isIndexed(field: string): boolean {
+    return this.indexes.has(field);
+  }
+
+  /**
+   * Looks records up by the value of an indexed field
+   * @param field The name of the field
+   * @param value The value, or null for the records without one
+   * @returns The records filed under the value, or undefined if the field is not indexed
+   */
+  public lookup(field: string, value: FieldValue | null): EntityRecord[] | undefined {
+    const index = this.indexes.get(field);
+
+    if (!index) {
+      return undefined;
+    }
+
+    const ids = index.get(IndexedRecords.toKey(value)) ?? [];
+    return Array.from(ids, id => super.get(id) as EntityRecord);
+  }
+
+  /**
+   * Gets the key a record is filed under in the index of a field
+   * @param record The record
+   * @param field The name of the field
+   */
+  private keyOf(record: EntityRecord, field: string): IndexKey {
+    return IndexedRecords.toKey((record as unknown as Record<string, unknown>)[field]);
+  }
+
+  /**
+   * Files a record ID under a key
+   * @param index The index
+   * @param key The key
+   * @param id The ID of the record
+   */
+  private file(index: Map<IndexKey, Set<string>>, key: IndexKey, id: string): void {
+    const ids = index.get(key);
+
+    if (ids) {
+      ids.add(id);
+    } else {
+      index.set(key, new Set([id]));
+    }
+  }
+
+  /**
+   * Takes a record ID out from under a key
+   * @param index The index
+   * @param key The key
+   * @param id The ID of the record
+   */
+  private unfile(index: Map<IndexKey, Set<string>>, key: IndexKey, id: string): void {
+    const ids = index.get(key);
+
+    if (ids) {
+      ids.delete(id);
+
+      if (ids.size === 0) {
+        index.delete(key);
+      }
+    }
+  }
+}
@@ -1,58 +1,118 @@
 import fs from 'fs/promises';
 import path from 'path';
 import { IDatabase } from './IDatabase';
+import { EntityMapper, EntityRecord, PassThroughMapper } from './EntityMapper';
+import { FieldCondition, isFieldName, Page, PageQuery, PagePosition } from './PageQuery';
+import { EntityQuery, isAndFilter, isOrFilter, ProjectedRecord, ProjectionQuery, QueryFilter, queryFields } from './Query';
+import {
+  applyQuery,
+  compareStored,
+  latestVersions,
+  meetsCondition,
+  projectRecord,
+  storedValue
+} from './queryEvaluation';
+import { JsonTransactionManager, JsonTransactionParticipant } from './JsonTransaction';
+import { IndexedRecords } from './IndexedRecords';
+import { syncDirectory, writeFileDurably } from './durableFile';
 import { IEntity } from '../interfaces/IEntity';
 
+/**
+ * Directory of the data files when none is configured
+ */
+export const DEFAULT_DATA_DIR = path.join(process.cwd(), 'src', 'database', 'data');
+
+/**
+ * Options of a JSON file database
+ */
+export interface JsonDatabaseOptions {
+  fsync?: boolean; // Flush every write to disk before it counts as saved
+  transactions?: JsonTransactionManager; // Transactions of the data directory the database takes part in
+  indexes?: string[]; // Fields to keep secondary indexes on
+}
+
 /**
  * JSON file-based database implementation
- * Stores entities in JSON files for persistence
+ * Stores the records of entities in JSON files for persistence.
+ * A save writes a temporary file and renames it over the data file, so the data file is always
+ * complete; the previous data file is kept as a backup to recover from if it gets damaged anyway.
+ * Inside a transaction, writes are staged in the transaction instead and reads see them.
+ * The records in memory are indexed on the configured fields, so conditions on those fields are
+ * answered without a full scan
  */
-export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
+export class JsonDatabase<T extends IEntity> implements IDatabase<T>, JsonTransactionParticipant {
   private readonly filePath: string;
-  private data: Map<string, T> = new Map();
+  private readonly backupPath: string;
+  private readonly tempPath: string;
+  private data: IndexedRecords;
   private initialized = false;
+  private initializing: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
 
   /**
    * Creates a new JsonDatabase instance
    * @param entityName The name of the entity type (used for the filename)
    * @param dataDir The directory where data files are stored
+   * @param options Optional durability settings
+   * @param mapper Converts entities to and from the stored records
    */
   constructor(
-    private readonly entityName: string,
-    private readonly dataDir: string = path.join(process.cwd(), 'src', 'database', 'data')
+    public readonly entityName: string,
+    private readonly dataDir: string = DEFAULT_DATA_DIR,
+    private readonly options: JsonDatabaseOptions = {},
+    private readonly mapper: EntityMapper<T> = new PassThroughMapper<T>()
   ) {
     this.filePath = path.join(this.dataDir, `${entityName.toLowerCase()}.json`);
+    this.backupPath = `${this.filePath}.bak`;
+    this.tempPath = `${this.filePath}.tmp`;
+    this.data = new IndexedRecords(options.indexes ?? []);
   }
 
   /**
    * Initializes the database by loading data from the JSON file
-   * Creates the file if it doesn't exist
+   * Creates the file if it doesn't exist; concurrent callers share one load
    */
   private async initialize(): Promise<void> {
     if (this.initialized) {
       return;
     }
 
+    if (!this.initializing) {
+      this.initializing = this.load().finally(() => {
+        this.initializing = null;
+      });
+    }
+
+    await this.initializing;
+  }
+
+  /**
+   * Loads the data file into memory
+   * A damaged data file, such as one cut short by a crash, is set aside and the backup is loaded instead.
+   * Commits a crash interrupted are finished from the journal first
+   */
+  private async load(): Promise<void> {
     try {
       // Ensure the data directory exists
       await fs.mkdir(this.dataDir, { recursive: true });
+      await this.options.transactions?.recover();
+
+      let records: EntityRecord[] | null;
 
       try {
-        // Try to read the file
-        const fileContent = await fs.readFile(this.filePath, 'utf-8');
-        const entities = JSON.parse(fileContent) as T[];
-        
-        // Populate the in-memory map
-        this.data = new Map(entities.map(entity => [entity.id, entity]));
+        records = await this.readCollection(this.filePath);
       } catch (error) {
+        records = await this.recoverFromBackup(error);
+      }
+
+      if (records === null) {
         // If the file doesn't exist, create it with an empty array
-        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-          await fs.writeFile(this.filePath, JSON.stringify([], null, 2), 'utf-8');
-        } else {
-          throw error;
-        }
+        records = [];
+        await this.writeCollection(JSON.stringify(records, null, 2));
       }
 
+      // Populate the in-memory map
+      this.data = this.index(records);
       this.initialized = true;
     } catch (error) {
       console.error(`Error initializing database for ${this.entityName}:`, error);
@@ -61,24 +121,198 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
   }
 
   /**
-   * Saves the current state of the database to the JSON file
+   * Reads a collection of records from a file
+   * @param filePath The file to read
+   * @returns Promise resolving to the records, or null if the file doesn't exist
+   * @throws Error if the file is not a JSON array
+   */
+  private async readCollection(filePath: string): Promise<EntityRecord[] | null> {
+    let fileContent: string;
+
+    try {
+      fileContent = await fs.readFile(filePath, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+
+    const records: unknown = JSON.parse(fileContent);
+
+    if (!Array.isArray(records)) {
+      throw new Error(`${filePath} does not hold an array of entities`);
+    }
+
+    return records as EntityRecord[];
+  }
+
+  /**
+   * Replaces a damaged data file with the last good backup
+   * The damaged file is kept next to it for inspection
+   * @param damage The error that reading the data file failed with
+   * @returns Promise resolving to the records of the backup
+   * @throws Error if there is no usable backup
+   */
+  private async recoverFromBackup(damage: unknown): Promise<EntityRecord[]> {
+    const records = await this.readCollection(this.backupPath);
+
+    if (records === null) {
+      throw new Error(`Data file for ${this.entityName} is damaged and there is no backup: ${damage}`);
+    }
+
+    console.warn(`Data file for ${this.entityName} is damaged, restoring the last good backup:`, damage);
+
+    await fs.rename(this.filePath, `${this.filePath}.corrupt-${Date.now()}`);
+    await this.writeCollection(JSON.stringify(records, null, 2));
+
+    return records;
+  }
+
+  /**
+   * Applies a change to a copy of the stored records and saves it
+   * Changes run one at a time, and a change only becomes visible once it is saved,
+   * so a failed save leaves both the file and the data in memory as they were.
+   * In a transaction the copy is staged in the transaction instead of saved
+   * @param change Changes the copy; returns false if there was nothing to change
+   * @returns Promise resolving to the value returned by the change
+   */
+  private async commit(change: (data: IndexedRecords) => boolean): Promise<boolean> {
+    const transactions = this.options.transactions;
+    const transaction = transactions?.current();
+
+    if (transaction) {
+      const data = this.records().clone();
+
+      if (!change(data)) {
+        return false;
+      }
+
+      transaction.stage(this, data);
+      return true;
+    }
+
+    const save = (): Promise<boolean> => this.enqueue(async () => {
+      const data = this.data.clone();
+
+      if (!change(data)) {
+        return false;
+      }
+
+      await this.saveToFile(data);
+      this.data = data;
+
+      return true;
+    });
+
+    return transactions ? transactions.exclusive(save) : save();
+  }
+
+  /**
+   * Saves a complete set of records in place of the stored ones
+   * Used by transactions to save what they staged, and to put back what they replaced
+   * @param records The records to store
+   * @returns Promise resolving to the records stored before
+   */
+  public async replaceRecords(records: Map<string, EntityRecord>): Promise<Map<string, EntityRecord>> {
+    await this.initialize();
+
+    const indexed = records instanceof IndexedRecords ? records : this.index(records.values());
+
+    return this.enqueue(async () => {
+      const previous = this.data;
+
+      await this.saveToFile(indexed);
+      this.data = indexed;
+
+      return previous;
+    });
+  }
+
+  /**
+   * Runs a save once the saves before it have settled
+   * @param save The save to run
+   * @returns Promise resolving to the result of the save
+   */
+  private enqueue<R>(save: () => Promise<R>): Promise<R> {
+    const run = this.writeQueue.then(save);
+    this.writeQueue = run.then(() => undefined, () => undefined);
+
+    return run;
+  }
+
+  /**
+   * Gets the records as the calling code sees them: with the writes staged in its transaction, if any
    */
-  private async saveToFile(): Promise<void> {
+  private records(): IndexedRecords {
+    // Only commit stages records of this database, and it always stages indexed ones
+    const staged = this.options.transactions?.current()?.stagedRecords(this) as IndexedRecords | undefined;
+    return staged ?? this.data;
+  }
+
+  /**
+   * Indexes records on the configured fields
+   * @param records The records to index
+   */
+  private index(records: Iterable<EntityRecord>): IndexedRecords {
+    return new IndexedRecords(this.options.indexes ?? [], records);
+  }
+
+  /**
+   * Saves records to the JSON file
+   * @param data The records to save
+   */
+  private async saveToFile(data: Map<string, EntityRecord>): Promise<void> {
     try {
-      const entities = Array.from(this.data.values());
-      await fs.writeFile(this.filePath, JSON.stringify(entities, null, 2), 'utf-8');
+      const records = Array.from(data.values());
+      await this.writeCollection(JSON.stringify(records, null, 2));
     } catch (error) {
       console.error(`Error saving database for ${this.entityName}:`, error);
       throw new Error(`Failed to save database for ${this.entityName}`);
     }
   }
 
+  /**
+   * Replaces the data file in one step
+   * The content goes to a temporary file that is renamed over the data file once it is complete;
+   * the data file it replaces is copied to the backup first
+   * @param fileContent The new content of the data file
+   */
+  private async writeCollection(fileContent: string): Promise<void> {
+    try {
+      await writeFileDurably(this.tempPath, fileContent, this.options.fsync);
+      await this.backUp();
+      await fs.rename(this.tempPath, this.filePath);
+
+      if (this.options.fsync) {
+        await syncDirectory(this.dataDir);
+      }
+    } catch (error) {
+      await fs.rm(this.tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  /**
+   * Copies the data file to the backup, if there is a data file yet
+   */
+  private async backUp(): Promise<void> {
+    try {
+      await fs.copyFile(this.filePath, this.backupPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
   /**
    * Finds all entities in the database
    */
   public async findAll(): Promise<T[]> {
     await this.initialize();
-    return Array.from(this.data.values());
+    return this.toEntities(Array.from(this.records().values()));
   }
 
   /**
@@ -87,7 +321,8 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
    */
   public async findById(id: string): Promise<T | null> {
     await this.initialize();
-    return this.data.get(id) || null;
+    const record = this.records().get(id);
+    return record ? this.mapper.fromRecord(record) : null;
   }
 
   /**
@@ -97,12 +332,14 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
   public async create(entity: T): Promise<T> {
     await this.initialize();
     
-    if (this.data.has(entity.id)) {
-      throw new Error(`Entity with ID ${entity.id} already exists`);
-    }
-    
-    this.data.set(entity.id, entity);
-    await this.saveToFile();
+    await this.commit(data => {
+      if (data.has(entity.id)) {
+        throw new Error(`Entity with ID ${entity.id} already exists`);
+      }
+      
+      data.set(entity.id, this.mapper.toRecord(entity));
+      return true;
+    });
     
     return entity;
   }
@@ -115,19 +352,21 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
   public async update(id: string, entity: T): Promise<T | null> {
     await this.initialize();
     
-    if (!this.data.has(id)) {
-      return null;
-    }
-    
-    // Ensure the entity ID matches the provided ID
-    if (entity.id !== id) {
-      throw new Error('Entity ID does not match the provided ID');
-    }
-    
-    this.data.set(id, entity);
-    await this.saveToFile();
+    const updated = await this.commit(data => {
+      if (!data.has(id)) {
+        return false;
+      }
+      
+      // Ensure the entity ID matches the provided ID
+      if (entity.id !== id) {
+        throw new Error('Entity ID does not match the provided ID');
+      }
+      
+      data.set(id, this.mapper.toRecord(entity));
+      return true;
+    });
     
-    return entity;
+    return updated ? entity : null;
   }
 
   /**
@@ -136,15 +375,7 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
    */
   public async delete(id: string): Promise<boolean> {
     await this.initialize();
-    
-    if (!this.data.has(id)) {
-      return false;
-    }
-    
-    this.data.delete(id);
-    await this.saveToFile();
-    
-    return true;
+    return this.commit(data => data.delete(id));
   }
 
   /**
@@ -153,6 +384,149 @@ export class JsonDatabase<T extends IEntity> implements IDatabase<T> {
    */
   public async query(queryFn: (entity: T) => boolean): Promise<T[]> {
     await this.initialize();
-    return Array.from(this.data.values()).filter(queryFn);
+    return this.toEntities(Array.from(this.records().values())).filter(queryFn);
+  }
+
+  /**
+   * Finds the entities a query selects
+   * @param query The filter, grouping, sort order and limit
+   */
+  public async find(query: EntityQuery): Promise<T[]> {
+    await this.initialize();
+    return this.toEntities(this.evaluate(query));
+  }
+
+  /**
+   * Finds some stored fields of the entities a query selects
+   * @param query The filter, grouping, sort order and limit, and the fields to pick
+   */
+  public async findProjected(query: ProjectionQuery): Promise<ProjectedRecord[]> {
+    await this.initialize();
+    this.assertFieldNames(query.select);
+    return this.evaluate(query).map(record => projectRecord(record, query.select));
+  }
+
+  /**
+   * Finds the entities that meet all of a set of conditions on their stored fields
+   * @param where The conditions
+   */
+  public async findBy(where: FieldCondition[]): Promise<T[]> {
+    return this.find({ where: { and: where } });
+  }
+
+  /**
+   * Finds one page of entities, filtered and sorted by their stored fields
+   * @param pageQuery The conditions, sort order and position of the page
+   */
+  public async findPage(pageQuery: PageQuery): Promise<Page<T>> {
+    await this.initialize();
+    
+    const { where = [], latestBy, sortBy = 'id', sortDirection = 'asc', after, limit } = pageQuery;
+    const fields = [sortBy, ...where.map(condition => condition.field)];
+    
+    if (latestBy) {
+      fields.push(latestBy.groupField, latestBy.versionField);
+    }
+    
+    this.assertFieldNames(fields);
+    
+    const records = latestBy ? latestVersions(this.scan(), latestBy) : this.candidates({ and: where });
+    const sign = sortDirection === 'asc' ? 1 : -1;
+    const position = (record: EntityRecord): PagePosition => ({
+      value: storedValue(record, sortBy) as PagePosition['value'],
+      id: record.id
+    });
+    const comparePositions = (a: PagePosition, b: PagePosition): number =>
+      sign * (compareStored(a.value, b.value) || compareStored(a.id, b.id));
+    
+    const matching = records
+      .filter(record => where.every(condition => meetsCondition(record, condition)))
+      .filter(record => !after || comparePositions(position(record), after) > 0)
+      .sort((a, b) => comparePositions(position(a), position(b)));
+    
+    return {
+      items: this.toEntities(matching.slice(0, limit)),
+      hasMore: matching.length > limit
+    };
+  }
+
+  /**
+   * Runs a query over the records the calling code sees
+   * @param query The query
+   * @throws Error if a field name is not a plain identifier
+   */
+  private evaluate(query: EntityQuery): EntityRecord[] {
+    this.assertFieldNames(queryFields(query));
+    
+    // The latest version of a group may not meet the filter an older one meets, so grouping needs every record
+    const records = query.latestBy || !query.where ? this.scan() : this.candidates(query.where);
+    
+    return applyQuery(records, query);
+  }
+
+  /**
+   * Checks that field names are plain identifiers
+   * @param fields The field names to check
+   * @throws Error if a field name is not a plain identifier
+   */
+  private assertFieldNames(fields: string[]): void {
+    for (const field of fields) {
+      if (!isFieldName(field)) {
+        throw new Error(`Invalid field name ${field}`);
+      }
+    }
+  }
+
+  /**
+   * Gets every record the calling code sees, in the order they were stored
+   */
+  private scan(): EntityRecord[] {
+    return Array.from(this.records().values());
+  }
+
+  /**
+   * Gets the records that may meet a filter
+   * A condition the filter requires that pins an indexed field to one value (or to having none)
+   * narrows them down to the records filed under it; without one, every record is a candidate
+   * @param where The filter
+   */
+  private candidates(where: QueryFilter): EntityRecord[] {
+    const records = this.records();
+    
+    for (const condition of this.requiredConditions(where)) {
+      if (!records.isIndexed(condition.field)) {
+        continue;
+      }
+      
+      if (condition.operator === 'eq') {
+        return records.lookup(condition.field, condition.value) ?? [];
+      }
+      
+      if (condition.operator === 'exists' && condition.value === false) {
+        return records.lookup(condition.field, null) ?? [];
+      }
+    }
+    
+    return this.scan();
+  }
+
+  /**
+   * Gets the conditions every record meeting a filter meets, looking through nested ands
+   * @param filter The filter
+   */
+  private requiredConditions(filter: QueryFilter): FieldCondition[] {
+    if (isAndFilter(filter)) {
+      return filter.and.flatMap(part => this.requiredConditions(part));
+    }
+    
+    return isOrFilter(filter) ? [] : [filter];
+  }
+
+  /**
+   * Restores entities from their stored records
+   * @param records The stored records
+   */
+  private toEntities(records: EntityRecord[]): T[] {
+    return records.map(record => this.mapper.fromRecord(record));
   }
-} 
\ No newline at end of file
+}
\ No newline at end of file
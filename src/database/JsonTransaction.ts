@@ -0,0 +1,261 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Transaction, TransactionManager } from './Transaction';
+import { EntityRecord } from './EntityMapper';
+import { DEFAULT_DATA_DIR, JsonDatabase } from './JsonDatabase';
+import { syncDirectory, writeFileDurably } from './durableFile';
+
+/**
+ * An entity store that stages its writes in JSON transactions
+ */
+export interface JsonTransactionParticipant {
+  readonly entityName: string;
+
+  /**
+   * Saves a complete set of records in place of the stored ones
+   * @param records The records to store
+   * @returns Promise resolving to the records stored before
+   */
+  replaceRecords(records: Map<string, EntityRecord>): Promise<Map<string, EntityRecord>>;
+}
+
+/**
+ * Content of a journal file: the complete new records of every store a transaction changed
+ */
+interface JournalEntry {
+  transactionId: string;
+  stores: Array<{ entityName: string; records: EntityRecord[] }>;
+}
+
+/**
+ * Options of the transactions of a JSON data directory
+ */
+export interface JsonTransactionOptions {
+  fsync?: boolean; // Flush journal files to disk before they count as written
+}
+
+/**
+ * Transaction over the JSON files of one data directory
+ * Writes are staged in memory, one copy of the records per store changed. On commit the staged
+ * records are written to a journal first and only then to the data files, so a crash halfway
+ * through is finished from the journal when the directory is next opened
+ */
+export class JsonTransaction extends Transaction {
+  private readonly staged: Map<JsonTransactionParticipant, Map<string, EntityRecord>> = new Map();
+
+  /**
+   * Creates a new JsonTransaction instance
+   * @param journal The manager that keeps the journal of the data directory
+   * @param release Releases the write lock of the data directory
+   */
+  constructor(private readonly journal: JsonTransactionManager, release: () => void) {
+    super(journal, release);
+  }
+
+  /**
+   * Gets the records a store has in the transaction
+   * @param participant The store
+   * @returns The staged records, or undefined if the store has not been written to in the transaction
+   */
+  public stagedRecords(participant: JsonTransactionParticipant): Map<string, EntityRecord> | undefined {
+    return this.staged.get(participant);
+  }
+
+  /**
+   * Stages the records of a store, to be saved when the transaction commits
+   * @param participant The store
+   * @param records All records of the store as the transaction leaves them
+   * @throws Error if the transaction has ended
+   */
+  public stage(participant: JsonTransactionParticipant, records: Map<string, EntityRecord>): void {
+    this.assertActive();
+    this.staged.set(participant, records);
+  }
+
+  /**
+   * Journals the staged records and saves them store by store
+   * If saving a store fails, the stores already saved are put back before the error is rethrown
+   */
+  protected async writeChanges(): Promise<void> {
+    const stores = Array.from(this.staged.entries());
+
+    if (stores.length === 0) {
+      return;
+    }
+
+    const journalFile = await this.journal.writeJournal({
+      transactionId: this.id,
+      stores: stores.map(([participant, records]) => ({
+        entityName: participant.entityName,
+        records: Array.from(records.values())
+      }))
+    });
+    const replaced: Array<[JsonTransactionParticipant, Map<string, EntityRecord>]> = [];
+
+    try {
+      for (const [participant, records] of stores) {
+        replaced.push([participant, await participant.replaceRecords(records)]);
+      }
+    } catch (error) {
+      await this.putBack(replaced, journalFile);
+      throw error;
+    }
+
+    await this.journal.removeJournal(journalFile);
+  }
+
+  /**
+   * Throws the staged records away
+   */
+  protected async discardChanges(): Promise<void> {
+    this.staged.clear();
+  }
+
+  /**
+   * Saves the records the stores had before a failed commit
+   * If that fails too, the journal is kept so the commit is finished when the directory is next opened
+   * @param replaced The stores saved so far, with the records they had before
+   * @param journalFile The journal of the commit
+   */
+  private async putBack(
+    replaced: Array<[JsonTransactionParticipant, Map<string, EntityRecord>]>,
+    journalFile: string
+  ): Promise<void> {
+    try {
+      for (const [participant, previous] of replaced.reverse()) {
+        await participant.replaceRecords(previous);
+      }
+
+      await this.journal.removeJournal(journalFile);
+    } catch (error) {
+      console.error(`Error rolling back transaction ${this.id}, it will be completed from its journal:`, error);
+    }
+  }
+}
+
+/**
+ * Manages the transactions of one JSON data directory and their journal
+ * Journal files live in the journal subdirectory; one only outlives its commit if the process stopped
+ * while the data files were being written
+ */
+export class JsonTransactionManager extends TransactionManager {
+  private readonly journalDir: string;
+  private recovery: Promise<void> | null = null;
+
+  /**
+   * Creates a new JsonTransactionManager instance
+   * @param dataDir The directory where data files are stored
+   * @param options Optional durability settings
+   */
+  constructor(
+    private readonly dataDir: string = DEFAULT_DATA_DIR,
+    private readonly options: JsonTransactionOptions = {}
+  ) {
+    super(dataDir);
+    this.journalDir = path.join(dataDir, 'journal');
+  }
+
+  /**
+   * Gets the transaction the calling code runs in
+   * @returns The transaction, or undefined outside of a transaction
+   * @throws Error if the calling code runs in a transaction of another database
+   */
+  public current(): JsonTransaction | undefined {
+    return this.currentTransaction() as JsonTransaction | undefined;
+  }
+
+  /**
+   * Starts a transaction that stages its writes
+   * @param release Releases the write lock of the data directory
+   */
+  protected async start(release: () => void): Promise<JsonTransaction> {
+    return new JsonTransaction(this, release);
+  }
+
+  /**
+   * Finishes the commits a crash left in the journal
+   * Runs once, before the first store of the directory is loaded; a failed recovery is tried again next time
+   */
+  public recover(): Promise<void> {
+    if (!this.recovery) {
+      this.recovery = this.replayJournal().catch(error => {
+        this.recovery = null;
+        throw error;
+      });
+    }
+
+    return this.recovery;
+  }
+
+  /**
+   * Writes a journal file in one step
+   * @param entry The records the commit saves
+   * @returns Promise resolving to the path of the journal file
+   */
+  public async writeJournal(entry: JournalEntry): Promise<string> {
+    await fs.mkdir(this.journalDir, { recursive: true });
+
+    // Named by time, so journals left by several crashes are replayed in order
+    const filePath = path.join(this.journalDir, `${Date.now()}-${entry.transactionId}.json`);
+    const tempPath = `${filePath}.tmp`;
+
+    try {
+      await writeFileDurably(tempPath, JSON.stringify(entry), this.options.fsync);
+      await fs.rename(tempPath, filePath);
+
+      if (this.options.fsync) {
+        await syncDirectory(this.journalDir);
+      }
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+
+    return filePath;
+  }
+
+  /**
+   * Removes the journal file of a finished commit
+   * @param filePath The path of the journal file
+   */
+  public async removeJournal(filePath: string): Promise<void> {
+    await fs.rm(filePath, { force: true });
+  }
+
+  /**
+   * Saves the records of every journal file left behind and removes the files
+   * A temporary journal file was never complete, so its transaction never committed and it is dropped
+   */
+  private async replayJournal(): Promise<void> {
+    let files: string[];
+
+    try {
+      files = await fs.readdir(this.journalDir);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return;
+      }
+
+      throw error;
+    }
+
+    for (const file of files.sort()) {
+      const filePath = path.join(this.journalDir, file);
+
+      if (!file.endsWith('.json')) {
+        await fs.rm(filePath, { force: true });
+        continue;
+      }
+
+      const entry: JournalEntry = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+      console.warn(`Completing transaction ${entry.transactionId} from the journal in ${this.dataDir}`);
+
+      for (const store of entry.stores) {
+        const database = new JsonDatabase(store.entityName, this.dataDir, { fsync: this.options.fsync });
+        await database.replaceRecords(new Map(store.records.map(record => [record.id, record])));
+      }
+
+      await fs.rm(filePath);
+    }
+  }
+}
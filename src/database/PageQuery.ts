@@ -0,0 +1,100 @@
+/**
+ * Comparison applied to a stored field
+ * - eq, gt, gte, lt, lte: compares the field with the value
+ * - in: the field equals one of a list of values
+ * - startsWith: case-insensitive prefix match on a string field
+ * - contains: case-insensitive substring match on a string field
+ * - exists: the field is set (value true) or missing (value false)
+ */
+export type FieldOperator = 'eq' | 'gt' | 'gte' | 'lt' | 'lte' | 'in' | 'startsWith' | 'contains' | 'exists';
+
+/**
+ * Value a field is compared with; dates are compared as ISO strings, the way they are stored
+ */
+export type FieldValue = string | number | boolean | Date;
+
+/**
+ * A condition comparing a single stored field with one value
+ */
+export interface ValueCondition {
+  field: string;
+  operator: Exclude<FieldOperator, 'in'>;
+  value: FieldValue;
+}
+
+/**
+ * A condition matching a single stored field against a list of values
+ */
+export interface ListCondition {
+  field: string;
+  operator: 'in';
+  value: FieldValue[];
+}
+
+/**
+ * A condition on a single stored field
+ */
+export type FieldCondition = ValueCondition | ListCondition;
+
+/**
+ * Direction in which a page is sorted
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Position of an entity in a sorted listing, used to continue after it
+ * Holds the value of the sort field and the entity ID, which breaks ties
+ */
+export interface PagePosition {
+  value: string | number | null;
+  id: string;
+}
+
+/**
+ * Groups of entities that are versions of one another, of which only the highest version counts
+ */
+export interface VersionGroup {
+  groupField: string; // Field shared by all versions of a group
+  versionField: string; // Field holding the version number
+}
+
+/**
+ * Query for one page of entities
+ */
+export interface PageQuery {
+  where?: FieldCondition[]; // All conditions must match
+  latestBy?: VersionGroup; // Only the highest version in each group
+  sortBy?: string; // Defaults to the entity ID
+  sortDirection?: SortDirection;
+  after?: PagePosition; // Only entities sorted after this position
+  limit: number;
+}
+
+/**
+ * One page of entities
+ */
+export interface Page<T> {
+  items: T[];
+  hasMore: boolean;
+}
+
+/**
+ * Gets the position of an entity in a listing sorted by one of its fields
+ * @param entity The entity
+ * @param sortBy The field the listing is sorted by
+ */
+export const toPagePosition = (entity: { id: string }, sortBy: string): PagePosition => {
+  const value = (entity as unknown as Record<string, unknown>)[sortBy];
+  
+  return {
+    value: value instanceof Date ? value.toISOString() : (value as PagePosition['value']) ?? null,
+    id: entity.id
+  };
+};
+
+/**
+ * Checks whether a name can be used as a stored field name
+ * Field names end up in SQL, so only plain identifiers are accepted
+ * @param field The field name to check
+ */
+export const isFieldName = (field: string): boolean => /^[A-Za-z_][A-Za-z0-9_]*$/.test(field);
@@ -0,0 +1,77 @@
+import { FieldCondition, SortDirection, VersionGroup } from './PageQuery';
+
+/**
+ * Filter on stored fields: a single condition, or conditions of which all (and) or any (or) must match
+ * Filters nest, and an empty and matches everything while an empty or matches nothing
+ */
+export type QueryFilter = FieldCondition | { and: QueryFilter[] } | { or: QueryFilter[] };
+
+/**
+ * Field a query result is sorted by
+ */
+export interface SortField {
+  field: string;
+  direction?: SortDirection; // Defaults to asc
+}
+
+/**
+ * Query for entities, made of plain data so it can be serialized and translated by any backend
+ */
+export interface EntityQuery {
+  where?: QueryFilter;
+  latestBy?: VersionGroup; // Only the highest version in each group, filtered after grouping
+  sort?: SortField[]; // Later fields break ties of earlier ones; remaining ties keep the order entities were stored in
+  limit?: number;
+}
+
+/**
+ * Query for some stored fields of entities rather than the entities themselves
+ */
+export interface ProjectionQuery extends EntityQuery {
+  select: string[];
+}
+
+/**
+ * Stored fields picked from an entity's record by a projection
+ * Values are as stored, so dates are ISO strings; a missing field is null
+ */
+export type ProjectedRecord = Record<string, unknown>;
+
+/**
+ * Checks whether a filter requires all of its parts to match
+ * @param filter The filter to check
+ */
+export const isAndFilter = (filter: QueryFilter): filter is { and: QueryFilter[] } => 'and' in filter;
+
+/**
+ * Checks whether a filter requires any of its parts to match
+ * @param filter The filter to check
+ */
+export const isOrFilter = (filter: QueryFilter): filter is { or: QueryFilter[] } => 'or' in filter;
+
+/**
+ * Gets every field a query refers to
+ * @param query The query
+ */
+export const queryFields = (query: EntityQuery): string[] => {
+  const fields = (query.sort ?? []).map(sortField => sortField.field);
+  const visit = (filter: QueryFilter): void => {
+    if (isAndFilter(filter)) {
+      filter.and.forEach(visit);
+    } else if (isOrFilter(filter)) {
+      filter.or.forEach(visit);
+    } else {
+      fields.push(filter.field);
+    }
+  };
+
+  if (query.where) {
+    visit(query.where);
+  }
+
+  if (query.latestBy) {
+    fields.push(query.latestBy.groupField, query.latestBy.versionField);
+  }
+
+  return fields;
+};
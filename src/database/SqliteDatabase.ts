@@ -0,0 +1,498 @@
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { IDatabase } from './IDatabase';
+import { EntityMapper, PassThroughMapper } from './EntityMapper';
+import { FieldCondition, FieldValue, isFieldName, Page, PageQuery, VersionGroup } from './PageQuery';
+import { EntityQuery, isAndFilter, isOrFilter, ProjectedRecord, ProjectionQuery, QueryFilter } from './Query';
+import { SqliteTransaction, SqliteTransactionManager } from './SqliteTransaction';
+import { IEntity } from '../interfaces/IEntity';
+
+/**
+ * Database file when none is configured
+ */
+export const DEFAULT_SQLITE_FILE = path.join(process.cwd(), 'src', 'database', 'data', 'knowledge-base.sqlite');
+
+/**
+ * Row shape of an entity table
+ */
+interface EntityRow {
+  id: string;
+  data: string;
+}
+
+/**
+ * Row shape of a projection, with the picked fields as one JSON object
+ */
+interface ProjectionRow {
+  data: string;
+}
+
+/**
+ * SQL operators of the plain comparisons
+ */
+const SQL_OPERATORS: Record<'eq' | 'gt' | 'gte' | 'lt' | 'lte', string> = {
+  eq: '=',
+  gt: '>',
+  gte: '>=',
+  lt: '<',
+  lte: '<='
+};
+
+/**
+ * SQLite file-based database implementation
+ * Stores each entity type in its own table, one row per entity, with an expression index on
+ * each configured field that SQLite uses for conditions on it.
+ * Inside a transaction, reads and writes go through the connection of the transaction
+ */
+export class SqliteDatabase<T extends IEntity> implements IDatabase<T> {
+  private readonly tableName: string;
+  private connection: BetterSqlite3.Database | null = null;
+  private readonly preparedTransactions: WeakSet<SqliteTransaction> = new WeakSet();
+
+  /**
+   * Creates a new SqliteDatabase instance
+   * @param entityName The name of the entity type (used for the table name)
+   * @param filePath The path of the SQLite database file
+   * @param mapper Converts entities to and from the stored records
+   * @param transactions Transactions of the database file the database takes part in
+   * @param indexes Fields to keep secondary indexes on
+   * @throws Error if the entity name or an indexed field is not a plain identifier
+   */
+  constructor(
+    private readonly entityName: string,
+    private readonly filePath: string = DEFAULT_SQLITE_FILE,
+    private readonly mapper: EntityMapper<T> = new PassThroughMapper<T>(),
+    private readonly transactions?: SqliteTransactionManager,
+    private readonly indexes: string[] = []
+  ) {
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(entityName)) {
+      throw new Error(`Invalid entity name ${entityName}`);
+    }
+
+    for (const field of indexes) {
+      if (!isFieldName(field)) {
+        throw new Error(`Invalid field name ${field}`);
+      }
+    }
+
+    this.tableName = entityName.toLowerCase();
+  }
+
+  /**
+   * Opens the database file and creates the entity table if it doesn't exist
+   */
+  private initialize(): BetterSqlite3.Database {
+    if (this.connection) {
+      return this.connection;
+    }
+
+    try {
+      // Ensure the data directory exists
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+      const connection = new BetterSqlite3(this.filePath);
+
+      // WAL lets readers proceed while another connection is writing
+      connection.pragma('journal_mode = WAL');
+      connection.pragma('busy_timeout = 5000');
+      this.createTable(connection);
+
+      this.connection = connection;
+      return connection;
+    } catch (error) {
+      console.error(`Error initializing database for ${this.entityName}:`, error);
+      throw new Error(`Failed to initialize database for ${this.entityName}`);
+    }
+  }
+
+  /**
+   * Creates the entity table and its indexes if they don't exist
+   * @param connection The connection to create them through
+   */
+  private createTable(connection: BetterSqlite3.Database): void {
+    connection.exec(
+      `CREATE TABLE IF NOT EXISTS "${this.tableName}" (id TEXT PRIMARY KEY, data TEXT NOT NULL)`
+    );
+
+    for (const field of this.indexes) {
+      // The indexed expression must be the one fieldSql builds, or SQLite will not use the index
+      connection.exec(
+        `CREATE INDEX IF NOT EXISTS "${this.tableName}_${field}" ` +
+        `ON "${this.tableName}" (json_extract(data, '$.${field}'))`
+      );
+    }
+  }
+
+  /**
+   * Gets the connection the calling code reads through: the one of its transaction, if any
+   */
+  private async reader(): Promise<BetterSqlite3.Database> {
+    const transaction = this.transactions?.current();
+
+    if (transaction) {
+      if (!this.preparedTransactions.has(transaction)) {
+        this.createTable(transaction.connection);
+        this.preparedTransactions.add(transaction);
+      }
+
+      return transaction.connection;
+    }
+
+    if (!this.connection && this.transactions) {
+      // Creating the table may need the write lock, which an open transaction holds
+      return this.transactions.exclusive(async () => this.initialize());
+    }
+
+    return this.initialize();
+  }
+
+  /**
+   * Runs a write through the connection of the calling code's transaction
+   * Outside of a transaction, the write waits until no transaction holds the database's write lock,
+   * since SQLite would otherwise block the process until the transaction is done
+   * @param write The statements to run
+   * @returns Promise resolving to the result of the write
+   */
+  private async write<R>(write: (connection: BetterSqlite3.Database) => R): Promise<R> {
+    if (!this.transactions || this.transactions.current()) {
+      return write(await this.reader());
+    }
+
+    return this.transactions.exclusive(async () => write(this.initialize()));
+  }
+
+  /**
+   * Deserializes a stored row into an entity
+   * @param row The stored row
+   */
+  private toEntity(row: EntityRow): T {
+    return this.mapper.fromRecord(JSON.parse(row.data));
+  }
+
+  /**
+   * Serializes an entity into the data column of its row
+   * @param entity The entity to store
+   */
+  private toData(entity: T): string {
+    return JSON.stringify(this.mapper.toRecord(entity));
+  }
+
+  /**
+   * Finds all entities in the database
+   */
+  public async findAll(): Promise<T[]> {
+    const rows = (await this.reader())
+      .prepare(`SELECT id, data FROM "${this.tableName}" ORDER BY rowid`)
+      .all() as EntityRow[];
+
+    return rows.map(row => this.toEntity(row));
+  }
+
+  /**
+   * Finds an entity by ID
+   * @param id The ID of the entity to find
+   */
+  public async findById(id: string): Promise<T | null> {
+    const row = (await this.reader())
+      .prepare(`SELECT id, data FROM "${this.tableName}" WHERE id = ?`)
+      .get(id) as EntityRow | undefined;
+
+    return row ? this.toEntity(row) : null;
+  }
+
+  /**
+   * Creates a new entity in the database
+   * @param entity The entity to create
+   */
+  public async create(entity: T): Promise<T> {
+    return this.write(connection => {
+      try {
+        connection
+          .prepare(`INSERT INTO "${this.tableName}" (id, data) VALUES (?, ?)`)
+          .run(entity.id, this.toData(entity));
+      } catch (error) {
+        if ((error as { code?: string }).code === 'SQLITE_CONSTRAINT_PRIMARYKEY') {
+          throw new Error(`Entity with ID ${entity.id} already exists`);
+        }
+        throw error;
+      }
+
+      return entity;
+    });
+  }
+
+  /**
+   * Updates an existing entity in the database
+   * @param id The ID of the entity to update
+   * @param entity The updated entity
+   */
+  public async update(id: string, entity: T): Promise<T | null> {
+    return this.write(connection => {
+      const exists = connection
+        .prepare(`SELECT 1 FROM "${this.tableName}" WHERE id = ?`)
+        .get(id);
+
+      if (!exists) {
+        return null;
+      }
+
+      // Ensure the entity ID matches the provided ID
+      if (entity.id !== id) {
+        throw new Error('Entity ID does not match the provided ID');
+      }
+
+      connection
+        .prepare(`UPDATE "${this.tableName}" SET data = ? WHERE id = ?`)
+        .run(this.toData(entity), id);
+
+      return entity;
+    });
+  }
+
+  /**
+   * Deletes an entity from the database
+   * @param id The ID of the entity to delete
+   */
+  public async delete(id: string): Promise<boolean> {
+    const result = await this.write(connection => connection
+      .prepare(`DELETE FROM "${this.tableName}" WHERE id = ?`)
+      .run(id));
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Queries entities based on a predicate function
+   * @param queryFn Function that returns true for entities that match the query
+   */
+  public async query(queryFn: (entity: T) => boolean): Promise<T[]> {
+    const entities = await this.findAll();
+    return entities.filter(queryFn);
+  }
+
+  /**
+   * Finds the entities that meet all of a set of conditions on their stored fields
+   * @param where The conditions
+   */
+  public async findBy(where: FieldCondition[]): Promise<T[]> {
+    return this.find({ where: { and: where } });
+  }
+
+  /**
+   * Finds the entities a query selects
+   * The query is translated to SQL and evaluated by SQLite
+   * @param query The filter, grouping, sort order and limit
+   */
+  public async find(query: EntityQuery): Promise<T[]> {
+    const rows = await this.select<EntityRow>('e.id, e.data', query);
+    return rows.map(row => this.toEntity(row));
+  }
+
+  /**
+   * Finds some stored fields of the entities a query selects
+   * Only the picked fields are read out of the stored records
+   * @param query The filter, grouping, sort order and limit, and the fields to pick
+   */
+  public async findProjected(query: ProjectionQuery): Promise<ProjectedRecord[]> {
+    const fields = query.select.map(field => `'${field}', e.data -> ${this.fieldPath(field)}`);
+    const rows = await this.select<ProjectionRow>(`json_object(${fields.join(', ')}) AS data`, query);
+    
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  /**
+   * Runs a query as a SELECT statement
+   * @param columns The columns to select from the entity table, aliased e
+   * @param query The query
+   */
+  private async select<R>(columns: string, query: EntityQuery): Promise<R[]> {
+    const { where, latestBy, sort = [], limit } = query;
+    const clauses: string[] = [];
+    const params: Array<string | number | null> = [];
+    
+    if (where) {
+      clauses.push(this.filterSql(where, params));
+    }
+    
+    if (latestBy) {
+      clauses.push(this.latestSql(latestBy));
+    }
+    
+    // Ties keep the order the entities were stored in
+    const order = [
+      ...sort.map(({ field, direction = 'asc' }) => `${this.fieldSql(field)} ${direction === 'asc' ? 'ASC' : 'DESC'}`),
+      'e.rowid'
+    ];
+    
+    if (limit !== undefined) {
+      params.push(limit);
+    }
+    
+    const sql = `SELECT ${columns} FROM "${this.tableName}" AS e` +
+      (clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '') +
+      ` ORDER BY ${order.join(', ')}` +
+      (limit !== undefined ? ' LIMIT ?' : '');
+    
+    return (await this.reader()).prepare(sql).all(...params) as R[];
+  }
+
+  /**
+   * Finds one page of entities, filtered and sorted by their stored fields
+   * Conditions, sorting and the page limit are all evaluated by SQLite
+   * @param pageQuery The conditions, sort order and position of the page
+   */
+  public async findPage(pageQuery: PageQuery): Promise<Page<T>> {
+    const { where = [], latestBy, sortBy = 'id', sortDirection = 'asc', after, limit } = pageQuery;
+    const clauses: string[] = [];
+    const params: Array<string | number | null> = [];
+    
+    for (const condition of where) {
+      clauses.push(this.conditionSql(condition, params));
+    }
+    
+    if (latestBy) {
+      clauses.push(this.latestSql(latestBy));
+    }
+    
+    const sortField = this.fieldSql(sortBy);
+    const direction = sortDirection === 'asc' ? 'ASC' : 'DESC';
+    const operator = sortDirection === 'asc' ? '>' : '<';
+    
+    if (after) {
+      clauses.push(`(${sortField} ${operator} ? OR (${sortField} = ? AND e.id ${operator} ?))`);
+      params.push(after.value, after.value, after.id);
+    }
+    
+    const sql = `SELECT e.id, e.data FROM "${this.tableName}" AS e` +
+      (clauses.length > 0 ? ` WHERE ${clauses.join(' AND ')}` : '') +
+      ` ORDER BY ${sortField} ${direction}, e.id ${direction} LIMIT ?`;
+    
+    // One extra row tells whether another page follows
+    const rows = (await this.reader())
+      .prepare(sql)
+      .all(...params, limit + 1) as EntityRow[];
+    
+    return {
+      items: rows.slice(0, limit).map(row => this.toEntity(row)),
+      hasMore: rows.length > limit
+    };
+  }
+
+  /**
+   * Builds the SQL condition that keeps only the highest version in each group
+   * @param latestBy The fields that group the entities and number their versions
+   */
+  private latestSql(latestBy: VersionGroup): string {
+    return `${this.fieldSql(latestBy.versionField)} = (` +
+      `SELECT MAX(${this.fieldSql(latestBy.versionField, 'v')}) FROM "${this.tableName}" AS v ` +
+      `WHERE ${this.fieldSql(latestBy.groupField, 'v')} = ${this.fieldSql(latestBy.groupField)})`;
+  }
+
+  /**
+   * Builds the SQL expression that reads a stored field
+   * @param field The name of the field
+   * @param alias The alias of the table the field is read from
+   * @throws Error if the field name is not a plain identifier
+   */
+  private fieldSql(field: string, alias = 'e'): string {
+    return field === 'id' ? `${alias}.id` : `json_extract(${alias}.data, ${this.fieldPath(field)})`;
+  }
+
+  /**
+   * Builds the JSON path of a stored field
+   * @param field The name of the field
+   * @throws Error if the field name is not a plain identifier
+   */
+  private fieldPath(field: string): string {
+    if (!isFieldName(field)) {
+      throw new Error(`Invalid field name ${field}`);
+    }
+    
+    return `'$.${field}'`;
+  }
+
+  /**
+   * Builds the SQL for a filter of nested conditions
+   * @param filter The filter
+   * @param params The query parameters, the values of the conditions are added to
+   */
+  private filterSql(filter: QueryFilter, params: Array<string | number | null>): string {
+    if (isAndFilter(filter)) {
+      const parts = filter.and.map(part => this.filterSql(part, params));
+      return parts.length > 0 ? `(${parts.join(' AND ')})` : '1';
+    }
+    
+    if (isOrFilter(filter)) {
+      const parts = filter.or.map(part => this.filterSql(part, params));
+      return parts.length > 0 ? `(${parts.join(' OR ')})` : '0';
+    }
+    
+    return this.conditionSql(filter, params);
+  }
+
+  /**
+   * Builds the SQL for a condition on a stored field
+   * @param condition The condition
+   * @param params The query parameters, the values of the condition are added to
+   */
+  private conditionSql(condition: FieldCondition, params: Array<string | number | null>): string {
+    const field = this.fieldSql(condition.field);
+    
+    switch (condition.operator) {
+      case 'exists':
+        return condition.value ? `${field} IS NOT NULL` : `${field} IS NULL`;
+      case 'startsWith':
+        params.push(`${this.escapeLike(condition.value)}%`);
+        return `${field} LIKE ? ESCAPE '\\'`;
+      case 'contains':
+        params.push(`%${this.escapeLike(condition.value)}%`);
+        return `${field} LIKE ? ESCAPE '\\'`;
+      case 'in':
+        if (condition.value.length === 0) {
+          return '0';
+        }
+        
+        params.push(...condition.value.map(value => this.toParam(value)));
+        return `${field} IN (${condition.value.map(() => '?').join(', ')})`;
+      default:
+        params.push(this.toParam(condition.value));
+        return `${field} ${SQL_OPERATORS[condition.operator]} ?`;
+    }
+  }
+
+  /**
+   * Escapes the wildcards of LIKE in a value, so it is matched literally
+   * @param value The value to escape
+   */
+  private escapeLike(value: FieldValue): string {
+    return String(value).replace(/[\\%_]/g, match => `\\${match}`);
+  }
+
+  /**
+   * Converts a value to the form json_extract returns for it
+   * @param value The value to convert
+   */
+  private toParam(value: FieldValue): string | number {
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    
+    if (typeof value === 'boolean') {
+      return value ? 1 : 0;
+    }
+    
+    return value;
+  }
+
+  /**
+   * Closes the underlying database connection
+   * The connection is reopened on next use
+   */
+  public close(): void {
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+  }
+}
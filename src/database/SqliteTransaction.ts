@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { Transaction, TransactionManager } from './Transaction';
+import { DEFAULT_SQLITE_FILE } from './SqliteDatabase';
+
+/**
+ * Transaction over the tables of one SQLite database file
+ * Runs as a native SQLite transaction on a connection of its own, which the entity stores use while
+ * the transaction is in progress; other connections only see its writes once it commits
+ */
+export class SqliteTransaction extends Transaction {
+  /**
+   * Creates a new SqliteTransaction instance
+   * @param manager The manager of the database file
+   * @param connection The connection the transaction was begun on
+   * @param release Releases the write lock of the database file
+   */
+  constructor(
+    manager: SqliteTransactionManager,
+    public readonly connection: BetterSqlite3.Database,
+    release: () => void
+  ) {
+    super(manager, release);
+  }
+
+  /**
+   * Commits the SQLite transaction
+   */
+  protected async writeChanges(): Promise<void> {
+    this.connection.exec('COMMIT');
+  }
+
+  /**
+   * Rolls the SQLite transaction back, unless SQLite already did so itself
+   */
+  protected async discardChanges(): Promise<void> {
+    if (this.connection.inTransaction) {
+      this.connection.exec('ROLLBACK');
+    }
+  }
+}
+
+/**
+ * Manages the transactions of one SQLite database file
+ * Transactions take turns on a single connection, opened on first use
+ */
+export class SqliteTransactionManager extends TransactionManager {
+  private connection: BetterSqlite3.Database | null = null;
+
+  /**
+   * Creates a new SqliteTransactionManager instance
+   * @param filePath The path of the SQLite database file
+   */
+  constructor(private readonly filePath: string = DEFAULT_SQLITE_FILE) {
+    super(filePath);
+  }
+
+  /**
+   * Gets the transaction the calling code runs in
+   * @returns The transaction, or undefined outside of a transaction
+   * @throws Error if the calling code runs in a transaction of another database
+   */
+  public current(): SqliteTransaction | undefined {
+    return this.currentTransaction() as SqliteTransaction | undefined;
+  }
+
+  /**
+   * Begins a SQLite transaction that takes the database's write lock straight away
+   * @param release Releases the write lock of the database file
+   */
+  protected async start(release: () => void): Promise<SqliteTransaction> {
+    const connection = this.open();
+    connection.exec('BEGIN IMMEDIATE');
+
+    return new SqliteTransaction(this, connection, release);
+  }
+
+  /**
+   * Opens the connection transactions run on, if it is not open yet
+   */
+  private open(): BetterSqlite3.Database {
+    if (!this.connection) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+
+      const connection = new BetterSqlite3(this.filePath);
+      connection.pragma('journal_mode = WAL');
+      connection.pragma('busy_timeout = 5000');
+
+      this.connection = connection;
+    }
+
+    return this.connection;
+  }
+
+  /**
+   * Closes the connection transactions run on
+   * The connection is reopened by the next transaction
+   */
+  public close(): void {
+    if (this.connection) {
+      this.connection.close();
+      this.connection = null;
+    }
+  }
+}
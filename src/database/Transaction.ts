@@ -0,0 +1,176 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { KeyedLock } from '../utils/keyedLock';
+
+/**
+ * Where a transaction stands
+ */
+export type TransactionStatus = 'active' | 'committed' | 'rolledBack';
+
+const storage = new AsyncLocalStorage<Transaction>();
+
+/**
+ * Gets the transaction the calling code runs in
+ * @returns The transaction, or undefined outside of a transaction
+ */
+export const getCurrentTransaction = (): Transaction | undefined => {
+  return storage.getStore();
+};
+
+/**
+ * A unit of work spanning any number of the entity stores of one database
+ * Writes made while the transaction runs are only seen by the code running in it until they are
+ * committed together, and are all discarded on rollback
+ */
+export abstract class Transaction {
+  public readonly id: string = uuidv4();
+  private currentStatus: TransactionStatus = 'active';
+
+  /**
+   * Creates a new Transaction instance
+   * @param manager The manager of the database the transaction belongs to
+   * @param release Releases the write lock of the database, held until the transaction ends
+   */
+  constructor(
+    public readonly manager: TransactionManager,
+    private readonly release: () => void
+  ) {}
+
+  /**
+   * Gets where the transaction stands
+   */
+  public get status(): TransactionStatus {
+    return this.currentStatus;
+  }
+
+  /**
+   * Runs work in the transaction
+   * Every database call the work makes, however deeply nested, takes part in the transaction
+   * @param work The work to run
+   * @returns Promise resolving to the result of the work
+   * @throws Error if the transaction has ended
+   */
+  public run<T>(work: () => Promise<T>): Promise<T> {
+    this.assertActive();
+    return storage.run(this, work);
+  }
+
+  /**
+   * Makes the writes of the transaction permanent and visible to everyone
+   * If committing fails, the transaction is rolled back and the error is rethrown
+   * @throws Error if the transaction has ended
+   */
+  public async commit(): Promise<void> {
+    this.assertActive();
+
+    try {
+      await this.writeChanges();
+      this.currentStatus = 'committed';
+    } catch (error) {
+      this.currentStatus = 'rolledBack';
+      await this.discardChanges();
+      throw error;
+    } finally {
+      this.release();
+    }
+  }
+
+  /**
+   * Discards the writes of the transaction
+   * @throws Error if the transaction has ended
+   */
+  public async rollback(): Promise<void> {
+    this.assertActive();
+
+    try {
+      await this.discardChanges();
+    } finally {
+      this.currentStatus = 'rolledBack';
+      this.release();
+    }
+  }
+
+  /**
+   * Checks that the transaction can still be used
+   * @throws Error if the transaction has been committed or rolled back
+   */
+  public assertActive(): void {
+    if (this.currentStatus !== 'active') {
+      throw new Error(`Transaction ${this.id} has already ended`);
+    }
+  }
+
+  /**
+   * Writes the changes of the transaction to the database
+   */
+  protected abstract writeChanges(): Promise<void>;
+
+  /**
+   * Throws the changes of the transaction away
+   */
+  protected abstract discardChanges(): Promise<void>;
+}
+
+/**
+ * Begins the transactions of one database and keeps other writes from interleaving with them
+ * A transaction holds the write lock of its database from begin to end, and writes made outside of
+ * a transaction take the same lock, so nothing a transaction has read changes under it
+ */
+export abstract class TransactionManager {
+  private static readonly writeLock = new KeyedLock();
+
+  /**
+   * Creates a new TransactionManager instance
+   * @param location The data directory or file of the database, which names its write lock
+   */
+  constructor(private readonly location: string) {}
+
+  /**
+   * Begins a transaction once no other transaction or write of the database is in progress
+   * @returns Promise resolving to the transaction
+   * @throws Error if the calling code already runs in a transaction
+   */
+  public async begin(): Promise<Transaction> {
+    if (getCurrentTransaction()) {
+      throw new Error('A transaction is already in progress');
+    }
+
+    const release = await TransactionManager.writeLock.acquire(this.location);
+
+    try {
+      return await this.start(release);
+    } catch (error) {
+      release();
+      throw error;
+    }
+  }
+
+  /**
+   * Runs a write made outside of a transaction once no transaction of the database is in progress
+   * @param write The write to run
+   * @returns Promise resolving to the result of the write
+   */
+  public exclusive<T>(write: () => Promise<T>): Promise<T> {
+    return TransactionManager.writeLock.run(this.location, write);
+  }
+
+  /**
+   * Gets the transaction the calling code runs in, if it is one of this database's
+   * @throws Error if the calling code runs in a transaction of another database
+   */
+  protected currentTransaction(): Transaction | undefined {
+    const transaction = getCurrentTransaction();
+
+    if (transaction && transaction.manager !== this) {
+      throw new Error(`Transaction ${transaction.id} belongs to another database`);
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Starts a transaction once the write lock is held
+   * @param release Releases the write lock
+   */
+  protected abstract start(release: () => void): Promise<Transaction>;
+}
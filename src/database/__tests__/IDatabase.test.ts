@@ -0,0 +1,662 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import BetterSqlite3 from 'better-sqlite3';
+import { IDatabase } from '../IDatabase';
+import { JsonDatabase } from '../JsonDatabase';
+import { SqliteDatabase } from '../SqliteDatabase';
+import { DatabaseConfig, DatabaseFactory } from '../DatabaseFactory';
+import { EntityMapper } from '../EntityMapper';
+import { QueryFilter } from '../Query';
+import { Topic, TopicRecord } from '../../models/Topic';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+interface Backend {
+  name: string;
+  open: (dir: string) => IDatabase<Topic>;
+  close: (database: IDatabase<Topic>) => void;
+}
+
+const topicIndexes = ['rootTopicId', 'parentTopicId'];
+
+const backends: Backend[] = [
+  {
+    name: 'JsonDatabase',
+    open: dir => new JsonDatabase<Topic>('Topic', dir),
+    close: () => undefined
+  },
+  {
+    name: 'SqliteDatabase',
+    open: dir => new SqliteDatabase<Topic>('Topic', path.join(dir, 'test.sqlite')),
+    close: database => (database as SqliteDatabase<Topic>).close()
+  },
+  {
+    name: 'JsonDatabase with indexes',
+    open: dir => new JsonDatabase<Topic>('Topic', dir, { indexes: topicIndexes }),
+    close: () => undefined
+  },
+  {
+    name: 'SqliteDatabase with indexes',
+    open: dir => new SqliteDatabase<Topic>('Topic', path.join(dir, 'test.sqlite'), undefined, undefined, topicIndexes),
+    close: database => (database as SqliteDatabase<Topic>).close()
+  }
+];
+
+describe.each(backends)('IDatabase contract ($name)', ({ open, close }) => {
+  let testDataDir: string;
+  let database: IDatabase<Topic>;
+
+  beforeEach(() => {
+    testDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-db-'));
+    database = open(testDataDir);
+  });
+
+  afterEach(() => {
+    close(database);
+    fs.rmSync(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should initialize with no entities', async () => {
+    const topics = await database.findAll();
+
+    expect(topics).toEqual([]);
+  });
+
+  it('should load existing data when reopened', async () => {
+    const topic = new Topic('Test Topic', 'Test Content');
+    await database.create(topic);
+    close(database);
+
+    // Reopen the same storage with a fresh instance
+    database = open(testDataDir);
+    const topics = await database.findAll();
+
+    expect(topics).toHaveLength(1);
+    expect(topics[0].id).toBe(topic.id);
+    expect(topics[0].name).toBe('Test Topic');
+  });
+
+  it('should create a new entity', async () => {
+    const topic = new Topic('New Topic', 'New Content');
+
+    const createdTopic = await database.create(topic);
+    const found = await database.findById(topic.id);
+
+    expect(createdTopic).toBe(topic);
+    expect(found?.name).toBe('New Topic');
+  });
+
+  it('should reject a duplicate ID', async () => {
+    const topic = new Topic('New Topic', 'New Content');
+    await database.create(topic);
+
+    await expect(database.create(topic))
+      .rejects.toThrow(`Entity with ID ${topic.id} already exists`);
+  });
+
+  it('should update an existing entity', async () => {
+    const topic = new Topic('Original Topic', 'Original Content');
+    await database.create(topic);
+
+    const updatedTopic = new Topic(
+      topic.name, 'Updated Content', 2, undefined, topic.id, topic.createdAt
+    );
+    const result = await database.update(topic.id, updatedTopic);
+    const found = await database.findById(topic.id);
+
+    expect(result).toBe(updatedTopic);
+    expect(found?.content).toBe('Updated Content');
+    expect(found?.version).toBe(2);
+    expect(await database.findAll()).toHaveLength(1);
+  });
+
+  it('should return null when updating a missing entity', async () => {
+    const topic = new Topic('Missing Topic', 'Content');
+
+    expect(await database.update(topic.id, topic)).toBeNull();
+  });
+
+  it('should reject an update whose entity ID does not match', async () => {
+    const topic = new Topic('Topic', 'Content');
+    await database.create(topic);
+
+    await expect(database.update(topic.id, new Topic('Other', 'Content')))
+      .rejects.toThrow('Entity ID does not match the provided ID');
+  });
+
+  it('should delete an entity', async () => {
+    const topic = new Topic('Topic to Delete', 'Content');
+    await database.create(topic);
+
+    expect(await database.delete(topic.id)).toBe(true);
+    expect(await database.delete(topic.id)).toBe(false);
+    expect(await database.findById(topic.id)).toBeNull();
+  });
+
+  it('should query entities based on a predicate', async () => {
+    await database.create(new Topic('Topic 1', 'Content 1'));
+    await database.create(new Topic('Topic 2', 'Content 2'));
+    await database.create(new Topic('Different', 'Content 3'));
+
+    const results = await database.query(topic => topic.name.includes('Topic'));
+
+    expect(results).toHaveLength(2);
+    expect(results[0].name).toBe('Topic 1');
+    expect(results[1].name).toBe('Topic 2');
+  });
+
+  describe('findPage', () => {
+    const day = (n: number): Date => new Date(Date.UTC(2026, 0, n));
+    let alpha: Topic;
+    let beta: Topic;
+    let gamma: Topic;
+
+    beforeEach(async () => {
+      alpha = new Topic('Alpha', 'Content', 1, undefined, 'id-a', day(1), day(1));
+      beta = new Topic('beta', 'Content', 1, 'id-a', 'id-b', day(2), day(2));
+      gamma = new Topic('Gamma', 'Content', 1, 'id-a', 'id-c', day(3), day(3));
+
+      for (const topic of [gamma, alpha, beta]) {
+        await database.create(topic);
+      }
+    });
+
+    it('should sort, limit and continue after a position', async () => {
+      const first = await database.findPage({ sortBy: 'createdAt', limit: 2 });
+      const second = await database.findPage({
+        sortBy: 'createdAt',
+        after: { value: day(2).toISOString(), id: 'id-b' },
+        limit: 2
+      });
+
+      expect(first.items.map(topic => topic.id)).toEqual(['id-a', 'id-b']);
+      expect(first.hasMore).toBe(true);
+      expect(second.items.map(topic => topic.id)).toEqual(['id-c']);
+      expect(second.hasMore).toBe(false);
+    });
+
+    it('should sort in descending order with the ID breaking ties', async () => {
+      await database.create(new Topic('Alpha', 'Content', 1, undefined, 'id-d', day(4), day(4)));
+
+      const page = await database.findPage({ sortBy: 'name', sortDirection: 'desc', limit: 10 });
+      const after = await database.findPage({
+        sortBy: 'name',
+        sortDirection: 'desc',
+        after: { value: 'Alpha', id: 'id-d' },
+        limit: 10
+      });
+
+      expect(page.items.map(topic => topic.id)).toEqual(['id-b', 'id-c', 'id-d', 'id-a']);
+      expect(after.items.map(topic => topic.id)).toEqual(['id-a']);
+    });
+
+    it('should filter by field conditions', async () => {
+      const children = await database.findPage({
+        where: [{ field: 'parentTopicId', operator: 'eq', value: 'id-a' }],
+        limit: 10
+      });
+      const roots = await database.findPage({
+        where: [{ field: 'parentTopicId', operator: 'exists', value: false }],
+        limit: 10
+      });
+      const recent = await database.findPage({
+        where: [{ field: 'updatedAt', operator: 'gte', value: day(2) }],
+        limit: 10
+      });
+      const prefixed = await database.findPage({
+        where: [{ field: 'name', operator: 'startsWith', value: 'B' }],
+        limit: 10
+      });
+
+      expect(children.items.map(topic => topic.id)).toEqual(['id-b', 'id-c']);
+      expect(roots.items.map(topic => topic.id)).toEqual(['id-a']);
+      expect(recent.items.map(topic => topic.id)).toEqual(['id-b', 'id-c']);
+      expect(prefixed.items.map(topic => topic.id)).toEqual(['id-b']);
+    });
+
+    it('should treat wildcards in a prefix literally', async () => {
+      const page = await database.findPage({
+        where: [{ field: 'name', operator: 'startsWith', value: '%' }],
+        limit: 10
+      });
+
+      expect(page.items).toEqual([]);
+    });
+
+    it('should only return the latest version in each group', async () => {
+      const version = new Topic('Alpha v2', 'Content', 2, undefined, 'id-a2', day(1), day(5), 'id-a', 'id-a');
+      await database.create(version);
+
+      const page = await database.findPage({
+        latestBy: { groupField: 'rootTopicId', versionField: 'version' },
+        where: [{ field: 'name', operator: 'startsWith', value: 'alpha' }],
+        limit: 10
+      });
+
+      expect(page.items.map(topic => topic.id)).toEqual(['id-a2']);
+    });
+
+    it('should reject field names that are not identifiers', async () => {
+      await expect(database.findPage({ sortBy: "name') --", limit: 10 }))
+        .rejects.toThrow('Invalid field name');
+    });
+  });
+
+  describe('findBy', () => {
+    let root: Topic;
+    let child: Topic;
+    let grandchild: Topic;
+
+    beforeEach(async () => {
+      root = new Topic('Root', 'Content');
+      child = root.createChildTopic('Child', 'Content');
+      grandchild = child.createChildTopic('Grandchild', 'Content');
+
+      for (const topic of [root, child, grandchild]) {
+        await database.create(topic);
+      }
+    });
+
+    it('should find the entities that meet every condition, in the order they were stored', async () => {
+      const sibling = root.createChildTopic('Sibling', 'Content');
+      await database.create(sibling);
+
+      const children = await database.findBy([{ field: 'parentTopicId', operator: 'eq', value: root.rootTopicId }]);
+      const named = await database.findBy([
+        { field: 'parentTopicId', operator: 'eq', value: root.rootTopicId },
+        { field: 'name', operator: 'startsWith', value: 'sib' }
+      ]);
+
+      expect(children.map(topic => topic.id)).toEqual([child.id, sibling.id]);
+      expect(named.map(topic => topic.id)).toEqual([sibling.id]);
+    });
+
+    it('should find the entities without a value for a field', async () => {
+      const roots = await database.findBy([{ field: 'parentTopicId', operator: 'exists', value: false }]);
+
+      expect(roots.map(topic => topic.id)).toEqual([root.id]);
+    });
+
+    it('should see updates and deletes', async () => {
+      const moved = child.moveTo(undefined);
+      await database.create(moved);
+      await database.update(grandchild.id, grandchild.moveToTrash('user-id'));
+      await database.delete(child.id);
+
+      const versions = await database.findBy([{ field: 'rootTopicId', operator: 'eq', value: child.rootTopicId }]);
+      const children = await database.findBy([{ field: 'parentTopicId', operator: 'eq', value: root.rootTopicId }]);
+      const roots = await database.findBy([{ field: 'parentTopicId', operator: 'exists', value: false }]);
+      const trashed = await database.findBy([
+        { field: 'parentTopicId', operator: 'eq', value: child.rootTopicId },
+        { field: 'deletedAt', operator: 'exists', value: true }
+      ]);
+
+      expect(versions.map(topic => topic.id)).toEqual([moved.id]);
+      expect(children).toEqual([]);
+      expect(roots.map(topic => topic.id)).toEqual([root.id, moved.id]);
+      expect(trashed.map(topic => topic.id)).toEqual([grandchild.id]);
+    });
+
+    it('should return every entity when there are no conditions', async () => {
+      const topics = await database.findBy([]);
+
+      expect(topics).toHaveLength(3);
+    });
+
+    it('should reject field names that are not identifiers', async () => {
+      await expect(database.findBy([{ field: "name') --", operator: 'eq', value: 'x' }]))
+        .rejects.toThrow('Invalid field name');
+    });
+  });
+
+  describe('find', () => {
+    const day = (n: number): Date => new Date(Date.UTC(2026, 0, n));
+    let alpha: Topic;
+    let beta: Topic;
+    let gamma: Topic;
+    let delta: Topic;
+
+    beforeEach(async () => {
+      alpha = new Topic('Alpha', 'Content', 1, undefined, 'id-a', day(1), day(1));
+      beta = new Topic('Beta', 'Content', 1, 'id-a', 'id-b', day(2), day(2));
+      gamma = new Topic('Gamma 100%', 'Content', 1, 'id-a', 'id-c', day(3), day(3));
+      delta = new Topic('Delta', 'Content', 1, 'id-b', 'id-d', day(4), day(4));
+
+      for (const topic of [gamma, alpha, delta, beta]) {
+        await database.create(topic);
+      }
+    });
+
+    it('should return every entity in the order they were stored for an empty query', async () => {
+      const topics = await database.find({});
+
+      expect(topics.map(topic => topic.id)).toEqual(['id-c', 'id-a', 'id-d', 'id-b']);
+    });
+
+    it('should filter by equality, ranges, lists, prefixes and substrings', async () => {
+      const ids = async (where: QueryFilter): Promise<string[]> =>
+        (await database.find({ where, sort: [{ field: 'id' }] })).map(topic => topic.id);
+
+      expect(await ids({ field: 'parentTopicId', operator: 'eq', value: 'id-a' })).toEqual(['id-b', 'id-c']);
+      expect(await ids({
+        and: [
+          { field: 'createdAt', operator: 'gt', value: day(1) },
+          { field: 'createdAt', operator: 'lte', value: day(3) }
+        ]
+      })).toEqual(['id-b', 'id-c']);
+      expect(await ids({ field: 'name', operator: 'in', value: ['Alpha', 'Delta', 'Omega'] })).toEqual(['id-a', 'id-d']);
+      expect(await ids({ field: 'name', operator: 'in', value: [] })).toEqual([]);
+      expect(await ids({ field: 'name', operator: 'startsWith', value: 'b' })).toEqual(['id-b']);
+      expect(await ids({ field: 'name', operator: 'contains', value: '0%' })).toEqual(['id-c']);
+      expect(await ids({ field: 'name', operator: 'contains', value: 'LT' })).toEqual(['id-d']);
+    });
+
+    it('should combine nested and and or filters', async () => {
+      const topics = await database.find({
+        where: {
+          or: [
+            { field: 'parentTopicId', operator: 'exists', value: false },
+            {
+              and: [
+                { field: 'parentTopicId', operator: 'eq', value: 'id-a' },
+                { field: 'name', operator: 'startsWith', value: 'g' }
+              ]
+            }
+          ]
+        }
+      });
+      const none = await database.find({ where: { or: [] } });
+      const all = await database.find({ where: { and: [] } });
+
+      expect(topics.map(topic => topic.id)).toEqual(['id-c', 'id-a']);
+      expect(none).toEqual([]);
+      expect(all).toHaveLength(4);
+    });
+
+    it('should sort by several fields and limit the result', async () => {
+      const topics = await database.find({
+        sort: [{ field: 'parentTopicId', direction: 'desc' }, { field: 'createdAt', direction: 'desc' }],
+        limit: 3
+      });
+
+      expect(topics.map(topic => topic.id)).toEqual(['id-d', 'id-c', 'id-b']);
+    });
+
+    it('should filter the latest version in each group', async () => {
+      await database.create(new Topic('Beta v2', 'Content', 2, 'id-b', 'id-b2', day(2), day(5), 'id-b', 'id-b'));
+
+      const topics = await database.find({
+        where: { field: 'parentTopicId', operator: 'eq', value: 'id-a' },
+        latestBy: { groupField: 'rootTopicId', versionField: 'version' }
+      });
+
+      expect(topics.map(topic => topic.id)).toEqual(['id-c']);
+    });
+
+    it('should pick the selected fields as they are stored', async () => {
+      const records = await database.findProjected({
+        where: { field: 'parentTopicId', operator: 'eq', value: 'id-a' },
+        sort: [{ field: 'name' }],
+        select: ['id', 'name', 'createdAt', 'ownerId']
+      });
+
+      expect(records).toEqual([
+        { id: 'id-b', name: 'Beta', createdAt: day(2).toISOString(), ownerId: null },
+        { id: 'id-c', name: 'Gamma 100%', createdAt: day(3).toISOString(), ownerId: null }
+      ]);
+    });
+
+    it('should reject field names that are not identifiers', async () => {
+      await expect(database.find({ sort: [{ field: "name') --" }] })).rejects.toThrow('Invalid field name');
+      await expect(database.findProjected({ select: ["name') --"] })).rejects.toThrow('Invalid field name');
+    });
+  });
+});
+
+describe('DatabaseFactory', () => {
+  afterEach(() => {
+    DatabaseFactory.configure({ driver: 'json' });
+  });
+
+  it('should return a JsonDatabase for the json driver', () => {
+    DatabaseFactory.configure({ driver: 'json' });
+
+    expect(DatabaseFactory.getDatabase('Topic')).toBeInstanceOf(JsonDatabase);
+  });
+
+  it('should return a SqliteDatabase for the sqlite driver', () => {
+    DatabaseFactory.configure({ driver: 'sqlite', sqliteFile: ':memory:' });
+
+    expect(DatabaseFactory.getDatabase('Topic')).toBeInstanceOf(SqliteDatabase);
+  });
+
+  it('should reuse the instance for an entity type', () => {
+    DatabaseFactory.configure({ driver: 'json' });
+
+    expect(DatabaseFactory.getDatabase('Topic')).toBe(DatabaseFactory.getDatabase('Topic'));
+  });
+
+  it('should index the fields registered for an entity type', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-db-'));
+    const sqliteFile = path.join(dir, 'test.sqlite');
+    DatabaseFactory.configure({ driver: 'sqlite', sqliteFile });
+    const before = DatabaseFactory.getDatabase('Note');
+
+    DatabaseFactory.registerIndexes('Note', ['title']);
+    const note = DatabaseFactory.getDatabase('Note');
+    await note.findAll();
+    const connection = new BetterSqlite3(sqliteFile);
+    const indexes = connection.prepare("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'note'").all();
+    connection.close();
+    DatabaseFactory.clearDatabases();
+    fs.rmSync(dir, { recursive: true, force: true });
+
+    expect(DatabaseFactory.getIndexes('Note')).toEqual(['title']);
+    expect(DatabaseFactory.getIndexes('Topic')).toEqual(['rootTopicId', 'parentTopicId']);
+    expect(note).not.toBe(before);
+    expect(indexes).toContainEqual({ name: 'note_title' });
+  });
+});
+
+describe.each<DatabaseConfig['driver']>(['json', 'sqlite'])('DatabaseFactory entity mapping (%s)', driver => {
+  let testDataDir: string;
+
+  /**
+   * Points the factory at the test directory, discarding open instances as a restart would
+   */
+  const restart = (): void => {
+    DatabaseFactory.configure({
+      driver,
+      dataDir: testDataDir,
+      sqliteFile: path.join(testDataDir, 'test.sqlite')
+    });
+  };
+
+  beforeEach(() => {
+    testDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-db-'));
+    restart();
+  });
+
+  afterEach(() => {
+    DatabaseFactory.configure({ driver: 'json' });
+    fs.rmSync(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should load topics as Topic instances that keep working', async () => {
+    const topic = new Topic('Test Topic', 'Test Content').moveToTrash('admin-id', new Date('2026-03-01T12:00:00Z'));
+    await DatabaseFactory.getDatabase<Topic>('Topic').create(topic);
+    restart();
+
+    const loaded = await DatabaseFactory.getDatabase<Topic>('Topic').findById(topic.id);
+
+    expect(loaded).toBeInstanceOf(Topic);
+    expect(loaded?.createdAt).toEqual(topic.createdAt);
+    expect(loaded?.deletedAt).toEqual(new Date('2026-03-01T12:00:00Z'));
+    expect(() => loaded?.validate()).not.toThrow();
+    expect(loaded?.restoreFromTrash().createNewVersion('New Content').version).toBe(2);
+  });
+
+  it('should keep the password of users across a restart', async () => {
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123', UserRole.EDITOR);
+    await DatabaseFactory.getDatabase<User>('User').create(user);
+    restart();
+
+    const [loaded] = await DatabaseFactory.getDatabase<User>('User').query(stored => stored.email === user.email);
+
+    expect(loaded).toBeInstanceOf(User);
+    expect(loaded.verifyPassword('password123')).toBe(true);
+    expect(loaded.verifyPassword('wrong-password')).toBe(false);
+  });
+
+  it('should hand out entities of a page as instances', async () => {
+    const topic = new Topic('Test Topic', 'Test Content');
+    await DatabaseFactory.getDatabase<Topic>('Topic').create(topic);
+
+    const page = await DatabaseFactory.getDatabase<Topic>('Topic').findPage({ limit: 10 });
+
+    expect(page.items[0]).toBeInstanceOf(Topic);
+    expect(page.items[0].updatedAt).toEqual(topic.updatedAt);
+  });
+
+  it('should store an entity type with a registered mapper', async () => {
+    const mapper: EntityMapper<Topic> = {
+      toRecord: topic => ({ ...topic.toRecord(), name: topic.name.toUpperCase() }),
+      fromRecord: record => Topic.fromRecord(record as TopicRecord)
+    };
+    DatabaseFactory.registerMapper('Note', mapper);
+    const topic = new Topic('Test Topic', 'Test Content');
+    await DatabaseFactory.getDatabase<Topic>('Note').create(topic);
+    restart();
+
+    const loaded = await DatabaseFactory.getDatabase<Topic>('Note').findById(topic.id);
+
+    expect(loaded).toBeInstanceOf(Topic);
+    expect(loaded?.name).toBe('TEST TOPIC');
+  });
+});
+
+describe.each<DatabaseConfig['driver']>(['json', 'sqlite'])('DatabaseFactory transactions (%s)', driver => {
+  let testDataDir: string;
+
+  /**
+   * Points the factory at the test directory, discarding open instances as a restart would
+   */
+  const restart = (): void => {
+    DatabaseFactory.configure({
+      driver,
+      dataDir: testDataDir,
+      sqliteFile: path.join(testDataDir, 'test.sqlite')
+    });
+  };
+
+  const topics = (): IDatabase<Topic> => DatabaseFactory.getDatabase<Topic>('Topic');
+  const users = (): IDatabase<User> => DatabaseFactory.getDatabase<User>('User');
+
+  beforeEach(() => {
+    testDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'kb-db-'));
+    restart();
+  });
+
+  afterEach(() => {
+    DatabaseFactory.configure({ driver: 'json' });
+    fs.rmSync(testDataDir, { recursive: true, force: true });
+  });
+
+  it('should commit the writes to several entity types together', async () => {
+    const topic = new Topic('Test Topic', 'Test Content');
+    const user = new User('Test User', 'test@example.com', UserRole.EDITOR);
+    // A store opened for the first time waits for the transaction, so open them as a running app would have
+    await topics().findAll();
+    await users().findAll();
+    const transaction = await DatabaseFactory.beginTransaction();
+
+    const seenInside = await transaction.run(async () => {
+      await topics().create(topic);
+      await users().create(user);
+      return topics().findById(topic.id);
+    });
+    const seenOutside = await topics().findById(topic.id);
+    await transaction.commit();
+    restart();
+
+    expect(seenInside?.id).toBe(topic.id);
+    expect(seenOutside).toBeNull();
+    expect(transaction.status).toBe('committed');
+    expect((await topics().findById(topic.id))?.name).toBe('Test Topic');
+    expect((await users().findById(user.id))?.email).toBe('test@example.com');
+  });
+
+  it('should discard the writes to every entity type on rollback', async () => {
+    const kept = new Topic('Kept', 'Content');
+    await topics().create(kept);
+    const transaction = await DatabaseFactory.beginTransaction();
+
+    await transaction.run(async () => {
+      await topics().delete(kept.id);
+      await topics().create(new Topic('Discarded', 'Content'));
+      await users().create(new User('Test User', 'test@example.com', UserRole.EDITOR));
+    });
+    await transaction.rollback();
+    restart();
+
+    expect((await topics().findAll()).map(topic => topic.name)).toEqual(['Kept']);
+    expect(await users().findAll()).toEqual([]);
+  });
+
+  it('should roll back and rethrow when the work fails', async () => {
+    const act = DatabaseFactory.transaction(async () => {
+      await topics().create(new Topic('Discarded', 'Content'));
+      throw new Error('Work failed');
+    });
+
+    await expect(act).rejects.toThrow('Work failed');
+    expect(await topics().findAll()).toEqual([]);
+  });
+
+  it('should make nested work part of the transaction it runs in', async () => {
+    const act = DatabaseFactory.transaction(async () => {
+      await DatabaseFactory.transaction(() => topics().create(new Topic('Inner', 'Content')));
+      throw new Error('Outer work failed');
+    });
+
+    await expect(act).rejects.toThrow('Outer work failed');
+    expect(await topics().findAll()).toEqual([]);
+  });
+
+  it('should hold writes made outside the transaction until it ends', async () => {
+    const inside = new Topic('Inside', 'Content');
+    const outside = new Topic('Outside', 'Content');
+    const transaction = await DatabaseFactory.beginTransaction();
+    await transaction.run(() => topics().create(inside));
+    let written = false;
+
+    const write = topics().create(outside).then(() => {
+      written = true;
+    });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    const writtenBeforeCommit = written;
+    await transaction.commit();
+    await write;
+
+    expect(writtenBeforeCommit).toBe(false);
+    expect((await topics().findAll()).map(topic => topic.name).sort()).toEqual(['Inside', 'Outside']);
+  });
+
+  it('should refuse to begin a transaction inside another', async () => {
+    const transaction = await DatabaseFactory.beginTransaction();
+
+    const act = transaction.run(() => DatabaseFactory.beginTransaction());
+
+    await expect(act).rejects.toThrow('A transaction is already in progress');
+    await transaction.rollback();
+  });
+
+  it('should refuse writes once the transaction has ended', async () => {
+    const transaction = await DatabaseFactory.beginTransaction();
+    await transaction.commit();
+
+    expect(() => transaction.run(() => topics().findAll())).toThrow(`Transaction ${transaction.id} has already ended`);
+    await expect(transaction.rollback()).rejects.toThrow('has already ended');
+  });
+});
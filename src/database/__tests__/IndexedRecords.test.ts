@@ -0,0 +1,100 @@
+import { IndexedRecords } from '../IndexedRecords';
+import { EntityRecord } from '../EntityMapper';
+
+interface NoteRecord extends EntityRecord {
+  folderId?: string;
+  pinned?: boolean;
+}
+
+describe('IndexedRecords', () => {
+  const note = (id: string, folderId?: string, pinned?: boolean): NoteRecord => ({ id, folderId, pinned });
+
+  it('should look records up by an indexed field in the order they were stored', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1'), note('b', 'f2'), note('c', 'f1')]);
+
+    // Act
+    const found = records.lookup('folderId', 'f1');
+
+    // Assert
+    expect(found?.map(record => record.id)).toEqual(['a', 'c']);
+    expect(records.lookup('folderId', 'missing')).toEqual([]);
+  });
+
+  it('should file records without a value under null', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1'), note('b')]);
+
+    // Act
+    const found = records.lookup('folderId', null);
+
+    // Assert
+    expect(found?.map(record => record.id)).toEqual(['b']);
+  });
+
+  it('should return undefined for a field that is not indexed', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1', true)]);
+
+    // Act & Assert
+    expect(records.isIndexed('pinned')).toBe(false);
+    expect(records.lookup('pinned', true)).toBeUndefined();
+  });
+
+  it('should file a record again when an indexed value changes', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1'), note('b', 'f1')]);
+
+    // Act
+    records.set('a', note('a', 'f2'));
+    records.set('b', note('b', 'f1', true));
+
+    // Assert
+    expect(records.lookup('folderId', 'f1')?.map(record => record.id)).toEqual(['b']);
+    expect(records.lookup('folderId', 'f1')?.[0]).toEqual(note('b', 'f1', true));
+    expect(records.lookup('folderId', 'f2')?.map(record => record.id)).toEqual(['a']);
+  });
+
+  it('should take deleted and cleared records out of the indexes', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1'), note('b', 'f1')]);
+
+    // Act
+    const deleted = records.delete('a');
+    const deletedAgain = records.delete('a');
+    const remaining = records.lookup('folderId', 'f1');
+    records.clear();
+
+    // Assert
+    expect(deleted).toBe(true);
+    expect(deletedAgain).toBe(false);
+    expect(remaining?.map(record => record.id)).toEqual(['b']);
+    expect(records.lookup('folderId', 'f1')).toEqual([]);
+  });
+
+  it('should keep a copy and its original apart', () => {
+    // Arrange
+    const records = new IndexedRecords(['folderId'], [note('a', 'f1')]);
+
+    // Act
+    const copy = records.clone();
+    copy.set('b', note('b', 'f1'));
+    copy.delete('a');
+
+    // Assert
+    expect(records.lookup('folderId', 'f1')?.map(record => record.id)).toEqual(['a']);
+    expect(copy.lookup('folderId', 'f1')?.map(record => record.id)).toEqual(['b']);
+  });
+
+  it('should file dates and numbers the way they are compared', () => {
+    // Arrange
+    const date = new Date(Date.UTC(2026, 0, 1));
+
+    // Act & Assert
+    expect(IndexedRecords.toKey(date)).toBe(date.toISOString());
+    expect(IndexedRecords.toKey(2)).toBe('2');
+    expect(IndexedRecords.toKey(false)).toBe('false');
+    expect(IndexedRecords.toKey(undefined)).toBeNull();
+    expect(IndexedRecords.toKey(['tag'])).toBeNull();
+  });
+});
@@ -1,4 +1,6 @@
 import fs from 'fs/promises';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
 import path from 'path';
 import { JsonDatabase } from '../JsonDatabase';
 import { Topic } from '../../models/Topic';
@@ -6,6 +8,8 @@ import { Topic } from '../../models/Topic';
 // Mock fs module
 jest.mock('fs/promises');
 
+// Behaviour every backend shares runs against both the JSON and the SQLite backend in IDatabase.test.ts;
+// this suite covers how the JSON backend keeps its data files
 describe('JsonDatabase', () => {
   const mockFs = fs as jest.Mocked<typeof fs>;
   const testDataDir = path.join(process.cwd(), 'test-data');
@@ -41,15 +45,16 @@ describe('JsonDatabase', () => {
     // Verify that readFile was called
     expect(mockFs.readFile).toHaveBeenCalledWith(testFilePath, 'utf-8');
     
-    // Verify that writeFile was called with an empty array
+    // Verify that an empty array was written to a temporary file and moved into place
     expect(mockFs.writeFile).toHaveBeenCalledWith(
-      testFilePath,
+      `${testFilePath}.tmp`,
       JSON.stringify([], null, 2),
       'utf-8'
     );
+    expect(mockFs.rename).toHaveBeenCalledWith(`${testFilePath}.tmp`, testFilePath);
   });
   
-  it('should load existing data from file', async () => {
+  it('should read the records stored in the data file', async () => {
     // Mock the readFile function to return existing data
     const mockTopics = [
       {
@@ -66,113 +71,182 @@ describe('JsonDatabase', () => {
     // Call findAll to trigger initialization and get the data
     const topics = await database.findAll();
     
-    // Verify that readFile was called
+    // Verify that the data file was read
     expect(mockFs.readFile).toHaveBeenCalledWith(testFilePath, 'utf-8');
-    
-    // Verify that the data was loaded correctly
-    expect(topics).toHaveLength(1);
-    expect(topics[0].id).toBe('topic-1');
-    expect(topics[0].name).toBe('Test Topic');
+    expect(topics.map(topic => topic.id)).toEqual(['topic-1']);
   });
   
-  it('should create a new entity', async () => {
-    // Mock the readFile function to return empty data
+  it('should write every create, update and delete to the data file', async () => {
+    // Start from an empty file
     mockFs.readFile.mockResolvedValue(JSON.stringify([]));
-    
-    // Mock the writeFile function
     mockFs.writeFile.mockResolvedValue(undefined);
-    
-    // Create a new topic
     const topic = new Topic('New Topic', 'New Content');
-    
-    // Create the topic in the database
-    const createdTopic = await database.create(topic);
-    
-    // Verify that writeFile was called with the new topic
-    expect(mockFs.writeFile).toHaveBeenCalled();
-    const writeFileCall = mockFs.writeFile.mock.calls[0];
-    const writtenData = JSON.parse(writeFileCall[1] as string);
-    
-    // Verify that the data was written correctly
-    expect(writtenData).toHaveLength(1);
-    expect(writtenData[0].id).toBe(topic.id);
-    expect(writtenData[0].name).toBe('New Topic');
-    
-    // Verify that the created topic is returned
-    expect(createdTopic).toBe(topic);
+    const updatedTopic = new Topic(topic.name, 'Updated Content', 2, undefined, topic.id, topic.createdAt);
+    
+    // Create, update and delete the topic
+    await database.create(topic);
+    await database.update(topic.id, updatedTopic);
+    await database.delete(topic.id);
+    
+    // Verify that each change wrote the whole collection
+    const written = mockFs.writeFile.mock.calls.map(call => JSON.parse(call[1] as string));
+    expect(written).toHaveLength(3);
+    expect(written[0]).toEqual([expect.objectContaining({ id: topic.id, name: 'New Topic', version: 1 })]);
+    expect(written[1]).toEqual([expect.objectContaining({ id: topic.id, content: 'Updated Content', version: 2 })]);
+    expect(written[2]).toEqual([]);
   });
-  
-  it('should update an existing entity', async () => {
-    // Create a topic
-    const topic = new Topic('Original Topic', 'Original Content');
-    
-    // Mock the readFile function to return the topic
-    mockFs.readFile.mockResolvedValue(JSON.stringify([topic]));
-    
-    // Mock the writeFile function
-    mockFs.writeFile.mockResolvedValue(undefined);
-    
-    // Create an updated version of the topic
-    const updatedTopic = topic.createNewVersion('Updated Content');
-    
-    // Update the topic in the database
-    const result = await database.update(topic.id, updatedTopic);
-    
-    // Verify that writeFile was called with the updated topic
-    expect(mockFs.writeFile).toHaveBeenCalled();
-    const writeFileCall = mockFs.writeFile.mock.calls[0];
-    const writtenData = JSON.parse(writeFileCall[1] as string);
-    
-    // Verify that the data was written correctly
-    expect(writtenData).toHaveLength(1);
-    expect(writtenData[0].id).toBe(topic.id);
-    expect(writtenData[0].content).toBe('Updated Content');
-    expect(writtenData[0].version).toBe(2);
-    
-    // Verify that the updated topic is returned
-    expect(result).toBe(updatedTopic);
-  });
-  
-  it('should delete an entity', async () => {
-    // Create a topic
-    const topic = new Topic('Topic to Delete', 'Content');
-    
-    // Mock the readFile function to return the topic
-    mockFs.readFile.mockResolvedValue(JSON.stringify([topic]));
-    
-    // Mock the writeFile function
-    mockFs.writeFile.mockResolvedValue(undefined);
-    
-    // Delete the topic from the database
-    const result = await database.delete(topic.id);
-    
-    // Verify that writeFile was called with an empty array
-    expect(mockFs.writeFile).toHaveBeenCalled();
-    const writeFileCall = mockFs.writeFile.mock.calls[0];
-    const writtenData = JSON.parse(writeFileCall[1] as string);
-    
-    // Verify that the data was written correctly
-    expect(writtenData).toHaveLength(0);
-    
-    // Verify that true is returned
-    expect(result).toBe(true);
-  });
-  
-  it('should query entities based on a predicate', async () => {
-    // Create topics
-    const topic1 = new Topic('Topic 1', 'Content 1');
-    const topic2 = new Topic('Topic 2', 'Content 2');
-    const topic3 = new Topic('Different', 'Content 3');
-    
-    // Mock the readFile function to return the topics
-    mockFs.readFile.mockResolvedValue(JSON.stringify([topic1, topic2, topic3]));
-    
-    // Query topics that have 'Topic' in their name
-    const results = await database.query(topic => topic.name.includes('Topic'));
-    
-    // Verify that the correct topics are returned
-    expect(results).toHaveLength(2);
-    expect(results[0].name).toBe('Topic 1');
-    expect(results[1].name).toBe('Topic 2');
+
+  describe('crash safety', () => {
+    const actualFs = jest.requireActual<typeof fs>('fs/promises');
+    let dataDir: string;
+    let filePath: string;
+
+    /**
+     * Lets the mocked file system functions reach the real file system again
+     */
+    const useRealFileSystem = (): void => {
+      for (const name of ['mkdir', 'readFile', 'writeFile', 'rename', 'copyFile', 'rm', 'open'] as const) {
+        (mockFs[name] as unknown as jest.Mock).mockImplementation(actualFs[name]);
+      }
+    };
+
+    /**
+     * Reads the topics stored in a data file
+     */
+    const readTopics = (file: string): Topic[] => JSON.parse(readFileSync(file, 'utf-8'));
+
+    beforeEach(() => {
+      useRealFileSystem();
+      dataDir = mkdtempSync(path.join(os.tmpdir(), 'json-db-'));
+      filePath = path.join(dataDir, 'topic.json');
+      database = new JsonDatabase<Topic>('Topic', dataDir);
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+      rmSync(dataDir, { recursive: true, force: true });
+    });
+
+    it('should replace the data file through a temporary file and keep the previous version as backup', async () => {
+      // Arrange
+      const first = new Topic('First', 'Content');
+      const second = new Topic('Second', 'Content');
+      await database.create(first);
+
+      // Act
+      await database.create(second);
+
+      // Assert
+      expect(readTopics(filePath).map(topic => topic.id)).toEqual([first.id, second.id]);
+      expect(readTopics(`${filePath}.bak`).map(topic => topic.id)).toEqual([first.id]);
+      expect(readdirSync(dataDir)).not.toContain('topic.json.tmp');
+    });
+
+    it('should leave the file and the data unchanged when a save fails', async () => {
+      // Arrange
+      const kept = new Topic('Kept', 'Content');
+      await database.create(kept);
+      mockFs.rename.mockRejectedValueOnce(new Error('Disk went away'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      // Act
+      const act = database.create(new Topic('Lost', 'Content'));
+
+      // Assert
+      await expect(act).rejects.toThrow('Failed to save database for Topic');
+      expect(readTopics(filePath).map(topic => topic.id)).toEqual([kept.id]);
+      expect((await database.findAll()).map(topic => topic.id)).toEqual([kept.id]);
+      expect(readdirSync(dataDir)).not.toContain('topic.json.tmp');
+    });
+
+    it('should keep saving after a failed save', async () => {
+      // Arrange
+      await database.findAll();
+      mockFs.writeFile.mockRejectedValueOnce(new Error('Disk full'));
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await expect(database.create(new Topic('Lost', 'Content'))).rejects.toThrow();
+      const topic = new Topic('Saved', 'Content');
+
+      // Act
+      await database.create(topic);
+
+      // Assert
+      expect(readTopics(filePath).map(saved => saved.id)).toEqual([topic.id]);
+    });
+
+    it('should never run two saves at the same time', async () => {
+      // Arrange
+      let running = 0;
+      let mostRunning = 0;
+      mockFs.rename.mockImplementation(async (from, to) => {
+        running++;
+        mostRunning = Math.max(mostRunning, running);
+        await new Promise(resolve => setImmediate(resolve));
+        await actualFs.rename(from, to);
+        running--;
+      });
+      const topics = Array.from({ length: 10 }, (_, index) => new Topic(`Topic ${index}`, 'Content'));
+
+      // Act
+      await Promise.all(topics.map(topic => database.create(topic)));
+
+      // Assert
+      expect(mostRunning).toBe(1);
+      expect(readTopics(filePath)).toHaveLength(10);
+    });
+
+    it('should restore a truncated data file from the backup on startup', async () => {
+      // Arrange
+      const first = new Topic('First', 'Content');
+      await database.create(first);
+      await database.create(new Topic('Second', 'Content'));
+      const content = readFileSync(filePath, 'utf-8');
+      writeFileSync(filePath, content.slice(0, content.length / 2));
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+      // Act
+      const topics = await new JsonDatabase<Topic>('Topic', dataDir).findAll();
+
+      // Assert
+      expect(topics.map(topic => topic.id)).toEqual([first.id]);
+      expect(readTopics(filePath).map(topic => topic.id)).toEqual([first.id]);
+      expect(readdirSync(dataDir).some(file => file.startsWith('topic.json.corrupt-'))).toBe(true);
+    });
+
+    it('should refuse to start from a damaged data file without a backup', async () => {
+      // Arrange
+      writeFileSync(filePath, '[{"id": "topic-1", "na');
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      // Act
+      const act = database.findAll();
+
+      // Assert
+      await expect(act).rejects.toThrow('Failed to initialize database for Topic');
+      expect(readFileSync(filePath, 'utf-8')).toBe('[{"id": "topic-1", "na');
+    });
+
+    it('should flush the file and the directory when fsync is enabled', async () => {
+      // Arrange
+      const synced: string[] = [];
+      mockFs.open.mockImplementation(async (file, flags) => {
+        const handle = await actualFs.open(file, flags);
+        const sync = handle.sync.bind(handle);
+        handle.sync = async (): Promise<void> => {
+          synced.push(String(file));
+          await sync();
+        };
+        return handle;
+      });
+      database = new JsonDatabase<Topic>('Topic', dataDir, { fsync: true });
+
+      // Act
+      await database.create(new Topic('Durable', 'Content'));
+
+      // Assert
+      expect(synced).toContain(`${filePath}.tmp`);
+      expect(synced).toContain(dataDir);
+      expect(readTopics(filePath)).toHaveLength(1);
+    });
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { mkdtempSync, mkdirSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { JsonDatabase } from '../JsonDatabase';
+import { JsonTransactionManager } from '../JsonTransaction';
+import { ResourceMapper, TopicMapper } from '../mappers';
+import { Topic } from '../../models/Topic';
+import { Resource } from '../../models/Resource';
+import { ResourceType } from '../../enums/ResourceType';
+
+describe('JsonTransaction', () => {
+  let dataDir: string;
+  let manager: JsonTransactionManager;
+  let topics: JsonDatabase<Topic>;
+  let resources: JsonDatabase<Resource>;
+
+  /**
+   * Opens the data directory with fresh instances, as a restart would
+   */
+  const open = (): void => {
+    manager = new JsonTransactionManager(dataDir);
+    topics = new JsonDatabase<Topic>('Topic', dataDir, { transactions: manager }, new TopicMapper());
+    resources = new JsonDatabase<Resource>('Resource', dataDir, { transactions: manager }, new ResourceMapper());
+  };
+
+  /**
+   * Reads the IDs stored in a data file
+   */
+  const storedIds = (file: string): string[] =>
+    JSON.parse(readFileSync(path.join(dataDir, file), 'utf-8')).map((record: { id: string }) => record.id);
+
+  /**
+   * Lists the files in the journal directory
+   */
+  const journalFiles = (): string[] => readdirSync(path.join(dataDir, 'journal'));
+
+  beforeEach(() => {
+    dataDir = mkdtempSync(path.join(os.tmpdir(), 'json-tx-'));
+    open();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('should save every store changed and clear the journal on commit', async () => {
+    // Arrange
+    const topic = new Topic('Topic', 'Content');
+    const resource = new Resource(topic.rootTopicId, 'https://example.com', 'Example', ResourceType.ARTICLE);
+    const transaction = await manager.begin();
+
+    // Act
+    await transaction.run(async () => {
+      await topics.create(topic);
+      await resources.create(resource);
+    });
+    await transaction.commit();
+
+    // Assert
+    expect(storedIds('topic.json')).toEqual([topic.id]);
+    expect(storedIds('resource.json')).toEqual([resource.id]);
+    expect(journalFiles()).toEqual([]);
+  });
+
+  it('should put back the stores already saved when saving a later store fails', async () => {
+    // Arrange
+    const kept = new Topic('Kept', 'Content');
+    await topics.create(kept);
+    await resources.findAll();
+    const transaction = await manager.begin();
+    await transaction.run(async () => {
+      await topics.create(new Topic('Lost', 'Content'));
+      await resources.create(new Resource(kept.rootTopicId, 'https://example.com', 'Example', ResourceType.ARTICLE));
+    });
+    jest.spyOn(resources, 'replaceRecords').mockRejectedValueOnce(new Error('Disk full'));
+
+    // Act
+    const act = transaction.commit();
+
+    // Assert
+    await expect(act).rejects.toThrow('Disk full');
+    expect(transaction.status).toBe('rolledBack');
+    expect(storedIds('topic.json')).toEqual([kept.id]);
+    expect((await topics.findAll()).map(topic => topic.id)).toEqual([kept.id]);
+    expect(journalFiles()).toEqual([]);
+  });
+
+  it('should finish a commit from the journal when the directory is next opened', async () => {
+    // Arrange
+    const topic = new Topic('Topic', 'Content');
+    const resource = new Resource(topic.rootTopicId, 'https://example.com', 'Example', ResourceType.ARTICLE);
+    await resources.findAll();
+    const transaction = await manager.begin();
+    await transaction.run(async () => {
+      await topics.create(topic);
+      await resources.create(resource);
+    });
+    // The process stops after the topics are saved: neither the resources nor the put back get written
+    const saveTopics = topics.replaceRecords.bind(topics);
+    jest.spyOn(resources, 'replaceRecords').mockRejectedValue(new Error('Process stopped'));
+    jest.spyOn(topics, 'replaceRecords')
+      .mockImplementationOnce(saveTopics)
+      .mockRejectedValueOnce(new Error('Process stopped'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    await expect(transaction.commit()).rejects.toThrow('Process stopped');
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    // Act
+    open();
+    const loaded = await resources.findAll();
+
+    // Assert
+    expect(loaded.map(stored => stored.id)).toEqual([resource.id]);
+    expect((await topics.findAll()).map(stored => stored.id)).toEqual([topic.id]);
+    expect(storedIds('resource.json')).toEqual([resource.id]);
+    expect(journalFiles()).toEqual([]);
+  });
+
+  it('should drop a journal that was never completely written', async () => {
+    // Arrange
+    const kept = new Topic('Kept', 'Content');
+    await topics.create(kept);
+    mkdirSync(path.join(dataDir, 'journal'));
+    writeFileSync(path.join(dataDir, 'journal', '1-unfinished.json.tmp'), '{"transactionId": "unfin');
+
+    // Act
+    open();
+    const loaded = await topics.findAll();
+
+    // Assert
+    expect(loaded.map(topic => topic.id)).toEqual([kept.id]);
+    expect(journalFiles()).toEqual([]);
+  });
+});
@@ -0,0 +1,44 @@
+import fs from 'fs/promises';
+
+/**
+ * Writes a file, optionally flushing it to disk before it counts as written
+ * @param filePath The file to write
+ * @param fileContent The new content of the file
+ * @param fsync Whether to flush the file to disk
+ */
+export const writeFileDurably = async (filePath: string, fileContent: string, fsync = false): Promise<void> => {
+  if (!fsync) {
+    await fs.writeFile(filePath, fileContent, 'utf-8');
+    return;
+  }
+  
+  const handle = await fs.open(filePath, 'w');
+  
+  try {
+    await handle.writeFile(fileContent, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Flushes a directory, so that a rename in it survives a power loss
+ * Not every platform can open a directory; there the rename is left to the file system
+ * @param dirPath The directory to flush
+ */
+export const syncDirectory = async (dirPath: string): Promise<void> => {
+  let handle: fs.FileHandle;
+  
+  try {
+    handle = await fs.open(dirPath, 'r');
+  } catch {
+    return;
+  }
+  
+  try {
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+};
@@ -0,0 +1,11 @@
+/**
+ * Fields indexed for the entity types the application stores, by entity name
+ * Each is a field the repositories look entities up by
+ */
+export const entityIndexes: Record<string, string[]> = {
+  Topic: ['rootTopicId', 'parentTopicId'],
+  Resource: ['topicId'],
+  User: ['email'],
+  RefreshToken: ['tokenHash', 'familyId', 'userId'],
+  TopicAcl: ['topicId']
+};
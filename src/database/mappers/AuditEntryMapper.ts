@@ -0,0 +1,23 @@
+import { EntityMapper } from '../EntityMapper';
+import { AuditEntry, AuditEntryRecord } from '../../models/AuditEntry';
+
+/**
+ * Maps audit entries to and from the records kept in storage
+ */
+export class AuditEntryMapper implements EntityMapper<AuditEntry, AuditEntryRecord> {
+  /**
+   * Converts an audit entry to its stored record
+   * @param entry The audit entry to store
+   */
+  public toRecord(entry: AuditEntry): AuditEntryRecord {
+    return entry.toRecord();
+  }
+
+  /**
+   * Restores an audit entry from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: AuditEntryRecord): AuditEntry {
+    return AuditEntry.fromRecord(record);
+  }
+}
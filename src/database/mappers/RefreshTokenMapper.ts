@@ -0,0 +1,23 @@
+import { EntityMapper } from '../EntityMapper';
+import { RefreshToken, RefreshTokenRecord } from '../../models/RefreshToken';
+
+/**
+ * Maps refresh tokens to and from the records kept in storage
+ */
+export class RefreshTokenMapper implements EntityMapper<RefreshToken, RefreshTokenRecord> {
+  /**
+   * Converts a refresh token to its stored record
+   * @param token The refresh token to store
+   */
+  public toRecord(token: RefreshToken): RefreshTokenRecord {
+    return token.toRecord();
+  }
+
+  /**
+   * Restores a refresh token from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: RefreshTokenRecord): RefreshToken {
+    return RefreshToken.fromRecord(record);
+  }
+}
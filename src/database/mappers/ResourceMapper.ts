@@ -0,0 +1,23 @@
+import { EntityMapper } from '../EntityMapper';
+import { Resource, ResourceRecord } from '../../models/Resource';
+
+/**
+ * Maps resources to and from the records kept in storage
+ */
+export class ResourceMapper implements EntityMapper<Resource, ResourceRecord> {
+  /**
+   * Converts a resource to its stored record
+   * @param resource The resource to store
+   */
+  public toRecord(resource: Resource): ResourceRecord {
+    return resource.toRecord();
+  }
+
+  /**
+   * Restores a resource from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: ResourceRecord): Resource {
+    return Resource.fromRecord(record);
+  }
+}
@@ -0,0 +1,23 @@
+import { EntityMapper } from '../EntityMapper';
+import { TopicAclEntry, TopicAclEntryRecord } from '../../models/TopicAclEntry';
+
+/**
+ * Maps access control entries to and from the records kept in storage
+ */
+export class TopicAclEntryMapper implements EntityMapper<TopicAclEntry, TopicAclEntryRecord> {
+  /**
+   * Converts an access control entry to its stored record
+   * @param entry The entry to store
+   */
+  public toRecord(entry: TopicAclEntry): TopicAclEntryRecord {
+    return entry.toRecord();
+  }
+
+  /**
+   * Restores an access control entry from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: TopicAclEntryRecord): TopicAclEntry {
+    return TopicAclEntry.fromRecord(record);
+  }
+}
@@ -0,0 +1,23 @@
+import { EntityMapper } from '../EntityMapper';
+import { Topic, TopicRecord } from '../../models/Topic';
+
+/**
+ * Maps topics to and from the records kept in storage
+ */
+export class TopicMapper implements EntityMapper<Topic, TopicRecord> {
+  /**
+   * Converts a topic to its stored record
+   * @param topic The topic to store
+   */
+  public toRecord(topic: Topic): TopicRecord {
+    return topic.toRecord();
+  }
+
+  /**
+   * Restores a topic from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: TopicRecord): Topic {
+    return Topic.fromRecord(record);
+  }
+}
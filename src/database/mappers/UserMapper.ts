@@ -0,0 +1,24 @@
+import { EntityMapper } from '../EntityMapper';
+import { User, UserRecord } from '../../models/User';
+
+/**
+ * Maps users to and from the records kept in storage
+ * Unlike User.toJSON, the records keep the password hash and salt
+ */
+export class UserMapper implements EntityMapper<User, UserRecord> {
+  /**
+   * Converts a user to its stored record
+   * @param user The user to store
+   */
+  public toRecord(user: User): UserRecord {
+    return user.toRecord();
+  }
+
+  /**
+   * Restores a user from its stored record
+   * @param record The stored record
+   */
+  public fromRecord(record: UserRecord): User {
+    return User.fromRecord(record);
+  }
+}
@@ -0,0 +1,116 @@
+import { entityMappers } from '..';
+import { EntityRecord } from '../../EntityMapper';
+import { IEntity } from '../../../interfaces/IEntity';
+import { AuditEntry } from '../../../models/AuditEntry';
+import { RefreshToken } from '../../../models/RefreshToken';
+import { Resource } from '../../../models/Resource';
+import { Topic } from '../../../models/Topic';
+import { TopicAclEntry } from '../../../models/TopicAclEntry';
+import { User } from '../../../models/User';
+import { AclPrincipalType } from '../../../enums/AclPrincipalType';
+import { AuditAction } from '../../../enums/AuditAction';
+import { AuditEntityType } from '../../../enums/AuditEntityType';
+import { ResourceType } from '../../../enums/ResourceType';
+import { TopicPermission } from '../../../enums/TopicPermission';
+import { UserRole } from '../../../enums/UserRole';
+
+/**
+ * Stores an entity with the mapper of its type and reads it back, the way a database does
+ */
+const roundTrip = <T extends IEntity>(entityName: string, entity: T): T => {
+  const mapper = entityMappers[entityName];
+  const stored: EntityRecord = JSON.parse(JSON.stringify(mapper.toRecord(entity)));
+  return mapper.fromRecord(stored) as T;
+};
+
+describe('entityMappers', () => {
+  const deletedAt = new Date('2026-03-01T12:00:00Z');
+
+  it('should restore topics with their dates and methods', () => {
+    // Arrange
+    const topic = new Topic('Topic', 'Content', 1, 'parent-id').moveToTrash('admin-id', deletedAt);
+
+    // Act
+    const result = roundTrip('Topic', topic);
+
+    // Assert
+    expect(result).toBeInstanceOf(Topic);
+    expect(result).toEqual(topic);
+    expect(result.createNewVersion('New content').previousVersionId).toBe(topic.id);
+  });
+
+  it('should restore resources with their dates and methods', () => {
+    // Arrange
+    const resource = new Resource('topic-id', 'https://example.com', 'Example', ResourceType.ARTICLE)
+      .moveToTrash('admin-id', deletedAt);
+
+    // Act
+    const result = roundTrip('Resource', resource);
+
+    // Assert
+    expect(result).toBeInstanceOf(Resource);
+    expect(result).toEqual(resource);
+    expect(() => result.validate()).not.toThrow();
+  });
+
+  it('should store the password hash and salt of users', () => {
+    // Arrange
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123', UserRole.EDITOR)
+      .updateGroups(['team']);
+
+    // Act
+    const record = entityMappers.User.toRecord(user) as unknown as Record<string, unknown>;
+    const result = roundTrip('User', user);
+
+    // Assert
+    expect(record.passwordHash).toEqual(expect.any(String));
+    expect(record.passwordSalt).toEqual(expect.any(String));
+    expect(result).toBeInstanceOf(User);
+    expect(result).toEqual(user);
+    expect(result.verifyPassword('password123')).toBe(true);
+  });
+
+  it('should restore refresh tokens with their revocation', () => {
+    // Arrange
+    const expiresAt = new Date('2026-04-01T12:00:00Z');
+    const token = new RefreshToken('user-id', 'family-id', 'hash', expiresAt).revoke('next-id');
+
+    // Act
+    const result = roundTrip('RefreshToken', token);
+
+    // Assert
+    expect(result).toBeInstanceOf(RefreshToken);
+    expect(result.expiresAt).toEqual(expiresAt);
+    expect(result.isRevoked()).toBe(true);
+    expect(result.replacedById).toBe('next-id');
+  });
+
+  it('should restore access control entries', () => {
+    // Arrange
+    const entry = new TopicAclEntry('topic-id', AclPrincipalType.GROUP, 'team', TopicPermission.READ);
+
+    // Act
+    const result = roundTrip('TopicAcl', entry);
+
+    // Assert
+    expect(result).toBeInstanceOf(TopicAclEntry);
+    expect(result).toEqual(entry);
+  });
+
+  it('should restore audit entries with their snapshots', () => {
+    // Arrange
+    const entry = new AuditEntry(
+      'admin-id', AuditAction.CREATE, AuditEntityType.TOPIC, 'topic-id',
+      undefined, { name: 'Topic' }, 'request-1', undefined, new Date('2026-01-01T10:00:00Z')
+    );
+
+    // Act
+    const result = roundTrip('Audit', entry);
+
+    // Assert
+    expect(result).toBeInstanceOf(AuditEntry);
+    expect(result.createdAt).toEqual(entry.createdAt);
+    expect(result.after).toEqual({ name: 'Topic' });
+    expect(result.requestId).toBe('request-1');
+  });
+});
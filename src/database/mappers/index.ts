@@ -0,0 +1,27 @@
+import { EntityMapper } from '../EntityMapper';
+import { IEntity } from '../../interfaces/IEntity';
+import { AuditEntryMapper } from './AuditEntryMapper';
+import { RefreshTokenMapper } from './RefreshTokenMapper';
+import { ResourceMapper } from './ResourceMapper';
+import { TopicAclEntryMapper } from './TopicAclEntryMapper';
+import { TopicMapper } from './TopicMapper';
+import { UserMapper } from './UserMapper';
+
+export * from './AuditEntryMapper';
+export * from './RefreshTokenMapper';
+export * from './ResourceMapper';
+export * from './TopicAclEntryMapper';
+export * from './TopicMapper';
+export * from './UserMapper';
+
+/**
+ * Mappers of the entity types the application stores, by entity name
+ */
+export const entityMappers: Record<string, EntityMapper<IEntity>> = {
+  Topic: new TopicMapper(),
+  Resource: new ResourceMapper(),
+  User: new UserMapper(),
+  RefreshToken: new RefreshTokenMapper(),
+  TopicAcl: new TopicAclEntryMapper(),
+  Audit: new AuditEntryMapper()
+};
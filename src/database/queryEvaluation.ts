@@ -0,0 +1,179 @@
+import { FieldCondition, SortDirection, VersionGroup } from './PageQuery';
+import { EntityQuery, isAndFilter, isOrFilter, ProjectedRecord, QueryFilter, SortField } from './Query';
+
+/**
+ * Value of a stored field in the form it is compared in
+ */
+export type StoredValue = string | number | boolean | null;
+
+/**
+ * Converts a value to the form it is stored in
+ * Dates become ISO strings, and anything that is not a string, number or boolean becomes null
+ * @param value The value to convert
+ */
+export const toStoredValue = (value: unknown): StoredValue => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+
+  return null;
+};
+
+/**
+ * Reads a field of a record the way it is stored
+ * Works on entities as well, since their dates are converted the way the mappers convert them
+ * @param record The record to read
+ * @param field The name of the field
+ */
+export const storedValue = (record: object, field: string): StoredValue =>
+  toStoredValue((record as Record<string, unknown>)[field]);
+
+/**
+ * Orders two stored values; null sorts first, numbers by value and everything else as strings
+ * @param a The first value
+ * @param b The second value
+ * @returns A negative number, zero or a positive number
+ */
+export const compareStored = (a: StoredValue, b: StoredValue): number => {
+  if (a === null || b === null) {
+    return a === b ? 0 : a === null ? -1 : 1;
+  }
+
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  const left = String(a);
+  const right = String(b);
+
+  return left < right ? -1 : left > right ? 1 : 0;
+};
+
+/**
+ * Checks whether a record meets a condition on one of its fields
+ * @param record The record to check
+ * @param condition The condition
+ */
+export const meetsCondition = (record: object, condition: FieldCondition): boolean => {
+  const actual = storedValue(record, condition.field);
+
+  if (condition.operator === 'in') {
+    return actual !== null && condition.value.some(value => compareStored(actual, toStoredValue(value)) === 0);
+  }
+
+  const expected = toStoredValue(condition.value);
+
+  switch (condition.operator) {
+    case 'exists':
+      return (actual !== null) === expected;
+    case 'startsWith':
+      return typeof actual === 'string' &&
+        actual.toLowerCase().startsWith(String(expected).toLowerCase());
+    case 'contains':
+      return typeof actual === 'string' &&
+        actual.toLowerCase().includes(String(expected).toLowerCase());
+    case 'eq':
+      return actual !== null && compareStored(actual, expected) === 0;
+    case 'gt':
+      return actual !== null && compareStored(actual, expected) > 0;
+    case 'gte':
+      return actual !== null && compareStored(actual, expected) >= 0;
+    case 'lt':
+      return actual !== null && compareStored(actual, expected) < 0;
+    case 'lte':
+      return actual !== null && compareStored(actual, expected) <= 0;
+  }
+};
+
+/**
+ * Checks whether a record meets a filter
+ * @param record The record to check
+ * @param filter The filter
+ */
+export const meetsFilter = (record: object, filter: QueryFilter): boolean => {
+  if (isAndFilter(filter)) {
+    return filter.and.every(part => meetsFilter(record, part));
+  }
+
+  if (isOrFilter(filter)) {
+    return filter.or.some(part => meetsFilter(record, part));
+  }
+
+  return meetsCondition(record, filter);
+};
+
+/**
+ * Keeps only the highest version in each group of records
+ * Groups keep the order their first record came in
+ * @param records The records
+ * @param latestBy The fields that group the records and number their versions
+ */
+export const latestVersions = <R extends object>(records: R[], latestBy: VersionGroup): R[] => {
+  const latest = new Map<StoredValue, R>();
+
+  for (const record of records) {
+    const group = storedValue(record, latestBy.groupField);
+    const current = latest.get(group);
+
+    if (!current || compareStored(
+      storedValue(record, latestBy.versionField),
+      storedValue(current, latestBy.versionField)
+    ) > 0) {
+      latest.set(group, record);
+    }
+  }
+
+  return Array.from(latest.values());
+};
+
+/**
+ * Sorts records by some of their fields
+ * The sort is stable, so records that tie on every field keep their order
+ * @param records The records, which are sorted in place
+ * @param sort The fields to sort by
+ */
+export const sortRecords = <R extends object>(records: R[], sort: SortField[]): R[] => {
+  const sign = (direction: SortDirection = 'asc'): number => direction === 'asc' ? 1 : -1;
+
+  return records.sort((a, b) => {
+    for (const { field, direction } of sort) {
+      const order = compareStored(storedValue(a, field), storedValue(b, field));
+
+      if (order !== 0) {
+        return sign(direction) * order;
+      }
+    }
+
+    return 0;
+  });
+};
+
+/**
+ * Runs a query over records held in memory
+ * @param records The records, in the order they were stored
+ * @param query The query
+ * @returns The records the query selects, in its order
+ */
+export const applyQuery = <R extends object>(records: R[], query: EntityQuery): R[] => {
+  const { where, latestBy, sort = [], limit } = query;
+  const grouped = latestBy ? latestVersions(records, latestBy) : records;
+  const matching = where ? grouped.filter(record => meetsFilter(record, where)) : [...grouped];
+
+  return sortRecords(matching, sort).slice(0, limit);
+};
+
+/**
+ * Picks some stored fields out of a record
+ * Dates are picked as the ISO strings they are saved as, even if the record in memory still holds them
+ * @param record The record
+ * @param select The fields to pick
+ */
+export const projectRecord = (record: object, select: string[]): ProjectedRecord =>
+  Object.fromEntries(select.map(field => {
+    const value = (record as Record<string, unknown>)[field];
+    return [field, value instanceof Date ? value.toISOString() : value ?? null];
+  }));
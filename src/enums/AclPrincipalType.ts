@@ -0,0 +1,7 @@
+/**
+ * Represents the kinds of principals an access control entry can name
+ */
+export enum AclPrincipalType {
+  USER = 'User',
+  GROUP = 'Group'
+} 
\ No newline at end of file
@@ -0,0 +1,13 @@
+/**
+ * Represents the kinds of changes recorded in the audit log
+ */
+export enum AuditAction {
+  CREATE = 'Create',
+  UPDATE = 'Update',
+  DELETE = 'Delete',
+  MOVE = 'Move',
+  RESTORE = 'Restore',
+  ROLE_CHANGE = 'RoleChange',
+  GROUP_CHANGE = 'GroupChange',
+  ACL_CHANGE = 'AclChange'
+} 
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * Represents the kinds of entities whose changes are recorded in the audit log
+ */
+export enum AuditEntityType {
+  TOPIC = 'Topic',
+  RESOURCE = 'Resource',
+  USER = 'User'
+} 
\ No newline at end of file
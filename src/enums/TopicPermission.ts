@@ -0,0 +1,10 @@
+/**
+ * Represents the permission levels an access control entry can grant on a topic
+ * Each level includes the ones before it
+ */
+export enum TopicPermission {
+  NONE = 'None',
+  READ = 'Read',
+  WRITE = 'Write',
+  MANAGE = 'Manage'
+} 
\ No newline at end of file
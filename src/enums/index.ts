@@ -1,2 +1,6 @@
 export * from './UserRole';
-export * from './ResourceType'; 
\ No newline at end of file
+export * from './ResourceType'; 
+export * from './TopicPermission';
+export * from './AclPrincipalType';
+export * from './AuditAction';
+export * from './AuditEntityType';
\ No newline at end of file
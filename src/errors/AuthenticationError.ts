@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Thrown when the caller's identity cannot be established, such as for a missing or expired token
+ */
+export class AuthenticationError extends DomainError {}
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Thrown when an operation conflicts with the current state, such as a duplicate email
+ */
+export class ConflictError extends DomainError {}
@@ -0,0 +1,14 @@
+/**
+ * Base class for errors that describe why an operation was refused
+ * Each subclass stands for one kind of failure; the HTTP layer maps the kind to a status code
+ */
+export abstract class DomainError extends Error {
+  /**
+   * Creates a new DomainError instance
+   * @param message A description of what went wrong, safe to show to the client
+   */
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Thrown when an entity that an operation depends on does not exist
+ */
+export class NotFoundError extends DomainError {}
@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Thrown when the user is not allowed to perform an operation
+ */
+export class PermissionDeniedError extends DomainError {}
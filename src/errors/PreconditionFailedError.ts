@@ -0,0 +1,6 @@
+import { DomainError } from './DomainError';
+
+/**
+ * Thrown when an entity no longer matches the state a client based its change on, such as an outdated version
+ */
+export class PreconditionFailedError extends DomainError {}
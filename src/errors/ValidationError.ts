@@ -0,0 +1,24 @@
+import { DomainError } from './DomainError';
+
+/**
+ * A problem with one field of a request
+ */
+export interface FieldError {
+  location: 'body' | 'params' | 'query';
+  field: string;
+  message: string;
+}
+
+/**
+ * Thrown when input or an entity's state breaks a validation rule
+ */
+export class ValidationError extends DomainError {
+  /**
+   * Creates a new ValidationError instance
+   * @param message A description of what went wrong, safe to show to the client
+   * @param errors The fields that failed validation, if the error is about a request
+   */
+  constructor(message: string, public readonly errors: FieldError[] = []) {
+    super(message);
+  }
+}
@@ -0,0 +1,7 @@
+export * from './DomainError';
+export * from './NotFoundError';
+export * from './PermissionDeniedError';
+export * from './ValidationError';
+export * from './ConflictError';
+export * from './PreconditionFailedError';
+export * from './AuthenticationError';
@@ -1,11 +1,31 @@
 import request from 'supertest';
 import app from './index';
+import { TrashService } from './services/TrashService';
+
+jest.mock('./services/TrashService');
 
 describe('Express App', () => {
+  it('should not start the server or purge the trash when imported', () => {
+    expect(TrashService.prototype.purgeExpired).not.toHaveBeenCalled();
+  });
+  
   it('should return welcome message on root route', async () => {
     const response = await request(app).get('/');
     expect(response.status).toBe(200);
     expect(response.body).toHaveProperty('message');
     expect(response.body.message).toBe('Welcome to the Dynamic Knowledge Base System API');
   });
-}); 
\ No newline at end of file
+  
+  it('should answer errors with a problem+json body', async () => {
+    const response = await request(app).get('/api/topics');
+    expect(response.status).toBe(401);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Unauthorized',
+      status: 401,
+      detail: 'Authorization header missing',
+      instance: '/api/topics'
+    });
+  });
+});
\ No newline at end of file
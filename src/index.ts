@@ -1,8 +1,12 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response } from 'express';
 import dotenv from 'dotenv';
 import helmet from 'helmet';
 import cors from 'cors';
 import routes from './routes';
+import { requestContext } from './middleware/requestContext';
+import { errorHandler } from './middleware/errorHandler';
+import { TrashService } from './services/TrashService';
+import { UserService } from './services/UserService';
 
 // Load environment variables
 dotenv.config();
@@ -13,9 +17,10 @@ const port = process.env.PORT || 3000;
 
 // Middleware
 app.use(helmet()); // Security headers
-app.use(cors()); // Enable CORS
+app.use(cors({ exposedHeaders: ['ETag'] })); // Enable CORS, letting clients read ETags for If-Match
 app.use(express.json()); // Parse JSON bodies
 app.use(express.urlencoded({ extended: true })); // Parse URL-encoded bodies
+app.use(requestContext); // Request IDs for logs and the audit trail
 
 // API Routes
 app.use('/api', routes);
@@ -25,19 +30,45 @@ app.get('/', (_req: Request, res: Response): void => {
   res.json({ message: 'Welcome to the Dynamic Knowledge Base System API' });
 });
 
-// Error handling middleware
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-app.use((err: Error, _req: Request, res: Response, _next: NextFunction): void => {
-  console.error(err.stack);
-  res.status(500).json({
-    message: 'Internal Server Error',
-    ...(process.env.NODE_ENV === 'development' && { error: err.message }),
+// Error handling middleware (problem+json responses for all errors)
+app.use(errorHandler);
+
+/**
+ * Starts the server along with its start-up and background jobs
+ * Only runs when this file is started directly, so importing the app (as tests do) has no side effects
+ */
+const start = (): void => {
+  // Purge the trash of everything past its retention period, at start-up and then daily
+  const trashService = new TrashService();
+  const purgeTrash = (): void => {
+    trashService.purgeExpired().catch(error => console.error('Error purging the trash:', error));
+  };
+  
+  // Create the first administrator from the environment, since no credentials ship with the code
+  const createFirstAdmin = async (): Promise<void> => {
+    const { ADMIN_NAME = 'Admin User', ADMIN_EMAIL, ADMIN_PASSWORD } = process.env;
+    
+    if (!ADMIN_EMAIL || !ADMIN_PASSWORD) {
+      return;
+    }
+    
+    const admin = await new UserService().createFirstAdmin(ADMIN_NAME, ADMIN_EMAIL, ADMIN_PASSWORD);
+    
+    if (admin) {
+      console.log(`Created the first administrator ${admin.email}`);
+    }
+  };
+  
+  app.listen(port, () => {
+    console.log(`Server is running on port ${port}`);
+    createFirstAdmin().catch(error => console.error('Error creating the first administrator:', error));
+    purgeTrash();
+    setInterval(purgeTrash, 24 * 60 * 60 * 1000).unref();
   });
-});
+};
 
-// Start server
-app.listen(port, () => {
-  console.log(`Server is running on port ${port}`);
-});
+if (require.main === module) {
+  start();
+}
 
 export default app; 
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { IEntity } from './IEntity';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+
+/**
+ * Interface representing an entry in the audit log
+ * The entry's createdAt is the time the change happened
+ */
+export interface IAuditEntry extends IEntity {
+  actorId: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown; // Optional, serialized state before the change
+  after?: unknown; // Optional, serialized state after the change
+  requestId?: string; // Optional, ID of the HTTP request that made the change
+}
@@ -0,0 +1,13 @@
+import { IEntity } from './IEntity';
+
+/**
+ * Interface representing a refresh token issued to a user
+ */
+export interface IRefreshToken extends IEntity {
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  revokedAt?: Date;
+  replacedById?: string;
+}
@@ -1,10 +1,10 @@
-import { IEntity } from './IEntity';
+import { ISoftDeletable } from './ISoftDeletable';
 import { ResourceType } from '../enums/ResourceType';
 
 /**
  * Interface representing a Resource associated with a Topic
  */
-export interface IResource extends IEntity {
+export interface IResource extends ISoftDeletable {
   topicId: string;
   url: string;
   description: string;
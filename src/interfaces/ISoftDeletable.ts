@@ -0,0 +1,9 @@
+import { IEntity } from './IEntity';
+
+/**
+ * Interface for entities that are moved to the trash instead of being removed
+ */
+export interface ISoftDeletable extends IEntity {
+  deletedAt?: Date; // Optional, set while the entity is in the trash
+  deletedBy?: string; // Optional, ID of the user who moved the entity to the trash
+} 
\ No newline at end of file
@@ -1,14 +1,16 @@
-import { IEntity } from './IEntity';
+import { ISoftDeletable } from './ISoftDeletable';
 
 /**
  * Interface representing a Topic in the knowledge base
  */
-export interface ITopic extends IEntity {
+export interface ITopic extends ISoftDeletable {
   name: string;
   content: string;
   updatedAt: Date;
   version: number;
-  parentTopicId?: string; // Optional, for hierarchical structure
+  parentTopicId?: string; // Optional, rootTopicId of the parent topic
   previousVersionId?: string; // Optional, for version tracking
   rootTopicId: string; // ID of the first version of this topic
+  ownerId?: string; // Optional, ID of the user who owns the topic
+  authorId?: string; // Optional, ID of the user who wrote this version
 } 
\ No newline at end of file
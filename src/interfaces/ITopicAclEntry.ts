@@ -0,0 +1,13 @@
+import { IEntity } from './IEntity';
+import { AclPrincipalType } from '../enums/AclPrincipalType';
+import { TopicPermission } from '../enums/TopicPermission';
+
+/**
+ * Interface representing an access control entry on a topic
+ */
+export interface ITopicAclEntry extends IEntity {
+  topicId: string;
+  principalType: AclPrincipalType;
+  principalId: string;
+  permission: TopicPermission;
+}
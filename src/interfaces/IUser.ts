@@ -8,4 +8,5 @@ export interface IUser extends IEntity {
   name: string;
   email: string;
   role: UserRole;
+  groups: string[];
 } 
\ No newline at end of file
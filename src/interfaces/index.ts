@@ -1,4 +1,8 @@
 export * from './IEntity';
 export * from './ITopic';
 export * from './IResource';
-export * from './IUser'; 
\ No newline at end of file
+export * from './IUser'; 
+export * from './IRefreshToken';
+export * from './ITopicAclEntry';
+export * from './IAuditEntry';
+export * from './ISoftDeletable';
\ No newline at end of file
@@ -1,20 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../../models/User';
 import { UserRole } from '../../enums/UserRole';
-import { MockUserRepository } from '../../repositories/MockUserRepository';
+import { TokenService } from '../../services/TokenService';
+import { MockUserRepository } from '../../__tests__/helpers/MockUserRepository';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
 
-// Mock the MockUserRepository
-jest.mock('../../repositories/MockUserRepository');
-
-// Create a separate module for the auth middleware to use our mocked repository
-const mockUserRepository = {
-  findById: jest.fn(),
-  findByEmail: jest.fn(),
-  findAll: jest.fn()
-};
-
-// Mock the constructor to return our mock
-(MockUserRepository as jest.Mock).mockImplementation(() => mockUserRepository);
+// Replace the persistent repository with the in-memory one
+jest.mock('../../repositories/UserRepository', () => ({
+  UserRepository: jest.requireActual('../../__tests__/helpers/MockUserRepository').MockUserRepository
+}));
 
 // Import the auth middleware after mocking
 import { authenticate, authorize, mockAuthenticate } from '../auth';
@@ -23,11 +18,17 @@ describe('Authentication Middleware', () => {
   let mockRequest: Partial<Request>;
   let mockResponse: Partial<Response>;
   let mockNext: jest.Mock<NextFunction>;
+  let tokenService: TokenService;
+  let adminUser: User;
   
-  beforeEach(() => {
+  beforeEach(async () => {
     // Reset all mocks
     jest.clearAllMocks();
     
+    // Tokens signed with the same default settings as the middleware
+    tokenService = new TokenService();
+    adminUser = (await new MockUserRepository().findById('admin-id')) as User;
+    
     // Create mock request, response, and next function
     mockRequest = {
       headers: {},
@@ -43,26 +44,24 @@ describe('Authentication Middleware', () => {
   });
   
   describe('authenticate', () => {
-    it('should authenticate a user with valid token', async () => {
+    it('should authenticate a user with a valid signed token', async () => {
       // Arrange
-      const mockUser = new User('Test User', 'test@example.com', UserRole.ADMIN, 'valid-token');
+      const { token } = tokenService.issueAccessToken(adminUser);
       mockRequest.headers = {
-        authorization: 'Bearer valid-token'
+        authorization: `Bearer ${token}`
       };
       
-      mockUserRepository.findById.mockResolvedValue(mockUser);
-      
       // Act
       await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockUserRepository.findById).toHaveBeenCalledWith('valid-token');
-      expect(mockRequest.user).toBe(mockUser);
+      expect(mockRequest.user?.id).toBe('admin-id');
+      expect(mockRequest.user?.role).toBe(UserRole.ADMIN);
       expect(mockNext).toHaveBeenCalled();
       expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 401 if authorization header is missing', async () => {
+    it('should fail with an AuthenticationError if authorization header is missing', async () => {
       // Arrange
       mockRequest.headers = {}; // No authorization header
       
@@ -70,13 +69,12 @@ describe('Authentication Middleware', () => {
       await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockUserRepository.findById).not.toHaveBeenCalled();
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Authorization header missing' });
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Authorization header missing');
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 401 if authorization format is invalid', async () => {
+    it('should fail with an AuthenticationError if authorization format is invalid', async () => {
       // Arrange
       mockRequest.headers = {
         authorization: 'InvalidFormat token'
@@ -86,47 +84,91 @@ describe('Authentication Middleware', () => {
       await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockUserRepository.findById).not.toHaveBeenCalled();
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Invalid authorization format' });
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Invalid authorization format');
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a user ID used as a token', async () => {
+      // Arrange
+      mockRequest.headers = {
+        authorization: 'Bearer admin-id'
+      };
+      
+      // Act
+      await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
+      
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Invalid token');
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+    
+    it('should fail with an AuthenticationError if the token was signed with another secret', async () => {
+      // Arrange
+      const { token } = new TokenService({ secret: 'another-secret' }).issueAccessToken(adminUser);
+      mockRequest.headers = {
+        authorization: `Bearer ${token}`
+      };
+      
+      // Act
+      await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
+      
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Invalid token');
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 401 if token is invalid', async () => {
+    it('should fail with an AuthenticationError if the token has expired', async () => {
       // Arrange
+      const { token } = tokenService.issueAccessToken(adminUser, Date.now() - 24 * 60 * 60 * 1000);
       mockRequest.headers = {
-        authorization: 'Bearer invalid-token'
+        authorization: `Bearer ${token}`
       };
       
-      mockUserRepository.findById.mockResolvedValue(null);
+      // Act
+      await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
+      
+      // Assert
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Token expired');
+      expect(mockResponse.status).not.toHaveBeenCalled();
+    });
+    
+    it('should fail with an AuthenticationError if the user no longer exists', async () => {
+      // Arrange
+      const deletedUser = new User('Deleted User', 'deleted@example.com', UserRole.ADMIN, 'deleted-id');
+      const { token } = tokenService.issueAccessToken(deletedUser);
+      mockRequest.headers = {
+        authorization: `Bearer ${token}`
+      };
       
       // Act
       await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockUserRepository.findById).toHaveBeenCalledWith('invalid-token');
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Invalid token' });
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('Invalid token');
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 500 if an error occurs', async () => {
+    it('should pass unexpected errors on', async () => {
       // Arrange
+      const { token } = tokenService.issueAccessToken(adminUser);
       mockRequest.headers = {
-        authorization: 'Bearer valid-token'
+        authorization: `Bearer ${token}`
       };
       
       const error = new Error('Database error');
-      mockUserRepository.findById.mockRejectedValue(error);
+      jest.spyOn(MockUserRepository.prototype, 'findById').mockRejectedValueOnce(error);
       
       // Act
       await authenticate(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockUserRepository.findById).toHaveBeenCalledWith('valid-token');
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(500);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'Authentication error', error });
+      expect(mockNext).toHaveBeenCalledWith(error);
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
   });
   
@@ -145,7 +187,7 @@ describe('Authentication Middleware', () => {
       expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 403 if user does not have required role', () => {
+    it('should fail with a PermissionDeniedError if user does not have required role', () => {
       // Arrange
       const mockUser = new User('Test User', 'test@example.com', UserRole.VIEWER, 'valid-token');
       mockRequest.user = mockUser;
@@ -155,16 +197,11 @@ describe('Authentication Middleware', () => {
       authorizeMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(403);
-      expect(mockResponse.json).toHaveBeenCalledWith({ 
-        message: 'Access denied',
-        requiredRoles: [UserRole.ADMIN],
-        userRole: UserRole.VIEWER
-      });
+      expect(mockNext).toHaveBeenCalledWith(expect.any(PermissionDeniedError));
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
     
-    it('should return 401 if user is not authenticated', () => {
+    it('should fail with an AuthenticationError if user is not authenticated', () => {
       // Arrange
       mockRequest.user = undefined;
       const authorizeMiddleware = authorize([UserRole.ADMIN]);
@@ -173,9 +210,9 @@ describe('Authentication Middleware', () => {
       authorizeMiddleware(mockRequest as Request, mockResponse as Response, mockNext);
       
       // Assert
-      expect(mockNext).not.toHaveBeenCalled();
-      expect(mockResponse.status).toHaveBeenCalledWith(401);
-      expect(mockResponse.json).toHaveBeenCalledWith({ message: 'User not authenticated' });
+      expect(mockNext).toHaveBeenCalledWith(expect.any(AuthenticationError));
+      expect(mockNext.mock.calls[0][0].message).toBe('User not authenticated');
+      expect(mockResponse.status).not.toHaveBeenCalled();
     });
   });
   
@@ -0,0 +1,115 @@
+import request from 'supertest';
+import express, { Request, Response } from 'express';
+import { errorHandler, statusFor } from '../errorHandler';
+import { asyncHandler } from '../asyncHandler';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { ValidationError } from '../../errors/ValidationError';
+import { ConflictError } from '../../errors/ConflictError';
+import { PreconditionFailedError } from '../../errors/PreconditionFailedError';
+import { AuthenticationError } from '../../errors/AuthenticationError';
+
+describe('Error Handler Middleware', () => {
+  let app: express.Application;
+  let consoleErrorSpy: jest.SpyInstance;
+  
+  beforeEach(() => {
+    consoleErrorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    
+    app = express();
+    app.use(express.json());
+    
+    app.get('/missing', asyncHandler(async () => {
+      await Promise.resolve();
+      throw new NotFoundError('Topic with ID missing-id not found');
+    }));
+    
+    app.get('/broken', asyncHandler(async () => {
+      throw new Error('Disk full');
+    }));
+    
+    app.post('/echo', (req: Request, res: Response) => {
+      res.json(req.body);
+    });
+    
+    app.use(errorHandler);
+  });
+  
+  afterEach(() => {
+    consoleErrorSpy.mockRestore();
+    delete process.env.NODE_ENV;
+  });
+  
+  describe('statusFor', () => {
+    it('should map each kind of domain error to its status code', () => {
+      expect(statusFor(new ValidationError('invalid'))).toBe(400);
+      expect(statusFor(new AuthenticationError('unauthenticated'))).toBe(401);
+      expect(statusFor(new PermissionDeniedError('denied'))).toBe(403);
+      expect(statusFor(new NotFoundError('missing'))).toBe(404);
+      expect(statusFor(new ConflictError('conflict'))).toBe(409);
+      expect(statusFor(new PreconditionFailedError('outdated'))).toBe(412);
+    });
+    
+    it('should keep the client error status of other errors', () => {
+      expect(statusFor(Object.assign(new Error('Too large'), { status: 413 }))).toBe(413);
+    });
+    
+    it('should treat anything else as an internal error', () => {
+      expect(statusFor(new Error('Disk full'))).toBe(500);
+      expect(statusFor(Object.assign(new Error('Bad gateway'), { status: 502 }))).toBe(500);
+      expect(statusFor('not an error')).toBe(500);
+    });
+  });
+  
+  it('should send a problem+json body for domain errors thrown by async handlers', async () => {
+    // Act
+    const response = await request(app).get('/missing');
+    
+    // Assert
+    expect(response.status).toBe(404);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Topic with ID missing-id not found',
+      instance: '/missing'
+    });
+  });
+  
+  it('should hide the details of internal errors', async () => {
+    // Act
+    const response = await request(app).get('/broken');
+    
+    // Assert
+    expect(response.status).toBe(500);
+    expect(response.body.title).toBe('Internal Server Error');
+    expect(response.body.detail).toBeUndefined();
+    expect(consoleErrorSpy).toHaveBeenCalled();
+  });
+  
+  it('should include the details of internal errors in development', async () => {
+    // Arrange
+    process.env.NODE_ENV = 'development';
+    
+    // Act
+    const response = await request(app).get('/broken');
+    
+    // Assert
+    expect(response.status).toBe(500);
+    expect(response.body.detail).toBe('Disk full');
+  });
+  
+  it('should answer malformed JSON bodies with 400', async () => {
+    // Act
+    const response = await request(app)
+      .post('/echo')
+      .set('Content-Type', 'application/json')
+      .send('{"name":');
+    
+    // Assert
+    expect(response.status).toBe(400);
+    expect(response.body.title).toBe('Bad Request');
+    expect(consoleErrorSpy).not.toHaveBeenCalled();
+  });
+});
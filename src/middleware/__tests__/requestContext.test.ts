@@ -0,0 +1,48 @@
+import request from 'supertest';
+import express, { Request, Response } from 'express';
+import { getRequestContext, requestContext } from '../requestContext';
+
+describe('Request Context Middleware', () => {
+  let app: express.Application;
+  
+  beforeEach(() => {
+    app = express();
+    app.use(requestContext);
+    
+    // Reads the context after an await, as services do
+    app.get('/', async (_req: Request, res: Response) => {
+      await Promise.resolve();
+      res.json({ requestId: getRequestContext()?.requestId });
+    });
+  });
+  
+  it('should use the request ID sent by the client', async () => {
+    // Act
+    const response = await request(app).get('/').set('X-Request-Id', 'client-request-id');
+    
+    // Assert
+    expect(response.headers['x-request-id']).toBe('client-request-id');
+    expect(response.body.requestId).toBe('client-request-id');
+  });
+  
+  it('should generate a request ID when none is sent', async () => {
+    // Act
+    const response = await request(app).get('/');
+    
+    // Assert
+    expect(response.body.requestId).toEqual(expect.any(String));
+    expect(response.headers['x-request-id']).toBe(response.body.requestId);
+  });
+  
+  it('should replace request IDs that are too long', async () => {
+    // Act
+    const response = await request(app).get('/').set('X-Request-Id', 'x'.repeat(200));
+    
+    // Assert
+    expect(response.body.requestId).not.toBe('x'.repeat(200));
+  });
+  
+  it('should have no context outside of a request', () => {
+    expect(getRequestContext()).toBeUndefined();
+  });
+});
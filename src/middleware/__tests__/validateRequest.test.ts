@@ -0,0 +1,47 @@
+import request from 'supertest';
+import express, { Request, Response } from 'express';
+import { validateRequest } from '../validateRequest';
+import { errorHandler } from '../errorHandler';
+import { createTopicSchema } from '../../validation/schemas/topicSchemas';
+
+describe('Request Validation Middleware', () => {
+  let app: express.Application;
+  
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    app.post('/topics', validateRequest(createTopicSchema), (req: Request, res: Response) => {
+      res.status(201).json(req.body);
+    });
+    app.use(errorHandler);
+  });
+  
+  it('should pass valid requests on to the handler', async () => {
+    // Act
+    const response = await request(app).post('/topics').send({ name: 'Topic', content: 'Content' });
+    
+    // Assert
+    expect(response.status).toBe(201);
+    expect(response.body).toEqual({ name: 'Topic', content: 'Content' });
+  });
+  
+  it('should answer invalid requests with 400 and the invalid fields', async () => {
+    // Act
+    const response = await request(app).post('/topics').send({ name: '', content: 'Content', extra: true });
+    
+    // Assert
+    expect(response.status).toBe(400);
+    expect(response.headers['content-type']).toMatch(/^application\/problem\+json/);
+    expect(response.body).toEqual({
+      type: 'about:blank',
+      title: 'Bad Request',
+      status: 400,
+      detail: 'Request validation failed',
+      instance: '/topics',
+      errors: [
+        { location: 'body', field: 'extra', message: 'is not allowed' },
+        { location: 'body', field: 'name', message: 'must not be blank' }
+      ]
+    });
+  });
+});
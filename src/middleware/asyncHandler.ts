@@ -0,0 +1,14 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+
+/**
+ * Wraps an async route handler so a rejected promise reaches the error handling middleware
+ * Express 4 does not do this by itself and would leave the request hanging
+ * @param handler The route handler to wrap
+ */
+export const asyncHandler = (
+  handler: (req: Request, res: Response, next: NextFunction) => Promise<void>
+): RequestHandler => {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    handler(req, res, next).catch(next);
+  };
+};
@@ -1,7 +1,10 @@
 import { Request, Response, NextFunction } from 'express';
 import { User } from '../models/User';
 import { UserRole } from '../enums/UserRole';
-import { MockUserRepository } from '../repositories/MockUserRepository';
+import { UserRepository } from '../repositories/UserRepository';
+import { TokenService } from '../services/TokenService';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
 
 // Extend Express Request type to include user
 declare module 'express' {
@@ -10,16 +13,17 @@ declare module 'express' {
   }
 }
 
-// Create a mock user repository for development
-const userRepository = new MockUserRepository();
+const userRepository = new UserRepository();
+const tokenService = new TokenService();
 
 /**
  * Authentication middleware
- * Verifies the user token and sets the user in the request object
+ * Verifies the signature and expiry of the bearer token and sets the user in the request object
+ * Failures are passed on to the error handler as AuthenticationErrors
  */
 export const authenticate = async (
   req: Request, 
-  res: Response, 
+  _res: Response, 
   next: NextFunction
 ): Promise<void> => {
   try {
@@ -27,25 +31,25 @@ export const authenticate = async (
     const authHeader = req.headers.authorization;
     
     if (!authHeader) {
-      res.status(401).json({ message: 'Authorization header missing' });
+      next(new AuthenticationError('Authorization header missing'));
       return;
     }
     
     // Check if it's a Bearer token
     const parts = authHeader.split(' ');
     if (parts.length !== 2 || parts[0] !== 'Bearer') {
-      res.status(401).json({ message: 'Invalid authorization format' });
+      next(new AuthenticationError('Invalid authorization format'));
       return;
     }
     
-    const token = parts[1];
+    // Throws an AuthenticationError for bad signatures and expired tokens
+    const claims = tokenService.verifyAccessToken(parts[1]);
     
-    // In a real application, you would verify the token
-    // For this example, we'll just use the token as the user ID
-    const user = await userRepository.findById(token);
+    // Load the user so role changes and deletions take effect immediately
+    const user = await userRepository.findById(claims.sub);
     
     if (!user) {
-      res.status(401).json({ message: 'Invalid token' });
+      next(new AuthenticationError('Invalid token'));
       return;
     }
     
@@ -54,7 +58,7 @@ export const authenticate = async (
     
     next();
   } catch (error) {
-    res.status(500).json({ message: 'Authentication error', error });
+    next(error);
   }
 };
 
@@ -64,18 +68,14 @@ export const authenticate = async (
  * @param roles Array of allowed roles
  */
 export const authorize = (roles: UserRole[]) => {
-  return (req: Request, res: Response, next: NextFunction): void => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
     if (!req.user) {
-      res.status(401).json({ message: 'User not authenticated' });
+      next(new AuthenticationError('User not authenticated'));
       return;
     }
     
     if (!roles.includes(req.user.role as UserRole)) {
-      res.status(403).json({ 
-        message: 'Access denied',
-        requiredRoles: roles,
-        userRole: req.user.role
-      });
+      next(new PermissionDeniedError(`Access denied: requires one of the roles ${roles.join(', ')}`));
       return;
     }
     
@@ -0,0 +1,92 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { DomainError } from '../errors/DomainError';
+import { NotFoundError } from '../errors/NotFoundError';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
+import { FieldError, ValidationError } from '../errors/ValidationError';
+import { ConflictError } from '../errors/ConflictError';
+import { PreconditionFailedError } from '../errors/PreconditionFailedError';
+import { AuthenticationError } from '../errors/AuthenticationError';
+
+/**
+ * Error response body, following RFC 7807 (application/problem+json)
+ * Validation errors of a request add the invalid fields as `errors`
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance: string;
+  errors?: FieldError[];
+}
+
+/**
+ * Status codes of the domain error kinds, checked in order
+ */
+const STATUS_BY_ERROR: Array<[new (...args: never[]) => DomainError, number]> = [
+  [ValidationError, 400],
+  [AuthenticationError, 401],
+  [PermissionDeniedError, 403],
+  [NotFoundError, 404],
+  [ConflictError, 409],
+  [PreconditionFailedError, 412]
+];
+
+/**
+ * Works out the HTTP status code for an error
+ * Domain errors map by kind; errors raised by Express itself (such as a malformed JSON body)
+ * keep the client error status they carry; everything else is an internal error
+ * @param err The error that was thrown
+ */
+export const statusFor = (err: unknown): number => {
+  for (const [errorType, status] of STATUS_BY_ERROR) {
+    if (err instanceof errorType) {
+      return status;
+    }
+  }
+  
+  const status = (err as { status?: unknown } | null)?.status;
+  
+  if (typeof status === 'number' && status >= 400 && status < 500) {
+    return status;
+  }
+  
+  return 500;
+};
+
+/**
+ * Error handling middleware
+ * Turns any error passed on by a route into a problem+json response; details of internal
+ * errors are only included in development
+ */
+export const errorHandler = (err: unknown, req: Request, res: Response, next: NextFunction): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+  
+  const status = statusFor(err);
+  const message = err instanceof Error ? err.message : String(err);
+  
+  if (status >= 500) {
+    console.error(err instanceof Error ? err.stack : err);
+  }
+  
+  const problem: ProblemDetails = {
+    type: 'about:blank',
+    title: STATUS_CODES[status] ?? 'Error',
+    status,
+    instance: req.originalUrl
+  };
+  
+  if (status < 500 || process.env.NODE_ENV === 'development') {
+    problem.detail = message;
+  }
+  
+  if (err instanceof ValidationError && err.errors.length > 0) {
+    problem.errors = err.errors;
+  }
+  
+  res.status(status).type('application/problem+json').json(problem);
+};
@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Information about the request being handled, available anywhere below the middleware
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+const REQUEST_ID_HEADER = 'X-Request-Id';
+const MAX_REQUEST_ID_LENGTH = 128;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Request context middleware
+ * Takes the request ID from the X-Request-Id header (or generates one), echoes it in the
+ * response and makes it available to the code handling the request
+ */
+export const requestContext = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.header(REQUEST_ID_HEADER);
+  const requestId = header && header.length <= MAX_REQUEST_ID_LENGTH ? header : uuidv4();
+  
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  
+  storage.run({ requestId }, () => next());
+};
+
+/**
+ * Gets the context of the request being handled
+ * @returns The request context, or undefined outside of a request
+ */
+export const getRequestContext = (): RequestContext | undefined => {
+  return storage.getStore();
+};
@@ -0,0 +1,25 @@
+import { Request, Response, NextFunction } from 'express';
+import { RequestSchema } from '../validation/RequestSchema';
+import { SchemaValidator } from '../validation/SchemaValidator';
+import { ValidationError } from '../errors/ValidationError';
+
+const schemaValidator = new SchemaValidator();
+
+/**
+ * Request validation middleware
+ * Checks the body, params and query of the request against a schema and passes a
+ * ValidationError listing every invalid field on to the error handler
+ * @param schema The rules for the request
+ */
+export const validateRequest = (schema: RequestSchema) => {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    const errors = schemaValidator.validate(schema, req);
+    
+    if (errors.length > 0) {
+      next(new ValidationError('Request validation failed', errors));
+      return;
+    }
+    
+    next();
+  };
+};
@@ -0,0 +1,132 @@
+import { BaseEntity } from './BaseEntity';
+import { IAuditEntry } from '../interfaces/IAuditEntry';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Shape of an audit entry as kept in storage
+ */
+export interface AuditEntryRecord {
+  id: string;
+  createdAt: string | Date;
+  actorId: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+  requestId?: string;
+}
+
+/**
+ * Represents a change made by a user, as recorded in the audit log
+ */
+export class AuditEntry extends BaseEntity implements IAuditEntry {
+  public readonly actorId: string;
+  public readonly action: AuditAction;
+  public readonly entityType: AuditEntityType;
+  public readonly entityId: string;
+  public readonly before?: unknown;
+  public readonly after?: unknown;
+  public readonly requestId?: string;
+
+  /**
+   * Creates a new AuditEntry instance
+   * 
+   * @param actorId The ID of the user who made the change
+   * @param action The kind of change
+   * @param entityType The kind of entity that changed
+   * @param entityId The ID of the entity that changed
+   * @param before Optional serialized state before the change
+   * @param after Optional serialized state after the change
+   * @param requestId Optional ID of the request that made the change
+   * @param id Optional ID for the entry (will be generated if not provided)
+   * @param createdAt Optional time of the change (will use current date if not provided)
+   */
+  constructor(
+    actorId: string,
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    before?: unknown,
+    after?: unknown,
+    requestId?: string,
+    id?: string,
+    createdAt?: Date
+  ) {
+    super(id, createdAt);
+    this.actorId = actorId;
+    this.action = action;
+    this.entityType = entityType;
+    this.entityId = entityId;
+    this.before = before;
+    this.after = after;
+    this.requestId = requestId;
+  }
+
+  /**
+   * Validates that the audit entry is in a valid state
+   * @throws ValidationError if validation fails
+   */
+  public validate(): void {
+    if (!this.actorId || this.actorId.trim().length === 0) {
+      throw new ValidationError('Audit entry must name an actor');
+    }
+
+    if (!Object.values(AuditAction).includes(this.action)) {
+      throw new ValidationError('Invalid audit action');
+    }
+
+    if (!Object.values(AuditEntityType).includes(this.entityType)) {
+      throw new ValidationError('Invalid audit entity type');
+    }
+
+    if (!this.entityId || this.entityId.trim().length === 0) {
+      throw new ValidationError('Audit entry must name an entity');
+    }
+  }
+
+  /**
+   * Restores an audit entry from its stored record
+   * @param record The stored record
+   */
+  public static fromRecord(record: AuditEntryRecord): AuditEntry {
+    return new AuditEntry(
+      record.actorId,
+      record.action,
+      record.entityType,
+      record.entityId,
+      record.before,
+      record.after,
+      record.requestId,
+      record.id,
+      new Date(record.createdAt)
+    );
+  }
+
+  /**
+   * Converts the audit entry to the record kept in storage
+   */
+  public toRecord(): AuditEntryRecord {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      actorId: this.actorId,
+      action: this.action,
+      entityType: this.entityType,
+      entityId: this.entityId,
+      ...(this.before !== undefined && { before: this.before }),
+      ...(this.after !== undefined && { after: this.after }),
+      ...(this.requestId && { requestId: this.requestId })
+    };
+  }
+
+  /**
+   * Converts the audit entry to a plain object for serialization
+   * Includes every stored field
+   */
+  public override toJSON(): Record<string, unknown> {
+    return { ...this.toRecord() };
+  }
+}
@@ -21,7 +21,7 @@ export abstract class BaseEntity implements IEntity {
 
   /**
    * Validates that the entity is in a valid state
-   * @throws Error if validation fails
+   * @throws ValidationError if validation fails
    */
   public abstract validate(): void;
 
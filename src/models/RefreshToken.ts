@@ -0,0 +1,159 @@
+import { BaseEntity } from './BaseEntity';
+import { IRefreshToken } from '../interfaces/IRefreshToken';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Shape of a refresh token as kept in storage
+ */
+export interface RefreshTokenRecord {
+  id: string;
+  createdAt: string | Date;
+  userId: string;
+  familyId: string;
+  tokenHash: string;
+  expiresAt: string | Date;
+  revokedAt?: string | Date;
+  replacedById?: string;
+}
+
+/**
+ * Represents a refresh token issued to a user
+ * Only the hash of the token is kept; tokens rotated from the same login share a family
+ */
+export class RefreshToken extends BaseEntity implements IRefreshToken {
+  public readonly userId: string;
+  public readonly familyId: string;
+  public readonly tokenHash: string;
+  public readonly expiresAt: Date;
+  public readonly revokedAt?: Date;
+  public readonly replacedById?: string;
+
+  /**
+   * Creates a new RefreshToken instance
+   * 
+   * @param userId The ID of the user the token was issued to
+   * @param familyId The ID of the token family (the ID of the first token issued at login)
+   * @param tokenHash The hash of the token value
+   * @param expiresAt When the token expires
+   * @param id Optional ID for the token (will be generated if not provided)
+   * @param createdAt Optional creation date (will use current date if not provided)
+   * @param revokedAt Optional date the token was revoked
+   * @param replacedById Optional ID of the token this one was rotated into
+   */
+  constructor(
+    userId: string,
+    familyId: string,
+    tokenHash: string,
+    expiresAt: Date,
+    id?: string,
+    createdAt?: Date,
+    revokedAt?: Date,
+    replacedById?: string
+  ) {
+    super(id, createdAt);
+    this.userId = userId;
+    this.familyId = familyId;
+    this.tokenHash = tokenHash;
+    this.expiresAt = expiresAt;
+    this.revokedAt = revokedAt;
+    this.replacedById = replacedById;
+  }
+
+  /**
+   * Validates that the refresh token is in a valid state
+   * @throws ValidationError if validation fails
+   */
+  public validate(): void {
+    if (!this.userId || this.userId.trim().length === 0) {
+      throw new ValidationError('Refresh token must belong to a user');
+    }
+
+    if (!this.familyId || this.familyId.trim().length === 0) {
+      throw new ValidationError('Refresh token must belong to a token family');
+    }
+
+    if (!this.tokenHash || this.tokenHash.trim().length === 0) {
+      throw new ValidationError('Refresh token hash cannot be empty');
+    }
+
+    if (!(this.expiresAt instanceof Date) || isNaN(this.expiresAt.getTime())) {
+      throw new ValidationError('Refresh token expiry must be a valid date');
+    }
+  }
+
+  /**
+   * Checks if the token has expired
+   * @param now The current time
+   */
+  public isExpired(now: Date = new Date()): boolean {
+    return this.expiresAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * Checks if the token has been revoked or rotated
+   */
+  public isRevoked(): boolean {
+    return this.revokedAt !== undefined;
+  }
+
+  /**
+   * Revokes the token
+   * 
+   * @param replacedById Optional ID of the token this one is rotated into
+   * @param now The time of revocation
+   * @returns A new RefreshToken instance that is revoked
+   */
+  public revoke(replacedById?: string, now: Date = new Date()): RefreshToken {
+    return new RefreshToken(
+      this.userId,
+      this.familyId,
+      this.tokenHash,
+      this.expiresAt,
+      this.id,
+      this.createdAt,
+      now,
+      replacedById
+    );
+  }
+
+  /**
+   * Restores a refresh token from its stored record
+   * @param record The stored record
+   */
+  public static fromRecord(record: RefreshTokenRecord): RefreshToken {
+    return new RefreshToken(
+      record.userId,
+      record.familyId,
+      record.tokenHash,
+      new Date(record.expiresAt),
+      record.id,
+      new Date(record.createdAt),
+      record.revokedAt ? new Date(record.revokedAt) : undefined,
+      record.replacedById
+    );
+  }
+
+  /**
+   * Converts the refresh token to the record kept in storage
+   */
+  public toRecord(): RefreshTokenRecord {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      userId: this.userId,
+      familyId: this.familyId,
+      tokenHash: this.tokenHash,
+      expiresAt: this.expiresAt.toISOString(),
+      revokedAt: this.revokedAt?.toISOString(),
+      replacedById: this.replacedById
+    };
+  }
+
+  /**
+   * Converts the refresh token to a plain object for serialization
+   * The record only holds the hash of the token, so it is sent as is
+   */
+  public override toJSON(): Record<string, unknown> {
+    return { ...this.toRecord() };
+  }
+}
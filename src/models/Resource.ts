@@ -1,6 +1,22 @@
 import { BaseEntity } from './BaseEntity';
 import { IResource } from '../interfaces/IResource';
 import { ResourceType } from '../enums/ResourceType';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Shape of a resource as kept in storage
+ */
+export interface ResourceRecord {
+  id: string;
+  createdAt: string | Date;
+  topicId: string;
+  url: string;
+  description: string;
+  type: ResourceType;
+  updatedAt: string | Date;
+  deletedAt?: string | Date;
+  deletedBy?: string;
+}
 
 /**
  * Represents an external link or document associated with a topic
@@ -11,6 +27,8 @@ export class Resource extends BaseEntity implements IResource {
   public readonly description: string;
   public readonly type: ResourceType;
   public readonly updatedAt: Date;
+  public readonly deletedAt?: Date;
+  public readonly deletedBy?: string;
 
   /**
    * Creates a new Resource instance
@@ -22,6 +40,8 @@ export class Resource extends BaseEntity implements IResource {
    * @param id Optional ID for the resource (will be generated if not provided)
    * @param createdAt Optional creation date (will use current date if not provided)
    * @param updatedAt Optional update date (will use current date if not provided)
+   * @param deletedAt Optional date the resource was moved to the trash
+   * @param deletedBy Optional ID of the user who moved the resource to the trash
    */
   constructor(
     topicId: string,
@@ -30,7 +50,9 @@ export class Resource extends BaseEntity implements IResource {
     type: ResourceType,
     id?: string,
     createdAt?: Date,
-    updatedAt?: Date
+    updatedAt?: Date,
+    deletedAt?: Date,
+    deletedBy?: string
   ) {
     super(id, createdAt);
     this.topicId = topicId;
@@ -38,34 +60,36 @@ export class Resource extends BaseEntity implements IResource {
     this.description = description;
     this.type = type;
     this.updatedAt = updatedAt || new Date();
+    this.deletedAt = deletedAt;
+    this.deletedBy = deletedBy;
   }
 
   /**
    * Validates that the resource is in a valid state
-   * @throws Error if validation fails
+   * @throws ValidationError if validation fails
    */
   public validate(): void {
     if (!this.topicId || this.topicId.trim().length === 0) {
-      throw new Error('Resource must be associated with a topic');
+      throw new ValidationError('Resource must be associated with a topic');
     }
 
     if (!this.url || this.url.trim().length === 0) {
-      throw new Error('Resource URL cannot be empty');
+      throw new ValidationError('Resource URL cannot be empty');
     }
 
     try {
       // Validate URL format
       new URL(this.url);
     } catch (error) {
-      throw new Error('Resource URL is not valid');
+      throw new ValidationError('Resource URL is not valid');
     }
 
     if (!this.description || this.description.trim().length === 0) {
-      throw new Error('Resource description cannot be empty');
+      throw new ValidationError('Resource description cannot be empty');
     }
 
     if (!Object.values(ResourceType).includes(this.type)) {
-      throw new Error(`Resource type must be one of: ${Object.values(ResourceType).join(', ')}`);
+      throw new ValidationError(`Resource type must be one of: ${Object.values(ResourceType).join(', ')}`);
     }
   }
 
@@ -94,16 +118,93 @@ export class Resource extends BaseEntity implements IResource {
   }
 
   /**
-   * Converts the resource to a plain object for serialization
+   * Creates a copy of the resource with a fresh ID, attached to another topic
+   * 
+   * @param topicId The ID of the topic the copy belongs to
+   * @returns A new Resource instance with this resource's URL, description and type
    */
-  public override toJSON(): Record<string, unknown> {
+  public copyTo(topicId: string): Resource {
+    return new Resource(topicId, this.url, this.description, this.type);
+  }
+
+  /**
+   * Creates a copy of the resource marked as being in the trash
+   * 
+   * @param deletedBy ID of the user moving the resource to the trash
+   * @param deletedAt Date of the deletion; resources trashed with their topic share its date
+   * @returns A new Resource instance with the deletion recorded
+   */
+  public moveToTrash(deletedBy: string, deletedAt: Date = new Date()): Resource {
+    return new Resource(
+      this.topicId,
+      this.url,
+      this.description,
+      this.type,
+      this.id,
+      this.createdAt,
+      this.updatedAt,
+      deletedAt,
+      deletedBy
+    );
+  }
+
+  /**
+   * Creates a copy of the resource taken back out of the trash
+   * 
+   * @returns A new Resource instance without a recorded deletion
+   */
+  public restoreFromTrash(): Resource {
+    return new Resource(
+      this.topicId,
+      this.url,
+      this.description,
+      this.type,
+      this.id,
+      this.createdAt,
+      this.updatedAt
+    );
+  }
+
+  /**
+   * Restores a resource from its stored record
+   * @param record The stored record
+   */
+  public static fromRecord(record: ResourceRecord): Resource {
+    return new Resource(
+      record.topicId,
+      record.url,
+      record.description,
+      record.type,
+      record.id,
+      new Date(record.createdAt),
+      new Date(record.updatedAt),
+      record.deletedAt ? new Date(record.deletedAt) : undefined,
+      record.deletedBy
+    );
+  }
+
+  /**
+   * Converts the resource to the record kept in storage
+   */
+  public toRecord(): ResourceRecord {
     return {
-      ...super.toJSON(),
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
       topicId: this.topicId,
       url: this.url,
       description: this.description,
       type: this.type,
-      updatedAt: this.updatedAt.toISOString()
+      updatedAt: this.updatedAt.toISOString(),
+      ...(this.deletedAt && { deletedAt: this.deletedAt.toISOString() }),
+      ...(this.deletedBy && { deletedBy: this.deletedBy })
     };
   }
+
+  /**
+   * Converts the resource to a plain object for serialization
+   * Identical to the stored record
+   */
+  public override toJSON(): Record<string, unknown> {
+    return { ...this.toRecord() };
+  }
 } 
\ No newline at end of file
@@ -1,5 +1,26 @@
 import { BaseEntity } from './BaseEntity';
 import { ITopic } from '../interfaces/ITopic';
+import { ValidationError } from '../errors/ValidationError';
+import { PreconditionFailedError } from '../errors/PreconditionFailedError';
+
+/**
+ * Shape of a topic as kept in storage
+ */
+export interface TopicRecord {
+  id: string;
+  createdAt: string | Date;
+  name: string;
+  content: string;
+  updatedAt: string | Date;
+  version: number;
+  parentTopicId?: string;
+  previousVersionId?: string;
+  rootTopicId: string;
+  ownerId?: string;
+  authorId?: string;
+  deletedAt?: string | Date;
+  deletedBy?: string;
+}
 
 /**
  * Represents a subject or concept within the knowledge base
@@ -12,6 +33,10 @@ export class Topic extends BaseEntity implements ITopic {
   public readonly parentTopicId?: string;
   public readonly previousVersionId?: string;
   public readonly rootTopicId: string;
+  public readonly ownerId?: string;
+  public readonly authorId?: string;
+  public readonly deletedAt?: Date;
+  public readonly deletedBy?: string;
 
   /**
    * Creates a new Topic instance
@@ -25,6 +50,10 @@ export class Topic extends BaseEntity implements ITopic {
    * @param updatedAt Optional update date (will use current date if not provided)
    * @param previousVersionId Optional ID of the previous version of this topic
    * @param rootTopicId Optional ID of the root topic (for versioning)
+   * @param ownerId Optional ID of the user who owns the topic
+   * @param authorId Optional ID of the user who wrote this version
+   * @param deletedAt Optional date the topic was moved to the trash
+   * @param deletedBy Optional ID of the user who moved the topic to the trash
    */
   constructor(
     name: string,
@@ -35,7 +64,11 @@ export class Topic extends BaseEntity implements ITopic {
     createdAt?: Date,
     updatedAt?: Date,
     previousVersionId?: string,
-    rootTopicId?: string
+    rootTopicId?: string,
+    ownerId?: string,
+    authorId?: string,
+    deletedAt?: Date,
+    deletedBy?: string
   ) {
     super(id, createdAt);
     this.name = name;
@@ -47,34 +80,54 @@ export class Topic extends BaseEntity implements ITopic {
     // If this is the first version, the root topic ID is its own ID
     // Otherwise, use the provided root topic ID
     this.rootTopicId = rootTopicId || this.id;
+    this.ownerId = ownerId;
+    this.authorId = authorId;
+    this.deletedAt = deletedAt;
+    this.deletedBy = deletedBy;
   }
 
   /**
    * Validates that the topic is in a valid state
-   * @throws Error if validation fails
+   * @throws ValidationError if validation fails
    */
   public validate(): void {
     if (!this.name || this.name.trim().length === 0) {
-      throw new Error('Topic name cannot be empty');
+      throw new ValidationError('Topic name cannot be empty');
     }
 
     if (!this.content || this.content.trim().length === 0) {
-      throw new Error('Topic content cannot be empty');
+      throw new ValidationError('Topic content cannot be empty');
     }
 
     if (this.version < 1) {
-      throw new Error('Topic version must be at least 1');
+      throw new ValidationError('Topic version must be at least 1');
+    }
+  }
+
+  /**
+   * Checks that this is the version a change was based on
+   * @param expectedVersion The version the change expects, or undefined to accept any version
+   * @throws PreconditionFailedError if the topic is at another version
+   */
+  public assertVersion(expectedVersion?: number): void {
+    if (expectedVersion !== undefined && this.version !== expectedVersion) {
+      throw new PreconditionFailedError(
+        `Topic ${this.rootTopicId} is at version ${this.version}, not version ${expectedVersion}`
+      );
     }
   }
 
   /**
    * Creates a new version of this topic with updated content
+   * Each version is stored as its own row, so the new version gets a fresh ID
+   * while rootTopicId keeps identifying the topic across versions
    * 
    * @param newContent The new content for the topic
    * @param newName Optional new name for the topic
+   * @param authorId Optional ID of the user writing the new version
    * @returns A new Topic instance with incremented version
    */
-  public createNewVersion(newContent: string, newName?: string): Topic {
+  public createNewVersion(newContent: string, newName?: string, authorId?: string): Topic {
     const name = newName || this.name;
     
     return new Topic(
@@ -82,43 +135,188 @@ export class Topic extends BaseEntity implements ITopic {
       newContent,
       this.version + 1,
       this.parentTopicId,
-      this.id, // Keep the same ID for version continuity
+      undefined, // New ID for the new version row
       this.createdAt, // Keep the original creation date
       new Date(), // New update date
       this.id,    // Current version becomes the previous version
-      this.rootTopicId // Maintain the same root topic ID
+      this.rootTopicId, // Maintain the same root topic ID
+      this.ownerId, // Ownership does not change with a new version
+      authorId
+    );
+  }
+
+  /**
+   * Creates a new version of this topic under a different parent
+   * Name and content are kept, so the version history shows the move on its own
+   * 
+   * @param newParentTopicId Root topic ID of the new parent, or undefined to make this a root topic
+   * @param authorId Optional ID of the user moving the topic
+   * @returns A new Topic instance with incremented version
+   */
+  public moveTo(newParentTopicId: string | undefined, authorId?: string): Topic {
+    return new Topic(
+      this.name,
+      this.content,
+      this.version + 1,
+      newParentTopicId,
+      undefined, // New ID for the new version row
+      this.createdAt, // Keep the original creation date
+      new Date(), // New update date
+      this.id,    // Current version becomes the previous version
+      this.rootTopicId, // Maintain the same root topic ID
+      this.ownerId, // Ownership does not change with a move
+      authorId
+    );
+  }
+
+  /**
+   * Creates a copy of this version as part of a new topic, for duplicating topics
+   * The copy gets a fresh ID and is dated now; chaining copies through previous
+   * duplicates a version history
+   * 
+   * @param parentTopicId Root topic ID of the parent of the copy, or undefined to make it a root topic
+   * @param ownerId ID of the user who owns the copy
+   * @param authorId Optional ID of the user recorded as the author of the copied version
+   * @param previous Optional copy of the previous version; without it the copy starts a new topic
+   * @returns A new Topic instance with this version's name and content
+   */
+  public copyTo(parentTopicId: string | undefined, ownerId: string, authorId?: string, previous?: Topic): Topic {
+    return new Topic(
+      this.name,
+      this.content,
+      previous ? previous.version + 1 : 1,
+      parentTopicId,
+      undefined, // New ID for the copy
+      previous?.createdAt,
+      undefined,
+      previous?.id,
+      previous?.rootTopicId, // Without a previous copy, the copy is its own root topic
+      ownerId,
+      authorId
+    );
+  }
+
+  /**
+   * Creates a copy of this version marked as being in the trash
+   * Unlike a new version, the copy keeps this version's ID and replaces it in storage
+   * 
+   * @param deletedBy ID of the user moving the topic to the trash
+   * @param deletedAt Date of the deletion; versions trashed together share it
+   * @returns A new Topic instance with the deletion recorded
+   */
+  public moveToTrash(deletedBy: string, deletedAt: Date = new Date()): Topic {
+    return new Topic(
+      this.name,
+      this.content,
+      this.version,
+      this.parentTopicId,
+      this.id,
+      this.createdAt,
+      this.updatedAt,
+      this.previousVersionId,
+      this.rootTopicId,
+      this.ownerId,
+      this.authorId,
+      deletedAt,
+      deletedBy
+    );
+  }
+
+  /**
+   * Creates a copy of this version taken back out of the trash
+   * 
+   * @returns A new Topic instance without a recorded deletion
+   */
+  public restoreFromTrash(): Topic {
+    return new Topic(
+      this.name,
+      this.content,
+      this.version,
+      this.parentTopicId,
+      this.id,
+      this.createdAt,
+      this.updatedAt,
+      this.previousVersionId,
+      this.rootTopicId,
+      this.ownerId,
+      this.authorId
     );
   }
 
   /**
    * Creates a child topic under this topic
+   * The child references the parent's rootTopicId so it stays attached
+   * when the parent gets new versions
    * 
    * @param name The name of the child topic
    * @param content The content of the child topic
+   * @param ownerId Optional ID of the user creating the child, who becomes its owner
    * @returns A new Topic instance as a child of this topic
    */
-  public createChildTopic(name: string, content: string): Topic {
+  public createChildTopic(name: string, content: string, ownerId?: string): Topic {
     return new Topic(
       name,
       content,
       1, // Start at version 1
-      this.id // This topic is the parent
+      this.rootTopicId, // This topic is the parent
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      ownerId,
+      ownerId // The owner also wrote the first version
     );
   }
 
   /**
-   * Converts the topic to a plain object for serialization
+   * Restores a topic from its stored record
+   * @param record The stored record
    */
-  public override toJSON(): Record<string, unknown> {
+  public static fromRecord(record: TopicRecord): Topic {
+    return new Topic(
+      record.name,
+      record.content,
+      record.version,
+      record.parentTopicId,
+      record.id,
+      new Date(record.createdAt),
+      new Date(record.updatedAt),
+      record.previousVersionId,
+      record.rootTopicId,
+      record.ownerId,
+      record.authorId,
+      record.deletedAt ? new Date(record.deletedAt) : undefined,
+      record.deletedBy
+    );
+  }
+
+  /**
+   * Converts the topic to the record kept in storage
+   */
+  public toRecord(): TopicRecord {
     return {
-      ...super.toJSON(),
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
       name: this.name,
       content: this.content,
       updatedAt: this.updatedAt.toISOString(),
       version: this.version,
       ...(this.parentTopicId && { parentTopicId: this.parentTopicId }),
       ...(this.previousVersionId && { previousVersionId: this.previousVersionId }),
-      rootTopicId: this.rootTopicId
+      rootTopicId: this.rootTopicId,
+      ...(this.ownerId && { ownerId: this.ownerId }),
+      ...(this.authorId && { authorId: this.authorId }),
+      ...(this.deletedAt && { deletedAt: this.deletedAt.toISOString() }),
+      ...(this.deletedBy && { deletedBy: this.deletedBy })
     };
   }
+
+  /**
+   * Converts the topic to a plain object for serialization
+   * A topic has no private fields, so clients get its stored record
+   */
+  public override toJSON(): Record<string, unknown> {
+    return { ...this.toRecord() };
+  }
 } 
\ No newline at end of file
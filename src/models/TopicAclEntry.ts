@@ -0,0 +1,112 @@
+import { BaseEntity } from './BaseEntity';
+import { ITopicAclEntry } from '../interfaces/ITopicAclEntry';
+import { AclPrincipalType } from '../enums/AclPrincipalType';
+import { TopicPermission } from '../enums/TopicPermission';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Shape of an access control entry as kept in storage
+ */
+export interface TopicAclEntryRecord {
+  id: string;
+  createdAt: string | Date;
+  topicId: string;
+  principalType: AclPrincipalType;
+  principalId: string;
+  permission: TopicPermission;
+}
+
+/**
+ * Represents an access control entry granting a user or group a permission on a topic
+ * Entries apply to the topic and, unless overridden, to all of its descendants
+ */
+export class TopicAclEntry extends BaseEntity implements ITopicAclEntry {
+  public readonly topicId: string;
+  public readonly principalType: AclPrincipalType;
+  public readonly principalId: string;
+  public readonly permission: TopicPermission;
+
+  /**
+   * Creates a new TopicAclEntry instance
+   * 
+   * @param topicId The root topic ID of the topic the entry is attached to
+   * @param principalType Whether the entry names a user or a group
+   * @param principalId The ID of the user or the name of the group
+   * @param permission The permission granted
+   * @param id Optional ID for the entry (will be generated if not provided)
+   * @param createdAt Optional creation date (will use current date if not provided)
+   */
+  constructor(
+    topicId: string,
+    principalType: AclPrincipalType,
+    principalId: string,
+    permission: TopicPermission,
+    id?: string,
+    createdAt?: Date
+  ) {
+    super(id, createdAt);
+    this.topicId = topicId;
+    this.principalType = principalType;
+    this.principalId = principalId;
+    this.permission = permission;
+  }
+
+  /**
+   * Validates that the entry is in a valid state
+   * @throws ValidationError if validation fails
+   */
+  public validate(): void {
+    if (!this.topicId || this.topicId.trim().length === 0) {
+      throw new ValidationError('Access control entry must be attached to a topic');
+    }
+
+    if (!Object.values(AclPrincipalType).includes(this.principalType)) {
+      throw new ValidationError(`Principal type must be one of: ${Object.values(AclPrincipalType).join(', ')}`);
+    }
+
+    if (!this.principalId || this.principalId.trim().length === 0) {
+      throw new ValidationError('Principal ID cannot be empty');
+    }
+
+    if (!Object.values(TopicPermission).includes(this.permission)) {
+      throw new ValidationError(`Permission must be one of: ${Object.values(TopicPermission).join(', ')}`);
+    }
+  }
+
+  /**
+   * Restores an entry from its stored record
+   * @param record The stored record
+   */
+  public static fromRecord(record: TopicAclEntryRecord): TopicAclEntry {
+    return new TopicAclEntry(
+      record.topicId,
+      record.principalType,
+      record.principalId,
+      record.permission,
+      record.id,
+      new Date(record.createdAt)
+    );
+  }
+
+  /**
+   * Converts the entry to the record kept in storage
+   */
+  public toRecord(): TopicAclEntryRecord {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      topicId: this.topicId,
+      principalType: this.principalType,
+      principalId: this.principalId,
+      permission: this.permission
+    };
+  }
+
+  /**
+   * Converts the entry to a plain object for serialization
+   * Every field of an entry is public
+   */
+  public override toJSON(): Record<string, unknown> {
+    return { ...this.toRecord() };
+  }
+}
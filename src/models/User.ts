@@ -2,6 +2,22 @@ import { BaseEntity } from './BaseEntity';
 import { IUser } from '../interfaces/IUser';
 import { UserRole } from '../enums/UserRole';
 import * as crypto from 'crypto';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Shape of a user as kept in storage
+ * Unlike the JSON sent to clients, it includes the password hash and salt
+ */
+export interface UserRecord {
+  id: string;
+  createdAt: string | Date;
+  name: string;
+  email: string;
+  role: UserRole;
+  passwordHash?: string;
+  passwordSalt?: string;
+  groups?: string[];
+}
 
 /**
  * Represents a user who can access the knowledge base
@@ -10,6 +26,7 @@ export class User extends BaseEntity implements IUser {
   public readonly name: string;
   public readonly email: string;
   public readonly role: UserRole;
+  public readonly groups: string[];
   private readonly passwordHash?: string;
   private readonly passwordSalt?: string;
 
@@ -23,6 +40,7 @@ export class User extends BaseEntity implements IUser {
    * @param createdAt Optional creation date (will use current date if not provided)
    * @param passwordHash Optional password hash (for existing users)
    * @param passwordSalt Optional password salt (for existing users)
+   * @param groups Optional names of the groups the user belongs to
    */
   constructor(
     name: string,
@@ -31,37 +49,43 @@ export class User extends BaseEntity implements IUser {
     id?: string,
     createdAt?: Date,
     passwordHash?: string,
-    passwordSalt?: string
+    passwordSalt?: string,
+    groups: string[] = []
   ) {
     super(id, createdAt);
     this.name = name;
     this.email = email.toLowerCase();
     this.role = role;
+    this.groups = groups;
     this.passwordHash = passwordHash;
     this.passwordSalt = passwordSalt;
   }
 
   /**
    * Validates that the user is in a valid state
-   * @throws Error if validation fails
+   * @throws ValidationError if validation fails
    */
   public validate(): void {
     if (!this.name || this.name.trim().length === 0) {
-      throw new Error('User name cannot be empty');
+      throw new ValidationError('User name cannot be empty');
     }
 
     if (!this.email || this.email.trim().length === 0) {
-      throw new Error('User email cannot be empty');
+      throw new ValidationError('User email cannot be empty');
     }
 
     // Basic email validation
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
     if (!emailRegex.test(this.email)) {
-      throw new Error('User email is not valid');
+      throw new ValidationError('User email is not valid');
     }
 
     if (!Object.values(UserRole).includes(this.role)) {
-      throw new Error(`User role must be one of: ${Object.values(UserRole).join(', ')}`);
+      throw new ValidationError(`User role must be one of: ${Object.values(UserRole).join(', ')}`);
+    }
+
+    if (this.groups.some(group => typeof group !== 'string' || group.trim().length === 0)) {
+      throw new ValidationError('User group names cannot be empty');
     }
   }
 
@@ -80,9 +104,7 @@ export class User extends BaseEntity implements IUser {
     password: string,
     role: UserRole = UserRole.VIEWER
   ): User {
-    if (!password || password.length < 8) {
-      throw new Error('Password must be at least 8 characters long');
-    }
+    User.validatePassword(password);
 
     const salt = crypto.randomBytes(16).toString('hex');
     const hash = User.hashPassword(password, salt);
@@ -90,6 +112,26 @@ export class User extends BaseEntity implements IUser {
     return new User(name, email, role, undefined, undefined, hash, salt);
   }
 
+  /**
+   * Validates that a password is strong enough to be stored
+   * 
+   * @param password The password to validate
+   * @throws ValidationError if the password is too short
+   */
+  public static validatePassword(password: string): void {
+    if (!password || password.length < 8) {
+      throw new ValidationError('Password must be at least 8 characters long');
+    }
+  }
+
+  /**
+   * Checks whether the user has a password to log in with
+   * @returns True if a password hash and salt are stored
+   */
+  public hasPassword(): boolean {
+    return Boolean(this.passwordHash && this.passwordSalt);
+  }
+
   /**
    * Verifies if the provided password matches the stored hash
    * 
@@ -122,7 +164,71 @@ export class User extends BaseEntity implements IUser {
       this.id,
       this.createdAt,
       this.passwordHash,
-      this.passwordSalt
+      this.passwordSalt,
+      this.groups
+    );
+  }
+
+  /**
+   * Updates the user's profile information
+   * 
+   * @param name New name for the user
+   * @param email New email for the user
+   * @returns A new User instance with the updated profile
+   */
+  public updateProfile(name: string = this.name, email: string = this.email): User {
+    return new User(
+      name,
+      email,
+      this.role,
+      this.id,
+      this.createdAt,
+      this.passwordHash,
+      this.passwordSalt,
+      this.groups
+    );
+  }
+
+  /**
+   * Replaces the groups the user belongs to
+   * 
+   * @param groups The names of the groups
+   * @returns A new User instance with the updated groups
+   */
+  public updateGroups(groups: string[]): User {
+    return new User(
+      this.name,
+      this.email,
+      this.role,
+      this.id,
+      this.createdAt,
+      this.passwordHash,
+      this.passwordSalt,
+      [...new Set(groups.map(group => group.trim()))]
+    );
+  }
+
+  /**
+   * Changes the user's password
+   * 
+   * @param newPassword The new password
+   * @returns A new User instance with a fresh password hash and salt
+   */
+  public changePassword(newPassword: string): User {
+    User.validatePassword(newPassword);
+
+    const salt = crypto.randomBytes(16).toString('hex');
+    const hash = User.hashPassword(newPassword, salt);
+
+    return new User(
+      this.name,
+      this.email,
+      this.role,
+      this.id,
+      this.createdAt,
+      hash,
+      salt,
+      this.groups
     );
   }
 
@@ -139,6 +245,42 @@ export class User extends BaseEntity implements IUser {
       .toString('hex');
   }
 
+  /**
+   * Converts the user to the record kept in storage, including the password hash and salt
+   * Never send this record to clients
+   */
+  public toRecord(): UserRecord {
+    return {
+      id: this.id,
+      createdAt: this.createdAt.toISOString(),
+      name: this.name,
+      email: this.email,
+      role: this.role,
+      passwordHash: this.passwordHash,
+      passwordSalt: this.passwordSalt,
+      groups: this.groups
+    };
+  }
+
+  /**
+   * Restores a user from its stored record
+   * 
+   * @param record The stored record
+   * @returns A User instance with the stored password hash and salt
+   */
+  public static fromRecord(record: UserRecord): User {
+    return new User(
+      record.name,
+      record.email,
+      record.role,
+      record.id,
+      new Date(record.createdAt),
+      record.passwordHash,
+      record.passwordSalt,
+      record.groups ?? []
+    );
+  }
+
   /**
    * Converts the user to a plain object for serialization
    * Note: Password hash and salt are not included for security
@@ -148,7 +290,8 @@ export class User extends BaseEntity implements IUser {
       ...super.toJSON(),
       name: this.name,
       email: this.email,
-      role: this.role
+      role: this.role,
+      groups: this.groups
     };
   }
 } 
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { Topic } from '../Topic';
+import { ValidationError } from '../../errors/ValidationError';
 
 describe('Topic', () => {
   it('should create a valid topic', () => {
@@ -30,6 +31,7 @@ describe('Topic', () => {
     const topic = new Topic('', 'This is a test topic');
     
     expect(() => topic.validate()).toThrow('Topic name cannot be empty');
+    expect(() => topic.validate()).toThrow(ValidationError);
   });
 
   it('should throw an error for invalid topic content', () => {
@@ -50,7 +52,7 @@ describe('Topic', () => {
     
     const newVersion = topic.createNewVersion(newContent);
     
-    expect(newVersion.id).toBe(topic.id);
+    expect(newVersion.id).not.toBe(topic.id);
     expect(newVersion.name).toBe(topic.name);
     expect(newVersion.content).toBe(newContent);
     expect(newVersion.version).toBe(2);
@@ -58,6 +60,118 @@ describe('Topic', () => {
     expect(newVersion.updatedAt).not.toBe(topic.updatedAt);
   });
 
+  it('should chain versions through previousVersionId and rootTopicId', () => {
+    const topic = new Topic('Test Topic', 'Version 1');
+    
+    const version2 = topic.createNewVersion('Version 2');
+    const version3 = version2.createNewVersion('Version 3', 'Renamed Topic');
+    
+    expect(new Set([topic.id, version2.id, version3.id]).size).toBe(3);
+    expect(version2.previousVersionId).toBe(topic.id);
+    expect(version3.previousVersionId).toBe(version2.id);
+    expect(version3.rootTopicId).toBe(topic.id);
+    expect(version3.name).toBe('Renamed Topic');
+    expect(version3.version).toBe(3);
+  });
+
+  it('should attach child topics to the root topic ID of the parent', () => {
+    const parent = new Topic('Parent', 'Parent content').createNewVersion('Updated');
+    
+    const child = parent.createChildTopic('Child', 'Child content');
+    
+    expect(child.parentTopicId).toBe(parent.rootTopicId);
+    expect(child.parentTopicId).not.toBe(parent.id);
+  });
+
+  it('should move to a new parent as a new version with the same name and content', () => {
+    const parent = new Topic('Parent', 'Parent content');
+    const topic = new Topic('Test Topic', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id');
+    
+    const moved = topic.moveTo(parent.rootTopicId, 'editor-id');
+    const promoted = moved.moveTo(undefined);
+    
+    expect(moved).toEqual(expect.objectContaining({
+      name: 'Test Topic',
+      content: 'Content',
+      version: 2,
+      parentTopicId: parent.rootTopicId,
+      previousVersionId: topic.id,
+      rootTopicId: topic.rootTopicId,
+      ownerId: 'owner-id',
+      authorId: 'editor-id'
+    }));
+    expect(promoted.version).toBe(3);
+    expect(promoted.parentTopicId).toBeUndefined();
+  });
+
+  it('should copy a version as a new topic or as the next version of a copied chain', () => {
+    const topic = new Topic('Test Topic', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id', 'owner-id');
+    const next = topic.createNewVersion('Updated content', undefined, 'editor-id');
+    
+    const first = topic.copyTo('parent-id', 'copier-id', 'owner-id');
+    const second = next.copyTo('parent-id', 'copier-id', 'editor-id', first);
+    
+    expect(first.id).not.toBe(topic.id);
+    expect(first).toEqual(expect.objectContaining({
+      name: 'Test Topic',
+      content: 'Content',
+      version: 1,
+      parentTopicId: 'parent-id',
+      rootTopicId: first.id,
+      ownerId: 'copier-id',
+      authorId: 'owner-id'
+    }));
+    expect(first.previousVersionId).toBeUndefined();
+    expect(second).toEqual(expect.objectContaining({
+      content: 'Updated content',
+      version: 2,
+      previousVersionId: first.id,
+      rootTopicId: first.id,
+      createdAt: first.createdAt,
+      authorId: 'editor-id'
+    }));
+  });
+  
+  it('should move to the trash and back without becoming a new version', () => {
+    const topic = new Topic('Test Topic', 'Content').createNewVersion('Updated content');
+    const deletedAt = new Date('2026-03-01T12:00:00Z');
+    
+    const trashed = topic.moveToTrash('admin-id', deletedAt);
+    const restored = trashed.restoreFromTrash();
+    
+    expect(trashed).toEqual(expect.objectContaining({
+      id: topic.id,
+      version: 2,
+      deletedAt,
+      deletedBy: 'admin-id'
+    }));
+    expect(trashed.toJSON()).toEqual(expect.objectContaining({
+      deletedAt: '2026-03-01T12:00:00.000Z',
+      deletedBy: 'admin-id'
+    }));
+    expect(restored).toEqual(topic);
+    expect(restored.toJSON()).not.toHaveProperty('deletedAt');
+  });
+  
+  it('should keep the owner and record the author of each new version', () => {
+    const topic = new Topic('Test Topic', 'Version 1', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id', 'owner-id');
+    
+    const version2 = topic.createNewVersion('Version 2', undefined, 'editor-id');
+    
+    expect(version2.ownerId).toBe('owner-id');
+    expect(version2.authorId).toBe('editor-id');
+    expect(version2.toJSON()).toEqual(expect.objectContaining({ ownerId: 'owner-id', authorId: 'editor-id' }));
+  });
+
+  it('should make the creator of a child topic its owner and author', () => {
+    const parent = new Topic('Parent', 'Parent content', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id');
+    
+    const child = parent.createChildTopic('Child', 'Child content', 'editor-id');
+    
+    expect(child.ownerId).toBe('editor-id');
+    expect(child.authorId).toBe('editor-id');
+  });
+
   it('should convert to JSON correctly', () => {
     const topic = new Topic('Test Topic', 'This is a test topic');
     const json = topic.toJSON();
@@ -69,5 +183,7 @@ describe('Topic', () => {
     expect(json.createdAt).toBe(topic.createdAt.toISOString());
     expect(json.updatedAt).toBe(topic.updatedAt.toISOString());
     expect(json.parentTopicId).toBeUndefined();
+    expect(json.ownerId).toBeUndefined();
+    expect(json.authorId).toBeUndefined();
   });
 }); 
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { User } from '../User';
+import { UserRole } from '../../enums/UserRole';
+
+describe('User', () => {
+  it('should create a user with a password that can be verified', () => {
+    const user = User.createWithPassword('Test User', 'Test@Example.com', 'password123', UserRole.EDITOR);
+    
+    expect(user.email).toBe('test@example.com');
+    expect(user.role).toBe(UserRole.EDITOR);
+    expect(user.verifyPassword('password123')).toBe(true);
+    expect(user.verifyPassword('wrong-password')).toBe(false);
+  });
+  
+  it('should tell whether a password is stored', () => {
+    expect(User.createWithPassword('Test User', 'test@example.com', 'password123').hasPassword()).toBe(true);
+    expect(new User('Test User', 'test@example.com').hasPassword()).toBe(false);
+  });
+  
+  it('should reject short passwords', () => {
+    expect(() => User.createWithPassword('Test User', 'test@example.com', 'short'))
+      .toThrow('Password must be at least 8 characters long');
+    expect(() => User.validatePassword('short'))
+      .toThrow('Password must be at least 8 characters long');
+  });
+  
+  it('should update the profile and keep the password', () => {
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123');
+    
+    const updated = user.updateProfile('New Name', 'new@example.com');
+    
+    expect(updated.id).toBe(user.id);
+    expect(updated.name).toBe('New Name');
+    expect(updated.email).toBe('new@example.com');
+    expect(updated.role).toBe(user.role);
+    expect(updated.verifyPassword('password123')).toBe(true);
+  });
+  
+  it('should change the password', () => {
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123');
+    
+    const updated = user.changePassword('new-password');
+    
+    expect(updated.id).toBe(user.id);
+    expect(updated.verifyPassword('new-password')).toBe(true);
+    expect(updated.verifyPassword('password123')).toBe(false);
+    expect(() => user.changePassword('short')).toThrow('Password must be at least 8 characters long');
+  });
+  
+  it('should not include password fields in JSON', () => {
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123');
+    
+    const json = JSON.parse(JSON.stringify(user));
+    
+    expect(json).not.toHaveProperty('passwordHash');
+    expect(json).not.toHaveProperty('passwordSalt');
+    expect(json).toEqual(expect.objectContaining({ name: 'Test User', email: 'test@example.com' }));
+  });
+  
+  it('should replace the groups and keep them through storage', () => {
+    const user = User.createWithPassword('Test User', 'test@example.com', 'password123');
+    
+    const updated = user.updateGroups(['team', ' team ', 'ops']);
+    const restored = User.fromRecord(JSON.parse(JSON.stringify(updated.toRecord())));
+    
+    expect(user.groups).toEqual([]);
+    expect(updated.groups).toEqual(['team', 'ops']);
+    expect(updated.verifyPassword('password123')).toBe(true);
+    expect(restored.groups).toEqual(['team', 'ops']);
+    expect(() => user.updateGroups(['']).validate()).toThrow('User group names cannot be empty');
+  });
+});
@@ -1,4 +1,7 @@
 export * from './BaseEntity';
 export * from './Topic';
 export * from './Resource';
-export * from './User'; 
\ No newline at end of file
+export * from './User'; 
+export * from './RefreshToken';
+export * from './TopicAclEntry';
+export * from './AuditEntry';
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { BaseRepository } from './BaseRepository';
+import { AuditEntry } from '../models/AuditEntry';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { FieldCondition } from '../database/PageQuery';
+
+/**
+ * Criteria for selecting audit entries; every given criterion must match
+ */
+export interface AuditFilter {
+  actorId?: string;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  from?: Date; // Inclusive lower bound on the time of the change
+  to?: Date; // Inclusive upper bound on the time of the change
+}
+
+/**
+ * Repository for AuditEntry entities
+ * The audit log is append-only: entries can be created and read, but never changed or removed
+ */
+export class AuditRepository extends BaseRepository<AuditEntry> {
+  /**
+   * Creates a new AuditRepository instance
+   */
+  constructor() {
+    super('Audit');
+  }
+
+  /**
+   * Rejects every update, audit entries are immutable
+   * @throws Error always
+   */
+  public override async update(): Promise<AuditEntry | null> {
+    throw new Error('Audit entries cannot be modified');
+  }
+
+  /**
+   * Rejects every deletion, audit entries are immutable
+   * @throws Error always
+   */
+  public override async delete(): Promise<boolean> {
+    throw new Error('Audit entries cannot be deleted');
+  }
+
+  /**
+   * Finds the audit entries matching a filter
+   * @param filter The criteria the entries must match
+   * @returns Promise resolving to the matching entries, newest first
+   */
+  public async findByFilter(filter: AuditFilter): Promise<AuditEntry[]> {
+    const conditions: FieldCondition[] = [];
+    
+    if (filter.actorId) {
+      conditions.push({ field: 'actorId', operator: 'eq', value: filter.actorId });
+    }
+    
+    if (filter.entityType) {
+      conditions.push({ field: 'entityType', operator: 'eq', value: filter.entityType });
+    }
+    
+    if (filter.entityId) {
+      conditions.push({ field: 'entityId', operator: 'eq', value: filter.entityId });
+    }
+    
+    if (filter.from) {
+      conditions.push({ field: 'createdAt', operator: 'gte', value: filter.from });
+    }
+    
+    if (filter.to) {
+      conditions.push({ field: 'createdAt', operator: 'lte', value: filter.to });
+    }
+    
+    return this.find({
+      where: { and: conditions },
+      sort: [{ field: 'createdAt', direction: 'desc' }]
+    });
+  }
+}
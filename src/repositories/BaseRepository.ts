@@ -1,6 +1,8 @@
 import { IRepository } from './IRepository';
 import { IDatabase } from '../database/IDatabase';
 import { DatabaseFactory } from '../database/DatabaseFactory';
+import { FieldCondition, Page, PageQuery } from '../database/PageQuery';
+import { EntityQuery } from '../database/Query';
 import { BaseEntity } from '../models/BaseEntity';
 
 /**
@@ -62,10 +64,27 @@ export abstract class BaseRepository<T extends BaseEntity> implements IRepositor
   }
 
   /**
-   * Queries entities based on a predicate function
-   * @param queryFn Function that returns true for entities that match the query
+   * Finds the entities a structured query selects, evaluated by the database
+   * @param query The filter, grouping, sort order and limit
    */
-  protected async query(queryFn: (entity: T) => boolean): Promise<T[]> {
-    return this.database.query(queryFn);
+  protected async find(query: EntityQuery): Promise<T[]> {
+    return this.database.find(query);
+  }
+
+  /**
+   * Finds the entities that meet all of a set of conditions, evaluated by the database
+   * Lookups by an indexed field are answered from the index
+   * @param where The conditions on the stored fields
+   */
+  protected async findBy(where: FieldCondition[]): Promise<T[]> {
+    return this.find({ where: { and: where } });
+  }
+
+  /**
+   * Finds one page of entities, filtered and sorted by the database
+   * @param pageQuery The conditions, sort order and position of the page
+   */
+  protected async findPage(pageQuery: PageQuery): Promise<Page<T>> {
+    return this.database.findPage(pageQuery);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,61 @@
+import { BaseRepository } from './BaseRepository';
+import { RefreshToken } from '../models/RefreshToken';
+
+/**
+ * Repository for RefreshToken entities
+ */
+export class RefreshTokenRepository extends BaseRepository<RefreshToken> {
+  /**
+   * Creates a new RefreshTokenRepository instance
+   */
+  constructor() {
+    super('RefreshToken');
+  }
+
+  /**
+   * Finds a refresh token by the hash of its value
+   * @param tokenHash The hash of the token value
+   * @returns Promise resolving to the refresh token or null if not found
+   */
+  public async findByTokenHash(tokenHash: string): Promise<RefreshToken | null> {
+    const tokens = await this.findBy([{ field: 'tokenHash', operator: 'eq', value: tokenHash }]);
+    return tokens.length > 0 ? tokens[0] : null;
+  }
+
+  /**
+   * Revokes every token in a family that is not revoked yet
+   * @param familyId The ID of the token family
+   * @returns Promise resolving to the number of tokens revoked
+   */
+  public async revokeFamily(familyId: string): Promise<number> {
+    const tokens = (await this.findBy([{ field: 'familyId', operator: 'eq', value: familyId }]))
+      .filter(token => !token.isRevoked());
+    return this.revokeAll(tokens);
+  }
+
+  /**
+   * Revokes every token of a user that is not revoked yet
+   * @param userId The ID of the user
+   * @returns Promise resolving to the number of tokens revoked
+   */
+  public async revokeAllForUser(userId: string): Promise<number> {
+    const tokens = (await this.findBy([{ field: 'userId', operator: 'eq', value: userId }]))
+      .filter(token => !token.isRevoked());
+    return this.revokeAll(tokens);
+  }
+
+  /**
+   * Revokes a list of tokens
+   * @param tokens The tokens to revoke
+   * @returns Promise resolving to the number of tokens revoked
+   */
+  private async revokeAll(tokens: RefreshToken[]): Promise<number> {
+    const now = new Date();
+
+    for (const token of tokens) {
+      await this.update(token.id, token.revoke(undefined, now));
+    }
+
+    return tokens.length;
+  }
+}
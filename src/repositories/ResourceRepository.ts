@@ -1,11 +1,11 @@
-import { BaseRepository } from './BaseRepository';
+import { SoftDeleteRepository } from './SoftDeleteRepository';
 import { Resource } from '../models/Resource';
 import { ResourceType } from '../enums/ResourceType';
 
 /**
  * Repository for Resource entities
  */
-export class ResourceRepository extends BaseRepository<Resource> {
+export class ResourceRepository extends SoftDeleteRepository<Resource> {
   /**
    * Creates a new ResourceRepository instance
    */
@@ -19,7 +19,7 @@ export class ResourceRepository extends BaseRepository<Resource> {
    * @returns Promise resolving to an array of resources for the topic
    */
   public async findByTopicId(topicId: string): Promise<Resource[]> {
-    return this.query(resource => resource.topicId === topicId);
+    return this.findBy([{ field: 'topicId', operator: 'eq', value: topicId }]);
   }
 
   /**
@@ -28,7 +28,7 @@ export class ResourceRepository extends BaseRepository<Resource> {
    * @returns Promise resolving to an array of resources of the specified type
    */
   public async findByType(type: ResourceType): Promise<Resource[]> {
-    return this.query(resource => resource.type === type);
+    return this.findBy([{ field: 'type', operator: 'eq', value: type }]);
   }
 
   /**
@@ -37,10 +37,7 @@ export class ResourceRepository extends BaseRepository<Resource> {
    * @returns Promise resolving to an array of matching resources
    */
   public async findByDescription(description: string): Promise<Resource[]> {
-    const lowerDescription = description.toLowerCase();
-    return this.query(resource => 
-      resource.description.toLowerCase().includes(lowerDescription)
-    );
+    return this.findBy([{ field: 'description', operator: 'contains', value: description }]);
   }
 
   /**
@@ -0,0 +1,142 @@
+import { BaseRepository } from './BaseRepository';
+import { FieldCondition, Page, PageQuery } from '../database/PageQuery';
+import { EntityQuery } from '../database/Query';
+import { BaseEntity } from '../models/BaseEntity';
+import { ISoftDeletable } from '../interfaces/ISoftDeletable';
+
+/**
+ * Entity that can be moved to the trash and taken back out of it
+ */
+export type TrashableEntity<T> = BaseEntity & ISoftDeletable & {
+  moveToTrash(deletedBy: string, deletedAt?: Date): T;
+  restoreFromTrash(): T;
+};
+
+/**
+ * Condition met by the entities that are not in the trash
+ */
+const NOT_TRASHED: FieldCondition = { field: 'deletedAt', operator: 'exists', value: false };
+
+/**
+ * Condition met by the entities in the trash
+ */
+const TRASHED: FieldCondition = { field: 'deletedAt', operator: 'exists', value: true };
+
+/**
+ * Base repository for entities that are moved to the trash instead of being removed
+ * Every read excludes trashed entities; the trash is only reached through the find*Trashed methods.
+ * delete still removes an entity for good, which is how the trash is purged
+ */
+export abstract class SoftDeleteRepository<T extends TrashableEntity<T>> extends BaseRepository<T> {
+  /**
+   * Finds all entities that are not in the trash
+   */
+  public override async findAll(): Promise<T[]> {
+    return this.find({});
+  }
+
+  /**
+   * Finds an entity by ID unless it is in the trash
+   * @param id The ID of the entity to find
+   */
+  public override async findById(id: string): Promise<T | null> {
+    const entity = await this.database.findById(id);
+    return entity && !this.isTrashed(entity) ? entity : null;
+  }
+
+  /**
+   * Finds the entities that are not in the trash and that a structured query selects
+   * @param query The filter, grouping, sort order and limit
+   */
+  protected override async find(query: EntityQuery): Promise<T[]> {
+    return this.database.find({
+      ...query,
+      where: query.where ? { and: [query.where, NOT_TRASHED] } : NOT_TRASHED
+    });
+  }
+
+  /**
+   * Finds one page of the entities that are not in the trash
+   * @param pageQuery The conditions, sort order and position of the page
+   */
+  protected override async findPage(pageQuery: PageQuery): Promise<Page<T>> {
+    return this.database.findPage({
+      ...pageQuery,
+      where: [...(pageQuery.where ?? []), NOT_TRASHED]
+    });
+  }
+
+  /**
+   * Finds all entities in the trash
+   */
+  public async findTrashed(): Promise<T[]> {
+    return this.database.find({ where: TRASHED });
+  }
+
+  /**
+   * Finds an entity in the trash by ID
+   * @param id The ID of the entity to find
+   * @returns Promise resolving to the entity or null if it is not in the trash
+   */
+  public async findTrashedById(id: string): Promise<T | null> {
+    const entity = await this.database.findById(id);
+    return entity && this.isTrashed(entity) ? entity : null;
+  }
+
+  /**
+   * Moves an entity to the trash
+   * @param id The ID of the entity
+   * @param deletedBy ID of the user moving the entity to the trash
+   * @param deletedAt Date of the deletion, defaults to now
+   * @returns Promise resolving to the trashed entity or null if there is no such entity outside the trash
+   */
+  public async trash(id: string, deletedBy: string, deletedAt: Date = new Date()): Promise<T | null> {
+    const entity = await this.findById(id);
+    
+    if (!entity) {
+      return null;
+    }
+    
+    return this.database.update(id, entity.moveToTrash(deletedBy, deletedAt));
+  }
+
+  /**
+   * Takes an entity back out of the trash
+   * @param id The ID of the entity
+   * @returns Promise resolving to the restored entity or null if the entity is not in the trash
+   */
+  public async restore(id: string): Promise<T | null> {
+    const entity = await this.findTrashedById(id);
+    
+    if (!entity) {
+      return null;
+    }
+    
+    return this.database.update(id, entity.restoreFromTrash());
+  }
+
+  /**
+   * Removes for good every entity that was moved to the trash at or before a date
+   * @param cutoff The latest deletion date to purge
+   * @returns Promise resolving to the purged entities
+   */
+  public async purgeTrashedBefore(cutoff: Date): Promise<T[]> {
+    const expired = await this.database.find({
+      where: { and: [TRASHED, { field: 'deletedAt', operator: 'lte', value: cutoff }] }
+    });
+    
+    for (const entity of expired) {
+      await this.database.delete(entity.id);
+    }
+    
+    return expired;
+  }
+
+  /**
+   * Checks whether an entity is in the trash
+   * @param entity The entity to check
+   */
+  protected isTrashed(entity: T): boolean {
+    return entity.deletedAt !== undefined && entity.deletedAt !== null;
+  }
+}
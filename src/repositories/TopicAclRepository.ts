@@ -0,0 +1,63 @@
+import { BaseRepository } from './BaseRepository';
+import { TopicAclEntry } from '../models/TopicAclEntry';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+
+/**
+ * Repository for TopicAclEntry entities
+ */
+export class TopicAclRepository extends BaseRepository<TopicAclEntry> {
+  /**
+   * Creates a new TopicAclRepository instance
+   */
+  constructor() {
+    super('TopicAcl');
+  }
+
+  /**
+   * Finds the access control entries attached to a topic
+   * @param topicId The root topic ID of the topic
+   * @returns Promise resolving to the entries of the topic
+   */
+  public async findByTopicId(topicId: string): Promise<TopicAclEntry[]> {
+    return this.findBy([{ field: 'topicId', operator: 'eq', value: topicId }]);
+  }
+
+  /**
+   * Replaces the access control entries attached to a topic
+   * The old entries are removed and the new ones stored in one transaction
+   * @param topicId The root topic ID of the topic
+   * @param entries The new entries; an empty list removes the topic's own entries
+   * @returns Promise resolving to the stored entries
+   */
+  public async replaceForTopic(topicId: string, entries: TopicAclEntry[]): Promise<TopicAclEntry[]> {
+    // Validate everything up front so a bad entry doesn't leave the list half replaced
+    entries.forEach(entry => entry.validate());
+    
+    return DatabaseFactory.transaction(async () => {
+      await this.deleteByTopicId(topicId);
+      
+      const created: TopicAclEntry[] = [];
+      
+      for (const entry of entries) {
+        created.push(await this.create(entry));
+      }
+      
+      return created;
+    });
+  }
+
+  /**
+   * Removes the access control entries attached to a topic
+   * @param topicId The root topic ID of the topic
+   * @returns Promise resolving to the number of entries removed
+   */
+  public async deleteByTopicId(topicId: string): Promise<number> {
+    const existing = await this.findByTopicId(topicId);
+    
+    for (const entry of existing) {
+      await this.delete(entry.id);
+    }
+    
+    return existing.length;
+  }
+}
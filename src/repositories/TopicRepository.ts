@@ -1,10 +1,62 @@
-import { BaseRepository } from './BaseRepository';
+import { SoftDeleteRepository } from './SoftDeleteRepository';
 import { Topic } from '../models/Topic';
+import { FieldCondition, Page, PagePosition, SortDirection, VersionGroup } from '../database/PageQuery';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+
+/**
+ * Direction in which a path between topics may travel
+ * - any: up to parents and down to children
+ * - ancestors: only up from the start topic to its parents
+ * - descendants: only down from the start topic to its children
+ */
+export type TopicPathDirection = 'any' | 'ancestors' | 'descendants';
+
+/**
+ * Options that constrain the search for a path between topics
+ */
+export interface TopicPathOptions {
+  maxDepth?: number; // Maximum number of hops
+  direction?: TopicPathDirection;
+  canVisit?: (topic: Topic) => boolean; // Topics rejected here are never part of the path
+}
+
+/**
+ * Fields topic listings can be sorted by
+ */
+export type TopicSortField = 'name' | 'createdAt' | 'updatedAt' | 'version';
+
+/**
+ * Field topic listings are sorted by when no other is given
+ */
+export const DEFAULT_TOPIC_SORT_FIELD: TopicSortField = 'createdAt';
+
+/**
+ * Versions of a topic share its root topic ID
+ */
+const TOPIC_VERSIONS: VersionGroup = { groupField: 'rootTopicId', versionField: 'version' };
+
+/**
+ * Filters, sort order and position of a page of topics
+ */
+export interface TopicPageOptions {
+  parentTopicId?: string | null; // Root topic ID of the parent, or null for root topics only
+  updatedSince?: Date;
+  namePrefix?: string; // Case-insensitive
+  sortBy?: TopicSortField;
+  sortDirection?: SortDirection;
+  after?: PagePosition;
+  limit: number;
+}
 
 /**
  * Repository for Topic entities
+ * Topics are moved to the trash a whole version chain at a time.
+ * Lookups are structured queries the database evaluates, and versions and children are
+ * looked up through the rootTopicId and parentTopicId indexes.
+ * New versions and trashing each run in a transaction, so a version check made
+ * before a change still holds when the change is written
  */
-export class TopicRepository extends BaseRepository<Topic> {
+export class TopicRepository extends SoftDeleteRepository<Topic> {
   /**
    * Creates a new TopicRepository instance
    */
@@ -12,66 +64,272 @@ export class TopicRepository extends BaseRepository<Topic> {
     super('Topic');
   }
 
+  /**
+   * Finds the latest version of every topic
+   * @returns Promise resolving to one topic per version chain
+   */
+  public async findLatestVersions(): Promise<Topic[]> {
+    return this.find({ latestBy: TOPIC_VERSIONS });
+  }
+
+  /**
+   * Finds one page of the latest topic versions
+   * Filtering, sorting and paging are left to the database
+   * @param options The filters, sort order and position of the page
+   * @returns Promise resolving to the page of topics
+   */
+  public async findLatestPage(options: TopicPageOptions): Promise<Page<Topic>> {
+    const where: FieldCondition[] = [];
+    
+    if (options.parentTopicId === null) {
+      where.push({ field: 'parentTopicId', operator: 'exists', value: false });
+    } else if (options.parentTopicId !== undefined) {
+      where.push({ field: 'parentTopicId', operator: 'eq', value: options.parentTopicId });
+    }
+    
+    if (options.updatedSince) {
+      where.push({ field: 'updatedAt', operator: 'gte', value: options.updatedSince });
+    }
+    
+    if (options.namePrefix) {
+      where.push({ field: 'name', operator: 'startsWith', value: options.namePrefix });
+    }
+    
+    return this.findPage({
+      where,
+      latestBy: TOPIC_VERSIONS,
+      sortBy: options.sortBy ?? DEFAULT_TOPIC_SORT_FIELD,
+      sortDirection: options.sortDirection ?? 'asc',
+      after: options.after,
+      limit: options.limit
+    });
+  }
+
+  /**
+   * Finds the latest version of the topic a version ID belongs to
+   * @param id The ID of any version of the topic (including the root topic ID)
+   * @returns Promise resolving to the latest version or null if not found
+   */
+  public async findLatestById(id: string): Promise<Topic | null> {
+    const topic = await this.findById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    return this.findLatestVersion(topic.rootTopicId);
+  }
+
   /**
    * Finds topics by parent topic ID
-   * @param parentTopicId The ID of the parent topic
-   * @returns Promise resolving to an array of child topics
+   * @param parentTopicId The root topic ID of the parent topic
+   * @returns Promise resolving to the latest versions of the child topics
    */
   public async findByParentId(parentTopicId: string): Promise<Topic[]> {
-    return this.query(topic => topic.parentTopicId === parentTopicId);
+    const versions = await this.findBy([{ field: 'parentTopicId', operator: 'eq', value: parentTopicId }]);
+    const topics = await this.findLatestVersionsOf(versions);
+    return topics.filter(topic => topic.parentTopicId === parentTopicId);
   }
 
   /**
    * Finds root topics (topics without a parent)
-   * @returns Promise resolving to an array of root topics
+   * @returns Promise resolving to the latest versions of the root topics
    */
   public async findRootTopics(): Promise<Topic[]> {
-    return this.query(topic => !topic.parentTopicId);
+    const versions = await this.findBy([{ field: 'parentTopicId', operator: 'exists', value: false }]);
+    const topics = await this.findLatestVersionsOf(versions);
+    return topics.filter(topic => !topic.parentTopicId);
+  }
+
+  /**
+   * Finds the latest version of each topic some versions belong to
+   * A version found by its parent may have been moved since, so callers check the latest version again
+   * @param versions Versions of any number of topics
+   * @returns Promise resolving to one topic per version chain, in the order the chains first appear
+   */
+  private async findLatestVersionsOf(versions: Topic[]): Promise<Topic[]> {
+    const rootTopicIds = new Set(versions.map(version => version.rootTopicId));
+    const latest = await Promise.all(Array.from(rootTopicIds, rootTopicId => this.findLatestVersion(rootTopicId)));
+    return latest.filter((topic): topic is Topic => topic !== null);
   }
 
   /**
    * Finds topics by name (case-insensitive partial match)
    * @param name The name to search for
-   * @returns Promise resolving to an array of matching topics
+   * @returns Promise resolving to the latest versions of the matching topics
    */
   public async findByName(name: string): Promise<Topic[]> {
-    const lowerName = name.toLowerCase();
-    return this.query(topic => topic.name.toLowerCase().includes(lowerName));
+    return this.find({
+      where: { field: 'name', operator: 'contains', value: name },
+      latestBy: TOPIC_VERSIONS
+    });
+  }
+
+  /**
+   * Finds topics owned by a user
+   * @param ownerId The ID of the owning user
+   * @returns Promise resolving to the latest versions of the owned topics
+   */
+  public async findByOwner(ownerId: string): Promise<Topic[]> {
+    return this.find({
+      where: { field: 'ownerId', operator: 'eq', value: ownerId },
+      latestBy: TOPIC_VERSIONS
+    });
   }
 
   /**
    * Creates a new version of a topic
-   * @param id The ID of the topic to version
+   * The new version always follows the latest version, so the chain stays linear
+   * even when an older version ID is given
+   * @param id The ID of any version of the topic
    * @param newContent The new content for the topic
    * @param newName Optional new name for the topic
+   * @param authorId Optional ID of the user writing the new version
+   * @param expectedVersion Optional version the change is based on
    * @returns Promise resolving to the new version of the topic
+   * @throws PreconditionFailedError if the latest version is not the expected version
    */
   public async createNewVersion(
     id: string, 
     newContent: string, 
-    newName?: string
+    newName?: string,
+    authorId?: string,
+    expectedVersion?: number
   ): Promise<Topic | null> {
-    const topic = await this.findById(id);
-    
-    if (!topic) {
-      return null;
-    }
-    
-    const newVersion = topic.createNewVersion(newContent, newName);
-    
-    // Save the new version
-    await this.create(newVersion);
-    
-    return newVersion;
+    return this.appendVersion(id, expectedVersion, latest => latest.createNewVersion(newContent, newName, authorId));
+  }
+
+  /**
+   * Creates a new version of a topic under a different parent
+   * @param id The ID of any version of the topic
+   * @param newParentTopicId Root topic ID of the new parent, or undefined to make the topic a root topic
+   * @param authorId Optional ID of the user moving the topic
+   * @param expectedVersion Optional version the move is based on
+   * @returns Promise resolving to the new version of the topic
+   * @throws PreconditionFailedError if the latest version is not the expected version
+   */
+  public async createMovedVersion(
+    id: string,
+    newParentTopicId: string | undefined,
+    authorId?: string,
+    expectedVersion?: number
+  ): Promise<Topic | null> {
+    return this.appendVersion(id, expectedVersion, latest => latest.moveTo(newParentTopicId, authorId));
+  }
+
+  /**
+   * Adds a version after the latest version of a topic
+   * The latest version is read and checked in the same transaction the new version is written in,
+   * so the new version always follows the version it was checked against
+   * @param id The ID of any version of the topic
+   * @param expectedVersion Optional version the change is based on
+   * @param next Creates the new version from the latest one
+   * @returns Promise resolving to the new version, or null if the topic is not found
+   */
+  private async appendVersion(
+    id: string,
+    expectedVersion: number | undefined,
+    next: (latest: Topic) => Topic
+  ): Promise<Topic | null> {
+    return DatabaseFactory.transaction(async () => {
+      const latest = await this.findLatestById(id);
+      
+      if (!latest) {
+        return null;
+      }
+      
+      latest.assertVersion(expectedVersion);
+      
+      const newVersion = next(latest);
+      await this.create(newVersion);
+      
+      return newVersion;
+    });
   }
 
   /**
    * Finds all versions of a topic
    * @param rootTopicId The ID of the root topic
-   * @returns Promise resolving to an array of all versions of the topic
+   * @returns Promise resolving to an array of all versions of the topic, oldest first
    */
   public async findAllVersions(rootTopicId: string): Promise<Topic[]> {
-    return this.query(topic => topic.rootTopicId === rootTopicId);
+    return this.find({
+      where: { field: 'rootTopicId', operator: 'eq', value: rootTopicId },
+      sort: [{ field: 'version' }]
+    });
+  }
+
+  /**
+   * Moves every version of a topic to the trash
+   * @param rootTopicId The ID of the root topic
+   * @param deletedBy ID of the user moving the topic to the trash
+   * @param deletedAt Date of the deletion, shared by all versions
+   * @param expectedVersion Optional version the deletion is based on
+   * @returns Promise resolving to the trashed versions, oldest first
+   * @throws PreconditionFailedError if the latest version is not the expected version
+   */
+  public async trashAllVersions(
+    rootTopicId: string,
+    deletedBy: string,
+    deletedAt: Date = new Date(),
+    expectedVersion?: number
+  ): Promise<Topic[]> {
+    return DatabaseFactory.transaction(async () => {
+      const versions = await this.findAllVersions(rootTopicId);
+      const trashed: Topic[] = [];
+      
+      versions[versions.length - 1]?.assertVersion(expectedVersion);
+      
+      for (const version of versions) {
+        const result = await this.trash(version.id, deletedBy, deletedAt);
+        
+        if (result) {
+          trashed.push(result);
+        }
+      }
+      
+      return trashed;
+    });
+  }
+
+  /**
+   * Takes every version of a topic back out of the trash
+   * @param rootTopicId The ID of the root topic
+   * @returns Promise resolving to the restored versions, oldest first
+   */
+  public async restoreAllVersions(rootTopicId: string): Promise<Topic[]> {
+    const versions = (await this.findTrashed())
+      .filter(topic => topic.rootTopicId === rootTopicId)
+      .sort((a, b) => a.version - b.version);
+    const restored: Topic[] = [];
+    
+    for (const version of versions) {
+      const result = await this.restore(version.id);
+      
+      if (result) {
+        restored.push(result);
+      }
+    }
+    
+    return restored;
+  }
+
+  /**
+   * Finds the latest version of every topic in the trash
+   * @returns Promise resolving to one trashed topic per version chain
+   */
+  public async findTrashedLatestVersions(): Promise<Topic[]> {
+    const latest = new Map<string, Topic>();
+    
+    for (const topic of await this.findTrashed()) {
+      const current = latest.get(topic.rootTopicId);
+      
+      if (!current || topic.version > current.version) {
+        latest.set(topic.rootTopicId, topic);
+      }
+    }
+    
+    return Array.from(latest.values());
   }
 
   /**
@@ -81,8 +339,17 @@ export class TopicRepository extends BaseRepository<Topic> {
    * @returns Promise resolving to the specific version of the topic
    */
   public async findVersion(rootTopicId: string, version: number): Promise<Topic | null> {
-    const versions = await this.findAllVersions(rootTopicId);
-    return versions.find(topic => topic.version === version) || null;
+    const [found] = await this.find({
+      where: {
+        and: [
+          { field: 'rootTopicId', operator: 'eq', value: rootTopicId },
+          { field: 'version', operator: 'eq', value: version }
+        ]
+      },
+      limit: 1
+    });
+    
+    return found ?? null;
   }
 
   /**
@@ -91,43 +358,42 @@ export class TopicRepository extends BaseRepository<Topic> {
    * @returns Promise resolving to the latest version of the topic
    */
   public async findLatestVersion(rootTopicId: string): Promise<Topic | null> {
-    const versions = await this.findAllVersions(rootTopicId);
+    const [latest] = await this.find({
+      where: { field: 'rootTopicId', operator: 'eq', value: rootTopicId },
+      sort: [{ field: 'version', direction: 'desc' }],
+      limit: 1
+    });
     
-    if (versions.length === 0) {
-      return null;
-    }
-    
-    // Sort by version number in descending order
-    versions.sort((a, b) => b.version - a.version);
-    
-    return versions[0];
+    return latest ?? null;
   }
 
   /**
    * Creates a child topic
-   * @param parentId The ID of the parent topic
+   * @param parentId The ID of any version of the parent topic
    * @param name The name of the child topic
    * @param content The content of the child topic
+   * @param ownerId Optional ID of the user who owns the child topic
    * @returns Promise resolving to the created child topic
    */
   public async createChildTopic(
     parentId: string,
     name: string,
-    content: string
+    content: string,
+    ownerId?: string
   ): Promise<Topic | null> {
-    const parentTopic = await this.findById(parentId);
+    const parentTopic = await this.findLatestById(parentId);
     
     if (!parentTopic) {
       return null;
     }
     
-    const childTopic = parentTopic.createChildTopic(name, content);
+    const childTopic = parentTopic.createChildTopic(name, content, ownerId);
     return this.create(childTopic);
   }
 
   /**
    * Finds all child topics recursively
-   * @param topicId The ID of the parent topic
+   * @param topicId The root topic ID of the parent topic
    * @returns Promise resolving to an array of all child topics
    */
   public async findAllChildrenRecursive(topicId: string): Promise<Topic[]> {
@@ -146,135 +412,89 @@ export class TopicRepository extends BaseRepository<Topic> {
     
     for (const child of children) {
       result.push(child);
-      await this.findChildrenRecursive(child.id, result);
+      await this.findChildrenRecursive(child.rootTopicId, result);
     }
   }
 
   /**
-   * Finds the path between two topics
-   * @param startTopicId The ID of the start topic
-   * @param endTopicId The ID of the end topic
+   * Finds the shortest path between two topics
+   * Topics form a forest, so the only path runs up from the start topic to the closest ancestor it shares
+   * with the end topic and down from there; it is found by following parent links of the latest versions
+   * @param startTopicId The ID of any version of the start topic
+   * @param endTopicId The ID of any version of the end topic
+   * @param options Optional constraints on depth, direction and visitable topics
    * @returns Promise resolving to an array of topics representing the path
    */
-  public async findPath(startTopicId: string, endTopicId: string): Promise<Topic[] | null> {
-    const startTopic = await this.findById(startTopicId);
-    const endTopic = await this.findById(endTopicId);
+  public async findPath(
+    startTopicId: string,
+    endTopicId: string,
+    options: TopicPathOptions = {}
+  ): Promise<Topic[] | null> {
+    const { maxDepth = Infinity, direction = 'any', canVisit = (): boolean => true } = options;
+    const startTopic = await this.findLatestById(startTopicId);
+    const endTopic = await this.findLatestById(endTopicId);
     
     if (!startTopic || !endTopic) {
       return null;
     }
     
-    // Get all topics to build the graph
-    const allTopics = await this.findAll();
+    const isEnd = (topic: Topic): boolean => topic.rootTopicId === endTopic.rootTopicId;
+    const isStart = (topic: Topic): boolean => topic.rootTopicId === startTopic.rootTopicId;
     
-    // Build a graph representation
-    const graph = new Map<string, string[]>();
-    
-    for (const topic of allTopics) {
-      if (!graph.has(topic.id)) {
-        graph.set(topic.id, []);
-      }
-      
-      // Add parent-child relationships
-      if (topic.parentTopicId) {
-        // Add edge from parent to child
-        if (!graph.has(topic.parentTopicId)) {
-          graph.set(topic.parentTopicId, []);
-        }
-        graph.get(topic.parentTopicId)?.push(topic.id);
-        
-        // Add edge from child to parent
-        graph.get(topic.id)?.push(topic.parentTopicId);
-      }
+    if (direction === 'ancestors') {
+      const ancestry = await this.findAncestry(startTopic, maxDepth, canVisit, isEnd);
+      return ancestry.some(isEnd) ? ancestry : null;
     }
     
-    // Find the shortest path using BFS
-    const path = this.findShortestPath(graph, startTopicId, endTopicId);
-    
-    if (!path) {
-      return null;
+    if (direction === 'descendants') {
+      const ancestry = await this.findAncestry(endTopic, maxDepth, canVisit, isStart);
+      return ancestry.some(isStart) ? ancestry.reverse() : null;
     }
     
-    // Convert path of IDs to path of Topics
-    const result: Topic[] = [];
-    for (const id of path) {
-      const topic = allTopics.find(t => t.id === id);
-      if (topic) {
-        result.push(topic);
-      }
-    }
-    
-    return result;
-  }
-
-  /**
-   * Finds the shortest path between two nodes in a graph using BFS
-   * @param graph The graph representation
-   * @param startId The ID of the start node
-   * @param endId The ID of the end node
-   * @returns An array of node IDs representing the path, or null if no path exists
-   */
-  private findShortestPath(
-    graph: Map<string, string[]>,
-    startId: string,
-    endId: string
-  ): string[] | null {
-    // Queue for BFS
-    const queue: string[] = [startId];
-    
-    // Map to track visited nodes and their predecessors
-    const visited = new Map<string, string | null>();
-    visited.set(startId, null);
+    // Walk up from the start topic, then up from the end topic until it meets the start topic's ancestry
+    const startAncestry = await this.findAncestry(startTopic, maxDepth, canVisit, isEnd);
+    const hopsFromStart = new Map(startAncestry.map((topic, hops) => [topic.rootTopicId, hops]));
+    const endAncestry = await this.findAncestry(endTopic, maxDepth, canVisit, topic => hopsFromStart.has(topic.rootTopicId));
+    const commonAncestor = endAncestry[endAncestry.length - 1];
+    const upHops = commonAncestor ? hopsFromStart.get(commonAncestor.rootTopicId) : undefined;
     
-    // BFS to find the shortest path
-    while (queue.length > 0) {
-      const currentId = queue.shift()!;
-      
-      // If we've reached the end node, reconstruct the path
-      if (currentId === endId) {
-        return this.reconstructPath(visited, startId, endId);
-      }
-      
-      // Visit all neighbors
-      const neighbors = graph.get(currentId) || [];
-      for (const neighborId of neighbors) {
-        if (!visited.has(neighborId)) {
-          visited.set(neighborId, currentId);
-          queue.push(neighborId);
-        }
-      }
+    if (!commonAncestor || upHops === undefined || upHops + endAncestry.length - 1 > maxDepth) {
+      return null;
     }
     
-    // No path found
-    return null;
+    return [...startAncestry.slice(0, upHops + 1), ...endAncestry.slice(0, -1).reverse()];
   }
 
   /**
-   * Reconstructs the path from the visited map
-   * @param visited Map of visited nodes and their predecessors
-   * @param startId The ID of the start node
-   * @param endId The ID of the end node
-   * @returns An array of node IDs representing the path
+   * Follows parent links up from a topic
+   * The walk stops at a root topic, at a topic rejected by canVisit or once it goes around a cycle
+   * @param topic The latest version of the topic to start from
+   * @param maxHops The maximum number of parent links to follow
+   * @param canVisit Check for the topics the walk may pass through
+   * @param isTarget Check for the topic the walk stops at when it is reached
+   * @returns Promise resolving to the latest versions of the topic and its ancestors, nearest first
    */
-  private reconstructPath(
-    visited: Map<string, string | null>,
-    startId: string,
-    endId: string
-  ): string[] {
-    const path: string[] = [endId];
-    let current = endId;
+  private async findAncestry(
+    topic: Topic,
+    maxHops: number,
+    canVisit: (topic: Topic) => boolean,
+    isTarget: (topic: Topic) => boolean
+  ): Promise<Topic[]> {
+    const ancestry: Topic[] = [];
+    const seen = new Set<string>();
+    let current: Topic | null = topic;
     
-    while (current !== startId) {
-      const predecessor = visited.get(current);
+    while (current && canVisit(current) && !seen.has(current.rootTopicId)) {
+      ancestry.push(current);
+      seen.add(current.rootTopicId);
       
-      if (!predecessor) {
+      if (isTarget(current) || ancestry.length > maxHops || !current.parentTopicId) {
         break;
       }
       
-      path.unshift(predecessor);
-      current = predecessor;
+      current = await this.findLatestVersion(current.parentTopicId);
     }
     
-    return path;
+    return ancestry;
   }
 } 
\ No newline at end of file
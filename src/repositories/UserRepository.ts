@@ -1,6 +1,8 @@
 import { BaseRepository } from './BaseRepository';
 import { User } from '../models/User';
 import { UserRole } from '../enums/UserRole';
+import { ConflictError } from '../errors/ConflictError';
+import { DatabaseFactory } from '../database/DatabaseFactory';
 
 /**
  * Repository for User entities
@@ -19,9 +21,8 @@ export class UserRepository extends BaseRepository<User> {
    * @returns Promise resolving to the user or null if not found
    */
   public async findByEmail(email: string): Promise<User | null> {
-    const users = await this.query(user => 
-      user.email.toLowerCase() === email.toLowerCase()
-    );
+    // Emails are stored in lower case
+    const users = await this.findBy([{ field: 'email', operator: 'eq', value: email.toLowerCase() }]);
     
     return users.length > 0 ? users[0] : null;
   }
@@ -32,7 +33,7 @@ export class UserRepository extends BaseRepository<User> {
    * @returns Promise resolving to an array of users with the specified role
    */
   public async findByRole(role: UserRole): Promise<User[]> {
-    return this.query(user => user.role === role);
+    return this.findBy([{ field: 'role', operator: 'eq', value: role }]);
   }
 
   /**
@@ -41,17 +42,18 @@ export class UserRepository extends BaseRepository<User> {
    * @returns Promise resolving to an array of matching users
    */
   public async findByName(name: string): Promise<User[]> {
-    const lowerName = name.toLowerCase();
-    return this.query(user => user.name.toLowerCase().includes(lowerName));
+    return this.findBy([{ field: 'name', operator: 'contains', value: name }]);
   }
 
   /**
    * Creates a new user with a password
+   * The email check and the write happen in one transaction, so two sign-ups cannot claim the same email
    * @param name The name of the user
    * @param email The email of the user
    * @param password The password for the user
    * @param role The role of the user
    * @returns Promise resolving to the created user
+   * @throws ConflictError if another user already has the email
    */
   public async createWithPassword(
     name: string,
@@ -59,15 +61,19 @@ export class UserRepository extends BaseRepository<User> {
     password: string,
     role: UserRole = UserRole.VIEWER
   ): Promise<User> {
-    // Check if a user with the same email already exists
-    const existingUser = await this.findByEmail(email);
-    
-    if (existingUser) {
-      throw new Error(`User with email ${email} already exists`);
-    }
-    
+    // Hash the password before taking the write lock
     const user = User.createWithPassword(name, email, password, role);
-    return this.create(user);
+    
+    return DatabaseFactory.transaction(async () => {
+      // Check if a user with the same email already exists
+      const existingUser = await this.findByEmail(email);
+      
+      if (existingUser) {
+        throw new ConflictError(`User with email ${email} already exists`);
+      }
+      
+      return this.create(user);
+    });
   }
 
   /**
@@ -87,6 +93,69 @@ export class UserRepository extends BaseRepository<User> {
     return this.update(id, updatedUser);
   }
 
+  /**
+   * Replaces the groups a user belongs to
+   * @param id The ID of the user to update
+   * @param groups The names of the groups
+   * @returns Promise resolving to the updated user
+   */
+  public async updateGroups(id: string, groups: string[]): Promise<User | null> {
+    const user = await this.findById(id);
+    
+    if (!user) {
+      return null;
+    }
+    
+    return this.update(id, user.updateGroups(groups));
+  }
+
+  /**
+   * Updates a user's name and email
+   * @param id The ID of the user to update
+   * @param name The new name for the user
+   * @param email The new email for the user
+   * @returns Promise resolving to the updated user
+   * @throws ConflictError if another user already has the email
+   */
+  public async updateProfile(id: string, name?: string, email?: string): Promise<User | null> {
+    // Checked and written in one transaction, like createWithPassword
+    return DatabaseFactory.transaction(async () => {
+      const user = await this.findById(id);
+      
+      if (!user) {
+        return null;
+      }
+      
+      if (email) {
+        const existingUser = await this.findByEmail(email);
+        
+        if (existingUser && existingUser.id !== id) {
+          throw new ConflictError(`User with email ${email} already exists`);
+        }
+      }
+      
+      const updatedUser = user.updateProfile(name || user.name, email || user.email);
+      return this.update(id, updatedUser);
+    });
+  }
+
+  /**
+   * Replaces a user's password
+   * @param id The ID of the user to update
+   * @param newPassword The new password
+   * @returns Promise resolving to the updated user
+   */
+  public async updatePassword(id: string, newPassword: string): Promise<User | null> {
+    const user = await this.findById(id);
+    
+    if (!user) {
+      return null;
+    }
+    
+    const updatedUser = user.changePassword(newPassword);
+    return this.update(id, updatedUser);
+  }
+
   /**
    * Authenticates a user with email and password
    * @param email The email of the user
@@ -0,0 +1,77 @@
+import { AuditRepository } from '../AuditRepository';
+import { AuditEntry } from '../../models/AuditEntry';
+import { JsonDatabase } from '../../database/JsonDatabase';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { queryRows } from '../../__tests__/helpers/queryRows';
+
+// Mock the JsonDatabase
+jest.mock('../../database/JsonDatabase');
+
+describe('AuditRepository', () => {
+  let auditRepository: AuditRepository;
+  let mockDatabase: jest.Mocked<JsonDatabase<AuditEntry>>;
+  let older: AuditEntry;
+  let newer: AuditEntry;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    auditRepository = new AuditRepository();
+    
+    // Get the mocked database from the repository
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockDatabase = (auditRepository as any).database as jest.Mocked<JsonDatabase<AuditEntry>>;
+    
+    older = new AuditEntry(
+      'admin-id', AuditAction.CREATE, AuditEntityType.TOPIC, 'topic-id',
+      undefined, { name: 'Topic' }, 'request-1', undefined, new Date('2026-01-01T10:00:00Z')
+    );
+    newer = new AuditEntry(
+      'editor-id', AuditAction.DELETE, AuditEntityType.RESOURCE, 'resource-id',
+      { url: 'https://example.com' }, undefined, 'request-2', undefined, new Date('2026-01-02T10:00:00Z')
+    );
+  });
+  
+  it('should return matching entries newest first', async () => {
+    // Arrange
+    mockDatabase.find.mockImplementation(queryRows([older, newer]));
+    
+    // Act
+    const all = await auditRepository.findByFilter({});
+    const byActor = await auditRepository.findByFilter({ actorId: 'admin-id' });
+    const byEntity = await auditRepository.findByFilter({ entityType: AuditEntityType.RESOURCE, entityId: 'resource-id' });
+    
+    // Assert
+    expect(all).toEqual([newer, older]);
+    expect(byActor).toEqual([older]);
+    expect(byEntity).toEqual([newer]);
+  });
+  
+  it('should filter entries by an inclusive time range', async () => {
+    // Arrange
+    mockDatabase.find.mockImplementation(queryRows([older, newer]));
+    
+    // Act
+    const fromNewer = await auditRepository.findByFilter({ from: newer.createdAt });
+    const toOlder = await auditRepository.findByFilter({ to: older.createdAt });
+    const between = await auditRepository.findByFilter({
+      from: new Date('2026-01-01T12:00:00Z'),
+      to: new Date('2026-01-01T23:00:00Z')
+    });
+    
+    // Assert
+    expect(fromNewer).toEqual([newer]);
+    expect(toOlder).toEqual([older]);
+    expect(between).toEqual([]);
+  });
+  
+  it('should reject updates and deletions', async () => {
+    // Act & Assert
+    await expect(auditRepository.update()).rejects.toThrow('Audit entries cannot be modified');
+    await expect(auditRepository.delete()).rejects.toThrow('Audit entries cannot be deleted');
+    expect(mockDatabase.update).not.toHaveBeenCalled();
+    expect(mockDatabase.delete).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,71 @@
+import { RefreshTokenRepository } from '../RefreshTokenRepository';
+import { RefreshToken } from '../../models/RefreshToken';
+import { JsonDatabase } from '../../database/JsonDatabase';
+import { queryRows } from '../../__tests__/helpers/queryRows';
+
+// Mock the JsonDatabase
+jest.mock('../../database/JsonDatabase');
+
+describe('RefreshTokenRepository', () => {
+  let refreshTokenRepository: RefreshTokenRepository;
+  let mockDatabase: jest.Mocked<JsonDatabase<RefreshToken>>;
+  let expiresAt: Date;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    refreshTokenRepository = new RefreshTokenRepository();
+    
+    // Get the mocked database from the repository
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockDatabase = (refreshTokenRepository as any).database as jest.Mocked<JsonDatabase<RefreshToken>>;
+    mockDatabase.update.mockImplementation(async (_id, updated) => updated);
+    
+    expiresAt = new Date(Date.now() + 60 * 1000);
+  });
+  
+  it('should return null for an unknown hash', async () => {
+    // Arrange
+    mockDatabase.find.mockImplementation(queryRows([]));
+    
+    // Act
+    const result = await refreshTokenRepository.findByTokenHash('unknown');
+    
+    // Assert
+    expect(result).toBeNull();
+  });
+  
+  it('should revoke the active tokens of a family', async () => {
+    // Arrange
+    const rotated = new RefreshToken('user-id', 'family-id', 'hash-1', expiresAt).revoke('token-2');
+    const active = new RefreshToken('user-id', 'family-id', 'hash-2', expiresAt, 'token-2');
+    const otherFamily = new RefreshToken('user-id', 'other-family', 'hash-3', expiresAt);
+    mockDatabase.find.mockImplementation(queryRows([rotated, active, otherFamily]));
+    
+    // Act
+    const revoked = await refreshTokenRepository.revokeFamily('family-id');
+    
+    // Assert
+    expect(revoked).toBe(1);
+    expect(mockDatabase.update).toHaveBeenCalledTimes(1);
+    expect(mockDatabase.update).toHaveBeenCalledWith('token-2', expect.any(RefreshToken));
+    expect(mockDatabase.update.mock.calls[0][1].isRevoked()).toBe(true);
+  });
+  
+  it('should revoke the active tokens of a user', async () => {
+    // Arrange
+    const first = new RefreshToken('user-id', 'family-1', 'hash-1', expiresAt);
+    const second = new RefreshToken('user-id', 'family-2', 'hash-2', expiresAt);
+    const otherUser = new RefreshToken('other-user-id', 'family-3', 'hash-3', expiresAt);
+    mockDatabase.find.mockImplementation(queryRows([first, second, otherUser]));
+    
+    // Act
+    const revoked = await refreshTokenRepository.revokeAllForUser('user-id');
+    
+    // Assert
+    expect(revoked).toBe(2);
+    expect(mockDatabase.update).toHaveBeenCalledWith(first.id, expect.any(RefreshToken));
+    expect(mockDatabase.update).toHaveBeenCalledWith(second.id, expect.any(RefreshToken));
+  });
+});
@@ -0,0 +1,71 @@
+import { TopicAclRepository } from '../TopicAclRepository';
+import { TopicAclEntry } from '../../models/TopicAclEntry';
+import { JsonDatabase } from '../../database/JsonDatabase';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+import { queryRows } from '../../__tests__/helpers/queryRows';
+
+// Mock the JsonDatabase
+jest.mock('../../database/JsonDatabase');
+
+describe('TopicAclRepository', () => {
+  let topicAclRepository: TopicAclRepository;
+  let mockDatabase: jest.Mocked<JsonDatabase<TopicAclEntry>>;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    topicAclRepository = new TopicAclRepository();
+    
+    // Get the mocked database from the repository
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockDatabase = (topicAclRepository as any).database as jest.Mocked<JsonDatabase<TopicAclEntry>>;
+    mockDatabase.create.mockImplementation(async entry => entry);
+    mockDatabase.delete.mockResolvedValue(true);
+  });
+  
+  it('should replace the entries of a topic', async () => {
+    // Arrange
+    const old = new TopicAclEntry('topic-id', AclPrincipalType.GROUP, 'team', TopicPermission.READ);
+    const other = new TopicAclEntry('other-topic-id', AclPrincipalType.GROUP, 'team', TopicPermission.READ);
+    const replacement = new TopicAclEntry('topic-id', AclPrincipalType.USER, 'user-id', TopicPermission.WRITE);
+    mockDatabase.find.mockImplementation(queryRows([old, other]));
+    
+    // Act
+    const result = await topicAclRepository.replaceForTopic('topic-id', [replacement]);
+    
+    // Assert
+    expect(mockDatabase.delete).toHaveBeenCalledTimes(1);
+    expect(mockDatabase.delete).toHaveBeenCalledWith(old.id);
+    expect(mockDatabase.create).toHaveBeenCalledWith(replacement);
+    expect(result).toEqual([replacement]);
+  });
+  
+  it('should not remove anything if an entry is invalid', async () => {
+    // Arrange
+    const invalid = new TopicAclEntry('topic-id', AclPrincipalType.USER, '', TopicPermission.WRITE);
+    
+    // Act & Assert
+    await expect(topicAclRepository.replaceForTopic('topic-id', [invalid]))
+      .rejects.toThrow('Principal ID cannot be empty');
+    expect(mockDatabase.delete).not.toHaveBeenCalled();
+  });
+  
+  it('should remove only the entries of a topic', async () => {
+    // Arrange
+    const first = new TopicAclEntry('topic-id', AclPrincipalType.GROUP, 'team', TopicPermission.READ);
+    const second = new TopicAclEntry('topic-id', AclPrincipalType.USER, 'user-id', TopicPermission.WRITE);
+    const other = new TopicAclEntry('other-topic-id', AclPrincipalType.GROUP, 'team', TopicPermission.READ);
+    mockDatabase.find.mockImplementation(queryRows([first, other, second]));
+    
+    // Act
+    const result = await topicAclRepository.deleteByTopicId('topic-id');
+    
+    // Assert
+    expect(result).toBe(2);
+    expect(mockDatabase.delete).toHaveBeenCalledWith(first.id);
+    expect(mockDatabase.delete).toHaveBeenCalledWith(second.id);
+    expect(mockDatabase.delete).not.toHaveBeenCalledWith(other.id);
+  });
+});
@@ -1,6 +1,8 @@
 import { TopicRepository } from '../TopicRepository';
 import { Topic } from '../../models/Topic';
 import { JsonDatabase } from '../../database/JsonDatabase';
+import { PreconditionFailedError } from '../../errors/PreconditionFailedError';
+import { queryRows } from '../../__tests__/helpers/queryRows';
 
 // Mock the JsonDatabase
 jest.mock('../../database/JsonDatabase');
@@ -19,6 +21,9 @@ describe('TopicRepository', () => {
     // Get the mocked database from the repository
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     mockDatabase = (topicRepository as any).database as jest.Mocked<JsonDatabase<Topic>>;
+    
+    // Structured queries answer from the rows a test gives query
+    mockDatabase.find.mockImplementation(async query => queryRows(await mockDatabase.query(() => true))(query));
   });
   
   describe('findByParentId', () => {
@@ -39,6 +44,255 @@ describe('TopicRepository', () => {
       expect(mockDatabase.query).toHaveBeenCalled();
       expect(result).toEqual(childTopics);
     });
+    
+    it('should look the children up by parent and leave out those moved elsewhere since', async () => {
+      // Arrange
+      const parent = new Topic('Parent', 'Content');
+      const stayed = parent.createChildTopic('Stayed', 'Content');
+      const moved = parent.createChildTopic('Moved', 'Content');
+      const movedAway = moved.moveTo('other-parent-id');
+      const renamed = stayed.createNewVersion('Content v2');
+      
+      mockDatabase.query.mockResolvedValue([parent, stayed, moved, movedAway, renamed]);
+      
+      // Act
+      const result = await topicRepository.findByParentId(parent.rootTopicId);
+      
+      // Assert
+      expect(mockDatabase.find).toHaveBeenCalledWith({
+        where: {
+          and: [
+            { and: [{ field: 'parentTopicId', operator: 'eq', value: parent.rootTopicId }] },
+            { field: 'deletedAt', operator: 'exists', value: false }
+          ]
+        }
+      });
+      expect(result).toEqual([renamed]);
+    });
+  });
+  
+  describe('findByOwner', () => {
+    it('should find the latest versions of the topics a user owns', async () => {
+      // Arrange
+      const owned = new Topic('Owned', 'v1', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id');
+      const ownedV2 = owned.createNewVersion('v2', undefined, 'editor-id');
+      const other = new Topic('Other', 'v1', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'other-id');
+      
+      mockDatabase.query.mockResolvedValue([owned, ownedV2, other]);
+      
+      // Act
+      const result = await topicRepository.findByOwner('owner-id');
+      
+      // Assert
+      expect(result).toEqual([ownedV2]);
+    });
+  });
+  
+  describe('findLatestVersions', () => {
+    it('should return only the latest version of each topic', async () => {
+      // Arrange
+      const topicA = new Topic('Topic A', 'A v1');
+      const topicAv2 = topicA.createNewVersion('A v2');
+      const topicB = new Topic('Topic B', 'B v1');
+      
+      mockDatabase.query.mockResolvedValue([topicA, topicAv2, topicB]);
+      
+      // Act
+      const result = await topicRepository.findLatestVersions();
+      
+      // Assert
+      expect(result).toHaveLength(2);
+      expect(result).toContain(topicAv2);
+      expect(result).toContain(topicB);
+    });
+    
+    it('should not list old versions as children', async () => {
+      // Arrange
+      const parentId = 'parent-id';
+      const child = new Topic('Child', 'v1', 1, parentId);
+      const childV2 = child.createNewVersion('v2');
+      
+      mockDatabase.query.mockResolvedValue([child, childV2]);
+      
+      // Act
+      const result = await topicRepository.findByParentId(parentId);
+      
+      // Assert
+      expect(result).toEqual([childV2]);
+    });
+  });
+  
+  describe('findLatestPage', () => {
+    it('should ask the database for a page of latest versions', async () => {
+      // Arrange
+      const topic = new Topic('Topic', 'Content');
+      const updatedSince = new Date('2026-01-01T00:00:00Z');
+      mockDatabase.findPage.mockResolvedValue({ items: [topic], hasMore: false });
+      
+      // Act
+      const result = await topicRepository.findLatestPage({
+        parentTopicId: 'parent-id',
+        updatedSince,
+        namePrefix: 'To',
+        sortBy: 'name',
+        sortDirection: 'desc',
+        after: { value: 'Zeta', id: 'zeta-id' },
+        limit: 10
+      });
+      
+      // Assert
+      expect(result).toEqual({ items: [topic], hasMore: false });
+      expect(mockDatabase.findPage).toHaveBeenCalledWith({
+        where: [
+          { field: 'parentTopicId', operator: 'eq', value: 'parent-id' },
+          { field: 'updatedAt', operator: 'gte', value: updatedSince },
+          { field: 'name', operator: 'startsWith', value: 'To' },
+          { field: 'deletedAt', operator: 'exists', value: false }
+        ],
+        latestBy: { groupField: 'rootTopicId', versionField: 'version' },
+        sortBy: 'name',
+        sortDirection: 'desc',
+        after: { value: 'Zeta', id: 'zeta-id' },
+        limit: 10
+      });
+    });
+    
+    it('should only ask for root topics when the parent is null', async () => {
+      // Arrange
+      mockDatabase.findPage.mockResolvedValue({ items: [], hasMore: false });
+      
+      // Act
+      await topicRepository.findLatestPage({ parentTopicId: null, limit: 20 });
+      
+      // Assert
+      expect(mockDatabase.findPage).toHaveBeenCalledWith(expect.objectContaining({
+        where: [
+          { field: 'parentTopicId', operator: 'exists', value: false },
+          { field: 'deletedAt', operator: 'exists', value: false }
+        ],
+        sortBy: 'createdAt',
+        sortDirection: 'asc'
+      }));
+    });
+  });
+  
+  describe('findLatestById', () => {
+    it('should resolve any version ID to the latest version', async () => {
+      // Arrange
+      const version1 = new Topic('Topic', 'v1');
+      const version2 = version1.createNewVersion('v2');
+      
+      mockDatabase.findById.mockResolvedValue(version1);
+      mockDatabase.query.mockResolvedValue([version1, version2]);
+      
+      // Act
+      const result = await topicRepository.findLatestById(version1.id);
+      
+      // Assert
+      expect(mockDatabase.findById).toHaveBeenCalledWith(version1.id);
+      expect(result).toBe(version2);
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await topicRepository.findLatestById('non-existent-id');
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('trash', () => {
+    let version1: Topic;
+    let version2: Topic;
+    let rows: Topic[];
+    
+    beforeEach(() => {
+      version1 = new Topic('Topic', 'v1');
+      version2 = version1.createNewVersion('v2');
+      rows = [version1, version2];
+      
+      mockDatabase.query.mockImplementation(async queryFn => rows.filter(queryFn));
+      mockDatabase.findById.mockImplementation(async id => rows.find(row => row.id === id) ?? null);
+      mockDatabase.update.mockImplementation(async (id, entity) => {
+        rows = rows.map(row => row.id === id ? entity : row);
+        return entity;
+      });
+      mockDatabase.delete.mockImplementation(async id => {
+        rows = rows.filter(row => row.id !== id);
+        return true;
+      });
+    });
+    
+    it('should move every version to the trash with one deletion date', async () => {
+      // Arrange
+      const deletedAt = new Date('2026-03-01T12:00:00Z');
+      
+      // Act
+      const trashed = await topicRepository.trashAllVersions(version1.rootTopicId, 'admin-id', deletedAt);
+      
+      // Assert
+      expect(trashed.map(topic => topic.id)).toEqual([version1.id, version2.id]);
+      expect(trashed.every(topic => topic.deletedAt === deletedAt && topic.deletedBy === 'admin-id')).toBe(true);
+    });
+    
+    it('should leave trashed topics out of every read', async () => {
+      // Arrange
+      await topicRepository.trashAllVersions(version1.rootTopicId, 'admin-id');
+      
+      // Act
+      const all = await topicRepository.findAll();
+      const latest = await topicRepository.findLatestVersions();
+      const byId = await topicRepository.findById(version2.id);
+      const trashed = await topicRepository.findTrashedLatestVersions();
+      
+      // Assert
+      expect(all).toEqual([]);
+      expect(latest).toEqual([]);
+      expect(byId).toBeNull();
+      expect(trashed.map(topic => topic.id)).toEqual([version2.id]);
+    });
+    
+    it('should take every version back out of the trash', async () => {
+      // Arrange
+      await topicRepository.trashAllVersions(version1.rootTopicId, 'admin-id');
+      
+      // Act
+      const restored = await topicRepository.restoreAllVersions(version1.rootTopicId);
+      
+      // Assert
+      expect(restored.map(topic => topic.id)).toEqual([version1.id, version2.id]);
+      expect(restored.every(topic => topic.deletedAt === undefined)).toBe(true);
+      expect(await topicRepository.findLatestById(version1.id)).toEqual(restored[1]);
+    });
+    
+    it('should only purge topics trashed at or before the cutoff', async () => {
+      // Arrange
+      const other = new Topic('Other', 'Other content');
+      rows.push(other);
+      await topicRepository.trashAllVersions(version1.rootTopicId, 'admin-id', new Date('2026-01-01T00:00:00Z'));
+      await topicRepository.trashAllVersions(other.rootTopicId, 'admin-id', new Date('2026-02-01T00:00:00Z'));
+      
+      // Act
+      const purged = await topicRepository.purgeTrashedBefore(new Date('2026-01-15T00:00:00Z'));
+      
+      // Assert
+      expect(purged.map(topic => topic.id)).toEqual([version1.id, version2.id]);
+      expect(mockDatabase.delete).toHaveBeenCalledTimes(2);
+      expect(rows.map(row => row.id)).toEqual([other.id]);
+    });
+    
+    it('should not trash anything if the latest version is not the expected one', async () => {
+      // Act
+      const act = topicRepository.trashAllVersions(version1.rootTopicId, 'admin-id', new Date(), 1);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PreconditionFailedError);
+      expect(mockDatabase.update).not.toHaveBeenCalled();
+    });
   });
   
   describe('findRootTopics', () => {
@@ -78,6 +332,61 @@ describe('TopicRepository', () => {
       expect(mockDatabase.query).toHaveBeenCalled();
       expect(result).toEqual(matchingTopics);
     });
+  
+    it('should have the database match the name among the latest versions', async () => {
+      // Arrange
+      const topic = new Topic('Old Name', 'Content');
+      const renamed = topic.createNewVersion('Content', 'New Name');
+      
+      mockDatabase.query.mockResolvedValue([topic, renamed, new Topic('Other', 'Content')]);
+      
+      // Act
+      const result = await topicRepository.findByName('old');
+      
+      // Assert
+      expect(mockDatabase.find).toHaveBeenCalledWith(expect.objectContaining({
+        latestBy: { groupField: 'rootTopicId', versionField: 'version' }
+      }));
+      expect(result).toEqual([]);
+    });
+  });
+  
+  describe('createMovedVersion', () => {
+    it('should create a new version under the new parent on top of the latest version', async () => {
+      // Arrange
+      const parent = new Topic('Parent', 'Parent content');
+      const version1 = new Topic('Test Topic', 'Version 1 content');
+      const version2 = version1.createNewVersion('Version 2 content');
+      
+      mockDatabase.findById.mockResolvedValue(version1);
+      mockDatabase.query.mockResolvedValue([version1, version2]);
+      mockDatabase.create.mockImplementation(async topic => topic);
+      
+      // Act
+      const result = await topicRepository.createMovedVersion(version1.id, parent.rootTopicId, 'editor-id');
+      
+      // Assert
+      expect(mockDatabase.create).toHaveBeenCalledWith(result);
+      expect(result).toEqual(expect.objectContaining({
+        content: 'Version 2 content',
+        version: 3,
+        parentTopicId: parent.rootTopicId,
+        previousVersionId: version2.id,
+        authorId: 'editor-id'
+      }));
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await topicRepository.createMovedVersion('non-existent-id', undefined);
+      
+      // Assert
+      expect(result).toBeNull();
+      expect(mockDatabase.create).not.toHaveBeenCalled();
+    });
   });
   
   describe('createNewVersion', () => {
@@ -89,6 +398,7 @@ describe('TopicRepository', () => {
       const newVersion = new Topic('Test Topic', content, 2, undefined, undefined, undefined, undefined, topic.id, topic.id);
       
       mockDatabase.findById.mockResolvedValue(topic);
+      mockDatabase.query.mockResolvedValue([topic]);
       mockDatabase.create.mockResolvedValue(newVersion);
       
       // Act
@@ -100,7 +410,30 @@ describe('TopicRepository', () => {
       expect(result).toEqual(expect.objectContaining({
         name: 'Test Topic',
         content: 'Updated content',
-        version: 2
+        version: 2,
+        previousVersionId: topic.id,
+        rootTopicId: topic.id
+      }));
+      expect(result?.id).not.toBe(topic.id);
+    });
+    
+    it('should build the new version on top of the latest version', async () => {
+      // Arrange
+      const version1 = new Topic('Test Topic', 'Version 1 content');
+      const version2 = version1.createNewVersion('Version 2 content');
+      
+      mockDatabase.findById.mockResolvedValue(version1);
+      mockDatabase.query.mockResolvedValue([version1, version2]);
+      mockDatabase.create.mockImplementation(async topic => topic);
+      
+      // Act
+      const result = await topicRepository.createNewVersion(version1.id, 'Version 3 content');
+      
+      // Assert
+      expect(result).toEqual(expect.objectContaining({
+        version: 3,
+        previousVersionId: version2.id,
+        rootTopicId: version1.id
       }));
     });
     
@@ -119,6 +452,59 @@ describe('TopicRepository', () => {
       expect(mockDatabase.create).not.toHaveBeenCalled();
       expect(result).toBeNull();
     });
+    
+    describe('with an expected version', () => {
+      let version1: Topic;
+      let rows: Topic[];
+      
+      beforeEach(() => {
+        version1 = new Topic('Test Topic', 'Version 1 content');
+        rows = [version1];
+        
+        mockDatabase.query.mockImplementation(async queryFn => rows.filter(queryFn));
+        mockDatabase.findById.mockImplementation(async id => rows.find(row => row.id === id) ?? null);
+        mockDatabase.create.mockImplementation(async topic => {
+          // Give concurrent writers the chance to interleave
+          await new Promise(resolve => setImmediate(resolve));
+          rows = [...rows, topic];
+          return topic;
+        });
+      });
+      
+      it('should create the version if the latest version is the expected one', async () => {
+        // Act
+        const result = await topicRepository.createNewVersion(version1.id, 'Version 2 content', undefined, undefined, 1);
+        
+        // Assert
+        expect(result?.version).toBe(2);
+      });
+      
+      it('should throw a PreconditionFailedError if the topic has moved on', async () => {
+        // Arrange
+        rows.push(version1.createNewVersion('Version 2 content'));
+        
+        // Act
+        const act = topicRepository.createNewVersion(version1.id, 'Version 3 content', undefined, undefined, 1);
+        
+        // Assert
+        await expect(act).rejects.toThrow(PreconditionFailedError);
+        await expect(act).rejects.toThrow(`Topic ${version1.rootTopicId} is at version 2, not version 1`);
+        expect(mockDatabase.create).not.toHaveBeenCalled();
+      });
+      
+      it('should let only one of two concurrent changes based on the same version through', async () => {
+        // Act
+        const results = await Promise.allSettled([
+          topicRepository.createNewVersion(version1.id, 'First edit', undefined, undefined, 1),
+          topicRepository.createMovedVersion(version1.id, 'parent-id', undefined, 1)
+        ]);
+        
+        // Assert
+        expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+        expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(PreconditionFailedError);
+        expect(rows.map(row => row.version)).toEqual([1, 2]);
+      });
+    });
   });
   
   describe('findAllVersions', () => {
@@ -139,6 +525,29 @@ describe('TopicRepository', () => {
       expect(mockDatabase.query).toHaveBeenCalled();
       expect(result).toEqual(versions);
     });
+    
+    it('should have the database look the versions up by root topic ID and sort them', async () => {
+      // Arrange
+      const topic = new Topic('Test Topic', 'Content');
+      const version2 = topic.createNewVersion('Content v2');
+      
+      mockDatabase.query.mockResolvedValue([version2, new Topic('Other', 'Content'), topic]);
+      
+      // Act
+      const result = await topicRepository.findAllVersions(topic.rootTopicId);
+      
+      // Assert
+      expect(mockDatabase.find).toHaveBeenCalledWith({
+        where: {
+          and: [
+            { field: 'rootTopicId', operator: 'eq', value: topic.rootTopicId },
+            { field: 'deletedAt', operator: 'exists', value: false }
+          ]
+        },
+        sort: [{ field: 'version' }]
+      });
+      expect(result).toEqual([topic, version2]);
+    });
   });
   
   describe('findVersion', () => {
@@ -231,6 +640,7 @@ describe('TopicRepository', () => {
       const childTopic = new Topic(name, content, 1, parentId);
       
       mockDatabase.findById.mockResolvedValue(parentTopic);
+      mockDatabase.query.mockResolvedValue([parentTopic]);
       mockDatabase.create.mockResolvedValue(childTopic);
       
       // Act
@@ -306,7 +716,7 @@ describe('TopicRepository', () => {
         .mockResolvedValueOnce(startTopic)  // First call for startTopic
         .mockResolvedValueOnce(endTopic);   // Second call for endTopic
       
-      mockDatabase.findAll.mockResolvedValue(allTopics);
+      mockDatabase.query.mockResolvedValue(allTopics);
       
       // Act
       const result = await topicRepository.findPath(startTopicId, endTopicId);
@@ -314,7 +724,7 @@ describe('TopicRepository', () => {
       // Assert
       expect(mockDatabase.findById).toHaveBeenCalledWith(startTopicId);
       expect(mockDatabase.findById).toHaveBeenCalledWith(endTopicId);
-      expect(mockDatabase.findAll).toHaveBeenCalled();
+      expect(mockDatabase.query).toHaveBeenCalled();
       
       // Check that the path is correct
       expect(result).not.toBeNull();
@@ -386,7 +796,7 @@ describe('TopicRepository', () => {
         .mockResolvedValueOnce(startTopic)  // First call for startTopic
         .mockResolvedValueOnce(endTopic);   // Second call for endTopic
       
-      mockDatabase.findAll.mockResolvedValue(allTopics);
+      mockDatabase.query.mockResolvedValue(allTopics);
       
       // Act
       const result = await topicRepository.findPath(startTopicId, endTopicId);
@@ -394,8 +804,113 @@ describe('TopicRepository', () => {
       // Assert
       expect(mockDatabase.findById).toHaveBeenCalledWith(startTopicId);
       expect(mockDatabase.findById).toHaveBeenCalledWith(endTopicId);
-      expect(mockDatabase.findAll).toHaveBeenCalled();
+      expect(mockDatabase.query).toHaveBeenCalled();
       expect(result).toBeNull();
     });
+    
+    describe('with options', () => {
+      // root -> (branch -> leaf, sibling)
+      const root = new Topic('Root', 'Root Content', 1, undefined, 'root-id');
+      const branch = new Topic('Branch', 'Branch Content', 1, 'root-id', 'branch-id');
+      const leaf = new Topic('Leaf', 'Leaf Content', 1, 'branch-id', 'leaf-id');
+      const sibling = new Topic('Sibling', 'Sibling Content', 1, 'root-id', 'sibling-id');
+      const topicsById = new Map([root, branch, leaf, sibling].map(topic => [topic.id, topic]));
+      
+      beforeEach(() => {
+        mockDatabase.findById.mockImplementation(async id => topicsById.get(id) ?? null);
+        mockDatabase.query.mockResolvedValue([root, branch, leaf, sibling]);
+      });
+      
+      it('should travel through a common ancestor by default', async () => {
+        // Act
+        const result = await topicRepository.findPath('leaf-id', 'sibling-id');
+        
+        // Assert
+        expect(result?.map(topic => topic.name)).toEqual(['Leaf', 'Branch', 'Root', 'Sibling']);
+      });
+      
+      it('should only walk up to parents in the ancestors direction', async () => {
+        // Act
+        const toRoot = await topicRepository.findPath('leaf-id', 'root-id', { direction: 'ancestors' });
+        const toSibling = await topicRepository.findPath('leaf-id', 'sibling-id', { direction: 'ancestors' });
+        
+        // Assert
+        expect(toRoot?.map(topic => topic.name)).toEqual(['Leaf', 'Branch', 'Root']);
+        expect(toSibling).toBeNull();
+      });
+      
+      it('should only walk down to children in the descendants direction', async () => {
+        // Act
+        const toLeaf = await topicRepository.findPath('root-id', 'leaf-id', { direction: 'descendants' });
+        const toRoot = await topicRepository.findPath('leaf-id', 'root-id', { direction: 'descendants' });
+        
+        // Assert
+        expect(toLeaf?.map(topic => topic.name)).toEqual(['Root', 'Branch', 'Leaf']);
+        expect(toRoot).toBeNull();
+      });
+      
+      it('should return null when the path is longer than maxDepth', async () => {
+        // Act
+        const withinLimit = await topicRepository.findPath('leaf-id', 'root-id', { maxDepth: 2 });
+        const beyondLimit = await topicRepository.findPath('leaf-id', 'root-id', { maxDepth: 1 });
+        
+        // Assert
+        expect(withinLimit).toHaveLength(3);
+        expect(beyondLimit).toBeNull();
+      });
+      
+      it('should not travel through topics rejected by canVisit', async () => {
+        // Act
+        const result = await topicRepository.findPath('leaf-id', 'sibling-id', {
+          canVisit: topic => topic.id !== 'root-id'
+        });
+
+        // Assert
+        expect(result).toBeNull();
+      });
+
+      it('should only look topics up by root topic ID while following parent links', async () => {
+        // Act
+        await topicRepository.findPath('leaf-id', 'sibling-id');
+
+        // Assert
+        for (const [query] of mockDatabase.find.mock.calls) {
+          expect(query.latestBy).toBeUndefined();
+          expect(query.where).toEqual({
+            and: expect.arrayContaining([expect.objectContaining({ field: 'rootTopicId', operator: 'eq' })])
+          });
+        }
+      });
+
+      it('should stop following parent links once maxDepth is reached', async () => {
+        // Act
+        await topicRepository.findPath('leaf-id', 'sibling-id', { direction: 'ancestors', maxDepth: 1 });
+
+        // Assert
+        expect(mockDatabase.find).not.toHaveBeenCalledWith(expect.objectContaining({
+          where: { and: expect.arrayContaining([{ field: 'rootTopicId', operator: 'eq', value: 'root-id' }]) }
+        }));
+      });
+    });
+
+    it('should follow the parent of the latest version of a moved topic', async () => {
+      // Arrange
+      const oldParent = new Topic('Old Parent', 'Content', 1, undefined, 'old-parent-id');
+      const newParent = new Topic('New Parent', 'Content', 1, undefined, 'new-parent-id');
+      const child = new Topic('Child', 'Content', 1, 'old-parent-id', 'child-id');
+      const moved = child.moveTo('new-parent-id');
+      const topicsById = new Map([oldParent, newParent, child, moved].map(topic => [topic.id, topic]));
+
+      mockDatabase.findById.mockImplementation(async id => topicsById.get(id) ?? null);
+      mockDatabase.query.mockResolvedValue([oldParent, newParent, child, moved]);
+
+      // Act
+      const toNewParent = await topicRepository.findPath('child-id', 'new-parent-id');
+      const toOldParent = await topicRepository.findPath('child-id', 'old-parent-id');
+
+      // Assert
+      expect(toNewParent).toEqual([moved, newParent]);
+      expect(toOldParent).toBeNull();
+    });
   });
 }); 
\ No newline at end of file
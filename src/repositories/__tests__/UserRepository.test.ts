@@ -0,0 +1,223 @@
+import { UserRepository } from '../UserRepository';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { JsonDatabase } from '../../database/JsonDatabase';
+import { ConflictError } from '../../errors/ConflictError';
+import { queryRows } from '../../__tests__/helpers/queryRows';
+import { getCurrentTransaction, Transaction } from '../../database/Transaction';
+
+// Mock the JsonDatabase
+jest.mock('../../database/JsonDatabase');
+
+describe('UserRepository', () => {
+  let userRepository: UserRepository;
+  let mockDatabase: jest.Mocked<JsonDatabase<User>>;
+  let user: User;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    userRepository = new UserRepository();
+    
+    // Get the mocked database from the repository
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    mockDatabase = (userRepository as any).database as jest.Mocked<JsonDatabase<User>>;
+    
+    user = User.createWithPassword('Test User', 'test@example.com', 'password123', UserRole.VIEWER);
+    mockDatabase.update.mockImplementation(async (_id, updated) => updated);
+  });
+  
+  describe('authenticate', () => {
+    it('should authenticate users by email and password', async () => {
+      // Arrange
+      mockDatabase.find.mockImplementation(queryRows([user]));
+      
+      // Act
+      const result = await userRepository.authenticate('TEST@example.com', 'password123');
+      
+      // Assert
+      expect(result?.id).toBe(user.id);
+      expect(await userRepository.authenticate('test@example.com', 'wrong-password')).toBeNull();
+    });
+  });
+  
+  describe('createWithPassword', () => {
+    it('should create a user whose password can be verified', async () => {
+      // Arrange
+      mockDatabase.find.mockImplementation(queryRows([user]));
+      mockDatabase.create.mockImplementation(async created => created);
+      
+      // Act
+      const result = await userRepository.createWithPassword('New User', 'new@example.com', 'password123', UserRole.EDITOR);
+      
+      // Assert
+      expect(result.email).toBe('new@example.com');
+      expect(result.role).toBe(UserRole.EDITOR);
+      expect(result.verifyPassword('password123')).toBe(true);
+    });
+    
+    it('should reject an email that is already used', async () => {
+      // Arrange
+      mockDatabase.find.mockImplementation(queryRows([user]));
+      
+      // Act & Assert
+      await expect(userRepository.createWithPassword('Copy', 'TEST@example.com', 'password123'))
+        .rejects.toThrow(ConflictError);
+      expect(mockDatabase.create).not.toHaveBeenCalled();
+    });
+    
+    it('should check the email in the transaction that creates the user', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockDatabase.find.mockImplementation(async query => {
+        transactions.push(getCurrentTransaction());
+        return queryRows([user])(query);
+      });
+      mockDatabase.create.mockImplementation(async created => {
+        transactions.push(getCurrentTransaction());
+        return created;
+      });
+      
+      // Act
+      await userRepository.createWithPassword('New User', 'new@example.com', 'password123');
+      
+      // Assert
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toBeDefined();
+      expect(transactions[1]).toBe(transactions[0]);
+    });
+  });
+  
+  describe('updateProfile', () => {
+    it('should check the email in the transaction that updates the user', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockDatabase.findById.mockResolvedValue(user);
+      mockDatabase.find.mockImplementation(async query => {
+        transactions.push(getCurrentTransaction());
+        return queryRows([user])(query);
+      });
+      mockDatabase.update.mockImplementation(async (_id, updated) => {
+        transactions.push(getCurrentTransaction());
+        return updated;
+      });
+      
+      // Act
+      await userRepository.updateProfile(user.id, undefined, 'new@example.com');
+      
+      // Assert
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toBeDefined();
+      expect(transactions[1]).toBe(transactions[0]);
+    });
+    
+    it('should update the name and email of a user', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(user);
+      mockDatabase.find.mockImplementation(queryRows([user]));
+      
+      // Act
+      const result = await userRepository.updateProfile(user.id, 'New Name', 'new@example.com');
+      
+      // Assert
+      expect(mockDatabase.update).toHaveBeenCalledWith(user.id, expect.objectContaining({ name: 'New Name', passwordHash: expect.any(String) }));
+      expect(result?.name).toBe('New Name');
+      expect(result?.email).toBe('new@example.com');
+      expect(result?.verifyPassword('password123')).toBe(true);
+    });
+    
+    it('should reject an email used by another user', async () => {
+      // Arrange
+      const otherUser = new User('Other User', 'other@example.com');
+      mockDatabase.findById.mockResolvedValue(user);
+      mockDatabase.find.mockImplementation(queryRows([user, otherUser]));
+      
+      // Act & Assert
+      await expect(userRepository.updateProfile(user.id, undefined, 'other@example.com'))
+        .rejects.toThrow('User with email other@example.com already exists');
+      await expect(userRepository.updateProfile(user.id, undefined, 'other@example.com'))
+        .rejects.toThrow(ConflictError);
+      expect(mockDatabase.update).not.toHaveBeenCalled();
+    });
+    
+    it('should allow a user to keep their own email', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(user);
+      mockDatabase.find.mockImplementation(queryRows([user]));
+      
+      // Act
+      const result = await userRepository.updateProfile(user.id, 'New Name', user.email);
+      
+      // Assert
+      expect(result?.name).toBe('New Name');
+    });
+    
+    it('should return null if the user does not exist', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await userRepository.updateProfile('missing-id', 'New Name');
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('updatePassword', () => {
+    it('should replace the password of a user', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(user);
+      
+      // Act
+      const result = await userRepository.updatePassword(user.id, 'new-password');
+      
+      // Assert
+      expect(result?.verifyPassword('new-password')).toBe(true);
+      expect(result?.verifyPassword('password123')).toBe(false);
+    });
+  });
+  
+  describe('updateRole', () => {
+    it('should change the role of a user', async () => {
+      // Arrange
+      mockDatabase.findById.mockResolvedValue(user);
+      
+      // Act
+      const result = await userRepository.updateRole(user.id, UserRole.EDITOR);
+      
+      // Assert
+      expect(result?.role).toBe(UserRole.EDITOR);
+    });
+  });
+  
+  describe('findByRole', () => {
+    it('should find the users with a role', async () => {
+      // Arrange
+      const editor = new User('Editor', 'editor@example.com', UserRole.EDITOR);
+      mockDatabase.find.mockImplementation(queryRows([user, editor]));
+      
+      // Act
+      const result = await userRepository.findByRole(UserRole.EDITOR);
+      
+      // Assert
+      expect(result).toEqual([editor]);
+      expect(mockDatabase.find).toHaveBeenCalledWith({ where: { and: [{ field: 'role', operator: 'eq', value: UserRole.EDITOR }] } });
+    });
+  });
+  
+  describe('findByName', () => {
+    it('should find the users whose name contains the text, ignoring case', async () => {
+      // Arrange
+      const other = new User('Someone Else', 'else@example.com', UserRole.VIEWER);
+      mockDatabase.find.mockImplementation(queryRows([user, other]));
+      
+      // Act
+      const result = await userRepository.findByName('test');
+      
+      // Assert
+      expect(result).toEqual([user]);
+    });
+  });
+});
@@ -1,5 +1,9 @@
 export * from './IRepository';
 export * from './BaseRepository';
+export * from './SoftDeleteRepository';
 export * from './TopicRepository';
 export * from './ResourceRepository';
-export * from './UserRepository'; 
\ No newline at end of file
+export * from './UserRepository'; 
+export * from './RefreshTokenRepository';
+export * from './TopicAclRepository';
+export * from './AuditRepository';
\ No newline at end of file
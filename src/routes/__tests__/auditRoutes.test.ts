@@ -0,0 +1,67 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticate, authorize } from '../../middleware/auth';
+import { AuditController } from '../../controllers/AuditController';
+import { UserRole } from '../../enums/UserRole';
+
+// Mock the middleware and controller
+jest.mock('../../middleware/auth');
+jest.mock('../../controllers/AuditController');
+
+// Create a router factory to avoid loading the actual routes file
+const createRouter = (): { router: express.Router; auditController: AuditController } => {
+  const router = express.Router();
+  const auditController = new AuditController();
+  
+  // Query the audit log (Admin only)
+  router.get('/', 
+    authenticate, 
+    authorize([UserRole.ADMIN]), 
+    (req: Request, res: Response) => auditController.getAuditEntries(req, res)
+  );
+  
+  return { router, auditController };
+};
+
+describe('Audit Routes', () => {
+  let app: express.Application;
+  let mockAuditController: jest.Mocked<AuditController>;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    // Create a mock controller with implementations that call res.json
+    mockAuditController = {
+      getAuditEntries: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ entityId: req.query.entityId }]))
+    } as unknown as jest.Mocked<AuditController>;
+    
+    // Mock the AuditController constructor
+    (AuditController as jest.Mock).mockImplementation(() => mockAuditController);
+    
+    // Mock the middleware functions
+    (authenticate as jest.Mock).mockImplementation((req: Request, res: Response, next: NextFunction) => next());
+    (authorize as jest.Mock).mockImplementation(() => (req: Request, res: Response, next: NextFunction): void => next());
+    
+    // Create an Express app
+    app = express();
+    app.use(express.json());
+    
+    // Use our router factory instead of importing the actual routes
+    const { router } = createRouter();
+    app.use('/audit', router);
+  });
+  
+  describe('GET /', () => {
+    it('should call getAuditEntries controller method for admins only', async () => {
+      // Act
+      const response = await request(app).get('/audit?entityId=topic-id');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(authorize).toHaveBeenCalledWith([UserRole.ADMIN]);
+      expect(mockAuditController.getAuditEntries).toHaveBeenCalled();
+      expect(response.body).toEqual([{ entityId: 'topic-id' }]);
+    });
+  });
+});
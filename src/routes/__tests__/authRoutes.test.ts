@@ -0,0 +1,118 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { AuthController } from '../../controllers/AuthController';
+import { authenticate, authorize } from '../../middleware/auth';
+import { UserRole } from '../../enums/UserRole';
+
+// Mock the middleware and controller
+jest.mock('../../middleware/auth');
+jest.mock('../../controllers/AuthController');
+
+// Create a router factory to avoid loading the actual routes file
+const createRouter = (): { router: express.Router; authController: AuthController } => {
+  const router = express.Router();
+  const authController = new AuthController();
+  
+  // Log in with email and password
+  router.post('/login', (req: Request, res: Response) => authController.login(req, res));
+  
+  // Exchange a refresh token for new tokens
+  router.post('/refresh', (req: Request, res: Response) => authController.refresh(req, res));
+  
+  // Revoke the session of a refresh token
+  router.post('/logout', (req: Request, res: Response) => authController.logout(req, res));
+  
+  // Revoke all sessions of a user (Admin only)
+  router.delete('/sessions/:userId', 
+    authenticate, 
+    authorize([UserRole.ADMIN]), 
+    (req: Request, res: Response) => authController.revokeSessions(req, res)
+  );
+  
+  return { router, authController };
+};
+
+describe('Auth Routes', () => {
+  let app: express.Application;
+  let mockAuthController: jest.Mocked<AuthController>;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    mockAuthController = {
+      login: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ accessToken: 'signed-token' })),
+      refresh: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ accessToken: 'new-token' })),
+      logout: jest.fn().mockImplementation((req: Request, res: Response) => res.status(204).send()),
+      revokeSessions: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ revoked: 1 }))
+    } as unknown as jest.Mocked<AuthController>;
+    
+    // Mock the AuthController constructor
+    (AuthController as jest.Mock).mockImplementation(() => mockAuthController);
+    
+    // Mock the middleware functions
+    (authenticate as jest.Mock).mockImplementation((req: Request, res: Response, next: NextFunction) => next());
+    (authorize as jest.Mock).mockImplementation(() => (req: Request, res: Response, next: NextFunction): void => next());
+    
+    // Create an Express app
+    app = express();
+    app.use(express.json());
+    
+    const { router } = createRouter();
+    app.use('/auth', router);
+  });
+  
+  describe('POST /login', () => {
+    it('should call login controller method without authentication', async () => {
+      // Act
+      const response = await request(app)
+        .post('/auth/login')
+        .send({ email: 'admin@example.com', password: 'Admin123!' });
+      
+      // Assert
+      expect(mockAuthController.login).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ accessToken: 'signed-token' });
+    });
+  });
+  
+  describe('POST /refresh', () => {
+    it('should call refresh controller method without authentication', async () => {
+      // Act
+      const response = await request(app)
+        .post('/auth/refresh')
+        .send({ refreshToken: 'refresh-token' });
+      
+      // Assert
+      expect(mockAuthController.refresh).toHaveBeenCalled();
+      expect(authenticate).not.toHaveBeenCalled();
+      expect(response.status).toBe(200);
+    });
+  });
+  
+  describe('POST /logout', () => {
+    it('should call logout controller method', async () => {
+      // Act
+      const response = await request(app)
+        .post('/auth/logout')
+        .send({ refreshToken: 'refresh-token' });
+      
+      // Assert
+      expect(mockAuthController.logout).toHaveBeenCalled();
+      expect(response.status).toBe(204);
+    });
+  });
+  
+  describe('DELETE /sessions/:userId', () => {
+    it('should require an admin and call revokeSessions controller method', async () => {
+      // Act
+      const response = await request(app).delete('/auth/sessions/user-id');
+      
+      // Assert
+      expect(authorize).toHaveBeenCalledWith([UserRole.ADMIN]);
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockAuthController.revokeSessions).toHaveBeenCalled();
+      expect(response.body).toEqual({ revoked: 1 });
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import request from 'supertest';
+import express, { Request, Response, NextFunction } from 'express';
+import { authenticate } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validateRequest';
+import { errorHandler } from '../../middleware/errorHandler';
+import { SearchController } from '../../controllers/SearchController';
+import { searchSchema } from '../../validation/schemas/searchSchemas';
+
+// Mock the middleware and controller
+jest.mock('../../middleware/auth');
+jest.mock('../../controllers/SearchController');
+
+// Create a router factory to avoid loading the actual routes file
+const createRouter = (): { router: express.Router; searchController: SearchController } => {
+  const router = express.Router();
+  const searchController = new SearchController();
+  
+  // Search topics and resources (All authenticated users, results limited to what they may read)
+  router.get('/', 
+    authenticate, 
+    validateRequest(searchSchema), 
+    (req: Request, res: Response) => searchController.search(req, res)
+  );
+  
+  return { router, searchController };
+};
+
+describe('Search Routes', () => {
+  let app: express.Application;
+  let mockSearchController: jest.Mocked<SearchController>;
+  
+  beforeEach(() => {
+    // Reset all mocks
+    jest.clearAllMocks();
+    
+    // Create a mock controller with an implementation that calls res.json
+    mockSearchController = {
+      search: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ query: req.query.q }]))
+    } as unknown as jest.Mocked<SearchController>;
+    
+    // Mock the SearchController constructor
+    (SearchController as jest.Mock).mockImplementation(() => mockSearchController);
+    
+    // Mock the middleware functions
+    (authenticate as jest.Mock).mockImplementation((req: Request, res: Response, next: NextFunction) => next());
+    
+    // Create an Express app
+    app = express();
+    app.use(express.json());
+    
+    // Use our router factory instead of importing the actual routes
+    const { router } = createRouter();
+    app.use('/search', router);
+    app.use(errorHandler);
+  });
+  
+  describe('GET /', () => {
+    it('should call the search controller method for authenticated users', async () => {
+      // Act
+      const response = await request(app).get('/search?q=databases&limit=5&type=topic');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockSearchController.search).toHaveBeenCalled();
+      expect(response.body).toEqual([{ query: 'databases' }]);
+    });
+    
+    it('should reject a request without search text', async () => {
+      // Act
+      const response = await request(app).get('/search?type=page');
+      
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual([
+        { location: 'query', field: 'q', message: 'is required' },
+        { location: 'query', field: 'type', message: 'must be one of: topic, resource' }
+      ]);
+      expect(mockSearchController.search).not.toHaveBeenCalled();
+    });
+  });
+});
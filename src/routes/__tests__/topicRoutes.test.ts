@@ -1,17 +1,23 @@
 import request from 'supertest';
 import express, { Request, Response, NextFunction } from 'express';
 import { authenticate, authorize } from '../../middleware/auth';
+import { validateRequest } from '../../middleware/validateRequest';
+import { errorHandler } from '../../middleware/errorHandler';
 import { TopicController } from '../../controllers/TopicController';
+import { ResourceController } from '../../controllers/ResourceController';
 import { UserRole } from '../../enums/UserRole';
+import { listOwnedTopicsSchema } from '../../validation/schemas/topicSchemas';
 
 // Mock the middleware and controller
 jest.mock('../../middleware/auth');
 jest.mock('../../controllers/TopicController');
+jest.mock('../../controllers/ResourceController');
 
 // Create a router factory to avoid loading the actual routes file
 const createRouter = () => {
   const router = express.Router();
   const topicController = new TopicController();
+  const resourceController = new ResourceController();
   
   // Get all topics
   router.get('/', authenticate, (req: Request, res: Response) => topicController.getAllTopics(req, res));
@@ -19,6 +25,13 @@ const createRouter = () => {
   // Get all root topics
   router.get('/root', authenticate, (req: Request, res: Response) => topicController.getRootTopics(req, res));
   
+  // Get the topics owned by the current user
+  router.get('/mine', 
+    authenticate, 
+    validateRequest(listOwnedTopicsSchema), 
+    (req: Request, res: Response) => topicController.getMyTopics(req, res)
+  );
+  
   // Create a new topic
   router.post('/', 
     authenticate, 
@@ -39,7 +52,7 @@ const createRouter = () => {
   // Delete a topic
   router.delete('/:id', 
     authenticate, 
-    authorize([UserRole.ADMIN]), 
+    authorize([UserRole.ADMIN, UserRole.EDITOR]), 
     (req: Request, res: Response) => topicController.deleteTopic(req, res)
   );
   
@@ -49,12 +62,55 @@ const createRouter = () => {
   // Get a topic tree
   router.get('/:id/tree', authenticate, (req: Request, res: Response) => topicController.getTopicTree(req, res));
   
+  // Find the shortest path between two topics
+  router.get('/:id/path/:targetId', authenticate, (req: Request, res: Response) => topicController.findPath(req, res));
+  
+  // Get the access control entries of a topic
+  router.get('/:id/acl', authenticate, (req: Request, res: Response) => topicController.getTopicAcl(req, res));
+  
+  // Replace the access control entries of a topic
+  router.put('/:id/acl', authenticate, (req: Request, res: Response) => topicController.setTopicAcl(req, res));
+  
+  // Get the resources of a topic
+  router.get('/:id/resources', authenticate, (req: Request, res: Response) => resourceController.getTopicResources(req, res));
+  
+  // Get all versions of a topic
+  router.get('/:id/versions', authenticate, (req: Request, res: Response) => topicController.getTopicVersions(req, res));
+  
+  // Get a specific version of a topic
+  router.get('/:id/versions/:version', authenticate, (req: Request, res: Response) => topicController.getTopicVersion(req, res));
+  
+  // Compare two versions of a topic
+  router.get('/:id/diff', authenticate, (req: Request, res: Response) => topicController.diffTopicVersions(req, res));
+  
+  // Move a topic under a new parent
+  router.post('/:id/move', 
+    authenticate, 
+    authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+    (req: Request, res: Response) => topicController.moveTopic(req, res)
+  );
+  
+  // Copy a topic and its subtree under a parent
+  router.post('/:id/copy', 
+    authenticate, 
+    authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+    (req: Request, res: Response) => topicController.copyTopic(req, res)
+  );
+  
+  // Revert a topic to an earlier version
+  router.post('/:id/revert/:version', 
+    authenticate, 
+    authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+    (req: Request, res: Response) => topicController.revertTopic(req, res)
+  );
+  
   return { router, topicController };
 };
 
 describe('Topic Routes', () => {
   let app: express.Application;
   let mockTopicController: jest.Mocked<TopicController>;
+  let mockResourceController: jest.Mocked<ResourceController>;
   
   beforeEach(() => {
     // Reset all mocks
@@ -68,12 +124,27 @@ describe('Topic Routes', () => {
       deleteTopic: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ message: 'Topic deleted' })),
       getAllTopics: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: '1', name: 'Topic 1' }])),
       getRootTopics: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: '1', name: 'Root Topic' }])),
+      getMyTopics: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: '3', name: 'My Topic' }])),
       getChildTopics: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: '2', name: 'Child Topic' }])),
-      getTopicTree: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ id: req.params.id, name: 'Topic', children: [] }))
+      getTopicTree: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ id: req.params.id, name: 'Topic', children: [] })),
+      findPath: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ hops: 1, breadcrumb: [req.params.id, req.params.targetId] })),
+      getTopicAcl: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ topicId: req.params.id }])),
+      setTopicAcl: jest.fn().mockImplementation((req: Request, res: Response) => res.json(req.body.entries)),
+      getTopicVersions: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: req.params.id, version: 1 }])),
+      getTopicVersion: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ id: req.params.id, version: Number(req.params.version) })),
+      diffTopicVersions: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ fromVersion: Number(req.query.from), toVersion: Number(req.query.to) })),
+      moveTopic: jest.fn().mockImplementation((req: Request, res: Response) => res.json({ id: req.params.id, parentTopicId: req.body.newParentId })),
+      copyTopic: jest.fn().mockImplementation((req: Request, res: Response) => res.status(201).json({ copiedFrom: req.params.id, parentTopicId: req.body.targetParentId })),
+      revertTopic: jest.fn().mockImplementation((req: Request, res: Response) => res.status(201).json({ message: 'Topic reverted' }))
     } as unknown as jest.Mocked<TopicController>;
     
-    // Mock the TopicController constructor
+    mockResourceController = {
+      getTopicResources: jest.fn().mockImplementation((req: Request, res: Response) => res.json([{ id: '1', topicId: req.params.id }]))
+    } as unknown as jest.Mocked<ResourceController>;
+    
+    // Mock the controller constructors
     (TopicController as jest.Mock).mockImplementation(() => mockTopicController);
+    (ResourceController as jest.Mock).mockImplementation(() => mockResourceController);
     
     // Mock the middleware functions
     (authenticate as jest.Mock).mockImplementation((req: Request, res: Response, next: NextFunction) => next());
@@ -86,6 +157,7 @@ describe('Topic Routes', () => {
     // Use our router factory instead of importing the actual routes
     const { router } = createRouter();
     app.use('/topics', router);
+    app.use(errorHandler);
   });
   
   describe('GET /', () => {
@@ -114,6 +186,33 @@ describe('Topic Routes', () => {
     });
   });
   
+  describe('GET /mine', () => {
+    it('should call getMyTopics controller method instead of getTopic', async () => {
+      // Act
+      const response = await request(app).get('/topics/mine');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.getMyTopics).toHaveBeenCalled();
+      expect(mockTopicController.getTopic).not.toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ id: '3', name: 'My Topic' }]);
+    });
+    
+    it('should reject paging and sort parameters, since the list is not paged', async () => {
+      // Act
+      const response = await request(app).get('/topics/mine?limit=10&sortBy=name');
+      
+      // Assert
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual([
+        { location: 'query', field: 'limit', message: 'is not allowed' },
+        { location: 'query', field: 'sortBy', message: 'is not allowed' }
+      ]);
+      expect(mockTopicController.getMyTopics).not.toHaveBeenCalled();
+    });
+  });
+  
   describe('POST /', () => {
     it('should call createTopic controller method', async () => {
       // Arrange
@@ -177,7 +276,7 @@ describe('Topic Routes', () => {
       
       // Assert
       expect(authenticate).toHaveBeenCalled();
-      expect(authorize).toHaveBeenCalled();
+      expect(authorize).toHaveBeenCalledWith([UserRole.ADMIN, UserRole.EDITOR]);
       expect(mockTopicController.deleteTopic).toHaveBeenCalled();
       expect(response.status).toBe(200);
       expect(response.body).toEqual({ message: 'Topic deleted' });
@@ -209,4 +308,136 @@ describe('Topic Routes', () => {
       expect(response.body).toEqual({ id: '123', name: 'Topic', children: [] });
     });
   });
-}); 
\ No newline at end of file
+  
+  describe('GET /:id/versions', () => {
+    it('should call getTopicVersions controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/versions');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.getTopicVersions).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ id: '123', version: 1 }]);
+    });
+  });
+  
+  describe('GET /:id/versions/:version', () => {
+    it('should call getTopicVersion controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/versions/2');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.getTopicVersion).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: '123', version: 2 });
+    });
+  });
+  
+  describe('GET /:id/path/:targetId', () => {
+    it('should call findPath controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/path/456?maxDepth=2');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.findPath).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ hops: 1, breadcrumb: ['123', '456'] });
+    });
+  });
+  
+  describe('GET /:id/acl', () => {
+    it('should call getTopicAcl controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/acl');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.getTopicAcl).toHaveBeenCalled();
+      expect(response.body).toEqual([{ topicId: '123' }]);
+    });
+  });
+  
+  describe('PUT /:id/acl', () => {
+    it('should call setTopicAcl controller method', async () => {
+      // Arrange
+      const entries = [{ principalType: 'Group', principalId: 'team', permission: 'Read' }];
+      
+      // Act
+      const response = await request(app).put('/topics/123/acl').send({ entries });
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.setTopicAcl).toHaveBeenCalled();
+      expect(response.body).toEqual(entries);
+    });
+  });
+  
+  describe('GET /:id/resources', () => {
+    it('should call getTopicResources controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/resources');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockResourceController.getTopicResources).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual([{ id: '1', topicId: '123' }]);
+    });
+  });
+  
+  describe('GET /:id/diff', () => {
+    it('should call diffTopicVersions controller method', async () => {
+      // Act
+      const response = await request(app).get('/topics/123/diff?from=1&to=3');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(mockTopicController.diffTopicVersions).toHaveBeenCalled();
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ fromVersion: 1, toVersion: 3 });
+    });
+  });
+  
+  describe('POST /:id/move', () => {
+    it('should call moveTopic controller method', async () => {
+      // Act
+      const response = await request(app).post('/topics/123/move').send({ newParentId: '456' });
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(authorize).toHaveBeenCalledWith([UserRole.ADMIN, UserRole.EDITOR]);
+      expect(mockTopicController.moveTopic).toHaveBeenCalled();
+      expect(response.body).toEqual({ id: '123', parentTopicId: '456' });
+    });
+  });
+  
+  describe('POST /:id/copy', () => {
+    it('should call copyTopic controller method', async () => {
+      // Act
+      const response = await request(app).post('/topics/123/copy').send({ targetParentId: '456', includeResources: true });
+      
+      // Assert
+      expect(authorize).toHaveBeenCalledWith([UserRole.ADMIN, UserRole.EDITOR]);
+      expect(mockTopicController.copyTopic).toHaveBeenCalled();
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ copiedFrom: '123', parentTopicId: '456' });
+    });
+  });
+  
+  describe('POST /:id/revert/:version', () => {
+    it('should call revertTopic controller method', async () => {
+      // Act
+      const response = await request(app).post('/topics/123/revert/1');
+      
+      // Assert
+      expect(authenticate).toHaveBeenCalled();
+      expect(authorize).toHaveBeenCalled();
+      expect(mockTopicController.revertTopic).toHaveBeenCalled();
+      expect(response.status).toBe(201);
+      expect(response.body).toEqual({ message: 'Topic reverted' });
+    });
+  });
+});
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import { AuditController } from '../controllers/AuditController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../enums/UserRole';
+
+const router = Router();
+const auditController = new AuditController();
+
+// Query the audit log (Admin only)
+router.get('/', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(auditController.getAuditEntries.bind(auditController))
+);
+
+export default router;
@@ -0,0 +1,26 @@
+import { Router } from 'express';
+import { AuthController } from '../controllers/AuthController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../enums/UserRole';
+
+const router = Router();
+const authController = new AuthController();
+
+// Log in with email and password
+router.post('/login', asyncHandler(authController.login.bind(authController)));
+
+// Exchange a refresh token for new tokens
+router.post('/refresh', asyncHandler(authController.refresh.bind(authController)));
+
+// Revoke the session of a refresh token
+router.post('/logout', asyncHandler(authController.logout.bind(authController)));
+
+// Revoke all sessions of a user (Admin only)
+router.delete('/sessions/:userId', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(authController.revokeSessions.bind(authController))
+);
+
+export default router;
@@ -1,13 +1,21 @@
 import { Router } from 'express';
+import authRoutes from './authRoutes';
 import topicRoutes from './topicRoutes';
-// import userRoutes from './userRoutes'; // Uncomment when user routes are implemented
-// import resourceRoutes from './resourceRoutes'; // Uncomment when resource routes are implemented
+import userRoutes from './userRoutes';
+import resourceRoutes from './resourceRoutes';
+import auditRoutes from './auditRoutes';
+import searchRoutes from './searchRoutes';
+import trashRoutes from './trashRoutes';
 
 const router = Router();
 
 // Mount routes
+router.use('/auth', authRoutes);
 router.use('/topics', topicRoutes);
-// router.use('/users', userRoutes); // Uncomment when user routes are implemented
-// router.use('/resources', resourceRoutes); // Uncomment when resource routes are implemented
+router.use('/users', userRoutes);
+router.use('/resources', resourceRoutes);
+router.use('/audit', auditRoutes);
+router.use('/search', searchRoutes);
+router.use('/trash', trashRoutes);
 
 export default router; 
\ No newline at end of file
@@ -1,40 +1,37 @@
 import { Router } from 'express';
-// Import these when implementing the routes
-// import { ResourceController } from '../controllers/ResourceController';
-// import { authenticate, authorize } from '../middleware/auth';
-// import { UserRole } from '../enums/UserRole';
+import { ResourceController } from '../controllers/ResourceController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../enums/UserRole';
 
 const router = Router();
-// const resourceController = new ResourceController();
-
-// This file is a placeholder for future resource-related routes
-// Example routes are commented out as they are not implemented yet
+const resourceController = new ResourceController();
 
 // Get all resources
-// router.get('/', authenticate, resourceController.getAllResources);
+router.get('/', authenticate, asyncHandler(resourceController.getAllResources.bind(resourceController)));
 
 // Create a new resource (Admin or Editor)
-// router.post('/', 
-//   authenticate, 
-//   authorize([UserRole.ADMIN, UserRole.EDITOR]), 
-//   resourceController.createResource
-// );
+router.post('/', 
+  authenticate, 
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  asyncHandler(resourceController.createResource.bind(resourceController))
+);
 
 // Get a resource by ID
-// router.get('/:id', authenticate, resourceController.getResource);
+router.get('/:id', authenticate, asyncHandler(resourceController.getResource.bind(resourceController)));
 
 // Update a resource (Admin or Editor)
-// router.put('/:id', 
-//   authenticate, 
-//   authorize([UserRole.ADMIN, UserRole.EDITOR]), 
-//   resourceController.updateResource
-// );
+router.put('/:id', 
+  authenticate, 
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  asyncHandler(resourceController.updateResource.bind(resourceController))
+);
 
 // Delete a resource (Admin only)
-// router.delete('/:id', 
-//   authenticate, 
-//   authorize([UserRole.ADMIN]), 
-//   resourceController.deleteResource
-// );
+router.delete('/:id', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(resourceController.deleteResource.bind(resourceController))
+);
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,18 @@
+import { Router } from 'express';
+import { SearchController } from '../controllers/SearchController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate } from '../middleware/auth';
+import { validateRequest } from '../middleware/validateRequest';
+import { searchSchema } from '../validation/schemas/searchSchemas';
+
+const router = Router();
+const searchController = new SearchController();
+
+// Search topics and resources (All authenticated users, results limited to what they may read)
+router.get('/', 
+  authenticate, 
+  validateRequest(searchSchema), 
+  asyncHandler(searchController.search.bind(searchController))
+);
+
+export default router;
@@ -1,45 +1,168 @@
 import { Router } from 'express';
 import { TopicController } from '../controllers/TopicController';
+import { ResourceController } from '../controllers/ResourceController';
+import { asyncHandler } from '../middleware/asyncHandler';
 import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest } from '../middleware/validateRequest';
 import { UserRole } from '../enums/UserRole';
+import {
+  childTopicsSchema,
+  copyTopicSchema,
+  createTopicSchema,
+  deleteTopicSchema,
+  diffTopicVersionsSchema,
+  findPathSchema,
+  listOwnedTopicsSchema,
+  listRootTopicsSchema,
+  listTopicsSchema,
+  moveTopicSchema,
+  setTopicAclSchema,
+  topicIdSchema,
+  topicVersionSchema,
+  updateTopicSchema
+} from '../validation/schemas/topicSchemas';
 
 const router = Router();
 const topicController = new TopicController();
+const resourceController = new ResourceController();
 
-// Get all topics
-router.get('/', authenticate, topicController.getAllTopics.bind(topicController));
+// Get a page of topics
+router.get('/', 
+  authenticate, 
+  validateRequest(listTopicsSchema), 
+  asyncHandler(topicController.getAllTopics.bind(topicController))
+);
+
+// Get a page of root topics
+router.get('/root', 
+  authenticate, 
+  validateRequest(listRootTopicsSchema), 
+  asyncHandler(topicController.getRootTopics.bind(topicController))
+);
 
-// Get all root topics
-router.get('/root', authenticate, topicController.getRootTopics.bind(topicController));
+// Get the topics owned by the current user
+router.get('/mine', 
+  authenticate, 
+  validateRequest(listOwnedTopicsSchema), 
+  asyncHandler(topicController.getMyTopics.bind(topicController))
+);
 
 // Create a new topic
 router.post('/', 
   authenticate, 
   authorize([UserRole.ADMIN, UserRole.EDITOR]), 
-  topicController.createTopic.bind(topicController)
+  validateRequest(createTopicSchema), 
+  asyncHandler(topicController.createTopic.bind(topicController))
 );
 
 // Get a topic by ID
-router.get('/:id', authenticate, topicController.getTopic.bind(topicController));
+router.get('/:id', 
+  authenticate, 
+  validateRequest(topicIdSchema), 
+  asyncHandler(topicController.getTopic.bind(topicController))
+);
 
 // Update a topic
 router.put('/:id', 
   authenticate, 
   authorize([UserRole.ADMIN, UserRole.EDITOR]), 
-  topicController.updateTopic.bind(topicController)
+  validateRequest(updateTopicSchema), 
+  asyncHandler(topicController.updateTopic.bind(topicController))
 );
 
 // Delete a topic
 router.delete('/:id', 
   authenticate, 
-  authorize([UserRole.ADMIN]), 
-  topicController.deleteTopic.bind(topicController)
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  validateRequest(deleteTopicSchema), 
+  asyncHandler(topicController.deleteTopic.bind(topicController))
+);
+
+// Move a topic under a new parent
+router.post('/:id/move', 
+  authenticate, 
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  validateRequest(moveTopicSchema), 
+  asyncHandler(topicController.moveTopic.bind(topicController))
+);
+
+// Copy a topic and its subtree under a parent
+router.post('/:id/copy', 
+  authenticate, 
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  validateRequest(copyTopicSchema), 
+  asyncHandler(topicController.copyTopic.bind(topicController))
 );
 
 // Get child topics of a parent topic
-router.get('/:parentId/children', authenticate, topicController.getChildTopics.bind(topicController));
+router.get('/:parentId/children', 
+  authenticate, 
+  validateRequest(childTopicsSchema), 
+  asyncHandler(topicController.getChildTopics.bind(topicController))
+);
 
 // Get a topic tree
-router.get('/:id/tree', authenticate, topicController.getTopicTree.bind(topicController));
+router.get('/:id/tree', 
+  authenticate, 
+  validateRequest(topicIdSchema), 
+  asyncHandler(topicController.getTopicTree.bind(topicController))
+);
+
+// Find the shortest path between two topics
+router.get('/:id/path/:targetId', 
+  authenticate, 
+  validateRequest(findPathSchema), 
+  asyncHandler(topicController.findPath.bind(topicController))
+);
+
+// Get the access control entries of a topic (Admins or users with manage permission)
+router.get('/:id/acl', 
+  authenticate, 
+  validateRequest(topicIdSchema), 
+  asyncHandler(topicController.getTopicAcl.bind(topicController))
+);
+
+// Replace the access control entries of a topic (Admins or users with manage permission)
+router.put('/:id/acl', 
+  authenticate, 
+  validateRequest(setTopicAclSchema), 
+  asyncHandler(topicController.setTopicAcl.bind(topicController))
+);
+
+// Get the resources of a topic
+router.get('/:id/resources', 
+  authenticate, 
+  validateRequest(topicIdSchema), 
+  asyncHandler(resourceController.getTopicResources.bind(resourceController))
+);
+
+// Get all versions of a topic
+router.get('/:id/versions', 
+  authenticate, 
+  validateRequest(topicIdSchema), 
+  asyncHandler(topicController.getTopicVersions.bind(topicController))
+);
+
+// Get a specific version of a topic
+router.get('/:id/versions/:version', 
+  authenticate, 
+  validateRequest(topicVersionSchema), 
+  asyncHandler(topicController.getTopicVersion.bind(topicController))
+);
+
+// Compare two versions of a topic
+router.get('/:id/diff', 
+  authenticate, 
+  validateRequest(diffTopicVersionsSchema), 
+  asyncHandler(topicController.diffTopicVersions.bind(topicController))
+);
+
+// Revert a topic to an earlier version
+router.post('/:id/revert/:version', 
+  authenticate, 
+  authorize([UserRole.ADMIN, UserRole.EDITOR]), 
+  validateRequest(topicVersionSchema), 
+  asyncHandler(topicController.revertTopic.bind(topicController))
+);
 
 export default router; 
\ No newline at end of file
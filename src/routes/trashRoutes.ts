@@ -0,0 +1,27 @@
+import { Router } from 'express';
+import { TrashController } from '../controllers/TrashController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate, authorize } from '../middleware/auth';
+import { validateRequest } from '../middleware/validateRequest';
+import { restoreFromTrashSchema } from '../validation/schemas/trashSchemas';
+import { UserRole } from '../enums/UserRole';
+
+const router = Router();
+const trashController = new TrashController();
+
+// List the trash (Admin only)
+router.get('/', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(trashController.getTrash.bind(trashController))
+);
+
+// Restore a topic with its subtree, or a resource (Admin only)
+router.post('/:id/restore', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  validateRequest(restoreFromTrashSchema), 
+  asyncHandler(trashController.restore.bind(trashController))
+);
+
+export default router;
@@ -1,26 +1,54 @@
 import { Router } from 'express';
-// Import these when implementing the routes
-// import { authenticate, authorize } from '../middleware/auth';
-// import { UserRole } from '../enums/UserRole';
+import { UserController } from '../controllers/UserController';
+import { asyncHandler } from '../middleware/asyncHandler';
+import { authenticate, authorize } from '../middleware/auth';
+import { UserRole } from '../enums/UserRole';
 
 const router = Router();
-
-// This file is a placeholder for future user-related routes
-// Example routes are commented out as they are not implemented yet
+const userController = new UserController();
 
 // Get all users (Admin only)
-// router.get('/', authenticate, authorize([UserRole.ADMIN]), userController.getAllUsers);
-
-// Get user by ID (Admin or self)
-// router.get('/:id', authenticate, userController.getUserById);
+router.get('/', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(userController.getAllUsers.bind(userController))
+);
 
 // Create a new user (Admin only)
-// router.post('/', authenticate, authorize([UserRole.ADMIN]), userController.createUser);
+router.post('/', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(userController.createUser.bind(userController))
+);
 
-// Update a user (Admin or self)
-// router.put('/:id', authenticate, userController.updateUser);
+// Get the profile of the authenticated user
+router.get('/me', authenticate, asyncHandler(userController.getProfile.bind(userController)));
+
+// Update the profile of the authenticated user
+router.put('/me', authenticate, asyncHandler(userController.updateProfile.bind(userController)));
+
+// Get user by ID (Admin or self)
+router.get('/:id', authenticate, asyncHandler(userController.getUser.bind(userController)));
+
+// Change the role of a user (Admin only)
+router.put('/:id/role', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(userController.updateRole.bind(userController))
+);
+
+// Replace the groups of a user (Admin only)
+router.put('/:id/groups', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(userController.updateGroups.bind(userController))
+);
 
 // Delete a user (Admin only)
-// router.delete('/:id', authenticate, authorize([UserRole.ADMIN]), userController.deleteUser);
+router.delete('/:id', 
+  authenticate, 
+  authorize([UserRole.ADMIN]), 
+  asyncHandler(userController.deleteUser.bind(userController))
+);
 
-export default router; 
\ No newline at end of file
+export default router;
@@ -0,0 +1,253 @@
+import { Tokenizer, Token } from './Tokenizer';
+
+/**
+ * A document to index: an identifier and the text of each searchable field
+ */
+export interface IndexDocument {
+  id: string;
+  fields: Record<string, string>;
+}
+
+/**
+ * A document matching a query
+ */
+export interface IndexHit {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * What the index keeps about each document
+ */
+interface StoredDocument {
+  fields: Record<string, string>;
+  lengths: Record<string, number>;
+  terms: Set<string>;
+}
+
+/**
+ * Escapes the characters that are significant in HTML
+ * @param text The text to escape
+ */
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * In-memory inverted index with BM25 relevance ranking
+ * Each field has a weight, so a match in a heavily weighted field (such as a title)
+ * ranks higher than the same match in body text
+ */
+export class InvertedIndex {
+  private static readonly K1 = 1.2;
+  private static readonly B = 0.75;
+  private static readonly SNIPPET_CONTEXT = 60;
+
+  // term -> document id -> field -> term frequency
+  private postings = new Map<string, Map<string, Map<string, number>>>();
+  private documents = new Map<string, StoredDocument>();
+  private totalFieldLengths = new Map<string, number>();
+  private tokenizer = new Tokenizer();
+
+  /**
+   * Constructor
+   * @param fieldWeights Weight of each field; fields not listed weigh 1
+   */
+  constructor(private fieldWeights: Record<string, number> = {}) {}
+
+  /**
+   * Number of documents in the index
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Adds a document, replacing any document with the same ID
+   * @param document The document to add
+   */
+  add(document: IndexDocument): void {
+    this.remove(document.id);
+    
+    const stored: StoredDocument = { fields: { ...document.fields }, lengths: {}, terms: new Set() };
+    
+    for (const [field, text] of Object.entries(document.fields)) {
+      const tokens = this.tokenizer.tokenize(text);
+      stored.lengths[field] = tokens.length;
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) + tokens.length);
+      
+      for (const { term } of tokens) {
+        const byDocument = this.postings.get(term) ?? new Map<string, Map<string, number>>();
+        const byField = byDocument.get(document.id) ?? new Map<string, number>();
+        byField.set(field, (byField.get(field) ?? 0) + 1);
+        byDocument.set(document.id, byField);
+        this.postings.set(term, byDocument);
+        stored.terms.add(term);
+      }
+    }
+    
+    this.documents.set(document.id, stored);
+  }
+
+  /**
+   * Removes a document
+   * @param id ID of the document
+   * @returns True if the document was in the index
+   */
+  remove(id: string): boolean {
+    const stored = this.documents.get(id);
+    
+    if (!stored) {
+      return false;
+    }
+    
+    for (const term of stored.terms) {
+      const byDocument = this.postings.get(term);
+      byDocument?.delete(id);
+      
+      if (byDocument?.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    
+    for (const [field, length] of Object.entries(stored.lengths)) {
+      this.totalFieldLengths.set(field, (this.totalFieldLengths.get(field) ?? 0) - length);
+    }
+    
+    this.documents.delete(id);
+    return true;
+  }
+
+  /**
+   * Removes every document
+   */
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalFieldLengths.clear();
+  }
+
+  /**
+   * Finds documents matching any term of a query, best match first
+   * @param query The search text
+   * @returns Matching documents ordered by descending score, then by ID
+   */
+  search(query: string): IndexHit[] {
+    const terms = this.tokenizer.terms(query);
+    const hits = new Map<string, IndexHit>();
+    
+    for (const term of terms) {
+      const byDocument = this.postings.get(term);
+      
+      if (!byDocument) {
+        continue;
+      }
+      
+      const idf = Math.log(1 + (this.documents.size - byDocument.size + 0.5) / (byDocument.size + 0.5));
+      
+      for (const [id, byField] of byDocument) {
+        const hit = hits.get(id) ?? { id, score: 0, matchedTerms: [] };
+        hit.score += idf * this.termWeight(id, byField);
+        hit.matchedTerms.push(term);
+        hits.set(id, hit);
+      }
+    }
+    
+    return [...hits.values()].sort((a, b) => b.score - a.score || a.id.localeCompare(b.id));
+  }
+
+  /**
+   * Builds a short excerpt of a field around the first matching term, with matches highlighted
+   * The text is HTML-escaped and matches are wrapped in <mark> elements
+   * @param id ID of the document
+   * @param field The field to excerpt
+   * @param terms The terms to highlight, as returned in a hit
+   * @returns The excerpt, or null if the field contains none of the terms
+   */
+  snippet(id: string, field: string, terms: string[]): string | null {
+    const text = this.documents.get(id)?.fields[field];
+    
+    if (text === undefined) {
+      return null;
+    }
+    
+    const wanted = new Set(terms);
+    const matches = this.tokenizer.tokenize(text).filter(token => wanted.has(token.term));
+    
+    if (matches.length === 0) {
+      return null;
+    }
+    
+    const context = InvertedIndex.SNIPPET_CONTEXT;
+    const start = this.wordBoundary(text, Math.max(0, matches[0].start - context), -1);
+    const end = this.wordBoundary(text, Math.min(text.length, matches[0].end + context), 1);
+    
+    return (start > 0 ? '…' : '') +
+      this.highlight(text, start, end, matches) +
+      (end < text.length ? '…' : '');
+  }
+
+  /**
+   * Scores one term in one document across its fields
+   * @param id ID of the document
+   * @param byField Term frequency in each field of the document
+   */
+  private termWeight(id: string, byField: Map<string, number>): number {
+    const stored = this.documents.get(id) as StoredDocument;
+    let weight = 0;
+    
+    for (const [field, frequency] of byField) {
+      const averageLength = (this.totalFieldLengths.get(field) ?? 0) / this.documents.size || 1;
+      const lengthRatio = stored.lengths[field] / averageLength;
+      const normalized = (frequency * (InvertedIndex.K1 + 1)) /
+        (frequency + InvertedIndex.K1 * (1 - InvertedIndex.B + InvertedIndex.B * lengthRatio));
+      
+      weight += (this.fieldWeights[field] ?? 1) * normalized;
+    }
+    
+    return weight;
+  }
+
+  /**
+   * Moves an offset outwards to the nearest whitespace so excerpts do not cut words in half
+   * @param text The text
+   * @param offset The offset to adjust
+   * @param direction -1 to move towards the start, 1 to move towards the end
+   */
+  private wordBoundary(text: string, offset: number, direction: -1 | 1): number {
+    while (offset > 0 && offset < text.length && !/\s/.test(text[direction < 0 ? offset - 1 : offset])) {
+      offset += direction;
+    }
+    
+    return offset;
+  }
+
+  /**
+   * Escapes a range of text and wraps the matching tokens in <mark> elements
+   * @param text The text
+   * @param start Start of the range
+   * @param end End of the range
+   * @param matches Matching tokens in the text
+   */
+  private highlight(text: string, start: number, end: number, matches: Token[]): string {
+    let result = '';
+    let position = start;
+    
+    for (const match of matches) {
+      if (match.start < start || match.end > end) {
+        continue;
+      }
+      
+      result += escapeHtml(text.slice(position, match.start)) +
+        `<mark>${escapeHtml(text.slice(match.start, match.end))}</mark>`;
+      position = match.end;
+    }
+    
+    return (result + escapeHtml(text.slice(position, end))).trim();
+  }
+}
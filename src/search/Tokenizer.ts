@@ -0,0 +1,50 @@
+import { STOP_WORDS } from './stopWords';
+import { stem } from './stemmer';
+
+/**
+ * A searchable term and where it was found in the original text
+ */
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text into normalized search terms
+ * Words are lowercased, stop words are dropped and the rest are reduced to their stem
+ */
+export class Tokenizer {
+  private static readonly WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+  /**
+   * Tokenizes a text
+   * @param text The text to tokenize
+   * @returns The tokens in the order they appear, with their offsets in the text
+   */
+  tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    
+    for (const match of text.matchAll(Tokenizer.WORD_PATTERN)) {
+      const word = match[0].toLowerCase();
+      
+      if (STOP_WORDS.has(word)) {
+        continue;
+      }
+      
+      const start = match.index ?? 0;
+      tokens.push({ term: stem(word), start, end: start + match[0].length });
+    }
+    
+    return tokens;
+  }
+
+  /**
+   * Gets the distinct terms of a text
+   * @param text The text to tokenize
+   * @returns The distinct terms in the order they first appear
+   */
+  terms(text: string): string[] {
+    return [...new Set(this.tokenize(text).map(token => token.term))];
+  }
+}
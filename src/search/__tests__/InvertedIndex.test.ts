@@ -0,0 +1,123 @@
+import { InvertedIndex } from '../InvertedIndex';
+
+describe('InvertedIndex', () => {
+  let index: InvertedIndex;
+  
+  beforeEach(() => {
+    index = new InvertedIndex({ title: 3, body: 1 });
+    index.add({ id: 'a', fields: { title: 'Databases', body: 'An introduction to relational storage' } });
+    index.add({ id: 'b', fields: { title: 'Storage engines', body: 'How a database stores rows on disk' } });
+    index.add({ id: 'c', fields: { title: 'Cooking', body: 'Recipes for pasta and bread' } });
+  });
+  
+  describe('search', () => {
+    it('should find documents containing any word form of the query terms', () => {
+      // Act
+      const hits = index.search('database');
+      
+      // Assert
+      expect(hits.map(hit => hit.id)).toEqual(['a', 'b']);
+      expect(hits[0].matchedTerms).toEqual(['databas']);
+    });
+    
+    it('should rank matches in heavier fields higher', () => {
+      // Act
+      const hits = index.search('storage');
+      
+      // Assert
+      expect(hits.map(hit => hit.id)).toEqual(['b', 'a']);
+      expect(hits[0].score).toBeGreaterThan(hits[1].score);
+    });
+    
+    it('should rank documents matching more terms higher', () => {
+      // Act
+      const hits = index.search('relational database');
+      
+      // Assert
+      expect(hits[0].id).toBe('a');
+      expect(hits[0].matchedTerms).toEqual(['relat', 'databas']);
+    });
+    
+    it('should return nothing for unknown terms or stop words only', () => {
+      // Act & Assert
+      expect(index.search('astronomy')).toEqual([]);
+      expect(index.search('the and')).toEqual([]);
+    });
+  });
+  
+  describe('add and remove', () => {
+    it('should replace a document added again with the same ID', () => {
+      // Act
+      index.add({ id: 'c', fields: { title: 'Baking', body: 'Bread and cakes' } });
+      
+      // Assert
+      expect(index.size).toBe(3);
+      expect(index.search('pasta')).toEqual([]);
+      expect(index.search('cakes').map(hit => hit.id)).toEqual(['c']);
+    });
+    
+    it('should stop finding removed documents', () => {
+      // Act
+      const removed = index.remove('a');
+      
+      // Assert
+      expect(removed).toBe(true);
+      expect(index.remove('a')).toBe(false);
+      expect(index.search('database').map(hit => hit.id)).toEqual(['b']);
+    });
+    
+    it('should remove every document when cleared', () => {
+      // Act
+      index.clear();
+      
+      // Assert
+      expect(index.size).toBe(0);
+      expect(index.search('database')).toEqual([]);
+    });
+  });
+  
+  describe('snippet', () => {
+    it('should highlight every match of the terms', () => {
+      // Act
+      const snippet = index.snippet('b', 'body', ['databas', 'row']);
+      
+      // Assert
+      expect(snippet).toBe('How a <mark>database</mark> stores <mark>rows</mark> on disk');
+    });
+    
+    it('should excerpt long text around the first match without cutting words', () => {
+      // Arrange
+      const filler = 'lorem ipsum dolor sit amet '.repeat(10);
+      index.add({ id: 'd', fields: { body: `${filler}the keyword appears here ${filler}` } });
+      
+      // Act
+      const snippet = index.snippet('d', 'body', ['keyword']) as string;
+      
+      // Assert
+      expect(snippet).toMatch(/^….*<mark>keyword<\/mark>.*…$/);
+      expect(snippet.length).toBeLessThan(180);
+      
+      const words = snippet.replace(/<\/?mark>|…/g, '').split(' ');
+      const allowed = ['lorem', 'ipsum', 'dolor', 'sit', 'amet', 'the', 'keyword', 'appears', 'here'];
+      expect(words.every(word => allowed.includes(word))).toBe(true);
+    });
+    
+    it('should escape HTML in the text', () => {
+      // Arrange
+      index.add({ id: 'e', fields: { body: '<script>alert("xss")</script> keyword' } });
+      
+      // Act
+      const snippet = index.snippet('e', 'body', ['keyword']);
+      
+      // Assert
+      expect(snippet).toBe('&lt;script&gt;alert(&quot;xss&quot;)&lt;/script&gt; <mark>keyword</mark>');
+    });
+    
+    it('should return null when the field has no match', () => {
+      // Act & Assert
+      expect(index.snippet('a', 'title', ['storag'])).toBeNull();
+      expect(index.snippet('a', 'missing', ['databas'])).toBeNull();
+      expect(index.snippet('missing', 'body', ['databas'])).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { Tokenizer } from '../Tokenizer';
+
+describe('Tokenizer', () => {
+  let tokenizer: Tokenizer;
+  
+  beforeEach(() => {
+    tokenizer = new Tokenizer();
+  });
+  
+  describe('tokenize', () => {
+    it('should lowercase and stem words and record where they appear', () => {
+      // Act
+      const tokens = tokenizer.tokenize('Running Tests');
+      
+      // Assert
+      expect(tokens).toEqual([
+        { term: 'run', start: 0, end: 7 },
+        { term: 'test', start: 8, end: 13 }
+      ]);
+    });
+    
+    it('should drop stop words and punctuation', () => {
+      // Act
+      const tokens = tokenizer.tokenize('The history of the Roman-Empire, in 3 parts!');
+      
+      // Assert
+      expect(tokens.map(token => token.term)).toEqual(['histori', 'roman', 'empir', '3', 'part']);
+    });
+    
+    it('should return no tokens for text without words', () => {
+      // Act & Assert
+      expect(tokenizer.tokenize(' -- ')).toEqual([]);
+      expect(tokenizer.tokenize('the and of')).toEqual([]);
+    });
+  });
+  
+  describe('terms', () => {
+    it('should return each term once in order of first appearance', () => {
+      // Act
+      const terms = tokenizer.terms('tests test testing databases');
+      
+      // Assert
+      expect(terms).toEqual(['test', 'databas']);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { stem } from '../stemmer';
+
+describe('stem', () => {
+  it.each([
+    ['caresses', 'caress'],
+    ['ponies', 'poni'],
+    ['cats', 'cat'],
+    ['feed', 'feed'],
+    ['agreed', 'agre'],
+    ['plastered', 'plaster'],
+    ['motoring', 'motor'],
+    ['sing', 'sing'],
+    ['hopping', 'hop'],
+    ['filing', 'file'],
+    ['happy', 'happi'],
+    ['relational', 'relat'],
+    ['generalization', 'gener'],
+    ['electrical', 'electr'],
+    ['adjustment', 'adjust'],
+    ['controll', 'control']
+  ])('should reduce %s to %s', (word, expected) => {
+    // Act & Assert
+    expect(stem(word)).toBe(expected);
+  });
+  
+  it('should reduce related word forms to the same stem', () => {
+    // Act
+    const stems = ['connect', 'connected', 'connecting', 'connection', 'connections'].map(stem);
+    
+    // Assert
+    expect(new Set(stems)).toEqual(new Set(['connect']));
+  });
+  
+  it('should leave short words, numbers and non-English letters unchanged', () => {
+    // Act & Assert
+    expect(stem('is')).toBe('is');
+    expect(stem('2026')).toBe('2026');
+    expect(stem('größe')).toBe('größe');
+  });
+});
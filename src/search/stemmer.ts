@@ -0,0 +1,237 @@
+/**
+ * Porter stemming algorithm
+ * Reduces English words to a common stem so that, for example, "connected", "connecting"
+ * and "connection" all match "connect"
+ * @see https://tartarus.org/martin/PorterStemmer/def.txt
+ */
+
+/**
+ * Checks whether the letter at a position is a consonant
+ * Y counts as a consonant unless it follows one
+ * @param word The word
+ * @param index The position of the letter
+ */
+const isConsonant = (word: string, index: number): boolean => {
+  const letter = word[index];
+  
+  if ('aeiou'.includes(letter)) {
+    return false;
+  }
+  
+  if (letter === 'y') {
+    return index === 0 || !isConsonant(word, index - 1);
+  }
+  
+  return true;
+};
+
+/**
+ * Counts the vowel-consonant sequences in a stem (the "measure" of the algorithm)
+ * @param stem The stem
+ */
+const measure = (stem: string): number => {
+  let count = 0;
+  let index = 0;
+  
+  while (index < stem.length && isConsonant(stem, index)) {
+    index++;
+  }
+  
+  while (index < stem.length) {
+    while (index < stem.length && !isConsonant(stem, index)) {
+      index++;
+    }
+    
+    if (index >= stem.length) {
+      break;
+    }
+    
+    while (index < stem.length && isConsonant(stem, index)) {
+      index++;
+    }
+    
+    count++;
+  }
+  
+  return count;
+};
+
+/**
+ * Checks whether a stem contains a vowel
+ * @param stem The stem
+ */
+const hasVowel = (stem: string): boolean => {
+  for (let index = 0; index < stem.length; index++) {
+    if (!isConsonant(stem, index)) {
+      return true;
+    }
+  }
+  
+  return false;
+};
+
+/**
+ * Checks whether a word ends with a double consonant, such as "tt" or "ss"
+ * @param word The word
+ */
+const endsWithDoubleConsonant = (word: string): boolean => {
+  const last = word.length - 1;
+  return last >= 1 && word[last] === word[last - 1] && isConsonant(word, last);
+};
+
+/**
+ * Checks whether a word ends consonant-vowel-consonant, where the last consonant is not w, x or y
+ * @param word The word
+ */
+const endsWithCvc = (word: string): boolean => {
+  const last = word.length - 1;
+  
+  return last >= 2 &&
+    isConsonant(word, last - 2) &&
+    !isConsonant(word, last - 1) &&
+    isConsonant(word, last) &&
+    !'wxy'.includes(word[last]);
+};
+
+/**
+ * Replaces the longest matching suffix when the remaining stem is long enough
+ * @param word The word
+ * @param rules Suffixes and their replacements
+ * @param minMeasure The smallest measure the stem must exceed
+ */
+const replaceSuffix = (word: string, rules: Array<[string, string]>, minMeasure: number): string => {
+  const rule = rules
+    .filter(([suffix]) => word.endsWith(suffix))
+    .sort((a, b) => b[0].length - a[0].length)[0];
+  
+  if (!rule) {
+    return word;
+  }
+  
+  const stem = word.slice(0, word.length - rule[0].length);
+  return measure(stem) > minMeasure ? stem + rule[1] : word;
+};
+
+const STEP2_RULES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'],
+  ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'],
+  ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'],
+  ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+];
+
+const STEP3_RULES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent',
+  'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+/**
+ * Removes plurals and -ed or -ing endings
+ * @param word The word
+ */
+const step1 = (word: string): string => {
+  if (word.endsWith('sses') || word.endsWith('ies')) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !word.endsWith('ss')) {
+    word = word.slice(0, -1);
+  }
+  
+  let removedEnding = false;
+  
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) {
+      word = word.slice(0, -1);
+    }
+  } else if (word.endsWith('ed') && hasVowel(word.slice(0, -2))) {
+    word = word.slice(0, -2);
+    removedEnding = true;
+  } else if (word.endsWith('ing') && hasVowel(word.slice(0, -3))) {
+    word = word.slice(0, -3);
+    removedEnding = true;
+  }
+  
+  if (removedEnding) {
+    if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+      word += 'e';
+    } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word[word.length - 1])) {
+      word = word.slice(0, -1);
+    } else if (measure(word) === 1 && endsWithCvc(word)) {
+      word += 'e';
+    }
+  }
+  
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = word.slice(0, -1) + 'i';
+  }
+  
+  return word;
+};
+
+/**
+ * Removes the remaining suffixes of a stem that is long enough
+ * @param word The word
+ */
+const step4 = (word: string): string => {
+  const suffix = STEP4_SUFFIXES
+    .filter(candidate => word.endsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  
+  if (!suffix) {
+    return word;
+  }
+  
+  const stem = word.slice(0, word.length - suffix.length);
+  
+  if (measure(stem) <= 1) {
+    return word;
+  }
+  
+  if (suffix === 'ion' && !stem.endsWith('s') && !stem.endsWith('t')) {
+    return word;
+  }
+  
+  return stem;
+};
+
+/**
+ * Removes a final -e and reduces a final -ll
+ * @param word The word
+ */
+const step5 = (word: string): string => {
+  if (word.endsWith('e')) {
+    const stem = word.slice(0, -1);
+    const stemMeasure = measure(stem);
+    
+    if (stemMeasure > 1 || (stemMeasure === 1 && !endsWithCvc(stem))) {
+      word = stem;
+    }
+  }
+  
+  if (word.endsWith('ll') && measure(word) > 1) {
+    word = word.slice(0, -1);
+  }
+  
+  return word;
+};
+
+/**
+ * Reduces a lowercase English word to its stem
+ * Words of one or two letters are returned unchanged
+ * @param word The lowercase word
+ * @returns The stem of the word
+ */
+export const stem = (word: string): string => {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+  
+  let result = step1(word);
+  result = replaceSuffix(result, STEP2_RULES, 0);
+  result = replaceSuffix(result, STEP3_RULES, 0);
+  result = step4(result);
+  
+  return step5(result);
+};
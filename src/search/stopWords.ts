@@ -0,0 +1,13 @@
+/**
+ * Common English words that carry no meaning for search and are left out of the index
+ */
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'he', 'her', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its',
+  'just', 'may', 'more', 'most', 'no', 'not', 'of', 'on', 'or', 'our', 'out', 'over',
+  'she', 'so', 'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'to', 'up', 'use', 'used', 'using', 'very',
+  'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'why', 'will',
+  'with', 'would', 'you', 'your'
+]);
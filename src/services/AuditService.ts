@@ -0,0 +1,85 @@
+import { AuditEntry } from '../models/AuditEntry';
+import { User } from '../models/User';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { UserRole } from '../enums/UserRole';
+import { AuditFilter, AuditRepository } from '../repositories/AuditRepository';
+import { getRequestContext } from '../middleware/requestContext';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
+
+/**
+ * A change to record in the audit log
+ */
+export interface AuditEvent {
+  actor: User;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  before?: unknown; // State before the change, snapshotted when recorded
+  after?: unknown; // State after the change, snapshotted when recorded
+}
+
+/**
+ * Service for the audit log
+ * Entries are only ever appended; reading them is reserved for admins
+ */
+export class AuditService {
+  private readonly auditRepository: AuditRepository;
+
+  /**
+   * Creates a new AuditService instance
+   * @param auditRepository The audit repository to use
+   */
+  constructor(auditRepository?: AuditRepository) {
+    this.auditRepository = auditRepository || new AuditRepository();
+  }
+
+  /**
+   * Appends an entry to the audit log
+   * The ID of the request being handled, if any, is attached to the entry
+   * @param event The change to record
+   * @returns Promise resolving to the stored entry
+   */
+  public async record(event: AuditEvent): Promise<AuditEntry> {
+    const entry = new AuditEntry(
+      event.actor.id,
+      event.action,
+      event.entityType,
+      event.entityId,
+      this.snapshot(event.before),
+      this.snapshot(event.after),
+      getRequestContext()?.requestId
+    );
+    
+    return this.auditRepository.create(entry);
+  }
+
+  /**
+   * Gets the audit entries matching a filter if the actor is an admin
+   * @param filter The criteria the entries must match
+   * @param actor The user reading the audit log
+   * @returns Promise resolving to the matching entries, newest first
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async getEntries(filter: AuditFilter, actor: User): Promise<AuditEntry[]> {
+    if (actor.role !== UserRole.ADMIN) {
+      throw new PermissionDeniedError('User does not have permission to read the audit log');
+    }
+    
+    return this.auditRepository.findByFilter(filter);
+  }
+
+  /**
+   * Copies a value into plain JSON data, so later changes to the value don't alter the log
+   * Entities serialize through their toJSON, which keeps secrets such as password hashes out
+   * @param value The value to copy
+   * @returns The copy, or undefined if there is no value
+   */
+  public snapshot(value: unknown): unknown {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+    
+    return JSON.parse(JSON.stringify(value));
+  }
+}
@@ -0,0 +1,203 @@
+import { v4 as uuidv4 } from 'uuid';
+import { User } from '../models/User';
+import { RefreshToken } from '../models/RefreshToken';
+import { UserRepository } from '../repositories/UserRepository';
+import { RefreshTokenRepository } from '../repositories/RefreshTokenRepository';
+import { TokenService } from './TokenService';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { NotFoundError } from '../errors/NotFoundError';
+
+/**
+ * Result of a successful login or token refresh
+ */
+export interface LoginResult {
+  accessToken: string;
+  tokenType: 'Bearer';
+  expiresIn: number; // Lifetime of the access token in seconds
+  refreshToken: string;
+  refreshExpiresIn: number; // Lifetime of the refresh token in seconds
+  user: User;
+}
+
+/**
+ * Service for logging users in and managing their sessions
+ * Each login starts a family of refresh tokens. Every refresh rotates the token,
+ * and presenting a token that was already rotated revokes the whole family.
+ */
+export class AuthService {
+  private readonly userRepository: UserRepository;
+  private readonly tokenService: TokenService;
+  private readonly refreshTokenRepository: RefreshTokenRepository;
+
+  /**
+   * Creates a new AuthService instance
+   * @param userRepository The user repository to check credentials against
+   * @param tokenService The token service used to issue tokens
+   * @param refreshTokenRepository The repository refresh tokens are stored in
+   */
+  constructor(
+    userRepository?: UserRepository,
+    tokenService?: TokenService,
+    refreshTokenRepository?: RefreshTokenRepository
+  ) {
+    this.userRepository = userRepository || new UserRepository();
+    this.tokenService = tokenService || new TokenService();
+    this.refreshTokenRepository = refreshTokenRepository || new RefreshTokenRepository();
+  }
+
+  /**
+   * Checks a user's credentials and issues an access token and a refresh token
+   * @param email The email of the user
+   * @param password The password of the user
+   * @returns Promise resolving to the login result, or null if the credentials are wrong
+   */
+  public async login(email: string, password: string): Promise<LoginResult | null> {
+    const user = await this.userRepository.authenticate(email, password);
+
+    if (!user) {
+      return null;
+    }
+
+    const { token, expiresIn } = this.tokenService.generateRefreshToken();
+    const refreshToken = this.createRefreshToken(user, token, expiresIn);
+
+    await this.refreshTokenRepository.create(refreshToken);
+
+    return this.createResult(user, token, expiresIn);
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token
+   * The presented token is revoked; presenting it again revokes its whole family
+   * @param refreshToken The refresh token value
+   * @returns Promise resolving to the new tokens
+   * @throws AuthenticationError if the token is unknown, expired, already used or its user no longer exists
+   */
+  public async refresh(refreshToken: string): Promise<LoginResult> {
+    const tokenHash = this.tokenService.hashRefreshToken(refreshToken);
+
+    // Of two refreshes with the same token, the second only reads it once the first has rotated it
+    const result = await DatabaseFactory.transaction(async () => this.rotate(tokenHash));
+
+    if (result instanceof AuthenticationError) {
+      throw result;
+    }
+
+    return result;
+  }
+
+  /**
+   * Looks up a refresh token and replaces it with a new one in its family
+   * Failures are returned rather than thrown, so that a family revoked on the way stays revoked
+   * when the calling transaction commits
+   * @param tokenHash The hash of the refresh token value
+   * @returns Promise resolving to the new tokens, or to the error the refresh failed with
+   */
+  private async rotate(tokenHash: string): Promise<LoginResult | AuthenticationError> {
+    const stored = await this.refreshTokenRepository.findByTokenHash(tokenHash);
+
+    if (!stored) {
+      return new AuthenticationError('Invalid refresh token');
+    }
+
+    if (stored.isRevoked()) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      return new AuthenticationError('Refresh token reuse detected');
+    }
+
+    if (stored.isExpired()) {
+      return new AuthenticationError('Refresh token expired');
+    }
+
+    const user = await this.userRepository.findById(stored.userId);
+
+    if (!user) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+      return new AuthenticationError('Invalid refresh token');
+    }
+
+    const { token, expiresIn } = this.tokenService.generateRefreshToken();
+    const rotated = this.createRefreshToken(user, token, expiresIn, stored.familyId);
+
+    await this.refreshTokenRepository.update(stored.id, stored.revoke(rotated.id));
+    await this.refreshTokenRepository.create(rotated);
+
+    return this.createResult(user, token, expiresIn);
+  }
+
+  /**
+   * Ends the session a refresh token belongs to by revoking its family
+   * Unknown tokens are ignored so logging out twice is harmless
+   * @param refreshToken The refresh token value
+   */
+  public async logout(refreshToken: string): Promise<void> {
+    const stored = await this.refreshTokenRepository.findByTokenHash(
+      this.tokenService.hashRefreshToken(refreshToken)
+    );
+
+    if (stored) {
+      await this.refreshTokenRepository.revokeFamily(stored.familyId);
+    }
+  }
+
+  /**
+   * Revokes every refresh token of a user, ending all their sessions
+   * Access tokens already issued stay valid until they expire
+   * @param userId The ID of the user
+   * @returns Promise resolving to the number of tokens revoked
+   * @throws NotFoundError if the user does not exist
+   */
+  public async revokeAllSessions(userId: string): Promise<number> {
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundError(`User with ID ${userId} not found`);
+    }
+
+    return this.refreshTokenRepository.revokeAllForUser(userId);
+  }
+
+  /**
+   * Creates the stored record for a refresh token value
+   * @param user The user the token is issued to
+   * @param token The refresh token value
+   * @param expiresIn Lifetime of the token in seconds
+   * @param familyId The family of the token; a new family is started if not given
+   */
+  private createRefreshToken(
+    user: User,
+    token: string,
+    expiresIn: number,
+    familyId?: string
+  ): RefreshToken {
+    const id = uuidv4();
+
+    return new RefreshToken(
+      user.id,
+      familyId || id,
+      this.tokenService.hashRefreshToken(token),
+      new Date(Date.now() + expiresIn * 1000),
+      id
+    );
+  }
+
+  /**
+   * Issues an access token and combines it with a refresh token
+   * @param user The user the tokens are issued to
+   * @param refreshToken The refresh token value
+   * @param refreshExpiresIn Lifetime of the refresh token in seconds
+   */
+  private createResult(user: User, refreshToken: string, refreshExpiresIn: number): LoginResult {
+    const { token, expiresIn } = this.tokenService.issueAccessToken(user);
+
+    return {
+      accessToken: token,
+      tokenType: 'Bearer',
+      expiresIn,
+      refreshToken,
+      refreshExpiresIn,
+      user
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { ResourceType } from '../enums/ResourceType';
+
+/**
+ * Interface for resource service operations
+ */
+export interface IResourceService {
+  /**
+   * Creates a new resource for a topic
+   * @param topicId The ID of any version of the topic
+   * @param url The URL of the resource
+   * @param description A description of the resource
+   * @param type The type of the resource
+   * @param user The user creating the resource
+   * @returns Promise resolving to the created resource
+   */
+  createResource(
+    topicId: string,
+    url: string,
+    description: string,
+    type: ResourceType,
+    user: User
+  ): Promise<Resource>;
+  
+  /**
+   * Gets a resource by ID
+   * @param id The ID of the resource
+   * @param user The user requesting the resource
+   * @returns Promise resolving to the resource or null if not found
+   */
+  getResource(id: string, user: User): Promise<Resource | null>;
+  
+  /**
+   * Gets all resources, optionally restricted to one type
+   * @param user The user requesting the resources
+   * @param type Optional type of resource to return
+   * @returns Promise resolving to an array of resources
+   */
+  getAllResources(user: User, type?: ResourceType): Promise<Resource[]>;
+  
+  /**
+   * Gets the resources of a topic
+   * @param topicId The ID of any version of the topic
+   * @param user The user requesting the resources
+   * @returns Promise resolving to an array of resources
+   */
+  getResourcesByTopic(topicId: string, user: User): Promise<Resource[]>;
+  
+  /**
+   * Updates a resource
+   * @param id The ID of the resource
+   * @param changes The fields to change
+   * @param user The user updating the resource
+   * @returns Promise resolving to the updated resource or null if not found
+   */
+  updateResource(id: string, changes: ResourceChanges, user: User): Promise<Resource | null>;
+  
+  /**
+   * Deletes a resource
+   * @param id The ID of the resource
+   * @param user The user deleting the resource
+   * @returns Promise resolving to true if the resource was deleted, false otherwise
+   */
+  deleteResource(id: string, user: User): Promise<boolean>;
+}
+
+/**
+ * Fields of a resource that can be changed after creation
+ */
+export interface ResourceChanges {
+  url?: string;
+  description?: string;
+  type?: ResourceType;
+}
@@ -1,5 +1,12 @@
 import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
 import { User } from '../models/User';
+import { TopicAclEntry } from '../models/TopicAclEntry';
+import { TopicPageOptions, TopicPathOptions } from '../repositories/TopicRepository';
+import { PagePosition } from '../database/PageQuery';
+import { DiffChange, DiffGranularity } from '../utils/textDiff';
+import { AclPrincipalType } from '../enums/AclPrincipalType';
+import { TopicPermission } from '../enums/TopicPermission';
 
 /**
  * Interface for topic service operations
@@ -29,17 +36,49 @@ export interface ITopicService {
    * @param content The new content for the topic
    * @param user The user updating the topic
    * @param name Optional new name for the topic
+   * @param expectedVersion Optional version the update is based on
    * @returns Promise resolving to the updated topic
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
    */
-  updateTopic(id: string, content: string, user: User, name?: string): Promise<Topic | null>;
+  updateTopic(id: string, content: string, user: User, name?: string, expectedVersion?: number): Promise<Topic | null>;
   
   /**
    * Deletes a topic
    * @param id The ID of the topic to delete
    * @param user The user deleting the topic
+   * @param mode How to handle child topics; orphan-check refuses to delete a topic with children
+   * @param expectedVersion Optional version the deletion is based on
    * @returns Promise resolving to true if deleted, false if not found
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
    */
-  deleteTopic(id: string, user: User): Promise<boolean>;
+  deleteTopic(id: string, user: User, mode?: TopicDeleteMode, expectedVersion?: number): Promise<boolean>;
+  
+  /**
+   * Works out what deleting a topic would change, without changing anything
+   * @param id The ID of the topic to delete
+   * @param mode How to handle child topics
+   * @param user The user deleting the topic
+   * @returns Promise resolving to the deletion plan or null if the topic is not found
+   */
+  planTopicDeletion(id: string, mode: TopicDeleteMode, user: User): Promise<TopicDeletionPlan | null>;
+  
+  /**
+   * Moves a topic under a new parent, creating a new version
+   * @param id The ID of any version of the topic
+   * @param newParentId The ID of any version of the new parent, or null to make the topic a root topic
+   * @param user The user moving the topic
+   * @returns Promise resolving to the moved topic or null if the topic is not found
+   */
+  moveTopic(id: string, newParentId: string | null, user: User): Promise<Topic | null>;
+  
+  /**
+   * Copies a topic and its subtree under a parent, giving every copy a fresh ID
+   * @param id The ID of any version of the topic to copy
+   * @param options Where to put the copy and what to copy along
+   * @param user The user copying the topic, who owns the copies
+   * @returns Promise resolving to the copy or null if the topic is not found
+   */
+  copyTopic(id: string, options: TopicCopyOptions, user: User): Promise<TopicCopy | null>;
   
   /**
    * Gets all topics
@@ -48,6 +87,21 @@ export interface ITopicService {
    */
   getAllTopics(user: User): Promise<Topic[]>;
   
+  /**
+   * Gets one page of topics
+   * @param options The filters, sort order and position of the page; parentTopicId may be the ID of any version
+   * @param user The user requesting the topics
+   * @returns Promise resolving to the page of topics
+   */
+  listTopics(options: TopicPageOptions, user: User): Promise<TopicPage>;
+  
+  /**
+   * Gets all topics owned by the user
+   * @param user The user whose topics to list
+   * @returns Promise resolving to an array of owned topics
+   */
+  getOwnedTopics(user: User): Promise<Topic[]>;
+  
   /**
    * Gets all root topics
    * @param user The user requesting the topics
@@ -88,6 +142,32 @@ export interface ITopicService {
    */
   getLatestTopicVersion(rootTopicId: string, user: User): Promise<Topic | null>;
   
+  /**
+   * Compares the name and content of two versions of a topic
+   * @param id The ID of any version of the topic
+   * @param fromVersion The version number to compare from
+   * @param toVersion The version number to compare to
+   * @param user The user requesting the diff
+   * @param granularity Whether to compare lines or words
+   * @returns Promise resolving to the diff or null if the topic is not found
+   */
+  diffTopicVersions(
+    id: string,
+    fromVersion: number,
+    toVersion: number,
+    user: User,
+    granularity?: DiffGranularity
+  ): Promise<TopicVersionDiff | null>;
+  
+  /**
+   * Reverts a topic to an earlier version by creating a new version with its name and content
+   * @param id The ID of any version of the topic
+   * @param version The version number to revert to
+   * @param user The user reverting the topic
+   * @returns Promise resolving to the new version or null if the topic is not found
+   */
+  revertTopic(id: string, version: number, user: User): Promise<Topic | null>;
+  
   /**
    * Gets a topic and all its child topics recursively
    * @param topicId The ID of the topic
@@ -101,9 +181,43 @@ export interface ITopicService {
    * @param startTopicId The ID of the start topic
    * @param endTopicId The ID of the end topic
    * @param user The user requesting the path
+   * @param options Optional constraints on depth, direction and visitable topics
    * @returns Promise resolving to an array of topics representing the path
    */
-  findPath(startTopicId: string, endTopicId: string, user: User): Promise<Topic[] | null>;
+  findPath(
+    startTopicId: string,
+    endTopicId: string,
+    user: User,
+    options?: TopicPathOptions
+  ): Promise<Topic[] | null>;
+  
+  /**
+   * Gets the access control entries attached to a topic
+   * Entries inherited from ancestors are not included
+   * @param id The ID of any version of the topic
+   * @param user The user requesting the entries
+   * @returns Promise resolving to the entries or null if the topic is not found
+   */
+  getTopicAcl(id: string, user: User): Promise<TopicAclEntry[] | null>;
+  
+  /**
+   * Replaces the access control entries attached to a topic
+   * An empty list makes the topic inherit from its ancestors again
+   * @param id The ID of any version of the topic
+   * @param entries The new entries
+   * @param user The user changing the entries
+   * @returns Promise resolving to the stored entries or null if the topic is not found
+   */
+  setTopicAcl(id: string, entries: TopicAclEntryInput[], user: User): Promise<TopicAclEntry[] | null>;
+}
+
+/**
+ * One page of topics
+ * next is the position to continue from, or null on the last page
+ */
+export interface TopicPage {
+  items: Topic[];
+  next: PagePosition | null;
 }
 
 /**
@@ -112,4 +226,61 @@ export interface ITopicService {
 export interface TopicTree {
   topic: Topic;
   children: TopicTree[];
+}
+
+/**
+ * How deleting a topic treats its child topics; the resources of every deleted topic are always deleted
+ * - orphan-check: refuse to delete a topic that has children
+ * - cascade: delete the whole subtree and the resources of every topic in it
+ * - reparent: move the children to the parent of the deleted topic
+ */
+export type TopicDeleteMode = 'orphan-check' | 'cascade' | 'reparent';
+
+/**
+ * Everything deleting a topic changes
+ */
+export interface TopicDeletionPlan {
+  mode: TopicDeleteMode;
+  deletedTopics: Topic[]; // Latest versions, the deleted topic first and every descendant after its parent
+  deletedResources: Resource[];
+  movedTopics: Topic[]; // Children moved under newParentTopicId, as they are before the move
+  newParentTopicId: string | null; // Root topic ID of the parent the children move to, null for root topics
+}
+
+/**
+ * Where a copied topic goes and what is copied along with it
+ */
+export interface TopicCopyOptions {
+  targetParentId: string | null; // ID of any version of the parent of the copy, or null for a root topic
+  includeResources: boolean; // Copy the resources of every topic in the subtree
+  includeHistory: boolean; // Copy every version instead of only the latest
+}
+
+/**
+ * The result of copying a topic subtree
+ */
+export interface TopicCopy {
+  tree: TopicTree; // Latest versions of the copies, shaped like the copied tree
+  resources: Resource[]; // Copied resources, attached to the copied topics
+}
+
+/**
+ * Represents the differences between two versions of a topic
+ */
+export interface TopicVersionDiff {
+  rootTopicId: string;
+  fromVersion: number;
+  toVersion: number;
+  granularity: DiffGranularity;
+  name: DiffChange[];
+  content: DiffChange[];
+}
+
+/**
+ * An access control entry as given when replacing the entries of a topic
+ */
+export interface TopicAclEntryInput {
+  principalType: AclPrincipalType;
+  principalId: string;
+  permission: TopicPermission;
 } 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { User } from '../models/User';
+import { UserRole } from '../enums/UserRole';
+
+/**
+ * Interface for user management operations
+ * Every operation receives the user performing it
+ */
+export interface IUserService {
+  /**
+   * Gets all users, optionally restricted to one role
+   * @param actor The user performing the operation
+   * @param role Optional role of the users to return
+   * @returns Promise resolving to an array of users
+   */
+  getAllUsers(actor: User, role?: UserRole): Promise<User[]>;
+  
+  /**
+   * Gets a user by ID
+   * @param id The ID of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the user or null if not found
+   */
+  getUser(id: string, actor: User): Promise<User | null>;
+  
+  /**
+   * Creates a new user with a password
+   * @param name The name of the user
+   * @param email The email of the user
+   * @param password The password of the user
+   * @param role The role of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the created user
+   */
+  createUser(
+    name: string,
+    email: string,
+    password: string,
+    role: UserRole,
+    actor: User
+  ): Promise<User>;
+  
+  /**
+   * Updates the profile of a user
+   * @param id The ID of the user
+   * @param changes The profile fields to change
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   */
+  updateProfile(id: string, changes: UserProfileChanges, actor: User): Promise<User | null>;
+  
+  /**
+   * Changes the role of a user
+   * @param id The ID of the user
+   * @param role The new role
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   */
+  updateRole(id: string, role: UserRole, actor: User): Promise<User | null>;
+  
+  /**
+   * Replaces the groups a user belongs to
+   * @param id The ID of the user
+   * @param groups The names of the groups
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   */
+  updateGroups(id: string, groups: string[], actor: User): Promise<User | null>;
+  
+  /**
+   * Deletes a user
+   * @param id The ID of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to true if the user was deleted, false otherwise
+   */
+  deleteUser(id: string, actor: User): Promise<boolean>;
+}
+
+/**
+ * Profile fields a user can change about themselves
+ * Changing the password requires the current password
+ */
+export interface UserProfileChanges {
+  name?: string;
+  email?: string;
+  password?: string;
+  currentPassword?: string;
+}
@@ -0,0 +1,167 @@
+import { IResourceService, ResourceChanges } from './IResourceService';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { ResourceType } from '../enums/ResourceType';
+import { ResourceRepository } from '../repositories/ResourceRepository';
+import { TopicRepository } from '../repositories/TopicRepository';
+import { NotFoundError } from '../errors/NotFoundError';
+import { ValidationError } from '../errors/ValidationError';
+
+/**
+ * Service for resource operations
+ */
+export class ResourceService implements IResourceService {
+  private readonly resourceRepository: ResourceRepository;
+  private readonly topicRepository: TopicRepository;
+
+  /**
+   * Creates a new ResourceService instance
+   * @param resourceRepository The resource repository to use
+   * @param topicRepository The topic repository used to resolve topics
+   */
+  constructor(resourceRepository?: ResourceRepository, topicRepository?: TopicRepository) {
+    this.resourceRepository = resourceRepository || new ResourceRepository();
+    this.topicRepository = topicRepository || new TopicRepository();
+  }
+
+  /**
+   * Creates a new resource for a topic
+   * The resource is linked to the topic's root ID so it stays attached across versions
+   * @param topicId The ID of any version of the topic
+   * @param url The URL of the resource
+   * @param description A description of the resource
+   * @param type The type of the resource
+   * @param user The user creating the resource (not used in this implementation)
+   * @returns Promise resolving to the created resource
+   */
+  public async createResource(
+    topicId: string,
+    url: string,
+    description: string,
+    type: ResourceType,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<Resource> {
+    const topic = await this.topicRepository.findById(topicId);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${topicId} not found`);
+    }
+    
+    const resource = new Resource(topic.rootTopicId, url, description, type);
+    this.validateResource(resource);
+    
+    return this.resourceRepository.create(resource);
+  }
+
+  /**
+   * Gets a resource by ID
+   * @param id The ID of the resource
+   * @param user The user requesting the resource (not used in this implementation)
+   * @returns Promise resolving to the resource or null if not found
+   */
+  public async getResource(
+    id: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<Resource | null> {
+    return this.resourceRepository.findById(id);
+  }
+
+  /**
+   * Gets all resources, optionally restricted to one type
+   * @param user The user requesting the resources (not used in this implementation)
+   * @param type Optional type of resource to return
+   * @returns Promise resolving to an array of resources
+   */
+  public async getAllResources(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User,
+    type?: ResourceType
+  ): Promise<Resource[]> {
+    if (type) {
+      return this.resourceRepository.findByType(type);
+    }
+    
+    return this.resourceRepository.findAll();
+  }
+
+  /**
+   * Gets the resources of a topic
+   * @param topicId The ID of any version of the topic
+   * @param user The user requesting the resources (not used in this implementation)
+   * @returns Promise resolving to an array of resources
+   */
+  public async getResourcesByTopic(
+    topicId: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<Resource[]> {
+    const topic = await this.topicRepository.findById(topicId);
+    
+    if (!topic) {
+      throw new NotFoundError(`Topic with ID ${topicId} not found`);
+    }
+    
+    return this.resourceRepository.findByTopicId(topic.rootTopicId);
+  }
+
+  /**
+   * Updates a resource
+   * @param id The ID of the resource
+   * @param changes The fields to change
+   * @param user The user updating the resource (not used in this implementation)
+   * @returns Promise resolving to the updated resource or null if not found
+   */
+  public async updateResource(
+    id: string,
+    changes: ResourceChanges,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<Resource | null> {
+    const resource = await this.resourceRepository.findById(id);
+    
+    if (!resource) {
+      return null;
+    }
+    
+    // Validate the changed resource before it reaches the repository
+    this.validateResource(new Resource(
+      resource.topicId,
+      changes.url ?? resource.url,
+      changes.description ?? resource.description,
+      changes.type ?? resource.type,
+      resource.id
+    ));
+    
+    return this.resourceRepository.updateResource(
+      id,
+      changes.url,
+      changes.description,
+      changes.type
+    );
+  }
+
+  /**
+   * Moves a resource to the trash
+   * @param id The ID of the resource
+   * @param user The user deleting the resource, recorded as the one who trashed it
+   * @returns Promise resolving to true if the resource was trashed, false otherwise
+   */
+  public async deleteResource(id: string, user: User): Promise<boolean> {
+    return (await this.resourceRepository.trash(id, user.id)) !== null;
+  }
+
+  /**
+   * Validates a resource, prefixing failures so callers can tell them apart from other errors
+   * @param resource The resource to validate
+   * @throws ValidationError if the resource is invalid
+   */
+  private validateResource(resource: Resource): void {
+    try {
+      resource.validate();
+    } catch (error) {
+      throw new ValidationError(`Invalid resource: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
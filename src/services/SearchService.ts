@@ -0,0 +1,316 @@
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { TopicRepository } from '../repositories/TopicRepository';
+import { ResourceRepository } from '../repositories/ResourceRepository';
+import { TopicService } from './TopicService';
+import { TopicAccessStrategyFactory } from './strategies/TopicAccessStrategyFactory';
+import { ResourceAccessStrategyFactory } from './strategies/ResourceAccessStrategyFactory';
+import { InvertedIndex, IndexDocument, IndexHit } from '../search/InvertedIndex';
+
+/**
+ * Kinds of entity that can be searched
+ */
+export type SearchResultType = 'topic' | 'resource';
+
+/**
+ * A highlighted excerpt of one field of a search result
+ */
+export interface SearchSnippet {
+  field: string;
+  text: string;
+}
+
+/**
+ * An entity matching a search, with its relevance score and highlighted excerpts
+ * Topics are identified by their root topic ID, which stays the same across versions
+ */
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  score: number;
+  snippets: SearchSnippet[];
+  topicId?: string; // Root topic ID of the topic a resource belongs to
+}
+
+/**
+ * Options for a search
+ */
+export interface SearchOptions {
+  limit: number;
+  type?: SearchResultType;
+}
+
+/**
+ * Fields indexed for each kind of entity and how much a match in each counts
+ */
+const SEARCH_FIELDS: Record<SearchResultType, string[]> = {
+  topic: ['name', 'content'],
+  resource: ['description']
+};
+
+const FIELD_WEIGHTS: Record<string, number> = { name: 3, content: 1, description: 1 };
+
+/**
+ * Service for full-text search across topics and resources
+ * The index is shared by every instance, built from the database on the first search
+ * and kept up to date by the secure services as topics and resources change
+ */
+export class SearchService {
+  private static index: InvertedIndex | null = null;
+  private static building: Promise<InvertedIndex> | null = null;
+  private static entities: Map<string, Topic | Resource> = new Map();
+  private static generation = 0;
+
+  private readonly topicRepository: TopicRepository;
+  private readonly resourceRepository: ResourceRepository;
+  private readonly topicService: TopicService;
+
+  /**
+   * Creates a new SearchService instance
+   * @param topicRepository The topic repository the index is built from
+   * @param resourceRepository The resource repository the index is built from
+   * @param topicService The topic service used to look up access control lists
+   */
+  constructor(topicRepository?: TopicRepository, resourceRepository?: ResourceRepository, topicService?: TopicService) {
+    this.topicRepository = topicRepository || new TopicRepository();
+    this.resourceRepository = resourceRepository || new ResourceRepository();
+    this.topicService = topicService || new TopicService();
+  }
+
+  /**
+   * Discards the shared index so that the next search rebuilds it
+   * Useful for testing, and after the database is changed behind the services' back
+   */
+  public static clearIndex(): void {
+    SearchService.index = null;
+    SearchService.building = null;
+    SearchService.entities = new Map();
+    SearchService.generation++;
+  }
+
+  /**
+   * Searches topics and resources the user has permission to read
+   * @param query The search text
+   * @param user The user searching
+   * @param options The maximum number of results and, optionally, the kind of entity to return
+   * @returns Promise resolving to the best matching results, best first
+   */
+  public async search(query: string, user: User, options: SearchOptions): Promise<SearchResult[]> {
+    const index = await this.getIndex();
+    const aclResolver = await this.topicService.getAclResolver();
+    const topicStrategy = TopicAccessStrategyFactory.getStrategy(user, aclResolver);
+    const resourceStrategy = ResourceAccessStrategyFactory.getStrategy(user, aclResolver);
+    const results: SearchResult[] = [];
+    
+    for (const hit of index.search(query)) {
+      if (results.length >= options.limit) {
+        break;
+      }
+      
+      const type = this.typeOf(hit.id);
+      const entity = SearchService.entities.get(hit.id);
+      
+      if (!entity || (options.type && options.type !== type)) {
+        continue;
+      }
+      
+      const readable = type === 'topic'
+        ? topicStrategy.canReadTopic(user, entity as Topic)
+        : resourceStrategy.canReadResource(user, entity as Resource);
+      
+      if (readable) {
+        results.push(this.toResult(index, hit, type, entity));
+      }
+    }
+    
+    return results;
+  }
+
+  /**
+   * Adds the latest version of a topic to the index, replacing earlier versions
+   * @param topic The topic
+   */
+  public async indexTopic(topic: Topic): Promise<void> {
+    const index = await this.getBuiltIndex();
+    index?.add(this.topicDocument(topic));
+    this.remember(index, this.topicDocumentId(topic.rootTopicId), topic);
+  }
+
+  /**
+   * Removes a topic from the index
+   * @param rootTopicId The root topic ID of the topic
+   */
+  public async removeTopic(rootTopicId: string): Promise<void> {
+    const index = await this.getBuiltIndex();
+    index?.remove(this.topicDocumentId(rootTopicId));
+    this.remember(index, this.topicDocumentId(rootTopicId), null);
+  }
+
+  /**
+   * Adds a resource to the index, replacing any earlier state of it
+   * @param resource The resource
+   */
+  public async indexResource(resource: Resource): Promise<void> {
+    const index = await this.getBuiltIndex();
+    index?.add(this.resourceDocument(resource));
+    this.remember(index, this.resourceDocumentId(resource.id), resource);
+  }
+
+  /**
+   * Removes a resource from the index
+   * @param id The ID of the resource
+   */
+  public async removeResource(id: string): Promise<void> {
+    const index = await this.getBuiltIndex();
+    index?.remove(this.resourceDocumentId(id));
+    this.remember(index, this.resourceDocumentId(id), null);
+  }
+
+  /**
+   * Gets the shared index, building it from the database if needed
+   */
+  private async getIndex(): Promise<InvertedIndex> {
+    if (SearchService.index) {
+      return SearchService.index;
+    }
+    
+    if (!SearchService.building) {
+      SearchService.building = this.buildIndex();
+    }
+    
+    return SearchService.building;
+  }
+
+  /**
+   * Gets the shared index if it has been built or is being built
+   * Changes made before anyone has searched need no indexing: the first search builds the index from the database
+   */
+  private async getBuiltIndex(): Promise<InvertedIndex | null> {
+    return SearchService.index ?? SearchService.building ?? null;
+  }
+
+  /**
+   * Builds the index from the latest topics and all resources
+   */
+  private async buildIndex(): Promise<InvertedIndex> {
+    const generation = SearchService.generation;
+    const index = new InvertedIndex(FIELD_WEIGHTS);
+    const entities = new Map<string, Topic | Resource>();
+    
+    try {
+      for (const topic of await this.topicRepository.findLatestVersions()) {
+        index.add(this.topicDocument(topic));
+        entities.set(this.topicDocumentId(topic.rootTopicId), topic);
+      }
+      
+      for (const resource of await this.resourceRepository.findAll()) {
+        index.add(this.resourceDocument(resource));
+        entities.set(this.resourceDocumentId(resource.id), resource);
+      }
+    } catch (error) {
+      if (SearchService.generation === generation) {
+        SearchService.building = null;
+      }
+      
+      throw error;
+    }
+    
+    // The index may have been cleared while it was being built
+    if (SearchService.generation === generation) {
+      SearchService.index = index;
+      SearchService.building = null;
+      SearchService.entities = entities;
+    }
+    
+    return index;
+  }
+
+  /**
+   * Records the current state of an indexed entity, which search results are checked and built from
+   * @param index The index the change was applied to, or null if there is none yet
+   * @param documentId The ID of the document
+   * @param entity The entity, or null if it was removed
+   */
+  private remember(index: InvertedIndex | null, documentId: string, entity: Topic | Resource | null): void {
+    if (!index) {
+      return;
+    }
+    
+    if (entity) {
+      SearchService.entities.set(documentId, entity);
+    } else {
+      SearchService.entities.delete(documentId);
+    }
+  }
+
+  /**
+   * Builds a search result from an index hit
+   * @param index The index the hit came from
+   * @param hit The hit
+   * @param type The kind of entity
+   * @param entity The entity
+   */
+  private toResult(index: InvertedIndex, hit: IndexHit, type: SearchResultType, entity: Topic | Resource): SearchResult {
+    const snippets: SearchSnippet[] = [];
+    
+    for (const field of SEARCH_FIELDS[type]) {
+      const text = index.snippet(hit.id, field, hit.matchedTerms);
+      
+      if (text !== null) {
+        snippets.push({ field, text });
+      }
+    }
+    
+    const score = Math.round(hit.score * 10000) / 10000;
+    
+    if (type === 'topic') {
+      const topic = entity as Topic;
+      return { type, id: topic.rootTopicId, title: topic.name, score, snippets };
+    }
+    
+    const resource = entity as Resource;
+    return { type, id: resource.id, title: resource.url, score, snippets, topicId: resource.topicId };
+  }
+
+  /**
+   * Gets the kind of entity a document ID refers to
+   * @param documentId The ID of the document
+   */
+  private typeOf(documentId: string): SearchResultType {
+    return documentId.startsWith('topic:') ? 'topic' : 'resource';
+  }
+
+  /**
+   * Gets the document ID of a topic
+   * @param rootTopicId The root topic ID of the topic
+   */
+  private topicDocumentId(rootTopicId: string): string {
+    return `topic:${rootTopicId}`;
+  }
+
+  /**
+   * Gets the document ID of a resource
+   * @param id The ID of the resource
+   */
+  private resourceDocumentId(id: string): string {
+    return `resource:${id}`;
+  }
+
+  /**
+   * Builds the index document of a topic
+   * @param topic The topic
+   */
+  private topicDocument(topic: Topic): IndexDocument {
+    return { id: this.topicDocumentId(topic.rootTopicId), fields: { name: topic.name, content: topic.content } };
+  }
+
+  /**
+   * Builds the index document of a resource
+   * @param resource The resource
+   */
+  private resourceDocument(resource: Resource): IndexDocument {
+    return { id: this.resourceDocumentId(resource.id), fields: { description: resource.description } };
+  }
+}
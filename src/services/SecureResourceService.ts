@@ -0,0 +1,224 @@
+import { IResourceService, ResourceChanges } from './IResourceService';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { ResourceType } from '../enums/ResourceType';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { ResourceService } from './ResourceService';
+import { TopicService } from './TopicService';
+import { AuditService } from './AuditService';
+import { SearchService } from './SearchService';
+import { ResourceAccessStrategyFactory } from './strategies/ResourceAccessStrategyFactory';
+import { IResourceAccessStrategy } from './strategies/IResourceAccessStrategy';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
+
+/**
+ * Secure resource service that enforces access control
+ * Every change it lets through is recorded in the audit log and reflected in the search index
+ */
+export class SecureResourceService implements IResourceService {
+  private readonly resourceService: ResourceService;
+  private readonly topicService: TopicService;
+  private readonly auditService: AuditService;
+  private readonly searchService: SearchService;
+
+  /**
+   * Creates a new SecureResourceService instance
+   * @param resourceService The resource service to delegate to
+   * @param topicService The topic service used to look up topics and their access control lists
+   * @param auditService The audit service that records changes
+   * @param searchService The search service whose index is kept up to date
+   */
+  constructor(
+    resourceService?: ResourceService,
+    topicService?: TopicService,
+    auditService?: AuditService,
+    searchService?: SearchService
+  ) {
+    this.resourceService = resourceService || new ResourceService();
+    this.topicService = topicService || new TopicService();
+    this.auditService = auditService || new AuditService();
+    this.searchService = searchService || new SearchService(undefined, undefined, this.topicService);
+  }
+
+  /**
+   * Creates a new resource if the user has permission
+   * @param topicId The ID of any version of the topic
+   * @param url The URL of the resource
+   * @param description A description of the resource
+   * @param type The type of the resource
+   * @param user The user creating the resource
+   * @returns Promise resolving to the created resource
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async createResource(
+    topicId: string,
+    url: string,
+    description: string,
+    type: ResourceType,
+    user: User
+  ): Promise<Resource> {
+    const strategy = await this.getStrategy(user);
+    
+    // Access control lists are keyed by root topic ID, so resolve whichever version was given
+    const topic = await this.topicService.getTopic(topicId, user);
+    
+    if (!strategy.canCreateResource(user, topic ? topic.rootTopicId : topicId)) {
+      throw new PermissionDeniedError('User does not have permission to create resources');
+    }
+    
+    const resource = await this.resourceService.createResource(topicId, url, description, type, user);
+    await this.audit(user, AuditAction.CREATE, resource.id, undefined, resource);
+    await this.searchService.indexResource(resource);
+    
+    return resource;
+  }
+
+  /**
+   * Gets a resource by ID if the user has permission
+   * @param id The ID of the resource
+   * @param user The user requesting the resource
+   * @returns Promise resolving to the resource or null if not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async getResource(id: string, user: User): Promise<Resource | null> {
+    const resource = await this.resourceService.getResource(id, user);
+    
+    if (!resource) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    if (!strategy.canReadResource(user, resource)) {
+      throw new PermissionDeniedError('User does not have permission to read this resource');
+    }
+    
+    return resource;
+  }
+
+  /**
+   * Gets all resources the user has permission to read
+   * @param user The user requesting the resources
+   * @param type Optional type of resource to return
+   * @returns Promise resolving to an array of resources
+   */
+  public async getAllResources(user: User, type?: ResourceType): Promise<Resource[]> {
+    const resources = await this.resourceService.getAllResources(user, type);
+    const strategy = await this.getStrategy(user);
+    
+    return resources.filter(resource => strategy.canReadResource(user, resource));
+  }
+
+  /**
+   * Gets the resources of a topic the user has permission to read
+   * @param topicId The ID of any version of the topic
+   * @param user The user requesting the resources
+   * @returns Promise resolving to an array of resources
+   */
+  public async getResourcesByTopic(topicId: string, user: User): Promise<Resource[]> {
+    const resources = await this.resourceService.getResourcesByTopic(topicId, user);
+    const strategy = await this.getStrategy(user);
+    
+    return resources.filter(resource => strategy.canReadResource(user, resource));
+  }
+
+  /**
+   * Updates a resource if the user has permission
+   * @param id The ID of the resource
+   * @param changes The fields to change
+   * @param user The user updating the resource
+   * @returns Promise resolving to the updated resource or null if not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async updateResource(
+    id: string,
+    changes: ResourceChanges,
+    user: User
+  ): Promise<Resource | null> {
+    const resource = await this.resourceService.getResource(id, user);
+    
+    if (!resource) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    if (!strategy.canUpdateResource(user, resource)) {
+      throw new PermissionDeniedError('User does not have permission to update this resource');
+    }
+    
+    const updated = await this.resourceService.updateResource(id, changes, user);
+    
+    if (updated) {
+      await this.audit(user, AuditAction.UPDATE, id, resource, updated);
+      await this.searchService.indexResource(updated);
+    }
+    
+    return updated;
+  }
+
+  /**
+   * Deletes a resource if the user has permission
+   * @param id The ID of the resource
+   * @param user The user deleting the resource
+   * @returns Promise resolving to true if the resource was deleted, false otherwise
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async deleteResource(id: string, user: User): Promise<boolean> {
+    const resource = await this.resourceService.getResource(id, user);
+    
+    if (!resource) {
+      return false;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    if (!strategy.canDeleteResource(user, resource)) {
+      throw new PermissionDeniedError('User does not have permission to delete this resource');
+    }
+    
+    const deleted = await this.resourceService.deleteResource(id, user);
+    
+    if (deleted) {
+      await this.audit(user, AuditAction.DELETE, id, resource);
+      await this.searchService.removeResource(id);
+    }
+    
+    return deleted;
+  }
+
+  /**
+   * Gets the access strategy for a user, layered with the current access control lists
+   * @param user The user
+   */
+  private async getStrategy(user: User): Promise<IResourceAccessStrategy> {
+    const aclResolver = await this.topicService.getAclResolver();
+    return ResourceAccessStrategyFactory.getStrategy(user, aclResolver);
+  }
+
+  /**
+   * Records a change to a resource in the audit log
+   * @param user The user who made the change
+   * @param action The kind of change
+   * @param resourceId The ID of the changed resource
+   * @param before Optional state before the change
+   * @param after Optional state after the change
+   */
+  private async audit(
+    user: User,
+    action: AuditAction,
+    resourceId: string,
+    before?: unknown,
+    after?: unknown
+  ): Promise<void> {
+    await this.auditService.record({
+      actor: user,
+      action,
+      entityType: AuditEntityType.RESOURCE,
+      entityId: resourceId,
+      before,
+      after
+    });
+  }
+}
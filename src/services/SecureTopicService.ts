@@ -1,31 +1,64 @@
-import { ITopicService, TopicTree } from './ITopicService';
+import {
+  ITopicService,
+  TopicAclEntryInput,
+  TopicCopy,
+  TopicCopyOptions,
+  TopicDeleteMode,
+  TopicDeletionPlan,
+  TopicPage,
+  TopicTree,
+  TopicVersionDiff
+} from './ITopicService';
 import { Topic } from '../models/Topic';
 import { User } from '../models/User';
+import { TopicAclEntry } from '../models/TopicAclEntry';
 import { TopicService } from './TopicService';
+import { AuditService } from './AuditService';
+import { SearchService } from './SearchService';
+import { TopicAclResolver } from './TopicAclResolver';
 import { TopicAccessStrategyFactory } from './strategies/TopicAccessStrategyFactory';
+import { ITopicAccessStrategy } from './strategies/ITopicAccessStrategy';
+import { UserRole } from '../enums/UserRole';
+import { TopicPermission } from '../enums/TopicPermission';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { DiffGranularity } from '../utils/textDiff';
+import { DEFAULT_TOPIC_SORT_FIELD, TopicPageOptions, TopicPathOptions } from '../repositories/TopicRepository';
+import { toPagePosition } from '../database/PageQuery';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+import { NotFoundError } from '../errors/NotFoundError';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
 
 /**
  * Secure topic service that enforces access control
+ * Every change it lets through is recorded in the audit log and reflected in the search index
  */
 export class SecureTopicService implements ITopicService {
   private readonly topicService: TopicService;
+  private readonly auditService: AuditService;
+  private readonly searchService: SearchService;
 
   /**
    * Creates a new SecureTopicService instance
    * @param topicService The topic service to delegate to
+   * @param auditService The audit service that records changes
+   * @param searchService The search service whose index is kept up to date
    */
-  constructor(topicService?: TopicService) {
+  constructor(topicService?: TopicService, auditService?: AuditService, searchService?: SearchService) {
     this.topicService = topicService || new TopicService();
+    this.auditService = auditService || new AuditService();
+    this.searchService = searchService || new SearchService(undefined, undefined, this.topicService);
   }
 
   /**
    * Creates a new topic if the user has permission
+   * The topic and its audit entry are stored in one transaction
    * @param name The name of the topic
    * @param content The content of the topic
    * @param user The user creating the topic
    * @param parentTopicId Optional ID of the parent topic
    * @returns Promise resolving to the created topic
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async createTopic(
     name: string,
@@ -33,13 +66,24 @@ export class SecureTopicService implements ITopicService {
     user: User,
     parentTopicId?: string
   ): Promise<Topic> {
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
-    if (!strategy.canCreateTopic(user, parentTopicId)) {
-      throw new Error('User does not have permission to create topics');
+    // Access control lists are keyed by root topic ID, so resolve whichever version was given
+    const parentTopic = parentTopicId ? await this.topicService.getTopic(parentTopicId, user) : null;
+    
+    if (!strategy.canCreateTopic(user, parentTopic ? parentTopic.rootTopicId : parentTopicId)) {
+      throw new PermissionDeniedError('User does not have permission to create topics');
     }
     
-    return this.topicService.createTopic(name, content, user, parentTopicId);
+    const topic = await DatabaseFactory.transaction(async () => {
+      const created = await this.topicService.createTopic(name, content, user, parentTopicId);
+      await this.audit(user, AuditAction.CREATE, created.rootTopicId, undefined, created);
+      return created;
+    });
+    
+    await this.searchService.indexTopic(topic);
+    
+    return topic;
   }
 
   /**
@@ -47,7 +91,7 @@ export class SecureTopicService implements ITopicService {
    * @param id The ID of the topic
    * @param user The user requesting the topic
    * @returns Promise resolving to the topic or null if not found
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async getTopic(id: string, user: User): Promise<Topic | null> {
     const topic = await this.topicService.getTopic(id, user);
@@ -56,10 +100,10 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, topic)) {
-      throw new Error('User does not have permission to read this topic');
+      throw new PermissionDeniedError('User does not have permission to read this topic');
     }
     
     return topic;
@@ -67,18 +111,22 @@ export class SecureTopicService implements ITopicService {
 
   /**
    * Updates a topic if the user has permission
+   * The new version and its audit entry are stored in one transaction
    * @param id The ID of the topic to update
    * @param content The new content for the topic
    * @param user The user updating the topic
    * @param name Optional new name for the topic
+   * @param expectedVersion Optional version the update is based on
    * @returns Promise resolving to the updated topic
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
    */
   public async updateTopic(
     id: string,
     content: string,
     user: User,
-    name?: string
+    name?: string,
+    expectedVersion?: number
   ): Promise<Topic | null> {
     const topic = await this.topicService.getTopic(id, user);
     
@@ -86,36 +134,242 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canUpdateTopic(user, topic)) {
-      throw new Error('User does not have permission to update this topic');
+      throw new PermissionDeniedError('User does not have permission to update this topic');
+    }
+    
+    const updated = await DatabaseFactory.transaction(async () => {
+      const version = await this.topicService.updateTopic(id, content, user, name, expectedVersion);
+      
+      if (version) {
+        await this.audit(user, AuditAction.UPDATE, topic.rootTopicId, topic, version);
+      }
+      
+      return version;
+    });
+    
+    if (updated) {
+      await this.searchService.indexTopic(updated);
     }
     
-    return this.topicService.updateTopic(id, content, user, name);
+    return updated;
   }
 
   /**
    * Deletes a topic if the user has permission
+   * Cascading needs permission to delete every topic in the subtree, and reparenting
+   * needs permission to move every child. The deletion is planned and stored, along with its audit
+   * entries, in one transaction; the search index is updated once it has committed
    * @param id The ID of the topic to delete
    * @param user The user deleting the topic
+   * @param mode How to handle child topics; orphan-check refuses to delete a topic with children
+   * @param expectedVersion Optional version the deletion is based on
    * @returns Promise resolving to true if deleted, false if not found
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
+   */
+  public async deleteTopic(
+    id: string,
+    user: User,
+    mode: TopicDeleteMode = 'orphan-check',
+    expectedVersion?: number
+  ): Promise<boolean> {
+    const deletion = await DatabaseFactory.transaction(async () => {
+      // Planned in the same transaction, so no child can be added or moved between the checks and the writes
+      const plan = await this.planTopicDeletion(id, mode, user);
+      
+      if (!plan) {
+        return null;
+      }
+      
+      const versions = await this.topicService.executeTopicDeletion(plan, user, expectedVersion);
+      
+      for (const version of versions) {
+        const child = plan.movedTopics.find(candidate => candidate.rootTopicId === version.rootTopicId);
+        await this.audit(user, AuditAction.MOVE, version.rootTopicId, child, version);
+      }
+      
+      for (const resource of plan.deletedResources) {
+        await this.auditService.record({
+          actor: user,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.RESOURCE,
+          entityId: resource.id,
+          before: resource
+        });
+      }
+      
+      for (const topic of plan.deletedTopics) {
+        await this.audit(user, AuditAction.DELETE, topic.rootTopicId, topic);
+      }
+      
+      return { plan, moved: versions };
+    });
+    
+    if (!deletion) {
+      return false;
+    }
+    
+    const { plan, moved } = deletion;
+    
+    for (const version of moved) {
+      await this.searchService.indexTopic(version);
+    }
+    
+    for (const resource of plan.deletedResources) {
+      await this.searchService.removeResource(resource.id);
+    }
+    
+    for (const topic of plan.deletedTopics) {
+      await this.searchService.removeTopic(topic.rootTopicId);
+    }
+    
+    return true;
+  }
+
+  /**
+   * Works out what deleting a topic would change if the user has permission, without changing anything
+   * @param id The ID of the topic to delete
+   * @param mode How to handle child topics
+   * @param user The user deleting the topic
+   * @returns Promise resolving to the deletion plan or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission to carry out the deletion
    */
-  public async deleteTopic(id: string, user: User): Promise<boolean> {
+  public async planTopicDeletion(id: string, mode: TopicDeleteMode, user: User): Promise<TopicDeletionPlan | null> {
     const topic = await this.topicService.getTopic(id, user);
     
     if (!topic) {
-      return false;
+      return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canDeleteTopic(user, topic)) {
-      throw new Error('User does not have permission to delete this topic');
+      throw new PermissionDeniedError('User does not have permission to delete this topic');
     }
     
-    return this.topicService.deleteTopic(id, user);
+    const plan = await this.topicService.planTopicDeletion(id, mode, user);
+    
+    if (!plan) {
+      return null;
+    }
+    
+    if (!plan.deletedTopics.every(deleted => strategy.canDeleteTopic(user, deleted))) {
+      throw new PermissionDeniedError('User does not have permission to delete every topic in this subtree');
+    }
+    
+    const newParentTopicId = plan.newParentTopicId ?? undefined;
+    
+    if (!plan.movedTopics.every(child => strategy.canMoveTopic(user, child, newParentTopicId))) {
+      throw new PermissionDeniedError('User does not have permission to move the child topics');
+    }
+    
+    return plan;
+  }
+
+  /**
+   * Moves a topic under a new parent if the user has permission
+   * The move and its audit entry are stored in one transaction
+   * @param id The ID of any version of the topic
+   * @param newParentId The ID of any version of the new parent, or null to make the topic a root topic
+   * @param user The user moving the topic
+   * @returns Promise resolving to the moved topic or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async moveTopic(id: string, newParentId: string | null, user: User): Promise<Topic | null> {
+    const topic = await this.topicService.getTopic(id, user);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    // Access control lists are keyed by root topic ID, so resolve whichever version was given
+    const newParent = newParentId ? await this.topicService.getTopic(newParentId, user) : null;
+    
+    if (!strategy.canMoveTopic(user, topic, newParent ? newParent.rootTopicId : newParentId ?? undefined)) {
+      throw new PermissionDeniedError('User does not have permission to move this topic');
+    }
+    
+    const moved = await DatabaseFactory.transaction(async () => {
+      const version = await this.topicService.moveTopic(id, newParentId, user);
+      
+      if (version && version.id !== topic.id) {
+        await this.audit(user, AuditAction.MOVE, topic.rootTopicId, topic, version);
+      }
+      
+      return version;
+    });
+    
+    if (moved && moved.id !== topic.id) {
+      await this.searchService.indexTopic(moved);
+    }
+    
+    return moved;
+  }
+
+  /**
+   * Copies a topic and its subtree if the user has permission
+   * Only the topics of the tree the user can read are copied, and the user needs permission
+   * to create topics under the target parent. Copies take on the access control list of their
+   * new place in the hierarchy; the entries of the copied topics are not copied.
+   * The copy and its audit entries are stored in one transaction
+   * @param id The ID of any version of the topic to copy
+   * @param options Where to put the copy and what to copy along
+   * @param user The user copying the topic, who owns the copies
+   * @returns Promise resolving to the copy or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async copyTopic(id: string, options: TopicCopyOptions, user: User): Promise<TopicCopy | null> {
+    const tree = await this.getTopicTree(id, user);
+    
+    if (!tree) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    // Access control lists are keyed by root topic ID, so resolve whichever version was given
+    const targetParent = options.targetParentId
+      ? await this.topicService.getTopic(options.targetParentId, user)
+      : null;
+    
+    if (!strategy.canCreateTopic(user, targetParent ? targetParent.rootTopicId : options.targetParentId ?? undefined)) {
+      throw new PermissionDeniedError('User does not have permission to create topics at the destination');
+    }
+    
+    const copy = await DatabaseFactory.transaction(async () => {
+      const copied = await this.topicService.copyTopicTree(tree, options, user);
+      
+      for (const topic of this.flatten(copied.tree)) {
+        await this.audit(user, AuditAction.CREATE, topic.rootTopicId, undefined, topic);
+      }
+      
+      for (const resource of copied.resources) {
+        await this.auditService.record({
+          actor: user,
+          action: AuditAction.CREATE,
+          entityType: AuditEntityType.RESOURCE,
+          entityId: resource.id,
+          after: resource
+        });
+      }
+      
+      return copied;
+    });
+    
+    for (const topic of this.flatten(copy.tree)) {
+      await this.searchService.indexTopic(topic);
+    }
+    
+    for (const resource of copy.resources) {
+      await this.searchService.indexResource(resource);
+    }
+    
+    return copy;
   }
 
   /**
@@ -125,12 +379,63 @@ export class SecureTopicService implements ITopicService {
    */
   public async getAllTopics(user: User): Promise<Topic[]> {
     const topics = await this.topicService.getAllTopics(user);
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     // Filter out topics the user doesn't have permission to read
     return topics.filter(topic => strategy.canReadTopic(user, topic));
   }
 
+  /**
+   * Gets one page of the topics the user has permission to read
+   * Pages are read from the database until enough readable topics are found, so a page is only
+   * short when it is the last one
+   * @param options The filters, sort order and position of the page; parentTopicId may be the ID of any version
+   * @param user The user requesting the topics
+   * @returns Promise resolving to the page of topics
+   */
+  public async listTopics(options: TopicPageOptions, user: User): Promise<TopicPage> {
+    const strategy = await this.getStrategy(user);
+    const sortBy = options.sortBy ?? DEFAULT_TOPIC_SORT_FIELD;
+    const items: Topic[] = [];
+    let after = options.after;
+    
+    for (;;) {
+      const page = await this.topicService.listTopics({ ...options, after }, user);
+      
+      for (const [index, topic] of page.items.entries()) {
+        if (!strategy.canReadTopic(user, topic)) {
+          continue;
+        }
+        
+        items.push(topic);
+        
+        if (items.length === options.limit) {
+          const more = index < page.items.length - 1 || page.next !== null;
+          return { items, next: more ? toPagePosition(topic, sortBy) : null };
+        }
+      }
+      
+      if (!page.next) {
+        return { items, next: null };
+      }
+      
+      after = page.next;
+    }
+  }
+
+  /**
+   * Gets the topics the user owns and still has permission to read
+   * @param user The user whose topics to list
+   * @returns Promise resolving to an array of owned topics
+   */
+  public async getOwnedTopics(user: User): Promise<Topic[]> {
+    const topics = await this.topicService.getOwnedTopics(user);
+    const strategy = await this.getStrategy(user);
+    
+    // An ACL may have narrowed access to a topic since the user created it
+    return topics.filter(topic => strategy.canReadTopic(user, topic));
+  }
+
   /**
    * Gets all root topics the user has permission to read
    * @param user The user requesting the topics
@@ -138,7 +443,7 @@ export class SecureTopicService implements ITopicService {
    */
   public async getRootTopics(user: User): Promise<Topic[]> {
     const topics = await this.topicService.getRootTopics(user);
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     // Filter out topics the user doesn't have permission to read
     return topics.filter(topic => strategy.canReadTopic(user, topic));
@@ -149,20 +454,20 @@ export class SecureTopicService implements ITopicService {
    * @param parentId The ID of the parent topic
    * @param user The user requesting the topics
    * @returns Promise resolving to an array of child topics
-   * @throws Error if the user doesn't have permission to read the parent topic
+   * @throws PermissionDeniedError if the user doesn't have permission to read the parent topic
    */
   public async getChildTopics(parentId: string, user: User): Promise<Topic[]> {
     // First check if the user can read the parent topic
     const parentTopic = await this.topicService.getTopic(parentId, user);
     
     if (!parentTopic) {
-      throw new Error(`Parent topic with ID ${parentId} not found`);
+      throw new NotFoundError(`Parent topic with ID ${parentId} not found`);
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, parentTopic)) {
-      throw new Error('User does not have permission to read the parent topic');
+      throw new PermissionDeniedError('User does not have permission to read the parent topic');
     }
     
     const topics = await this.topicService.getChildTopics(parentId, user);
@@ -177,7 +482,7 @@ export class SecureTopicService implements ITopicService {
    * @param version The version number
    * @param user The user requesting the topic
    * @returns Promise resolving to the topic version or null if not found
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async getTopicVersion(
     rootTopicId: string,
@@ -190,10 +495,10 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, topic)) {
-      throw new Error('User does not have permission to read this topic version');
+      throw new PermissionDeniedError('User does not have permission to read this topic version');
     }
     
     return topic;
@@ -210,7 +515,7 @@ export class SecureTopicService implements ITopicService {
     user: User
   ): Promise<Topic[]> {
     const topics = await this.topicService.getAllTopicVersions(rootTopicId, user);
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     // Filter out topics the user doesn't have permission to read
     return topics.filter(topic => strategy.canReadTopic(user, topic));
@@ -221,7 +526,7 @@ export class SecureTopicService implements ITopicService {
    * @param rootTopicId The ID of the root topic
    * @param user The user requesting the topic
    * @returns Promise resolving to the latest topic version or null if not found
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async getLatestTopicVersion(
     rootTopicId: string,
@@ -233,21 +538,92 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, topic)) {
-      throw new Error('User does not have permission to read this topic version');
+      throw new PermissionDeniedError('User does not have permission to read this topic version');
     }
     
     return topic;
   }
 
+  /**
+   * Compares two versions of a topic if the user has permission to read it
+   * @param id The ID of any version of the topic
+   * @param fromVersion The version number to compare from
+   * @param toVersion The version number to compare to
+   * @param user The user requesting the diff
+   * @param granularity Whether to compare lines or words
+   * @returns Promise resolving to the diff or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async diffTopicVersions(
+    id: string,
+    fromVersion: number,
+    toVersion: number,
+    user: User,
+    granularity?: DiffGranularity
+  ): Promise<TopicVersionDiff | null> {
+    const topic = await this.topicService.getTopic(id, user);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    if (!strategy.canReadTopic(user, topic)) {
+      throw new PermissionDeniedError('User does not have permission to read this topic');
+    }
+    
+    return this.topicService.diffTopicVersions(id, fromVersion, toVersion, user, granularity);
+  }
+
+  /**
+   * Reverts a topic to an earlier version if the user has permission to update it
+   * The new version and its audit entry are stored in one transaction
+   * @param id The ID of any version of the topic
+   * @param version The version number to revert to
+   * @param user The user reverting the topic
+   * @returns Promise resolving to the new version or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async revertTopic(id: string, version: number, user: User): Promise<Topic | null> {
+    const topic = await this.topicService.getTopic(id, user);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const strategy = await this.getStrategy(user);
+    
+    if (!strategy.canUpdateTopic(user, topic)) {
+      throw new PermissionDeniedError('User does not have permission to update this topic');
+    }
+    
+    const reverted = await DatabaseFactory.transaction(async () => {
+      const newVersion = await this.topicService.revertTopic(id, version, user);
+      
+      if (newVersion) {
+        await this.audit(user, AuditAction.UPDATE, topic.rootTopicId, topic, newVersion);
+      }
+      
+      return newVersion;
+    });
+    
+    if (reverted) {
+      await this.searchService.indexTopic(reverted);
+    }
+    
+    return reverted;
+  }
+
   /**
    * Gets a topic tree if the user has permission to read the topic
    * @param topicId The ID of the topic
    * @param user The user requesting the topic tree
    * @returns Promise resolving to the topic tree or null if not found
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async getTopicTree(topicId: string, user: User): Promise<TopicTree | null> {
     const topic = await this.topicService.getTopic(topicId, user);
@@ -256,10 +632,10 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, topic)) {
-      throw new Error('User does not have permission to read this topic');
+      throw new PermissionDeniedError('User does not have permission to read this topic');
     }
     
     const tree = await this.topicService.getTopicTree(topicId, user);
@@ -282,7 +658,7 @@ export class SecureTopicService implements ITopicService {
   private filterTopicTree(
     tree: TopicTree,
     user: User,
-    strategy = TopicAccessStrategyFactory.getStrategy(user)
+    strategy: ITopicAccessStrategy
   ): TopicTree {
     // Filter children recursively
     const filteredChildren = tree.children
@@ -295,18 +671,39 @@ export class SecureTopicService implements ITopicService {
     };
   }
 
+  /**
+   * Lists the topics of a tree, level by level from the top
+   * @param tree The topic tree
+   * @returns The topics, each after its parent
+   */
+  private flatten(tree: TopicTree): Topic[] {
+    const topics: Topic[] = [];
+    const pending = [tree];
+    
+    while (pending.length > 0) {
+      const node = pending.shift() as TopicTree;
+      topics.push(node.topic);
+      pending.push(...node.children);
+    }
+    
+    return topics;
+  }
+
   /**
    * Finds the shortest path between two topics if the user has permission
+   * Topics the user cannot read are skipped while searching for the path
    * @param startTopicId The ID of the start topic
    * @param endTopicId The ID of the end topic
    * @param user The user requesting the path
+   * @param options Optional constraints on depth and direction
    * @returns Promise resolving to an array of topics representing the path
-   * @throws Error if the user doesn't have permission
+   * @throws PermissionDeniedError if the user doesn't have permission
    */
   public async findPath(
     startTopicId: string,
     endTopicId: string,
-    user: User
+    user: User,
+    options: TopicPathOptions = {}
   ): Promise<Topic[] | null> {
     const startTopic = await this.topicService.getTopic(startTopicId, user);
     const endTopic = await this.topicService.getTopic(endTopicId, user);
@@ -315,13 +712,16 @@ export class SecureTopicService implements ITopicService {
       return null;
     }
     
-    const strategy = TopicAccessStrategyFactory.getStrategy(user);
+    const strategy = await this.getStrategy(user);
     
     if (!strategy.canReadTopic(user, startTopic) || !strategy.canReadTopic(user, endTopic)) {
-      throw new Error('User does not have permission to read one of the topics');
+      throw new PermissionDeniedError('User does not have permission to read one of the topics');
     }
     
-    const path = await this.topicService.findPath(startTopicId, endTopicId, user);
+    const path = await this.topicService.findPath(startTopicId, endTopicId, user, {
+      ...options,
+      canVisit: topic => strategy.canReadTopic(user, topic)
+    });
     
     if (!path) {
       return null;
@@ -330,10 +730,118 @@ export class SecureTopicService implements ITopicService {
     // Check if the user can read all topics in the path
     for (const topic of path) {
       if (!strategy.canReadTopic(user, topic)) {
-        throw new Error('User does not have permission to read one of the topics in the path');
+        throw new PermissionDeniedError('User does not have permission to read one of the topics in the path');
       }
     }
     
     return path;
   }
+
+  /**
+   * Gets the access control entries of a topic if the user may manage them
+   * @param id The ID of any version of the topic
+   * @param user The user requesting the entries
+   * @returns Promise resolving to the entries or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async getTopicAcl(id: string, user: User): Promise<TopicAclEntry[] | null> {
+    const topic = await this.topicService.getTopic(id, user);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    if (!(await this.canManageAcl(user, topic))) {
+      throw new PermissionDeniedError('User does not have permission to manage access to this topic');
+    }
+    
+    return this.topicService.getTopicAcl(id, user);
+  }
+
+  /**
+   * Replaces the access control entries of a topic if the user may manage them
+   * The new entries and their audit entry are stored in one transaction
+   * @param id The ID of any version of the topic
+   * @param entries The new entries
+   * @param user The user changing the entries
+   * @returns Promise resolving to the stored entries or null if the topic is not found
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async setTopicAcl(
+    id: string,
+    entries: TopicAclEntryInput[],
+    user: User
+  ): Promise<TopicAclEntry[] | null> {
+    const topic = await this.topicService.getTopic(id, user);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    if (!(await this.canManageAcl(user, topic))) {
+      throw new PermissionDeniedError('User does not have permission to manage access to this topic');
+    }
+    
+    return DatabaseFactory.transaction(async () => {
+      const previous = await this.topicService.getTopicAcl(id, user);
+      const stored = await this.topicService.setTopicAcl(id, entries, user);
+      
+      if (stored) {
+        await this.audit(user, AuditAction.ACL_CHANGE, topic.rootTopicId, previous, stored);
+      }
+      
+      return stored;
+    });
+  }
+
+  /**
+   * Gets the access strategy for a user, layered with the current access control lists
+   * @param user The user
+   */
+  private async getStrategy(user: User): Promise<ITopicAccessStrategy> {
+    const aclResolver = await this.topicService.getAclResolver();
+    return TopicAccessStrategyFactory.getStrategy(user, aclResolver);
+  }
+
+  /**
+   * Records a change to a topic in the audit log
+   * @param user The user who made the change
+   * @param action The kind of change
+   * @param rootTopicId The root topic ID of the changed topic
+   * @param before Optional state before the change
+   * @param after Optional state after the change
+   */
+  private async audit(
+    user: User,
+    action: AuditAction,
+    rootTopicId: string,
+    before?: unknown,
+    after?: unknown
+  ): Promise<void> {
+    await this.auditService.record({
+      actor: user,
+      action,
+      entityType: AuditEntityType.TOPIC,
+      entityId: rootTopicId,
+      before,
+      after
+    });
+  }
+
+  /**
+   * Checks if a user may manage the access control entries of a topic
+   * Admins always may; other users need the manage permission on the topic
+   * @param user The user
+   * @param topic The topic
+   */
+  private async canManageAcl(user: User, topic: Topic): Promise<boolean> {
+    if (user.role === UserRole.ADMIN) {
+      return true;
+    }
+    
+    const aclResolver = await this.topicService.getAclResolver();
+    const permission = aclResolver?.getPermission(user, topic);
+    
+    return permission !== undefined && TopicAclResolver.allows(permission, TopicPermission.MANAGE);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,230 @@
+import { IUserService, UserProfileChanges } from './IUserService';
+import { User } from '../models/User';
+import { UserRole } from '../enums/UserRole';
+import { UserService } from './UserService';
+import { AuditService } from './AuditService';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
+import { ValidationError } from '../errors/ValidationError';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+
+/**
+ * Secure user service that enforces access control
+ * Only admins manage other users; every user can read and update their own profile
+ * Every change it lets through is recorded in the audit log, in the transaction that makes the change
+ */
+export class SecureUserService implements IUserService {
+  private readonly userService: UserService;
+  private readonly auditService: AuditService;
+
+  /**
+   * Creates a new SecureUserService instance
+   * @param userService The user service to delegate to
+   * @param auditService The audit service that records changes
+   */
+  constructor(userService?: UserService, auditService?: AuditService) {
+    this.userService = userService || new UserService();
+    this.auditService = auditService || new AuditService();
+  }
+
+  /**
+   * Gets all users if the actor is an admin
+   * @param actor The user performing the operation
+   * @param role Optional role of the users to return
+   * @returns Promise resolving to an array of users
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async getAllUsers(actor: User, role?: UserRole): Promise<User[]> {
+    this.requireAdmin(actor, 'User does not have permission to list users');
+    
+    return this.userService.getAllUsers(actor, role);
+  }
+
+  /**
+   * Gets a user by ID if the actor is an admin or the user themselves
+   * @param id The ID of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the user or null if not found
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async getUser(id: string, actor: User): Promise<User | null> {
+    if (actor.id !== id) {
+      this.requireAdmin(actor, 'User does not have permission to read this user');
+    }
+    
+    return this.userService.getUser(id, actor);
+  }
+
+  /**
+   * Creates a new user if the actor is an admin
+   * @param name The name of the user
+   * @param email The email of the user
+   * @param password The password of the user
+   * @param role The role of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the created user
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async createUser(
+    name: string,
+    email: string,
+    password: string,
+    role: UserRole,
+    actor: User
+  ): Promise<User> {
+    this.requireAdmin(actor, 'User does not have permission to create users');
+    
+    return DatabaseFactory.transaction(async () => {
+      const user = await this.userService.createUser(name, email, password, role, actor);
+      await this.audit(actor, AuditAction.CREATE, user.id, undefined, user);
+      
+      return user;
+    });
+  }
+
+  /**
+   * Updates the profile of a user if the actor is that user
+   * @param id The ID of the user
+   * @param changes The profile fields to change
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async updateProfile(
+    id: string,
+    changes: UserProfileChanges,
+    actor: User
+  ): Promise<User | null> {
+    if (actor.id !== id) {
+      throw new PermissionDeniedError('User does not have permission to update this profile');
+    }
+    
+    return DatabaseFactory.transaction(async () => {
+      const before = await this.userService.getUser(id, actor);
+      const updated = await this.userService.updateProfile(id, changes, actor);
+      
+      if (updated) {
+        await this.audit(actor, AuditAction.UPDATE, id, before, updated);
+      }
+      
+      return updated;
+    });
+  }
+
+  /**
+   * Changes the role of a user if the actor is an admin
+   * Admins cannot change their own role, so the last admin cannot lock everyone out
+   * @param id The ID of the user
+   * @param role The new role
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async updateRole(id: string, role: UserRole, actor: User): Promise<User | null> {
+    this.requireAdmin(actor, 'User does not have permission to change roles');
+    
+    if (actor.id === id) {
+      throw new ValidationError('Invalid user: Admins cannot change their own role');
+    }
+    
+    return DatabaseFactory.transaction(async () => {
+      const before = await this.userService.getUser(id, actor);
+      const updated = await this.userService.updateRole(id, role, actor);
+      
+      if (updated) {
+        await this.audit(actor, AuditAction.ROLE_CHANGE, id, before, updated);
+      }
+      
+      return updated;
+    });
+  }
+
+  /**
+   * Replaces the groups of a user if the actor is an admin
+   * @param id The ID of the user
+   * @param groups The names of the groups
+   * @param actor The user performing the operation
+   * @returns Promise resolving to the updated user or null if not found
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async updateGroups(id: string, groups: string[], actor: User): Promise<User | null> {
+    this.requireAdmin(actor, 'User does not have permission to change groups');
+    
+    return DatabaseFactory.transaction(async () => {
+      const before = await this.userService.getUser(id, actor);
+      const updated = await this.userService.updateGroups(id, groups, actor);
+      
+      if (updated) {
+        await this.audit(actor, AuditAction.GROUP_CHANGE, id, before, updated);
+      }
+      
+      return updated;
+    });
+  }
+
+  /**
+   * Deletes a user if the actor is an admin
+   * Admins cannot delete their own account
+   * @param id The ID of the user
+   * @param actor The user performing the operation
+   * @returns Promise resolving to true if the user was deleted, false otherwise
+   * @throws PermissionDeniedError if the actor doesn't have permission
+   */
+  public async deleteUser(id: string, actor: User): Promise<boolean> {
+    this.requireAdmin(actor, 'User does not have permission to delete users');
+    
+    if (actor.id === id) {
+      throw new ValidationError('Invalid user: Admins cannot delete their own account');
+    }
+    
+    return DatabaseFactory.transaction(async () => {
+      const before = await this.userService.getUser(id, actor);
+      const deleted = await this.userService.deleteUser(id, actor);
+      
+      if (deleted) {
+        await this.audit(actor, AuditAction.DELETE, id, before);
+      }
+      
+      return deleted;
+    });
+  }
+
+  /**
+   * Records a change to a user in the audit log
+   * The snapshots come from User.toJSON, so password hashes never reach the log
+   * @param actor The user who made the change
+   * @param action The kind of change
+   * @param userId The ID of the changed user
+   * @param before Optional state before the change
+   * @param after Optional state after the change
+   */
+  private async audit(
+    actor: User,
+    action: AuditAction,
+    userId: string,
+    before?: User | null,
+    after?: User
+  ): Promise<void> {
+    await this.auditService.record({
+      actor,
+      action,
+      entityType: AuditEntityType.USER,
+      entityId: userId,
+      before,
+      after
+    });
+  }
+
+  /**
+   * Throws unless the actor is an admin
+   * @param actor The user performing the operation
+   * @param message The error message used when the actor is not an admin
+   * @throws PermissionDeniedError if the actor is not an admin
+   */
+  private requireAdmin(actor: User, message: string): void {
+    if (actor.role !== UserRole.ADMIN) {
+      throw new PermissionDeniedError(message);
+    }
+  }
+}
@@ -0,0 +1,201 @@
+import * as crypto from 'crypto';
+import { User } from '../models/User';
+import { UserRole } from '../enums/UserRole';
+import { AuthenticationError } from '../errors/AuthenticationError';
+import { positiveIntegerFromEnv } from '../utils/env';
+
+/**
+ * Claims carried by an access token
+ */
+export interface AccessTokenClaims {
+  sub: string; // ID of the user
+  role: UserRole;
+  iss: string;
+  iat: number; // Issued at, in seconds since the epoch
+  exp: number; // Expiry, in seconds since the epoch
+}
+
+/**
+ * Settings used to sign and verify tokens
+ */
+export interface TokenConfig {
+  secret: string;
+  issuer: string;
+  accessTokenTtlSeconds: number;
+  refreshTokenTtlSeconds: number;
+}
+
+/**
+ * A freshly issued token
+ */
+export interface IssuedToken {
+  token: string;
+  expiresIn: number; // Lifetime in seconds
+}
+
+// Used when AUTH_TOKEN_SECRET is not set outside production; tokens stop working on restart
+const developmentSecret = crypto.randomBytes(32).toString('hex');
+
+// Example values that must never sign tokens, since anyone reading the docs knows them
+const PLACEHOLDER_SECRETS = ['change-me', 'changeme', 'secret'];
+
+/**
+ * Encodes a value as unpadded base64url
+ * @param value The value to encode
+ */
+const base64UrlEncode = (value: string | Buffer): string =>
+  Buffer.from(value).toString('base64url');
+
+/**
+ * Service for issuing and verifying signed access tokens
+ * Tokens use the JWT compact format signed with HMAC-SHA256
+ */
+export class TokenService {
+  private readonly config: TokenConfig;
+
+  /**
+   * Creates a new TokenService instance
+   * Settings not given fall back to the AUTH_TOKEN_SECRET, AUTH_TOKEN_ISSUER,
+   * AUTH_ACCESS_TOKEN_TTL and AUTH_REFRESH_TOKEN_TTL environment variables
+   * @param config Optional token settings
+   * @throws Error if a lifetime set in the environment is not a positive whole number
+   * @throws Error if AUTH_TOKEN_SECRET is a placeholder, or is not set in production
+   */
+  constructor(config: Partial<TokenConfig> = {}) {
+    this.config = {
+      secret: config.secret ?? TokenService.getSecretFromEnv(),
+      issuer: config.issuer ?? process.env.AUTH_TOKEN_ISSUER ?? 'knowledge-base-api',
+      accessTokenTtlSeconds: config.accessTokenTtlSeconds
+        ?? positiveIntegerFromEnv('AUTH_ACCESS_TOKEN_TTL', 900),
+      refreshTokenTtlSeconds: config.refreshTokenTtlSeconds
+        ?? positiveIntegerFromEnv('AUTH_REFRESH_TOKEN_TTL', 1209600)
+    };
+  }
+
+  /**
+   * Issues an access token for a user
+   * @param user The user the token is issued to
+   * @param now The current time in milliseconds
+   * @returns The signed token and its lifetime
+   */
+  public issueAccessToken(user: User, now: number = Date.now()): IssuedToken {
+    const issuedAt = Math.floor(now / 1000);
+    const claims: AccessTokenClaims = {
+      sub: user.id,
+      role: user.role,
+      iss: this.config.issuer,
+      iat: issuedAt,
+      exp: issuedAt + this.config.accessTokenTtlSeconds
+    };
+
+    return {
+      token: this.sign(claims),
+      expiresIn: this.config.accessTokenTtlSeconds
+    };
+  }
+
+  /**
+   * Verifies the signature, issuer and expiry of an access token
+   * @param token The token to verify
+   * @param now The current time in milliseconds
+   * @returns The claims carried by the token
+   * @throws AuthenticationError if the token is malformed, tampered with, from another issuer or expired
+   */
+  public verifyAccessToken(token: string, now: number = Date.now()): AccessTokenClaims {
+    const parts = token.split('.');
+
+    if (parts.length !== 3) {
+      throw new AuthenticationError('Invalid token');
+    }
+
+    const [header, payload, signature] = parts;
+    const expected = Buffer.from(this.createSignature(`${header}.${payload}`));
+    const actual = Buffer.from(signature);
+
+    // timingSafeEqual throws on buffers of different byte lengths, which non-ASCII characters can cause
+    if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+      throw new AuthenticationError('Invalid token');
+    }
+
+    let claims: AccessTokenClaims;
+
+    try {
+      claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8')) as AccessTokenClaims;
+    } catch (error) {
+      throw new AuthenticationError('Invalid token');
+    }
+
+    if (claims.iss !== this.config.issuer || typeof claims.sub !== 'string') {
+      throw new AuthenticationError('Invalid token');
+    }
+
+    if (typeof claims.exp !== 'number' || claims.exp <= Math.floor(now / 1000)) {
+      throw new AuthenticationError('Token expired');
+    }
+
+    return claims;
+  }
+
+  /**
+   * Generates an opaque refresh token
+   * Refresh tokens are random values; only their hash is stored
+   * @returns The token value and its lifetime
+   */
+  public generateRefreshToken(): IssuedToken {
+    return {
+      token: base64UrlEncode(crypto.randomBytes(32)),
+      expiresIn: this.config.refreshTokenTtlSeconds
+    };
+  }
+
+  /**
+   * Hashes a refresh token for storage and lookup
+   * @param token The refresh token value
+   */
+  public hashRefreshToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  /**
+   * Serializes and signs a set of claims
+   * @param claims The claims to sign
+   */
+  private sign(claims: AccessTokenClaims): string {
+    const header = base64UrlEncode(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+    const payload = base64UrlEncode(JSON.stringify(claims));
+
+    return `${header}.${payload}.${this.createSignature(`${header}.${payload}`)}`;
+  }
+
+  /**
+   * Creates the HMAC-SHA256 signature of a value
+   * @param value The value to sign
+   */
+  private createSignature(value: string): string {
+    return base64UrlEncode(
+      crypto.createHmac('sha256', this.config.secret).update(value).digest()
+    );
+  }
+
+  /**
+   * Reads the signing secret from the environment
+   * @throws Error if the secret is a placeholder, or if no secret is configured in production
+   */
+  private static getSecretFromEnv(): string {
+    const secret = process.env.AUTH_TOKEN_SECRET;
+
+    if (secret && PLACEHOLDER_SECRETS.includes(secret.toLowerCase())) {
+      throw new Error(`AUTH_TOKEN_SECRET must not be the placeholder "${secret}"; set it to a long random value`);
+    }
+
+    if (secret) {
+      return secret;
+    }
+
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('AUTH_TOKEN_SECRET must be set in production');
+    }
+
+    return developmentSecret;
+  }
+}
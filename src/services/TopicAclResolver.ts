@@ -0,0 +1,108 @@
+import { Topic } from '../models/Topic';
+import { User } from '../models/User';
+import { TopicAclEntry } from '../models/TopicAclEntry';
+import { AclPrincipalType } from '../enums/AclPrincipalType';
+import { TopicPermission } from '../enums/TopicPermission';
+
+// Permission levels from weakest to strongest
+const permissionOrder: TopicPermission[] = [
+  TopicPermission.NONE,
+  TopicPermission.READ,
+  TopicPermission.WRITE,
+  TopicPermission.MANAGE
+];
+
+/**
+ * Resolves the permission a user has on a topic from access control entries
+ * 
+ * The nearest topic up the parent chain that has any entries decides: a user entry
+ * there wins, otherwise the strongest matching group entry, otherwise no access.
+ * Entries on a descendant replace the inherited ones, which is how a subtree is made
+ * private or opened up again. If no topic on the chain has entries, the resolver
+ * returns undefined and the role-based rules apply.
+ * 
+ * The resolver works on a snapshot of the entries and the topic hierarchy so that
+ * access strategies can use it synchronously.
+ */
+export class TopicAclResolver {
+  private readonly entriesByTopic: Map<string, TopicAclEntry[]> = new Map();
+  private readonly parentByTopic: Map<string, string | undefined> = new Map();
+
+  /**
+   * Creates a new TopicAclResolver instance
+   * @param entries All access control entries
+   * @param topics The latest version of every topic below a topic with entries; other topics may be left out,
+   * since no entries apply to them
+   */
+  constructor(entries: TopicAclEntry[], topics: Topic[]) {
+    for (const entry of entries) {
+      const topicEntries = this.entriesByTopic.get(entry.topicId) || [];
+      topicEntries.push(entry);
+      this.entriesByTopic.set(entry.topicId, topicEntries);
+    }
+    
+    for (const topic of topics) {
+      this.parentByTopic.set(topic.rootTopicId, topic.parentTopicId);
+    }
+  }
+
+  /**
+   * Gets the permission a user has on a topic
+   * @param user The user
+   * @param topic The topic, or its root topic ID
+   * @returns The permission, or undefined if no access control entries apply
+   */
+  public getPermission(user: User, topic: Topic | string): TopicPermission | undefined {
+    const visited = new Set<string>();
+    let topicId: string | undefined = typeof topic === 'string' ? topic : topic.rootTopicId;
+    
+    while (topicId && !visited.has(topicId)) {
+      visited.add(topicId);
+      
+      const entries = this.entriesByTopic.get(topicId);
+      
+      if (entries && entries.length > 0) {
+        return this.resolveEntries(user, entries);
+      }
+      
+      topicId = this.parentByTopic.get(topicId);
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Checks if a granted permission includes a required one
+   * @param granted The permission granted
+   * @param required The permission required
+   */
+  public static allows(granted: TopicPermission, required: TopicPermission): boolean {
+    return permissionOrder.indexOf(granted) >= permissionOrder.indexOf(required);
+  }
+
+  /**
+   * Picks the permission a user gets from the entries of a single topic
+   * @param user The user
+   * @param entries The entries attached to the topic
+   */
+  private resolveEntries(user: User, entries: TopicAclEntry[]): TopicPermission {
+    const userEntry = entries.find(entry =>
+      entry.principalType === AclPrincipalType.USER && entry.principalId === user.id
+    );
+    
+    if (userEntry) {
+      return userEntry.permission;
+    }
+    
+    return entries
+      .filter(entry =>
+        entry.principalType === AclPrincipalType.GROUP && user.groups.includes(entry.principalId)
+      )
+      .map(entry => entry.permission)
+      .reduce(
+        (strongest, permission) =>
+          TopicAclResolver.allows(permission, strongest) ? permission : strongest,
+        TopicPermission.NONE
+      );
+  }
+}
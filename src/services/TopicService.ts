@@ -1,34 +1,69 @@
-import { ITopicService, TopicTree } from './ITopicService';
+import {
+  ITopicService,
+  TopicAclEntryInput,
+  TopicCopy,
+  TopicCopyOptions,
+  TopicDeleteMode,
+  TopicDeletionPlan,
+  TopicPage,
+  TopicTree,
+  TopicVersionDiff
+} from './ITopicService';
 import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
 import { User } from '../models/User';
-import { TopicRepository } from '../repositories/TopicRepository';
+import { TopicAclEntry } from '../models/TopicAclEntry';
+import {
+  DEFAULT_TOPIC_SORT_FIELD,
+  TopicPageOptions,
+  TopicPathOptions,
+  TopicRepository
+} from '../repositories/TopicRepository';
+import { toPagePosition } from '../database/PageQuery';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+import { TopicAclRepository } from '../repositories/TopicAclRepository';
+import { ResourceRepository } from '../repositories/ResourceRepository';
+import { TopicAclResolver } from './TopicAclResolver';
+import { DiffGranularity, diffText } from '../utils/textDiff';
+import { ConflictError } from '../errors/ConflictError';
+import { NotFoundError } from '../errors/NotFoundError';
 
 /**
  * Service for topic operations
  */
 export class TopicService implements ITopicService {
   private readonly topicRepository: TopicRepository;
+  private readonly topicAclRepository: TopicAclRepository;
+  private readonly resourceRepository: ResourceRepository;
 
   /**
    * Creates a new TopicService instance
    * @param topicRepository The topic repository to use
+   * @param topicAclRepository The repository for topic access control entries
+   * @param resourceRepository The resource repository, used to delete and copy the resources of subtrees
    */
-  constructor(topicRepository?: TopicRepository) {
+  constructor(
+    topicRepository?: TopicRepository,
+    topicAclRepository?: TopicAclRepository,
+    resourceRepository?: ResourceRepository
+  ) {
     this.topicRepository = topicRepository || new TopicRepository();
+    this.topicAclRepository = topicAclRepository || new TopicAclRepository();
+    this.resourceRepository = resourceRepository || new ResourceRepository();
   }
 
   /**
    * Creates a new topic
    * @param name The name of the topic
    * @param content The content of the topic
-   * @param user The user creating the topic (not used in this implementation)
+   * @param user The user creating the topic, who becomes its owner
    * @param parentTopicId Optional ID of the parent topic
    * @returns Promise resolving to the created topic
+   * @throws NotFoundError if the parent topic does not exist
    */
   public async createTopic(
     name: string,
     content: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User,
     parentTopicId?: string
   ): Promise<Topic> {
@@ -36,19 +71,31 @@ export class TopicService implements ITopicService {
       const parentTopic = await this.topicRepository.findById(parentTopicId);
       
       if (!parentTopic) {
-        throw new Error(`Parent topic with ID ${parentTopicId} not found`);
+        throw new NotFoundError(`Parent topic with ID ${parentTopicId} not found`);
       }
       
-      return this.topicRepository.createChildTopic(parentTopicId, name, content) as Promise<Topic>;
+      return this.topicRepository.createChildTopic(parentTopicId, name, content, user.id) as Promise<Topic>;
     }
     
-    const topic = new Topic(name, content);
+    const topic = new Topic(
+      name,
+      content,
+      1,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      user.id, // The creator owns the topic
+      user.id  // and wrote its first version
+    );
     return this.topicRepository.create(topic);
   }
 
   /**
-   * Gets a topic by ID
-   * @param id The ID of the topic
+   * Gets the latest version of a topic by ID
+   * @param id The ID of any version of the topic
    * @param user The user requesting the topic (not used in this implementation)
    * @returns Promise resolving to the topic or null if not found
    */
@@ -57,50 +104,344 @@ export class TopicService implements ITopicService {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User
   ): Promise<Topic | null> {
-    return this.topicRepository.findById(id);
+    return this.topicRepository.findLatestById(id);
   }
 
   /**
    * Updates a topic, creating a new version
    * @param id The ID of the topic to update
    * @param content The new content for the topic
-   * @param user The user updating the topic (not used in this implementation)
+   * @param user The user updating the topic, recorded as the author of the new version
    * @param name Optional new name for the topic
+   * @param expectedVersion Optional version the update is based on
    * @returns Promise resolving to the updated topic
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
    */
   public async updateTopic(
     id: string,
     content: string,
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User,
-    name?: string
+    name?: string,
+    expectedVersion?: number
   ): Promise<Topic | null> {
-    return this.topicRepository.createNewVersion(id, content, name);
+    return this.topicRepository.createNewVersion(id, content, name, user.id, expectedVersion);
   }
 
   /**
-   * Deletes a topic
-   * @param id The ID of the topic to delete
-   * @param user The user deleting the topic (not used in this implementation)
-   * @returns Promise resolving to true if deleted, false if not found
+   * Moves a topic, including all of its versions, to the trash
+   * @param id The ID of any version of the topic to delete
+   * @param user The user deleting the topic, recorded as the author of moved children
+   * @param mode How to handle child topics; orphan-check refuses to delete a topic with children
+   * @param expectedVersion Optional version the deletion is based on
+   * @returns Promise resolving to true if trashed, false if not found
+   * @throws ConflictError if the mode is orphan-check and the topic has child topics
+   * @throws PreconditionFailedError if the topic is no longer at the expected version
    */
   public async deleteTopic(
-    id: string, 
+    id: string,
+    user: User,
+    mode: TopicDeleteMode = 'orphan-check',
+    expectedVersion?: number
+  ): Promise<boolean> {
+    // Planned in the transaction that carries the plan out, so no topic can be added under it in between
+    return DatabaseFactory.transaction(async () => {
+      const plan = await this.planTopicDeletion(id, mode, user);
+      
+      if (!plan) {
+        return false;
+      }
+      
+      await this.executeTopicDeletion(plan, user, expectedVersion);
+      return true;
+    });
+  }
+
+  /**
+   * Works out what deleting a topic would change, without changing anything
+   * The resources of every deleted topic are deleted with it, whatever the mode
+   * @param id The ID of any version of the topic to delete
+   * @param mode How to handle child topics
+   * @param user The user deleting the topic (not used in this implementation)
+   * @returns Promise resolving to the deletion plan or null if the topic is not found
+   * @throws ConflictError if the mode is orphan-check and the topic has child topics
+   */
+  public async planTopicDeletion(
+    id: string,
+    mode: TopicDeleteMode,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User
-  ): Promise<boolean> {
-    // First, check if the topic has child topics
-    const childTopics = await this.topicRepository.findByParentId(id);
+  ): Promise<TopicDeletionPlan | null> {
+    const topic = await this.topicRepository.findLatestById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const children = await this.topicRepository.findByParentId(topic.rootTopicId);
+    const plan: TopicDeletionPlan = {
+      mode,
+      deletedTopics: [topic],
+      deletedResources: [],
+      movedTopics: [],
+      newParentTopicId: null
+    };
+    
+    if (mode === 'orphan-check' && children.length > 0) {
+      throw new ConflictError('Cannot delete a topic with child topics');
+    }
+    
+    if (mode === 'reparent') {
+      plan.movedTopics = children;
+      plan.newParentTopicId = topic.parentTopicId ?? null;
+    }
+    
+    if (mode === 'cascade') {
+      plan.deletedTopics = await this.findSubtree(topic);
+    }
+    
+    // Resources go with their topic in every mode; left behind they would point at a trashed topic
+    for (const deleted of plan.deletedTopics) {
+      plan.deletedResources.push(...await this.resourceRepository.findByTopicId(deleted.rootTopicId));
+    }
+    
+    return plan;
+  }
+
+  /**
+   * Carries out a deletion plan
+   * Children are moved first, then resources and topics are moved to the trash, leaves before their parents.
+   * Everything trashed together shares one deletion date, which is how the trash restores it together.
+   * All steps run in one transaction, so if a step fails none of them take effect. Call it in the
+   * transaction the plan was made in, or the topics it lists may have changed since
+   * @param plan The plan, as returned by planTopicDeletion
+   * @param user The user deleting the topic, recorded as the author of moved children
+   * @param expectedVersion Optional version of the deleted topic the deletion is based on
+   * @returns Promise resolving to the new versions of the moved children
+   * @throws PreconditionFailedError if the deleted topic is no longer at the expected version
+   */
+  public async executeTopicDeletion(plan: TopicDeletionPlan, user: User, expectedVersion?: number): Promise<Topic[]> {
+    const deletedAt = new Date();
+    const [deletedTopic] = plan.deletedTopics;
+    
+    // Fail before changing anything; the check is repeated when the topic itself is trashed
+    deletedTopic.assertVersion(expectedVersion);
+    
+    return DatabaseFactory.transaction(async () => {
+      const moved: Topic[] = [];
+      
+      for (const child of plan.movedTopics) {
+        const newParentTopicId = plan.newParentTopicId ?? undefined;
+        const version = await this.topicRepository.createMovedVersion(child.rootTopicId, newParentTopicId, user.id);
+        
+        if (version) {
+          moved.push(version);
+        }
+      }
+      
+      for (const resource of plan.deletedResources) {
+        await this.resourceRepository.trash(resource.id, user.id, deletedAt);
+      }
+      
+      for (const topic of [...plan.deletedTopics].reverse()) {
+        await this.topicRepository.trashAllVersions(
+          topic.rootTopicId,
+          user.id,
+          deletedAt,
+          topic === deletedTopic ? expectedVersion : undefined
+        );
+      }
+      
+      return moved;
+    });
+  }
+
+  /**
+   * Collects a topic and all of its descendants, each after its parent
+   * A cycle already present in the data is only followed once
+   * @param topic The latest version of the topic at the top of the subtree
+   */
+  private async findSubtree(topic: Topic): Promise<Topic[]> {
+    const subtree = [topic];
+    const visited = new Set([topic.rootTopicId]);
+    
+    for (let index = 0; index < subtree.length; index++) {
+      for (const child of await this.topicRepository.findByParentId(subtree[index].rootTopicId)) {
+        if (!visited.has(child.rootTopicId)) {
+          visited.add(child.rootTopicId);
+          subtree.push(child);
+        }
+      }
+    }
+    
+    return subtree;
+  }
+
+  /**
+   * Moves a topic under a new parent, creating a new version
+   * Moving a topic to the parent it already has changes nothing
+   * @param id The ID of any version of the topic
+   * @param newParentId The ID of any version of the new parent, or null to make the topic a root topic
+   * @param user The user moving the topic, recorded as the author of the new version
+   * @returns Promise resolving to the moved topic or null if the topic is not found
+   * @throws NotFoundError if the new parent does not exist
+   * @throws ConflictError if the new parent is the topic itself or one of its descendants
+   */
+  public async moveTopic(
+    id: string,
+    newParentId: string | null,
+    user: User
+  ): Promise<Topic | null> {
+    // Checking for cycles in the same transaction as the move keeps two crossing moves from both passing
+    return DatabaseFactory.transaction(async () => {
+      const topic = await this.topicRepository.findLatestById(id);
+      
+      if (!topic) {
+        return null;
+      }
+      
+      let newParentTopicId: string | undefined;
+      
+      // Children point at the root topic ID of their parent
+      if (newParentId) {
+        const newParent = await this.topicRepository.findById(newParentId);
+        
+        if (!newParent) {
+          throw new NotFoundError(`Parent topic with ID ${newParentId} not found`);
+        }
+        
+        newParentTopicId = newParent.rootTopicId;
+        
+        if (await this.isInSubtree(newParentTopicId, topic.rootTopicId)) {
+          throw new ConflictError('Cannot move a topic into its own subtree');
+        }
+      }
+      
+      if (newParentTopicId === topic.parentTopicId) {
+        return topic;
+      }
+      
+      return this.topicRepository.createMovedVersion(topic.rootTopicId, newParentTopicId, user.id);
+    });
+  }
+
+  /**
+   * Checks whether a topic is another topic or one of its descendants by walking up its ancestors
+   * A cycle already present in the data ends the walk instead of looping forever
+   * @param rootTopicId Root topic ID of the topic to check
+   * @param ancestorRootTopicId Root topic ID of the possible ancestor
+   */
+  private async isInSubtree(rootTopicId: string, ancestorRootTopicId: string): Promise<boolean> {
+    const visited = new Set<string>();
+    let current: string | undefined = rootTopicId;
+    
+    while (current && !visited.has(current)) {
+      if (current === ancestorRootTopicId) {
+        return true;
+      }
+      
+      visited.add(current);
+      current = (await this.topicRepository.findLatestVersion(current))?.parentTopicId;
+    }
+    
+    return false;
+  }
+
+  /**
+   * Copies a topic and its subtree under a parent, giving every copy a fresh ID
+   * @param id The ID of any version of the topic to copy
+   * @param options Where to put the copy and what to copy along
+   * @param user The user copying the topic, who owns the copies
+   * @returns Promise resolving to the copy or null if the topic is not found
+   * @throws NotFoundError if the target parent does not exist
+   */
+  public async copyTopic(id: string, options: TopicCopyOptions, user: User): Promise<TopicCopy | null> {
+    const tree = await this.getTopicTree(id, user);
+    return tree ? this.copyTopicTree(tree, options, user) : null;
+  }
+
+  /**
+   * Copies the topics of a tree, parents before their children
+   * Copies point at the copy of their parent, and the top of the tree at the target parent.
+   * Copying a tree into itself is allowed, since only the topics in the tree as given are copied.
+   * The copy is made in one transaction, so if a step fails nothing is copied
+   * @param tree The tree to copy, as returned by getTopicTree
+   * @param options Where to put the copy and what to copy along
+   * @param user The user copying the topics, who owns the copies
+   * @returns Promise resolving to the copy
+   * @throws NotFoundError if the target parent does not exist
+   */
+  public async copyTopicTree(tree: TopicTree, options: TopicCopyOptions, user: User): Promise<TopicCopy> {
+    let targetParentTopicId: string | undefined;
+    
+    if (options.targetParentId) {
+      const targetParent = await this.topicRepository.findById(options.targetParentId);
+      
+      if (!targetParent) {
+        throw new NotFoundError(`Parent topic with ID ${options.targetParentId} not found`);
+      }
+      
+      targetParentTopicId = targetParent.rootTopicId;
+    }
+    
+    return DatabaseFactory.transaction(async () => {
+      const resources: Resource[] = [];
+      const copied = await this.copyNode(tree, targetParentTopicId, options, user, resources);
+      
+      return { tree: copied, resources };
+    });
+  }
+
+  /**
+   * Copies one node of a topic tree and then its children under the copy
+   * @param node The node to copy
+   * @param parentTopicId Root topic ID of the parent of the copy
+   * @param options What to copy along
+   * @param user The user copying the topics
+   * @param resources Collects the copied resources
+   * @returns Promise resolving to the copied node
+   */
+  private async copyNode(
+    node: TopicTree,
+    parentTopicId: string | undefined,
+    options: TopicCopyOptions,
+    user: User,
+    resources: Resource[]
+  ): Promise<TopicTree> {
+    const history = options.includeHistory
+      ? await this.topicRepository.findAllVersions(node.topic.rootTopicId)
+      : [];
+    const versions = history.length > 0 ? history : [node.topic];
+    const copies: Topic[] = [];
+    
+    for (const version of versions) {
+      // Copied history keeps its authors; a plain copy is written by the user copying it
+      const authorId = options.includeHistory ? version.authorId : user.id;
+      const created = await this.topicRepository.create(
+        version.copyTo(parentTopicId, user.id, authorId, copies[copies.length - 1])
+      );
+      copies.push(created);
+    }
+    
+    const copy = copies[copies.length - 1];
     
-    if (childTopics.length > 0) {
-      throw new Error('Cannot delete a topic with child topics');
+    if (options.includeResources) {
+      for (const resource of await this.resourceRepository.findByTopicId(node.topic.rootTopicId)) {
+        const created = await this.resourceRepository.create(resource.copyTo(copy.rootTopicId));
+        resources.push(created);
+      }
+    }
+    
+    const children: TopicTree[] = [];
+    
+    for (const child of node.children) {
+      children.push(await this.copyNode(child, copy.rootTopicId, options, user, resources));
     }
     
-    return this.topicRepository.delete(id);
+    return { topic: copy, children };
   }
 
   /**
-   * Gets all topics
+   * Gets the latest version of all topics
    * @param user The user requesting the topics (not used in this implementation)
    * @returns Promise resolving to an array of all topics
    */
@@ -108,7 +449,50 @@ export class TopicService implements ITopicService {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User
   ): Promise<Topic[]> {
-    return this.topicRepository.findAll();
+    return this.topicRepository.findLatestVersions();
+  }
+
+  /**
+   * Gets one page of the latest topic versions
+   * @param options The filters, sort order and position of the page; parentTopicId may be the ID of any version
+   * @param user The user requesting the topics (not used in this implementation)
+   * @returns Promise resolving to the page of topics
+   * @throws NotFoundError if the parent topic does not exist
+   */
+  public async listTopics(
+    options: TopicPageOptions,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<TopicPage> {
+    let { parentTopicId } = options;
+    
+    // Children point at the root topic ID of their parent
+    if (parentTopicId) {
+      const parentTopic = await this.topicRepository.findById(parentTopicId);
+      
+      if (!parentTopic) {
+        throw new NotFoundError(`Parent topic with ID ${parentTopicId} not found`);
+      }
+      
+      parentTopicId = parentTopic.rootTopicId;
+    }
+    
+    const page = await this.topicRepository.findLatestPage({ ...options, parentTopicId });
+    const last = page.items[page.items.length - 1];
+    
+    return {
+      items: page.items,
+      next: page.hasMore && last ? toPagePosition(last, options.sortBy ?? DEFAULT_TOPIC_SORT_FIELD) : null
+    };
+  }
+
+  /**
+   * Gets the latest version of every topic the user owns
+   * @param user The user whose topics to list
+   * @returns Promise resolving to an array of owned topics
+   */
+  public async getOwnedTopics(user: User): Promise<Topic[]> {
+    return this.topicRepository.findByOwner(user.id);
   }
 
   /**
@@ -125,7 +509,7 @@ export class TopicService implements ITopicService {
 
   /**
    * Gets all child topics for a parent topic
-   * @param parentId The ID of the parent topic
+   * @param parentId The ID of any version of the parent topic
    * @param user The user requesting the topics (not used in this implementation)
    * @returns Promise resolving to an array of child topics
    */
@@ -134,7 +518,13 @@ export class TopicService implements ITopicService {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User
   ): Promise<Topic[]> {
-    return this.topicRepository.findByParentId(parentId);
+    const parentTopic = await this.topicRepository.findById(parentId);
+    
+    if (!parentTopic) {
+      return [];
+    }
+    
+    return this.topicRepository.findByParentId(parentTopic.rootTopicId);
   }
 
   /**
@@ -181,6 +571,84 @@ export class TopicService implements ITopicService {
     return this.topicRepository.findLatestVersion(rootTopicId);
   }
 
+  /**
+   * Compares the name and content of two versions of a topic
+   * @param id The ID of any version of the topic
+   * @param fromVersion The version number to compare from
+   * @param toVersion The version number to compare to
+   * @param user The user requesting the diff (not used in this implementation)
+   * @param granularity Whether to compare lines or words
+   * @returns Promise resolving to the diff or null if the topic is not found
+   * @throws NotFoundError if either version does not exist
+   */
+  public async diffTopicVersions(
+    id: string,
+    fromVersion: number,
+    toVersion: number,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User,
+    granularity: DiffGranularity = 'line'
+  ): Promise<TopicVersionDiff | null> {
+    const topic = await this.topicRepository.findById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const from = await this.findExistingVersion(topic.rootTopicId, fromVersion);
+    const to = await this.findExistingVersion(topic.rootTopicId, toVersion);
+    
+    return {
+      rootTopicId: topic.rootTopicId,
+      fromVersion,
+      toVersion,
+      granularity,
+      name: diffText(from.name, to.name, granularity),
+      content: diffText(from.content, to.content, granularity)
+    };
+  }
+
+  /**
+   * Reverts a topic to an earlier version by creating a new version with its name and content
+   * @param id The ID of any version of the topic
+   * @param version The version number to revert to
+   * @param user The user reverting the topic, recorded as the author of the new version
+   * @returns Promise resolving to the new version or null if the topic is not found
+   * @throws NotFoundError if the version does not exist
+   */
+  public async revertTopic(
+    id: string,
+    version: number,
+    user: User
+  ): Promise<Topic | null> {
+    const topic = await this.topicRepository.findById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    const target = await this.findExistingVersion(topic.rootTopicId, version);
+    
+    return this.topicRepository.createNewVersion(topic.rootTopicId, target.content, target.name, user.id);
+  }
+
+  /**
+   * Finds a specific version of a topic, failing if it does not exist
+   * @param rootTopicId The ID of the root topic
+   * @param version The version number
+   * @returns Promise resolving to the topic version
+   * @throws NotFoundError if the version does not exist
+   */
+  private async findExistingVersion(rootTopicId: string, version: number): Promise<Topic> {
+    const topic = await this.topicRepository.findVersion(rootTopicId, version);
+    
+    if (!topic) {
+      throw new NotFoundError(`Version ${version} of topic ${rootTopicId} not found`);
+    }
+    
+    return topic;
+  }
+
   /**
    * Gets a topic tree, including the topic and all its children recursively
    * @param topicId The ID of the root topic for the tree
@@ -192,15 +660,15 @@ export class TopicService implements ITopicService {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     user: User
   ): Promise<TopicTree | null> {
-    // Get the topic
-    const topic = await this.topicRepository.findById(topicId);
+    // Get the latest version of the topic
+    const topic = await this.topicRepository.findLatestById(topicId);
     
     if (!topic) {
       return null;
     }
     
     // Get all children recursively
-    const children = await this.topicRepository.findAllChildrenRecursive(topicId);
+    const children = await this.topicRepository.findAllChildrenRecursive(topic.rootTopicId);
     
     // Build the tree
     const tree: TopicTree = {
@@ -208,9 +676,9 @@ export class TopicService implements ITopicService {
       children: []
     };
     
-    // Map of topic ID to its tree node
+    // Map of root topic ID to its tree node (children reference their parent's root topic ID)
     const topicMap = new Map<string, TopicTree>();
-    topicMap.set(topic.id, tree);
+    topicMap.set(topic.rootTopicId, tree);
     
     // For each child, find its parent in the map and add it to the parent's children
     if (children && Array.isArray(children)) {
@@ -229,7 +697,7 @@ export class TopicService implements ITopicService {
           parentTree.children.push(childTree);
         }
         
-        topicMap.set(child.id, childTree);
+        topicMap.set(child.rootTopicId, childTree);
       }
     }
     
@@ -241,14 +709,101 @@ export class TopicService implements ITopicService {
    * @param startTopicId The ID of the starting topic
    * @param endTopicId The ID of the ending topic
    * @param user The user requesting the path (not used in this implementation)
+   * @param options Optional constraints on depth, direction and visitable topics
    * @returns Promise resolving to an array of topics representing the path, or null if no path exists
    */
   public async findPath(
     startTopicId: string,
     endTopicId: string,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    user: User
+    user: User,
+    options: TopicPathOptions = {}
   ): Promise<Topic[] | null> {
-    return this.topicRepository.findPath(startTopicId, endTopicId);
+    return this.topicRepository.findPath(startTopicId, endTopicId, options);
+  }
+
+  /**
+   * Gets the access control entries attached to a topic
+   * @param id The ID of any version of the topic
+   * @param user The user requesting the entries (not used in this implementation)
+   * @returns Promise resolving to the entries or null if the topic is not found
+   */
+  public async getTopicAcl(
+    id: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<TopicAclEntry[] | null> {
+    const topic = await this.topicRepository.findById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    return this.topicAclRepository.findByTopicId(topic.rootTopicId);
+  }
+
+  /**
+   * Replaces the access control entries attached to a topic
+   * @param id The ID of any version of the topic
+   * @param entries The new entries
+   * @param user The user changing the entries (not used in this implementation)
+   * @returns Promise resolving to the stored entries or null if the topic is not found
+   */
+  public async setTopicAcl(
+    id: string,
+    entries: TopicAclEntryInput[],
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    user: User
+  ): Promise<TopicAclEntry[] | null> {
+    const topic = await this.topicRepository.findById(id);
+    
+    if (!topic) {
+      return null;
+    }
+    
+    return this.topicAclRepository.replaceForTopic(
+      topic.rootTopicId,
+      entries.map(entry => new TopicAclEntry(
+        topic.rootTopicId,
+        entry.principalType,
+        entry.principalId,
+        entry.permission
+      ))
+    );
+  }
+
+  /**
+   * Builds a resolver for the access control entries of all topics
+   * Only the subtrees below topics with entries are loaded, walking down through the parent index;
+   * topics outside of them have no entries to inherit
+   * @returns Promise resolving to the resolver, or null if no topic has entries
+   */
+  public async getAclResolver(): Promise<TopicAclResolver | null> {
+    const entries = await this.topicAclRepository.findAll();
+    
+    if (entries.length === 0) {
+      return null;
+    }
+    
+    const descendants: Topic[] = [];
+    const pending = Array.from(new Set(entries.map(entry => entry.topicId)));
+    const visited = new Set<string>();
+    
+    while (pending.length > 0) {
+      const topicId = pending.pop() as string;
+      
+      if (visited.has(topicId)) {
+        continue;
+      }
+      
+      visited.add(topicId);
+      
+      for (const child of await this.topicRepository.findByParentId(topicId)) {
+        descendants.push(child);
+        pending.push(child.rootTopicId);
+      }
+    }
+    
+    return new TopicAclResolver(entries, descendants);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,290 @@
+import { Topic } from '../models/Topic';
+import { Resource } from '../models/Resource';
+import { User } from '../models/User';
+import { AuditAction } from '../enums/AuditAction';
+import { AuditEntityType } from '../enums/AuditEntityType';
+import { UserRole } from '../enums/UserRole';
+import { TopicRepository } from '../repositories/TopicRepository';
+import { ResourceRepository } from '../repositories/ResourceRepository';
+import { TopicAclRepository } from '../repositories/TopicAclRepository';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+import { AuditService } from './AuditService';
+import { SearchService } from './SearchService';
+import { ConflictError } from '../errors/ConflictError';
+import { PermissionDeniedError } from '../errors/PermissionDeniedError';
+import { positiveIntegerFromEnv } from '../utils/env';
+
+/**
+ * Topics and resources in the trash, or taken out of it
+ */
+export interface TrashContents {
+  topics: Topic[]; // Latest version of each topic
+  resources: Resource[];
+}
+
+/**
+ * What a purge of the trash removed for good
+ */
+export interface TrashPurgeResult {
+  topicIds: string[]; // Root topic IDs
+  resourceIds: string[];
+}
+
+/**
+ * Settings of the trash
+ */
+export interface TrashConfig {
+  retentionDays: number; // Days an entity stays in the trash before it is purged
+}
+
+const MILLISECONDS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Service for the trash that deleted topics and resources are moved to
+ * Listing and restoring are reserved for admins; every restore is recorded in the audit log
+ */
+export class TrashService {
+  private readonly topicRepository: TopicRepository;
+  private readonly resourceRepository: ResourceRepository;
+  private readonly topicAclRepository: TopicAclRepository;
+  private readonly auditService: AuditService;
+  private readonly searchService: SearchService;
+  private readonly config: TrashConfig;
+
+  /**
+   * Creates a new TrashService instance
+   * A retention period not given falls back to the TRASH_RETENTION_DAYS environment variable
+   * @param topicRepository The topic repository to use
+   * @param resourceRepository The resource repository to use
+   * @param topicAclRepository The repository for topic access control entries, removed with purged topics
+   * @param auditService The audit service that records restores
+   * @param searchService The search service whose index is kept up to date
+   * @param config Optional trash settings
+   * @throws Error if TRASH_RETENTION_DAYS is not a positive whole number
+   */
+  constructor(
+    topicRepository?: TopicRepository,
+    resourceRepository?: ResourceRepository,
+    topicAclRepository?: TopicAclRepository,
+    auditService?: AuditService,
+    searchService?: SearchService,
+    config: Partial<TrashConfig> = {}
+  ) {
+    this.topicRepository = topicRepository || new TopicRepository();
+    this.resourceRepository = resourceRepository || new ResourceRepository();
+    this.topicAclRepository = topicAclRepository || new TopicAclRepository();
+    this.auditService = auditService || new AuditService();
+    this.searchService = searchService || new SearchService(this.topicRepository, this.resourceRepository);
+    this.config = {
+      retentionDays: config.retentionDays ?? positiveIntegerFromEnv('TRASH_RETENTION_DAYS', 30)
+    };
+  }
+
+  /**
+   * Gets everything in the trash if the user is an admin
+   * @param user The user reading the trash
+   * @returns Promise resolving to the trashed topics and resources, most recently deleted first
+   * @throws PermissionDeniedError if the user doesn't have permission
+   */
+  public async getTrash(user: User): Promise<TrashContents> {
+    this.assertAdmin(user);
+    
+    const topics = await this.topicRepository.findTrashedLatestVersions();
+    const resources = await this.resourceRepository.findTrashed();
+    
+    return {
+      topics: topics.sort((a, b) => this.deletionTime(b) - this.deletionTime(a)),
+      resources: resources.sort((a, b) => this.deletionTime(b) - this.deletionTime(a))
+    };
+  }
+
+  /**
+   * Takes a topic or resource back out of the trash if the user is an admin
+   * A topic comes back with the descendants and resources that were deleted together with it,
+   * all in one transaction with their audit entries, so a failed step restores nothing
+   * @param id The ID of any version of a trashed topic, or of a trashed resource
+   * @param user The user restoring the entity
+   * @returns Promise resolving to what was restored, or null if the ID is not in the trash
+   * @throws PermissionDeniedError if the user doesn't have permission
+   * @throws ConflictError if the parent topic of the entity is not available to restore it under
+   */
+  public async restore(id: string, user: User): Promise<TrashContents | null> {
+    this.assertAdmin(user);
+    
+    const topic = await this.topicRepository.findTrashedById(id);
+    
+    if (topic) {
+      return this.restoreTopic(topic, user);
+    }
+    
+    const resource = await this.resourceRepository.findTrashedById(id);
+    
+    if (resource) {
+      return this.restoreResource(resource, user);
+    }
+    
+    return null;
+  }
+
+  /**
+   * Removes for good everything that has been in the trash longer than the retention period
+   * The access control entries of purged topics go with them, all in one transaction
+   * @param now The current time
+   * @returns Promise resolving to the IDs of the purged topics and resources
+   */
+  public async purgeExpired(now: Date = new Date()): Promise<TrashPurgeResult> {
+    const cutoff = new Date(now.getTime() - this.config.retentionDays * MILLISECONDS_PER_DAY);
+    
+    return DatabaseFactory.transaction(async () => {
+      const resources = await this.resourceRepository.purgeTrashedBefore(cutoff);
+      const topics = await this.topicRepository.purgeTrashedBefore(cutoff);
+      const topicIds = Array.from(new Set(topics.map(topic => topic.rootTopicId)));
+      
+      for (const topicId of topicIds) {
+        await this.topicAclRepository.deleteByTopicId(topicId);
+      }
+      
+      return {
+        topicIds,
+        resourceIds: resources.map(resource => resource.id)
+      };
+    });
+  }
+
+  /**
+   * Restores a trashed topic with the subtree and resources deleted together with it
+   * @param topic Any trashed version of the topic
+   * @param user The user restoring the topic
+   */
+  private async restoreTopic(topic: Topic, user: User): Promise<TrashContents> {
+    if (topic.parentTopicId && !(await this.topicRepository.findLatestVersion(topic.parentTopicId))) {
+      throw new ConflictError('Cannot restore a topic whose parent topic is in the trash');
+    }
+    
+    const trashed = await this.topicRepository.findTrashedLatestVersions();
+    const subtree = trashed.filter(candidate => candidate.rootTopicId === topic.rootTopicId);
+    
+    for (let index = 0; index < subtree.length; index++) {
+      for (const child of trashed) {
+        if (child.parentTopicId === subtree[index].rootTopicId &&
+          this.deletedTogether(child, topic) &&
+          !subtree.includes(child)) {
+          subtree.push(child);
+        }
+      }
+    }
+    
+    const rootTopicIds = new Set(subtree.map(deleted => deleted.rootTopicId));
+    const resources = (await this.resourceRepository.findTrashed())
+      .filter(resource => rootTopicIds.has(resource.topicId) && this.deletedTogether(resource, topic));
+    const restored = await DatabaseFactory.transaction(async () => {
+      const contents: TrashContents = { topics: [], resources: [] };
+      
+      for (const deleted of subtree) {
+        const versions = await this.topicRepository.restoreAllVersions(deleted.rootTopicId);
+        const latest = versions[versions.length - 1];
+        
+        if (latest) {
+          await this.audit(user, AuditEntityType.TOPIC, deleted.rootTopicId, deleted, latest);
+          contents.topics.push(latest);
+        }
+      }
+      
+      for (const deleted of resources) {
+        const resource = await this.resourceRepository.restore(deleted.id);
+        
+        if (resource) {
+          await this.audit(user, AuditEntityType.RESOURCE, resource.id, deleted, resource);
+          contents.resources.push(resource);
+        }
+      }
+      
+      return contents;
+    });
+    
+    for (const topic of restored.topics) {
+      await this.searchService.indexTopic(topic);
+    }
+    
+    for (const resource of restored.resources) {
+      await this.searchService.indexResource(resource);
+    }
+    
+    return restored;
+  }
+
+  /**
+   * Restores a trashed resource on its own
+   * @param deleted The trashed resource
+   * @param user The user restoring the resource
+   */
+  private async restoreResource(deleted: Resource, user: User): Promise<TrashContents> {
+    if (!(await this.topicRepository.findLatestVersion(deleted.topicId))) {
+      throw new ConflictError('Cannot restore a resource whose topic is in the trash');
+    }
+    
+    const resource = await this.resourceRepository.restore(deleted.id);
+    
+    if (!resource) {
+      return { topics: [], resources: [] };
+    }
+    
+    await this.audit(user, AuditEntityType.RESOURCE, resource.id, deleted, resource);
+    await this.searchService.indexResource(resource);
+    
+    return { topics: [], resources: [resource] };
+  }
+
+  /**
+   * Checks whether two trashed entities were moved to the trash by the same deletion
+   * @param a The first entity
+   * @param b The second entity
+   */
+  private deletedTogether(a: Topic | Resource, b: Topic | Resource): boolean {
+    return this.deletionTime(a) === this.deletionTime(b);
+  }
+
+  /**
+   * Gets the time an entity was moved to the trash, in milliseconds since the epoch
+   * @param entity The trashed entity
+   */
+  private deletionTime(entity: Topic | Resource): number {
+    return entity.deletedAt ? entity.deletedAt.getTime() : 0;
+  }
+
+  /**
+   * Records a restore in the audit log
+   * @param user The user who restored the entity
+   * @param entityType The kind of entity restored
+   * @param entityId The root topic ID of a topic, or the ID of a resource
+   * @param before The entity as it was in the trash
+   * @param after The restored entity
+   */
+  private async audit(
+    user: User,
+    entityType: AuditEntityType,
+    entityId: string,
+    before: Topic | Resource,
+    after: Topic | Resource
+  ): Promise<void> {
+    await this.auditService.record({
+      actor: user,
+      action: AuditAction.RESTORE,
+      entityType,
+      entityId,
+      before,
+      after
+    });
+  }
+
+  /**
+   * Checks that a user may manage the trash
+   * @param user The user
+   * @throws PermissionDeniedError if the user is not an admin
+   */
+  private assertAdmin(user: User): void {
+    if (user.role !== UserRole.ADMIN) {
+      throw new PermissionDeniedError('User does not have permission to manage the trash');
+    }
+  }
+}
@@ -0,0 +1,225 @@
+import { IUserService, UserProfileChanges } from './IUserService';
+import { User } from '../models/User';
+import { UserRole } from '../enums/UserRole';
+import { UserRepository } from '../repositories/UserRepository';
+import { ValidationError } from '../errors/ValidationError';
+import { DatabaseFactory } from '../database/DatabaseFactory';
+
+/**
+ * Service for user management operations
+ */
+export class UserService implements IUserService {
+  private readonly userRepository: UserRepository;
+
+  /**
+   * Creates a new UserService instance
+   * @param userRepository The user repository to use
+   */
+  constructor(userRepository?: UserRepository) {
+    this.userRepository = userRepository || new UserRepository();
+  }
+
+  /**
+   * Gets all users, optionally restricted to one role
+   * @param actor The user performing the operation (not used in this implementation)
+   * @param role Optional role of the users to return
+   * @returns Promise resolving to an array of users
+   */
+  public async getAllUsers(
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User,
+    role?: UserRole
+  ): Promise<User[]> {
+    if (role) {
+      return this.userRepository.findByRole(role);
+    }
+    
+    return this.userRepository.findAll();
+  }
+
+  /**
+   * Gets a user by ID
+   * @param id The ID of the user
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to the user or null if not found
+   */
+  public async getUser(
+    id: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<User | null> {
+    return this.userRepository.findById(id);
+  }
+
+  /**
+   * Creates a new user with a password
+   * @param name The name of the user
+   * @param email The email of the user
+   * @param password The password of the user
+   * @param role The role of the user
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to the created user
+   */
+  public async createUser(
+    name: string,
+    email: string,
+    password: string,
+    role: UserRole,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<User> {
+    // Validate before hashing the password
+    this.validate(() => {
+      new User(name, email, role).validate();
+      User.validatePassword(password);
+    });
+    
+    return this.userRepository.createWithPassword(name, email, password, role);
+  }
+
+  /**
+   * Updates the profile of a user
+   * @param id The ID of the user
+   * @param changes The profile fields to change
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to the updated user or null if not found
+   * @throws ValidationError if the current password is wrong when changing the password
+   */
+  public async updateProfile(
+    id: string,
+    changes: UserProfileChanges,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<User | null> {
+    const user = await this.userRepository.findById(id);
+    
+    if (!user) {
+      return null;
+    }
+    
+    this.validate(() => {
+      new User(changes.name ?? user.name, changes.email ?? user.email, user.role).validate();
+      
+      if (changes.password !== undefined) {
+        User.validatePassword(changes.password);
+      }
+    });
+    
+    if (changes.password !== undefined && !user.verifyPassword(changes.currentPassword ?? '')) {
+      throw new ValidationError('Invalid user: Current password is incorrect');
+    }
+    
+    // The profile and the password change together or not at all
+    return DatabaseFactory.transaction(async () => {
+      let updatedUser = await this.userRepository.updateProfile(id, changes.name, changes.email);
+      
+      if (updatedUser && changes.password !== undefined) {
+        updatedUser = await this.userRepository.updatePassword(id, changes.password);
+      }
+      
+      return updatedUser;
+    });
+  }
+
+  /**
+   * Changes the role of a user
+   * @param id The ID of the user
+   * @param role The new role
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to the updated user or null if not found
+   */
+  public async updateRole(
+    id: string,
+    role: UserRole,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<User | null> {
+    return this.userRepository.updateRole(id, role);
+  }
+
+  /**
+   * Replaces the groups a user belongs to
+   * @param id The ID of the user
+   * @param groups The names of the groups
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to the updated user or null if not found
+   * @throws ValidationError if a group name is empty
+   */
+  public async updateGroups(
+    id: string,
+    groups: string[],
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<User | null> {
+    const user = await this.userRepository.findById(id);
+    
+    if (!user) {
+      return null;
+    }
+    
+    this.validate(() => user.updateGroups(groups).validate());
+    
+    return this.userRepository.updateGroups(id, groups);
+  }
+
+  /**
+   * Deletes a user
+   * @param id The ID of the user
+   * @param actor The user performing the operation (not used in this implementation)
+   * @returns Promise resolving to true if the user was deleted, false otherwise
+   */
+  public async deleteUser(
+    id: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    actor: User
+  ): Promise<boolean> {
+    return this.userRepository.delete(id);
+  }
+
+  /**
+   * Creates the first administrator, so a new installation has someone who can log in
+   * Runs at start-up rather than for a request, so there is no acting user. Nothing changes once an
+   * administrator with a password exists; a user who already has the email becomes that administrator
+   * @param name The name of the administrator
+   * @param email The email of the administrator
+   * @param password The password of the administrator
+   * @returns Promise resolving to the administrator or null if one already existed
+   * @throws ValidationError if the email or password is invalid
+   */
+  public async createFirstAdmin(name: string, email: string, password: string): Promise<User | null> {
+    this.validate(() => {
+      new User(name, email, UserRole.ADMIN).validate();
+      User.validatePassword(password);
+    });
+    
+    return DatabaseFactory.transaction(async () => {
+      const admins = await this.userRepository.findByRole(UserRole.ADMIN);
+      
+      if (admins.some(admin => admin.hasPassword())) {
+        return null;
+      }
+      
+      const existingUser = await this.userRepository.findByEmail(email);
+      
+      if (!existingUser) {
+        return this.userRepository.createWithPassword(name, email, password, UserRole.ADMIN);
+      }
+      
+      await this.userRepository.updatePassword(existingUser.id, password);
+      return this.userRepository.updateRole(existingUser.id, UserRole.ADMIN);
+    });
+  }
+
+  /**
+   * Runs model validation, prefixing failures so callers can tell them apart from other errors
+   * @param check The validation to run
+   * @throws ValidationError if validation fails
+   */
+  private validate(check: () => void): void {
+    try {
+      check();
+    } catch (error) {
+      throw new ValidationError(`Invalid user: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+}
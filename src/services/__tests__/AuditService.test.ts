@@ -0,0 +1,99 @@
+import express, { Request, Response } from 'express';
+import request from 'supertest';
+import { AuditService } from '../AuditService';
+import { AuditRepository } from '../../repositories/AuditRepository';
+import { AuditEntry } from '../../models/AuditEntry';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { requestContext } from '../../middleware/requestContext';
+
+// Mock dependencies
+jest.mock('../../repositories/AuditRepository');
+
+describe('AuditService', () => {
+  let auditService: AuditService;
+  let mockAuditRepository: jest.Mocked<AuditRepository>;
+  let adminUser: User;
+  let editorUser: User;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockAuditRepository = new AuditRepository() as jest.Mocked<AuditRepository>;
+    mockAuditRepository.create.mockImplementation(async entry => entry);
+    
+    auditService = new AuditService(mockAuditRepository);
+    
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN);
+    editorUser = User.createWithPassword('Editor User', 'editor@example.com', 'password123', UserRole.EDITOR);
+  });
+  
+  describe('record', () => {
+    it('should append an entry with snapshots of the entity', async () => {
+      // Act
+      const entry = await auditService.record({
+        actor: adminUser,
+        action: AuditAction.ROLE_CHANGE,
+        entityType: AuditEntityType.USER,
+        entityId: editorUser.id,
+        before: editorUser,
+        after: editorUser.updateRole(UserRole.ADMIN)
+      });
+      
+      // Assert
+      expect(mockAuditRepository.create).toHaveBeenCalledWith(expect.any(AuditEntry));
+      expect(entry.actorId).toBe(adminUser.id);
+      expect(entry.before).toEqual(expect.objectContaining({ role: UserRole.EDITOR }));
+      expect(entry.after).toEqual(expect.objectContaining({ role: UserRole.ADMIN }));
+      expect(entry.before).not.toHaveProperty('passwordHash');
+      expect(entry.requestId).toBeUndefined();
+    });
+    
+    it('should attach the ID of the request being handled', async () => {
+      // Arrange
+      const app = express();
+      app.use(requestContext);
+      app.post('/', async (_req: Request, res: Response) => {
+        const entry = await auditService.record({
+          actor: adminUser,
+          action: AuditAction.DELETE,
+          entityType: AuditEntityType.TOPIC,
+          entityId: 'topic-id'
+        });
+        res.json(entry);
+      });
+      
+      // Act
+      const response = await request(app).post('/').set('X-Request-Id', 'request-123');
+      
+      // Assert
+      expect(response.body.requestId).toBe('request-123');
+    });
+  });
+  
+  describe('getEntries', () => {
+    it('should return the matching entries to admins', async () => {
+      // Arrange
+      const entries = [new AuditEntry(adminUser.id, AuditAction.CREATE, AuditEntityType.TOPIC, 'topic-id')];
+      const filter = { actorId: adminUser.id };
+      mockAuditRepository.findByFilter.mockResolvedValue(entries);
+      
+      // Act
+      const result = await auditService.getEntries(filter, adminUser);
+      
+      // Assert
+      expect(mockAuditRepository.findByFilter).toHaveBeenCalledWith(filter);
+      expect(result).toBe(entries);
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(auditService.getEntries({}, editorUser))
+        .rejects.toThrow('User does not have permission to read the audit log');
+      expect(mockAuditRepository.findByFilter).not.toHaveBeenCalled();
+    });
+  });
+});
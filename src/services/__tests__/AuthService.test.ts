@@ -0,0 +1,218 @@
+import { AuthService } from '../AuthService';
+import { TokenService } from '../TokenService';
+import { UserRepository } from '../../repositories/UserRepository';
+import { RefreshTokenRepository } from '../../repositories/RefreshTokenRepository';
+import { User } from '../../models/User';
+import { RefreshToken } from '../../models/RefreshToken';
+import { UserRole } from '../../enums/UserRole';
+
+// Mock the repositories
+jest.mock('../../repositories/UserRepository');
+jest.mock('../../repositories/RefreshTokenRepository');
+
+describe('AuthService', () => {
+  let authService: AuthService;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let mockRefreshTokenRepository: jest.Mocked<RefreshTokenRepository>;
+  let tokenService: TokenService;
+  let user: User;
+  
+  /**
+   * Stores a refresh token for the test user and returns its value
+   * @param options Optional state of the stored token
+   */
+  const storeRefreshToken = (options: { revoked?: boolean; expired?: boolean } = {}): { value: string; stored: RefreshToken } => {
+    const value = tokenService.generateRefreshToken().token;
+    const expiresAt = new Date(Date.now() + (options.expired ? -1000 : 60 * 1000));
+    let stored = new RefreshToken(user.id, 'family-id', tokenService.hashRefreshToken(value), expiresAt);
+    
+    if (options.revoked) {
+      stored = stored.revoke('next-id');
+    }
+    
+    mockRefreshTokenRepository.findByTokenHash.mockImplementation(async hash =>
+      hash === stored.tokenHash ? stored : null
+    );
+    
+    return { value, stored };
+  };
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockUserRepository = new UserRepository() as jest.Mocked<UserRepository>;
+    mockRefreshTokenRepository = new RefreshTokenRepository() as jest.Mocked<RefreshTokenRepository>;
+    tokenService = new TokenService({ secret: 'test-secret', refreshTokenTtlSeconds: 3600 });
+    authService = new AuthService(mockUserRepository, tokenService, mockRefreshTokenRepository);
+    
+    user = new User('Test User', 'test@example.com', UserRole.EDITOR);
+    mockUserRepository.findById.mockResolvedValue(user);
+    mockRefreshTokenRepository.create.mockImplementation(async token => token);
+    mockRefreshTokenRepository.update.mockImplementation(async (_id, token) => token);
+  });
+  
+  describe('login', () => {
+    it('should issue an access token and a refresh token for valid credentials', async () => {
+      // Arrange
+      mockUserRepository.authenticate.mockResolvedValue(user);
+      
+      // Act
+      const result = await authService.login('test@example.com', 'password123');
+      
+      // Assert
+      expect(mockUserRepository.authenticate).toHaveBeenCalledWith('test@example.com', 'password123');
+      expect(result?.tokenType).toBe('Bearer');
+      expect(result?.user).toBe(user);
+      expect(result?.refreshExpiresIn).toBe(3600);
+      expect(tokenService.verifyAccessToken(result?.accessToken as string).sub).toBe(user.id);
+      
+      const stored = mockRefreshTokenRepository.create.mock.calls[0][0];
+      expect(stored.userId).toBe(user.id);
+      expect(stored.familyId).toBe(stored.id);
+      expect(stored.tokenHash).toBe(tokenService.hashRefreshToken(result?.refreshToken as string));
+    });
+    
+    it('should return null for invalid credentials', async () => {
+      // Arrange
+      mockUserRepository.authenticate.mockResolvedValue(null);
+      
+      // Act
+      const result = await authService.login('test@example.com', 'wrong-password');
+      
+      // Assert
+      expect(result).toBeNull();
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('refresh', () => {
+    it('should rotate the refresh token within its family', async () => {
+      // Arrange
+      const { value, stored } = storeRefreshToken();
+      
+      // Act
+      const result = await authService.refresh(value);
+      
+      // Assert
+      const rotated = mockRefreshTokenRepository.create.mock.calls[0][0];
+      expect(result.refreshToken).not.toBe(value);
+      expect(rotated.familyId).toBe('family-id');
+      expect(rotated.tokenHash).toBe(tokenService.hashRefreshToken(result.refreshToken));
+      
+      const revoked = mockRefreshTokenRepository.update.mock.calls[0][1];
+      expect(mockRefreshTokenRepository.update).toHaveBeenCalledWith(stored.id, expect.any(RefreshToken));
+      expect(revoked.isRevoked()).toBe(true);
+      expect(revoked.replacedById).toBe(rotated.id);
+    });
+    
+    it('should let only one of two concurrent refreshes with the same token succeed', async () => {
+      // Arrange
+      const { value, stored } = storeRefreshToken();
+      let current = stored;
+      mockRefreshTokenRepository.findByTokenHash.mockImplementation(async hash =>
+        hash === current.tokenHash ? current : null
+      );
+      mockRefreshTokenRepository.update.mockImplementation(async (_id, token) => {
+        // Give the other refresh a chance to read the token before it is revoked
+        await new Promise(resolve => setImmediate(resolve));
+        current = token as RefreshToken;
+        return current;
+      });
+      
+      // Act
+      const results = await Promise.allSettled([authService.refresh(value), authService.refresh(value)]);
+      
+      // Assert
+      expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect(results.find(result => result.status === 'rejected')).toEqual(expect.objectContaining({
+        reason: expect.objectContaining({ message: 'Refresh token reuse detected' })
+      }));
+      expect(mockRefreshTokenRepository.create).toHaveBeenCalledTimes(1);
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family-id');
+    });
+    
+    it('should revoke the whole family when a rotated token is reused', async () => {
+      // Arrange
+      const { value } = storeRefreshToken({ revoked: true });
+      
+      // Act & Assert
+      await expect(authService.refresh(value)).rejects.toThrow('Refresh token reuse detected');
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family-id');
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an expired refresh token', async () => {
+      // Arrange
+      const { value } = storeRefreshToken({ expired: true });
+      
+      // Act & Assert
+      await expect(authService.refresh(value)).rejects.toThrow('Refresh token expired');
+      expect(mockRefreshTokenRepository.create).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an unknown refresh token', async () => {
+      // Arrange
+      storeRefreshToken();
+      
+      // Act & Assert
+      await expect(authService.refresh('unknown')).rejects.toThrow('Invalid refresh token');
+    });
+    
+    it('should revoke the family if the user no longer exists', async () => {
+      // Arrange
+      const { value } = storeRefreshToken();
+      mockUserRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(authService.refresh(value)).rejects.toThrow('Invalid refresh token');
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family-id');
+    });
+  });
+  
+  describe('logout', () => {
+    it('should revoke the family of the refresh token', async () => {
+      // Arrange
+      const { value } = storeRefreshToken();
+      
+      // Act
+      await authService.logout(value);
+      
+      // Assert
+      expect(mockRefreshTokenRepository.revokeFamily).toHaveBeenCalledWith('family-id');
+    });
+    
+    it('should ignore unknown refresh tokens', async () => {
+      // Arrange
+      storeRefreshToken();
+      
+      // Act
+      await authService.logout('unknown');
+      
+      // Assert
+      expect(mockRefreshTokenRepository.revokeFamily).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('revokeAllSessions', () => {
+    it('should revoke all refresh tokens of the user', async () => {
+      // Arrange
+      mockRefreshTokenRepository.revokeAllForUser.mockResolvedValue(3);
+      
+      // Act
+      const revoked = await authService.revokeAllSessions(user.id);
+      
+      // Assert
+      expect(revoked).toBe(3);
+      expect(mockRefreshTokenRepository.revokeAllForUser).toHaveBeenCalledWith(user.id);
+    });
+    
+    it('should throw if the user does not exist', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(authService.revokeAllSessions('missing-id')).rejects.toThrow('User with ID missing-id not found');
+    });
+  });
+});
@@ -0,0 +1,201 @@
+import { ResourceService } from '../ResourceService';
+import { ResourceRepository } from '../../repositories/ResourceRepository';
+import { TopicRepository } from '../../repositories/TopicRepository';
+import { Resource } from '../../models/Resource';
+import { Topic } from '../../models/Topic';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { ResourceType } from '../../enums/ResourceType';
+
+// Mock the repositories
+jest.mock('../../repositories/ResourceRepository');
+jest.mock('../../repositories/TopicRepository');
+
+describe('ResourceService', () => {
+  let resourceService: ResourceService;
+  let mockResourceRepository: jest.Mocked<ResourceRepository>;
+  let mockTopicRepository: jest.Mocked<TopicRepository>;
+  let testUser: User;
+  let topic: Topic;
+  let resource: Resource;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockResourceRepository = new ResourceRepository() as jest.Mocked<ResourceRepository>;
+    mockTopicRepository = new TopicRepository() as jest.Mocked<TopicRepository>;
+    resourceService = new ResourceService(mockResourceRepository, mockTopicRepository);
+    
+    testUser = new User('Test User', 'test@example.com', UserRole.ADMIN);
+    topic = new Topic('Test Topic', 'Test Content');
+    resource = new Resource(topic.rootTopicId, 'https://example.com', 'Example', ResourceType.LINK);
+  });
+  
+  describe('createResource', () => {
+    it('should create a resource linked to the root ID of the topic', async () => {
+      // Arrange
+      const newVersion = topic.createNewVersion('Updated Content');
+      mockTopicRepository.findById.mockResolvedValue(newVersion);
+      mockResourceRepository.create.mockImplementation(async created => created);
+      
+      // Act
+      const result = await resourceService.createResource(
+        newVersion.id,
+        'https://example.com',
+        'Example',
+        ResourceType.LINK,
+        testUser
+      );
+      
+      // Assert
+      expect(mockTopicRepository.findById).toHaveBeenCalledWith(newVersion.id);
+      expect(mockResourceRepository.create).toHaveBeenCalledWith(expect.any(Resource));
+      expect(result.topicId).toBe(topic.rootTopicId);
+      expect(result.url).toBe('https://example.com');
+    });
+    
+    it('should throw an error if the topic does not exist', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(resourceService.createResource(
+        'missing-id', 'https://example.com', 'Example', ResourceType.LINK, testUser
+      )).rejects.toThrow('Topic with ID missing-id not found');
+      expect(mockResourceRepository.create).not.toHaveBeenCalled();
+    });
+    
+    it('should reject an invalid resource', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(topic);
+      
+      // Act & Assert
+      await expect(resourceService.createResource(
+        topic.id, 'not a url', 'Example', ResourceType.LINK, testUser
+      )).rejects.toThrow('Invalid resource: Resource URL is not valid');
+      expect(mockResourceRepository.create).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getAllResources', () => {
+    it('should return all resources when no type is given', async () => {
+      // Arrange
+      mockResourceRepository.findAll.mockResolvedValue([resource]);
+      
+      // Act
+      const result = await resourceService.getAllResources(testUser);
+      
+      // Assert
+      expect(mockResourceRepository.findAll).toHaveBeenCalled();
+      expect(result).toEqual([resource]);
+    });
+    
+    it('should return resources of the given type', async () => {
+      // Arrange
+      mockResourceRepository.findByType.mockResolvedValue([resource]);
+      
+      // Act
+      const result = await resourceService.getAllResources(testUser, ResourceType.LINK);
+      
+      // Assert
+      expect(mockResourceRepository.findByType).toHaveBeenCalledWith(ResourceType.LINK);
+      expect(result).toEqual([resource]);
+    });
+  });
+  
+  describe('getResourcesByTopic', () => {
+    it('should look resources up by the root ID of the topic', async () => {
+      // Arrange
+      const newVersion = topic.createNewVersion('Updated Content');
+      mockTopicRepository.findById.mockResolvedValue(newVersion);
+      mockResourceRepository.findByTopicId.mockResolvedValue([resource]);
+      
+      // Act
+      const result = await resourceService.getResourcesByTopic(newVersion.id, testUser);
+      
+      // Assert
+      expect(mockResourceRepository.findByTopicId).toHaveBeenCalledWith(topic.rootTopicId);
+      expect(result).toEqual([resource]);
+    });
+    
+    it('should throw an error if the topic does not exist', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(resourceService.getResourcesByTopic('missing-id', testUser))
+        .rejects.toThrow('Topic with ID missing-id not found');
+    });
+  });
+  
+  describe('updateResource', () => {
+    it('should update a resource', async () => {
+      // Arrange
+      const updated = resource.update('https://example.org');
+      mockResourceRepository.findById.mockResolvedValue(resource);
+      mockResourceRepository.updateResource.mockResolvedValue(updated);
+      
+      // Act
+      const result = await resourceService.updateResource(
+        resource.id,
+        { url: 'https://example.org' },
+        testUser
+      );
+      
+      // Assert
+      expect(mockResourceRepository.updateResource).toHaveBeenCalledWith(
+        resource.id, 'https://example.org', undefined, undefined
+      );
+      expect(result).toBe(updated);
+    });
+    
+    it('should return null if the resource does not exist', async () => {
+      // Arrange
+      mockResourceRepository.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await resourceService.updateResource('missing-id', { url: 'https://example.org' }, testUser);
+      
+      // Assert
+      expect(result).toBeNull();
+      expect(mockResourceRepository.updateResource).not.toHaveBeenCalled();
+    });
+    
+    it('should reject changes that make the resource invalid', async () => {
+      // Arrange
+      mockResourceRepository.findById.mockResolvedValue(resource);
+      
+      // Act & Assert
+      await expect(resourceService.updateResource(resource.id, { description: '' }, testUser))
+        .rejects.toThrow('Invalid resource: Resource description cannot be empty');
+      expect(mockResourceRepository.updateResource).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('deleteResource', () => {
+    it('should move a resource to the trash', async () => {
+      // Arrange
+      mockResourceRepository.trash.mockResolvedValue(resource.moveToTrash(testUser.id));
+      
+      // Act
+      const result = await resourceService.deleteResource(resource.id, testUser);
+      
+      // Assert
+      expect(mockResourceRepository.trash).toHaveBeenCalledWith(resource.id, testUser.id);
+      expect(mockResourceRepository.delete).not.toHaveBeenCalled();
+      expect(result).toBe(true);
+    });
+    
+    it('should return false if the resource is not found', async () => {
+      // Arrange
+      mockResourceRepository.trash.mockResolvedValue(null);
+      
+      // Act
+      const result = await resourceService.deleteResource('non-existent-id', testUser);
+      
+      // Assert
+      expect(result).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+import { SearchService } from '../SearchService';
+import { TopicService } from '../TopicService';
+import { TopicRepository } from '../../repositories/TopicRepository';
+import { ResourceRepository } from '../../repositories/ResourceRepository';
+import { Topic } from '../../models/Topic';
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { ResourceType } from '../../enums/ResourceType';
+import { TopicAccessStrategyFactory } from '../strategies/TopicAccessStrategyFactory';
+import { ResourceAccessStrategyFactory } from '../strategies/ResourceAccessStrategyFactory';
+import { ITopicAccessStrategy } from '../strategies/ITopicAccessStrategy';
+import { IResourceAccessStrategy } from '../strategies/IResourceAccessStrategy';
+
+// Mock dependencies
+jest.mock('../TopicService');
+jest.mock('../../repositories/TopicRepository');
+jest.mock('../../repositories/ResourceRepository');
+jest.mock('../strategies/TopicAccessStrategyFactory');
+jest.mock('../strategies/ResourceAccessStrategyFactory');
+
+describe('SearchService', () => {
+  let searchService: SearchService;
+  let mockTopicRepository: jest.Mocked<TopicRepository>;
+  let mockResourceRepository: jest.Mocked<ResourceRepository>;
+  let mockTopicService: jest.Mocked<TopicService>;
+  let mockTopicStrategy: jest.Mocked<ITopicAccessStrategy>;
+  let mockResourceStrategy: jest.Mocked<IResourceAccessStrategy>;
+  let viewerUser: User;
+  let databases: Topic;
+  let cooking: Topic;
+  let resource: Resource;
+  
+  beforeEach(() => {
+    // Clear all mocks and the shared index
+    jest.clearAllMocks();
+    SearchService.clearIndex();
+    
+    databases = new Topic('Databases', 'Relational databases store rows in tables');
+    cooking = new Topic('Cooking', 'Recipes for pasta and bread');
+    resource = new Resource(databases.rootTopicId, 'https://example.com/sql', 'A database tutorial', ResourceType.LINK);
+    
+    mockTopicRepository = new TopicRepository() as jest.Mocked<TopicRepository>;
+    mockTopicRepository.findLatestVersions.mockResolvedValue([databases, cooking]);
+    
+    mockResourceRepository = new ResourceRepository() as jest.Mocked<ResourceRepository>;
+    mockResourceRepository.findAll.mockResolvedValue([resource]);
+    
+    mockTopicService = new TopicService() as jest.Mocked<TopicService>;
+    mockTopicService.getAclResolver.mockResolvedValue(null);
+    
+    mockTopicStrategy = { canReadTopic: jest.fn().mockReturnValue(true) } as unknown as jest.Mocked<ITopicAccessStrategy>;
+    mockResourceStrategy = {
+      canReadResource: jest.fn().mockReturnValue(true)
+    } as unknown as jest.Mocked<IResourceAccessStrategy>;
+    
+    (TopicAccessStrategyFactory.getStrategy as jest.Mock).mockReturnValue(mockTopicStrategy);
+    (ResourceAccessStrategyFactory.getStrategy as jest.Mock).mockReturnValue(mockResourceStrategy);
+    
+    searchService = new SearchService(mockTopicRepository, mockResourceRepository, mockTopicService);
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER);
+  });
+  
+  describe('search', () => {
+    it('should return ranked topics and resources with highlighted snippets', async () => {
+      // Act
+      const results = await searchService.search('database', viewerUser, { limit: 10 });
+      
+      // Assert
+      expect(results).toEqual([
+        {
+          type: 'topic',
+          id: databases.rootTopicId,
+          title: 'Databases',
+          score: expect.any(Number),
+          snippets: [
+            { field: 'name', text: '<mark>Databases</mark>' },
+            { field: 'content', text: 'Relational <mark>databases</mark> store rows in tables' }
+          ]
+        },
+        {
+          type: 'resource',
+          id: resource.id,
+          title: 'https://example.com/sql',
+          score: expect.any(Number),
+          snippets: [{ field: 'description', text: 'A <mark>database</mark> tutorial' }],
+          topicId: databases.rootTopicId
+        }
+      ]);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+    });
+    
+    it('should build the index only once', async () => {
+      // Act
+      await Promise.all([
+        searchService.search('database', viewerUser, { limit: 10 }),
+        searchService.search('pasta', viewerUser, { limit: 10 })
+      ]);
+      await searchService.search('bread', viewerUser, { limit: 10 });
+      
+      // Assert
+      expect(mockTopicRepository.findLatestVersions).toHaveBeenCalledTimes(1);
+      expect(mockResourceRepository.findAll).toHaveBeenCalledTimes(1);
+    });
+    
+    it('should leave out results the user may not read', async () => {
+      // Arrange
+      mockTopicStrategy.canReadTopic.mockImplementation((_user, topic) => topic.rootTopicId !== databases.rootTopicId);
+      
+      // Act
+      const results = await searchService.search('database', viewerUser, { limit: 10 });
+      
+      // Assert
+      expect(TopicAccessStrategyFactory.getStrategy).toHaveBeenCalledWith(viewerUser, null);
+      expect(ResourceAccessStrategyFactory.getStrategy).toHaveBeenCalledWith(viewerUser, null);
+      expect(results.map(result => result.type)).toEqual(['resource']);
+    });
+    
+    it('should restrict results to the requested type and limit', async () => {
+      // Act
+      const resources = await searchService.search('database', viewerUser, { limit: 10, type: 'resource' });
+      const limited = await searchService.search('database', viewerUser, { limit: 1 });
+      
+      // Assert
+      expect(resources.map(result => result.id)).toEqual([resource.id]);
+      expect(limited.map(result => result.id)).toEqual([databases.rootTopicId]);
+    });
+    
+    it('should return no results for unknown terms', async () => {
+      // Act
+      const results = await searchService.search('astronomy', viewerUser, { limit: 10 });
+      
+      // Assert
+      expect(results).toEqual([]);
+    });
+  });
+  
+  describe('keeping the index up to date', () => {
+    it('should find the latest version of an updated topic', async () => {
+      // Arrange
+      await searchService.search('database', viewerUser, { limit: 10 });
+      const updated = databases.createNewVersion('Document stores', 'NoSQL');
+      
+      // Act
+      await searchService.indexTopic(updated);
+      
+      // Assert
+      const stale = await searchService.search('relational', viewerUser, { limit: 10 });
+      const fresh = await searchService.search('nosql', viewerUser, { limit: 10 });
+      expect(stale).toEqual([]);
+      expect(fresh).toEqual([expect.objectContaining({ id: databases.rootTopicId, title: 'NoSQL' })]);
+    });
+    
+    it('should stop finding removed topics and resources', async () => {
+      // Arrange
+      await searchService.search('database', viewerUser, { limit: 10 });
+      
+      // Act
+      await searchService.removeTopic(databases.rootTopicId);
+      await searchService.removeResource(resource.id);
+      
+      // Assert
+      expect(await searchService.search('database', viewerUser, { limit: 10 })).toEqual([]);
+    });
+    
+    it('should find new resources', async () => {
+      // Arrange
+      await searchService.search('database', viewerUser, { limit: 10 });
+      const created = new Resource(cooking.rootTopicId, 'https://example.com/pizza', 'Pizza dough', ResourceType.VIDEO);
+      
+      // Act
+      await searchService.indexResource(created);
+      
+      // Assert
+      const results = await searchService.search('pizza', viewerUser, { limit: 10 });
+      expect(results).toEqual([expect.objectContaining({ type: 'resource', id: created.id })]);
+    });
+    
+    it('should not build the index for changes made before the first search', async () => {
+      // Act
+      await searchService.indexTopic(cooking);
+      await searchService.removeResource(resource.id);
+      
+      // Assert
+      expect(mockTopicRepository.findLatestVersions).not.toHaveBeenCalled();
+      expect(mockResourceRepository.findAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { SecureResourceService } from '../SecureResourceService';
+import { ResourceService } from '../ResourceService';
+import { TopicService } from '../TopicService';
+import { AuditService } from '../AuditService';
+import { SearchService } from '../SearchService';
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { ResourceType } from '../../enums/ResourceType';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { ResourceAccessStrategyFactory } from '../strategies/ResourceAccessStrategyFactory';
+import { IResourceAccessStrategy } from '../strategies/IResourceAccessStrategy';
+
+// Mock dependencies
+jest.mock('../ResourceService');
+jest.mock('../TopicService');
+jest.mock('../AuditService');
+jest.mock('../SearchService');
+jest.mock('../strategies/ResourceAccessStrategyFactory');
+
+describe('SecureResourceService', () => {
+  let secureResourceService: SecureResourceService;
+  let mockResourceService: jest.Mocked<ResourceService>;
+  let mockTopicService: jest.Mocked<TopicService>;
+  let mockAuditService: jest.Mocked<AuditService>;
+  let mockSearchService: jest.Mocked<SearchService>;
+  let mockStrategy: jest.Mocked<IResourceAccessStrategy>;
+  let editorUser: User;
+  let viewerUser: User;
+  let resource: Resource;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockResourceService = new ResourceService() as jest.Mocked<ResourceService>;
+    mockTopicService = new TopicService() as jest.Mocked<TopicService>;
+    mockTopicService.getAclResolver.mockResolvedValue(null);
+    
+    mockStrategy = {
+      canCreateResource: jest.fn().mockReturnValue(true),
+      canReadResource: jest.fn().mockReturnValue(true),
+      canUpdateResource: jest.fn().mockReturnValue(true),
+      canDeleteResource: jest.fn().mockReturnValue(true)
+    } as unknown as jest.Mocked<IResourceAccessStrategy>;
+    
+    (ResourceAccessStrategyFactory.getStrategy as jest.Mock).mockReturnValue(mockStrategy);
+    
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
+    mockSearchService = new SearchService() as jest.Mocked<SearchService>;
+    
+    secureResourceService = new SecureResourceService(mockResourceService, mockTopicService, mockAuditService, mockSearchService);
+    
+    editorUser = new User('Editor User', 'editor@example.com', UserRole.EDITOR);
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER);
+    resource = new Resource('topic-id', 'https://example.com', 'Example', ResourceType.LINK);
+  });
+  
+  describe('createResource', () => {
+    it('should create a resource if user has permission', async () => {
+      // Arrange
+      mockResourceService.createResource.mockResolvedValue(resource);
+      
+      // Act
+      const result = await secureResourceService.createResource(
+        'topic-id', 'https://example.com', 'Example', ResourceType.LINK, editorUser
+      );
+      
+      // Assert
+      expect(mockStrategy.canCreateResource).toHaveBeenCalledWith(editorUser, 'topic-id');
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        actor: editorUser,
+        action: AuditAction.CREATE,
+        entityType: AuditEntityType.RESOURCE,
+        entityId: resource.id,
+        before: undefined,
+        after: resource
+      });
+      expect(mockSearchService.indexResource).toHaveBeenCalledWith(resource);
+      expect(result).toBe(resource);
+    });
+    
+    it('should throw an error if user does not have permission', async () => {
+      // Arrange
+      mockStrategy.canCreateResource.mockReturnValue(false);
+      
+      // Act & Assert
+      await expect(secureResourceService.createResource(
+        'topic-id', 'https://example.com', 'Example', ResourceType.LINK, viewerUser
+      )).rejects.toThrow('User does not have permission to create resources');
+      expect(mockResourceService.createResource).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getResource', () => {
+    it('should return the resource if user has permission', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(resource);
+      
+      // Act
+      const result = await secureResourceService.getResource(resource.id, viewerUser);
+      
+      // Assert
+      expect(mockStrategy.canReadResource).toHaveBeenCalledWith(viewerUser, resource);
+      expect(result).toBe(resource);
+    });
+    
+    it('should throw an error if user does not have permission', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(resource);
+      mockStrategy.canReadResource.mockReturnValue(false);
+      
+      // Act & Assert
+      await expect(secureResourceService.getResource(resource.id, viewerUser))
+        .rejects.toThrow('User does not have permission to read this resource');
+    });
+  });
+  
+  describe('getResourcesByTopic', () => {
+    it('should filter out resources the user cannot read', async () => {
+      // Arrange
+      const hidden = new Resource('topic-id', 'https://example.org', 'Hidden', ResourceType.LINK);
+      mockResourceService.getResourcesByTopic.mockResolvedValue([resource, hidden]);
+      mockStrategy.canReadResource.mockImplementation((_user, candidate) => candidate !== hidden);
+      
+      // Act
+      const result = await secureResourceService.getResourcesByTopic('topic-id', viewerUser);
+      
+      // Assert
+      expect(result).toEqual([resource]);
+    });
+  });
+  
+  describe('updateResource', () => {
+    it('should update a resource and record the change', async () => {
+      // Arrange
+      const updated = resource.update(undefined, 'New');
+      mockResourceService.getResource.mockResolvedValue(resource);
+      mockResourceService.updateResource.mockResolvedValue(updated);
+      
+      // Act
+      const result = await secureResourceService.updateResource(resource.id, { description: 'New' }, editorUser);
+      
+      // Assert
+      expect(mockResourceService.updateResource).toHaveBeenCalledWith(resource.id, { description: 'New' }, editorUser);
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: AuditAction.UPDATE,
+        entityId: resource.id,
+        before: resource,
+        after: updated
+      }));
+      expect(mockSearchService.indexResource).toHaveBeenCalledWith(updated);
+      expect(result).toBe(updated);
+    });
+    
+    it('should throw an error if user does not have permission', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(resource);
+      mockStrategy.canUpdateResource.mockReturnValue(false);
+      
+      // Act & Assert
+      await expect(secureResourceService.updateResource(resource.id, { description: 'New' }, viewerUser))
+        .rejects.toThrow('User does not have permission to update this resource');
+      expect(mockResourceService.updateResource).not.toHaveBeenCalled();
+    });
+    
+    it('should return null if the resource does not exist', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(null);
+      
+      // Act
+      const result = await secureResourceService.updateResource('missing-id', { description: 'New' }, editorUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('deleteResource', () => {
+    it('should delete a resource if user has permission', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(resource);
+      mockResourceService.deleteResource.mockResolvedValue(true);
+      
+      // Act
+      const result = await secureResourceService.deleteResource(resource.id, editorUser);
+      
+      // Assert
+      expect(mockStrategy.canDeleteResource).toHaveBeenCalledWith(editorUser, resource);
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: AuditAction.DELETE,
+        entityId: resource.id,
+        before: resource
+      }));
+      expect(mockSearchService.removeResource).toHaveBeenCalledWith(resource.id);
+      expect(result).toBe(true);
+    });
+    
+    it('should throw an error if user does not have permission', async () => {
+      // Arrange
+      mockResourceService.getResource.mockResolvedValue(resource);
+      mockStrategy.canDeleteResource.mockReturnValue(false);
+      
+      // Act & Assert
+      await expect(secureResourceService.deleteResource(resource.id, editorUser))
+        .rejects.toThrow('User does not have permission to delete this resource');
+      expect(mockResourceService.deleteResource).not.toHaveBeenCalled();
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+      expect(mockSearchService.removeResource).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,269 @@
+import { SecureUserService } from '../SecureUserService';
+import { UserService } from '../UserService';
+import { AuditService } from '../AuditService';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { getCurrentTransaction, Transaction } from '../../database/Transaction';
+
+// Mock dependencies
+jest.mock('../UserService');
+jest.mock('../AuditService');
+
+describe('SecureUserService', () => {
+  let secureUserService: SecureUserService;
+  let mockUserService: jest.Mocked<UserService>;
+  let mockAuditService: jest.Mocked<AuditService>;
+  let adminUser: User;
+  let editorUser: User;
+  let viewerUser: User;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockUserService = new UserService() as jest.Mocked<UserService>;
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
+    secureUserService = new SecureUserService(mockUserService, mockAuditService);
+    
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN);
+    editorUser = new User('Editor User', 'editor@example.com', UserRole.EDITOR);
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER);
+  });
+  
+  describe('getAllUsers', () => {
+    it('should list users for admins', async () => {
+      // Arrange
+      mockUserService.getAllUsers.mockResolvedValue([adminUser, viewerUser]);
+      
+      // Act
+      const result = await secureUserService.getAllUsers(adminUser, UserRole.VIEWER);
+      
+      // Assert
+      expect(mockUserService.getAllUsers).toHaveBeenCalledWith(adminUser, UserRole.VIEWER);
+      expect(result).toEqual([adminUser, viewerUser]);
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(secureUserService.getAllUsers(editorUser))
+        .rejects.toThrow('User does not have permission to list users');
+      expect(mockUserService.getAllUsers).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getUser', () => {
+    it('should let users read themselves', async () => {
+      // Arrange
+      mockUserService.getUser.mockResolvedValue(viewerUser);
+      
+      // Act
+      const result = await secureUserService.getUser(viewerUser.id, viewerUser);
+      
+      // Assert
+      expect(result).toBe(viewerUser);
+    });
+    
+    it('should let admins read other users', async () => {
+      // Arrange
+      mockUserService.getUser.mockResolvedValue(viewerUser);
+      
+      // Act
+      const result = await secureUserService.getUser(viewerUser.id, adminUser);
+      
+      // Assert
+      expect(result).toBe(viewerUser);
+    });
+    
+    it('should not let non-admins read other users', async () => {
+      // Act & Assert
+      await expect(secureUserService.getUser(adminUser.id, viewerUser))
+        .rejects.toThrow('User does not have permission to read this user');
+    });
+  });
+  
+  describe('createUser', () => {
+    it('should let admins create users and record the change', async () => {
+      // Arrange
+      mockUserService.createUser.mockResolvedValue(viewerUser);
+      
+      // Act
+      const result = await secureUserService.createUser(
+        'Viewer User', 'viewer@example.com', 'password123', UserRole.VIEWER, adminUser
+      );
+      
+      // Assert
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        actor: adminUser,
+        action: AuditAction.CREATE,
+        entityType: AuditEntityType.USER,
+        entityId: viewerUser.id,
+        before: undefined,
+        after: viewerUser
+      });
+      expect(result).toBe(viewerUser);
+    });
+    
+    it('should store the user and its audit entry in one transaction that is rolled back if either fails', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockUserService.createUser.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return viewerUser;
+      });
+      mockAuditService.record.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        throw new Error('Disk full');
+      });
+      
+      // Act
+      const act = secureUserService.createUser('Viewer User', 'viewer@example.com', 'password123', UserRole.VIEWER, adminUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+      expect(transactions).toHaveLength(2);
+      expect(transactions[1]).toBe(transactions[0]);
+      expect(transactions[0]?.status).toBe('rolledBack');
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(secureUserService.createUser(
+        'New User', 'new@example.com', 'password123', UserRole.ADMIN, editorUser
+      )).rejects.toThrow('User does not have permission to create users');
+      expect(mockUserService.createUser).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('updateProfile', () => {
+    it('should let users update their own profile', async () => {
+      // Arrange
+      mockUserService.updateProfile.mockResolvedValue(viewerUser);
+      
+      // Act
+      const result = await secureUserService.updateProfile(viewerUser.id, { name: 'New Name' }, viewerUser);
+      
+      // Assert
+      expect(mockUserService.updateProfile).toHaveBeenCalledWith(viewerUser.id, { name: 'New Name' }, viewerUser);
+      expect(result).toBe(viewerUser);
+    });
+    
+    it('should store the profile and its audit entry in one transaction that is rolled back if either fails', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockUserService.updateProfile.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return viewerUser;
+      });
+      mockAuditService.record.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        throw new Error('Disk full');
+      });
+      
+      // Act
+      const act = secureUserService.updateProfile(viewerUser.id, { name: 'New Name' }, viewerUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+      expect(transactions).toHaveLength(2);
+      expect(transactions[1]).toBe(transactions[0]);
+      expect(transactions[0]?.status).toBe('rolledBack');
+    });
+    
+    it('should not let anyone update another profile', async () => {
+      // Act & Assert
+      await expect(secureUserService.updateProfile(viewerUser.id, { name: 'New Name' }, adminUser))
+        .rejects.toThrow('User does not have permission to update this profile');
+    });
+  });
+  
+  describe('updateRole', () => {
+    it('should let admins change the role of other users', async () => {
+      // Arrange
+      const promoted = viewerUser.updateRole(UserRole.EDITOR);
+      mockUserService.getUser.mockResolvedValue(viewerUser);
+      mockUserService.updateRole.mockResolvedValue(promoted);
+      
+      // Act
+      await secureUserService.updateRole(viewerUser.id, UserRole.EDITOR, adminUser);
+      
+      // Assert
+      expect(mockUserService.updateRole).toHaveBeenCalledWith(viewerUser.id, UserRole.EDITOR, adminUser);
+      expect(mockAuditService.record).toHaveBeenCalledWith({
+        actor: adminUser,
+        action: AuditAction.ROLE_CHANGE,
+        entityType: AuditEntityType.USER,
+        entityId: viewerUser.id,
+        before: viewerUser,
+        after: promoted
+      });
+    });
+    
+    it('should not let admins change their own role', async () => {
+      // Act & Assert
+      await expect(secureUserService.updateRole(adminUser.id, UserRole.VIEWER, adminUser))
+        .rejects.toThrow('Invalid user: Admins cannot change their own role');
+      expect(mockUserService.updateRole).not.toHaveBeenCalled();
+      expect(mockAuditService.record).not.toHaveBeenCalled();
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(secureUserService.updateRole(editorUser.id, UserRole.ADMIN, editorUser))
+        .rejects.toThrow('User does not have permission to change roles');
+    });
+  });
+  
+  describe('updateGroups', () => {
+    it('should let admins change the groups of users', async () => {
+      // Arrange
+      mockUserService.updateGroups.mockResolvedValue(viewerUser);
+      
+      // Act
+      await secureUserService.updateGroups(viewerUser.id, ['team'], adminUser);
+      
+      // Assert
+      expect(mockUserService.updateGroups).toHaveBeenCalledWith(viewerUser.id, ['team'], adminUser);
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(secureUserService.updateGroups(editorUser.id, ['team'], editorUser))
+        .rejects.toThrow('User does not have permission to change groups');
+      expect(mockUserService.updateGroups).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('deleteUser', () => {
+    it('should let admins delete other users', async () => {
+      // Arrange
+      mockUserService.getUser.mockResolvedValue(viewerUser);
+      mockUserService.deleteUser.mockResolvedValue(true);
+      
+      // Act
+      const result = await secureUserService.deleteUser(viewerUser.id, adminUser);
+      
+      // Assert
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: AuditAction.DELETE,
+        entityId: viewerUser.id,
+        before: viewerUser
+      }));
+      expect(result).toBe(true);
+    });
+    
+    it('should not let admins delete themselves', async () => {
+      // Act & Assert
+      await expect(secureUserService.deleteUser(adminUser.id, adminUser))
+        .rejects.toThrow('Invalid user: Admins cannot delete their own account');
+    });
+    
+    it('should throw an error for non-admins', async () => {
+      // Act & Assert
+      await expect(secureUserService.deleteUser(viewerUser.id, editorUser))
+        .rejects.toThrow('User does not have permission to delete users');
+      expect(mockUserService.deleteUser).not.toHaveBeenCalled();
+    });
+  });
+});
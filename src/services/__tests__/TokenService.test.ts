@@ -0,0 +1,152 @@
+import { TokenService } from '../TokenService';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+describe('TokenService', () => {
+  let tokenService: TokenService;
+  let user: User;
+  
+  beforeEach(() => {
+    tokenService = new TokenService({ secret: 'test-secret', issuer: 'test-issuer', accessTokenTtlSeconds: 60, refreshTokenTtlSeconds: 3600 });
+    user = new User('Test User', 'test@example.com', UserRole.EDITOR, 'user-id');
+  });
+  
+  it('should issue a token carrying the user, issuer and expiry claims', () => {
+    // Arrange
+    const now = Date.UTC(2025, 0, 1);
+    
+    // Act
+    const { token, expiresIn } = tokenService.issueAccessToken(user, now);
+    const claims = tokenService.verifyAccessToken(token, now);
+    
+    // Assert
+    expect(token.split('.')).toHaveLength(3);
+    expect(expiresIn).toBe(60);
+    expect(claims).toEqual({
+      sub: 'user-id',
+      role: UserRole.EDITOR,
+      iss: 'test-issuer',
+      iat: now / 1000,
+      exp: now / 1000 + 60
+    });
+  });
+  
+  it('should reject an expired token', () => {
+    // Arrange
+    const now = Date.UTC(2025, 0, 1);
+    const { token } = tokenService.issueAccessToken(user, now);
+    
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken(token, now + 60 * 1000))
+      .toThrow('Token expired');
+  });
+  
+  it('should reject a token with a tampered payload', () => {
+    // Arrange
+    const { token } = tokenService.issueAccessToken(user);
+    const [header, payload, signature] = token.split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: UserRole.ADMIN })).toString('base64url');
+    
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken(`${header}.${forged}.${signature}`))
+      .toThrow('Invalid token');
+  });
+  
+  it('should reject a token signed with another secret', () => {
+    // Arrange
+    const other = new TokenService({ secret: 'other-secret', issuer: 'test-issuer' });
+    const { token } = other.issueAccessToken(user);
+    
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken(token)).toThrow('Invalid token');
+  });
+  
+  it('should reject a token from another issuer', () => {
+    // Arrange
+    const other = new TokenService({ secret: 'test-secret', issuer: 'other-issuer' });
+    const { token } = other.issueAccessToken(user);
+    
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken(token)).toThrow('Invalid token');
+  });
+  
+  it('should reject malformed tokens', () => {
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken('user-id')).toThrow('Invalid token');
+    expect(() => tokenService.verifyAccessToken('a.b.c')).toThrow('Invalid token');
+  });
+  
+  it('should reject a signature of the right length with non-ASCII characters', () => {
+    // Arrange
+    const { token } = tokenService.issueAccessToken(user);
+    const [header, payload, signature] = token.split('.');
+    const forged = `é${signature.slice(1)}`;
+    
+    // Act & Assert
+    expect(() => tokenService.verifyAccessToken(`${header}.${payload}.${forged}`))
+      .toThrow('Invalid token');
+  });
+  
+  it('should generate random refresh tokens with a stable hash', () => {
+    // Act
+    const first = tokenService.generateRefreshToken();
+    const second = tokenService.generateRefreshToken();
+    
+    // Assert
+    expect(first.token).not.toBe(second.token);
+    expect(tokenService.hashRefreshToken(first.token)).toBe(tokenService.hashRefreshToken(first.token));
+    expect(tokenService.hashRefreshToken(first.token)).not.toBe(first.token);
+  });
+  
+  it('should require a secret in production', () => {
+    // Arrange
+    const { NODE_ENV, AUTH_TOKEN_SECRET } = process.env;
+    process.env.NODE_ENV = 'production';
+    delete process.env.AUTH_TOKEN_SECRET;
+    
+    try {
+      // Act & Assert
+      expect(() => new TokenService()).toThrow('AUTH_TOKEN_SECRET must be set in production');
+    } finally {
+      process.env.NODE_ENV = NODE_ENV;
+      if (AUTH_TOKEN_SECRET !== undefined) {
+        process.env.AUTH_TOKEN_SECRET = AUTH_TOKEN_SECRET;
+      }
+    }
+  });
+  
+  it('should refuse a placeholder secret', () => {
+    // Arrange
+    const previous = process.env.AUTH_TOKEN_SECRET;
+    process.env.AUTH_TOKEN_SECRET = 'change-me';
+    
+    try {
+      // Act & Assert
+      expect(() => new TokenService()).toThrow('AUTH_TOKEN_SECRET must not be the placeholder "change-me"');
+    } finally {
+      if (previous === undefined) {
+        delete process.env.AUTH_TOKEN_SECRET;
+      } else {
+        process.env.AUTH_TOKEN_SECRET = previous;
+      }
+    }
+  });
+  
+  it.each(['AUTH_ACCESS_TOKEN_TTL', 'AUTH_REFRESH_TOKEN_TTL'])('should refuse a %s that is not a positive whole number', name => {
+    // Arrange
+    const previous = process.env[name];
+    process.env[name] = 'fifteen minutes';
+    
+    try {
+      // Act & Assert
+      expect(() => new TokenService({ secret: 'test-secret' })).toThrow(`${name} must be a positive whole number`);
+    } finally {
+      if (previous === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = previous;
+      }
+    }
+  });
+});
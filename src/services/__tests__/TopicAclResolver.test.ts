@@ -0,0 +1,115 @@
+import { TopicAclResolver } from '../TopicAclResolver';
+import { Topic } from '../../models/Topic';
+import { User } from '../../models/User';
+import { TopicAclEntry } from '../../models/TopicAclEntry';
+import { UserRole } from '../../enums/UserRole';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+
+describe('TopicAclResolver', () => {
+  let root: Topic;
+  let child: Topic;
+  let grandchild: Topic;
+  let user: User;
+  
+  beforeEach(() => {
+    root = new Topic('Root', 'Root content');
+    child = root.createChildTopic('Child', 'Child content');
+    grandchild = child.createChildTopic('Grandchild', 'Grandchild content');
+    user = new User('Test User', 'test@example.com', UserRole.EDITOR, 'user-id', undefined, undefined, undefined, ['team']);
+  });
+  
+  /**
+   * Creates an entry for the test hierarchy
+   */
+  const entry = (
+    topic: Topic,
+    principalType: AclPrincipalType,
+    principalId: string,
+    permission: TopicPermission
+  ): TopicAclEntry => new TopicAclEntry(topic.rootTopicId, principalType, principalId, permission);
+  
+  it('should return undefined if no topic on the chain has entries', () => {
+    // Arrange
+    const resolver = new TopicAclResolver([], [root, child, grandchild]);
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, grandchild)).toBeUndefined();
+  });
+  
+  it('should inherit entries down the hierarchy', () => {
+    // Arrange
+    const resolver = new TopicAclResolver(
+      [entry(root, AclPrincipalType.USER, 'user-id', TopicPermission.WRITE)],
+      [root, child, grandchild]
+    );
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, grandchild)).toBe(TopicPermission.WRITE);
+  });
+  
+  it('should let entries on a descendant override inherited ones', () => {
+    // Arrange
+    const resolver = new TopicAclResolver(
+      [
+        entry(root, AclPrincipalType.USER, 'user-id', TopicPermission.MANAGE),
+        entry(child, AclPrincipalType.USER, 'other-user-id', TopicPermission.READ)
+      ],
+      [root, child, grandchild]
+    );
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, root)).toBe(TopicPermission.MANAGE);
+    expect(resolver.getPermission(user, child)).toBe(TopicPermission.NONE);
+    expect(resolver.getPermission(user, grandchild)).toBe(TopicPermission.NONE);
+  });
+  
+  it('should prefer a user entry over group entries on the same topic', () => {
+    // Arrange
+    const resolver = new TopicAclResolver(
+      [
+        entry(root, AclPrincipalType.GROUP, 'team', TopicPermission.MANAGE),
+        entry(root, AclPrincipalType.USER, 'user-id', TopicPermission.READ)
+      ],
+      [root]
+    );
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, root)).toBe(TopicPermission.READ);
+  });
+  
+  it('should use the strongest matching group entry', () => {
+    // Arrange
+    const resolver = new TopicAclResolver(
+      [
+        entry(root, AclPrincipalType.GROUP, 'team', TopicPermission.WRITE),
+        entry(root, AclPrincipalType.GROUP, 'other-team', TopicPermission.MANAGE)
+      ],
+      [root]
+    );
+    const member = user.updateGroups(['team', 'other-team']);
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, root)).toBe(TopicPermission.WRITE);
+    expect(resolver.getPermission(member, root)).toBe(TopicPermission.MANAGE);
+  });
+  
+  it('should resolve by root topic ID and for older versions', () => {
+    // Arrange
+    const resolver = new TopicAclResolver(
+      [entry(root, AclPrincipalType.USER, 'user-id', TopicPermission.READ)],
+      [root.createNewVersion('Updated', 'Root v2')]
+    );
+    
+    // Act & Assert
+    expect(resolver.getPermission(user, root.rootTopicId)).toBe(TopicPermission.READ);
+    expect(resolver.getPermission(user, root)).toBe(TopicPermission.READ);
+  });
+  
+  it('should compare permission levels', () => {
+    expect(TopicAclResolver.allows(TopicPermission.MANAGE, TopicPermission.WRITE)).toBe(true);
+    expect(TopicAclResolver.allows(TopicPermission.READ, TopicPermission.READ)).toBe(true);
+    expect(TopicAclResolver.allows(TopicPermission.READ, TopicPermission.WRITE)).toBe(false);
+    expect(TopicAclResolver.allows(TopicPermission.NONE, TopicPermission.READ)).toBe(false);
+  });
+});
@@ -1,15 +1,30 @@
 import { TopicService } from '../TopicService';
 import { TopicRepository } from '../../repositories/TopicRepository';
+import { TopicAclRepository } from '../../repositories/TopicAclRepository';
+import { ResourceRepository } from '../../repositories/ResourceRepository';
 import { Topic } from '../../models/Topic';
+import { Resource } from '../../models/Resource';
 import { User } from '../../models/User';
+import { TopicAclEntry } from '../../models/TopicAclEntry';
 import { UserRole } from '../../enums/UserRole';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+import { ResourceType } from '../../enums/ResourceType';
+import { ConflictError } from '../../errors/ConflictError';
+import { NotFoundError } from '../../errors/NotFoundError';
+import { PreconditionFailedError } from '../../errors/PreconditionFailedError';
+import { getCurrentTransaction, Transaction } from '../../database/Transaction';
 
-// Mock the TopicRepository
+// Mock the repositories
 jest.mock('../../repositories/TopicRepository');
+jest.mock('../../repositories/TopicAclRepository');
+jest.mock('../../repositories/ResourceRepository');
 
 describe('TopicService', () => {
   let topicService: TopicService;
   let mockTopicRepository: jest.Mocked<TopicRepository>;
+  let mockTopicAclRepository: jest.Mocked<TopicAclRepository>;
+  let mockResourceRepository: jest.Mocked<ResourceRepository>;
   let testUser: User;
   
   beforeEach(() => {
@@ -19,8 +34,12 @@ describe('TopicService', () => {
     // Create a mock TopicRepository
     mockTopicRepository = new TopicRepository() as jest.Mocked<TopicRepository>;
     
-    // Create a TopicService with the mock repository
-    topicService = new TopicService(mockTopicRepository);
+    mockTopicAclRepository = new TopicAclRepository() as jest.Mocked<TopicAclRepository>;
+    
+    mockResourceRepository = new ResourceRepository() as jest.Mocked<ResourceRepository>;
+    
+    // Create a TopicService with the mock repositories
+    topicService = new TopicService(mockTopicRepository, mockTopicAclRepository, mockResourceRepository);
     
     // Create a test user
     testUser = new User('Test User', 'test@example.com', UserRole.ADMIN);
@@ -45,6 +64,18 @@ describe('TopicService', () => {
       expect(result.content).toBe(content);
     });
     
+    it('should record the creating user as owner and author', async () => {
+      // Arrange
+      mockTopicRepository.create.mockImplementation(async topic => topic);
+      
+      // Act
+      const result = await topicService.createTopic('Owned Topic', 'Owned Content', testUser);
+      
+      // Assert
+      expect(result.ownerId).toBe(testUser.id);
+      expect(result.authorId).toBe(testUser.id);
+    });
+    
     it('should create a child topic', async () => {
       // Arrange
       const name = 'Child Topic';
@@ -61,7 +92,7 @@ describe('TopicService', () => {
       
       // Assert
       expect(mockTopicRepository.findById).toHaveBeenCalledWith(parentId);
-      expect(mockTopicRepository.createChildTopic).toHaveBeenCalledWith(parentId, name, content);
+      expect(mockTopicRepository.createChildTopic).toHaveBeenCalledWith(parentId, name, content, testUser.id);
       expect(result).toBe(childTopic);
     });
     
@@ -85,13 +116,13 @@ describe('TopicService', () => {
       const id = 'topic-id';
       const topic = new Topic('Test Topic', 'Test Content');
       
-      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicRepository.findLatestById.mockResolvedValue(topic);
       
       // Act
       const result = await topicService.getTopic(id, testUser);
       
       // Assert
-      expect(mockTopicRepository.findById).toHaveBeenCalledWith(id);
+      expect(mockTopicRepository.findLatestById).toHaveBeenCalledWith(id);
       expect(result).toBe(topic);
     });
     
@@ -99,13 +130,13 @@ describe('TopicService', () => {
       // Arrange
       const id = 'non-existent-id';
       
-      mockTopicRepository.findById.mockResolvedValue(null);
+      mockTopicRepository.findLatestById.mockResolvedValue(null);
       
       // Act
       const result = await topicService.getTopic(id, testUser);
       
       // Assert
-      expect(mockTopicRepository.findById).toHaveBeenCalledWith(id);
+      expect(mockTopicRepository.findLatestById).toHaveBeenCalledWith(id);
       expect(result).toBeNull();
     });
   });
@@ -123,7 +154,7 @@ describe('TopicService', () => {
       const result = await topicService.updateTopic(id, content, testUser);
       
       // Assert
-      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, undefined);
+      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, undefined, testUser.id, undefined);
       expect(result).toBe(updatedTopic);
     });
     
@@ -140,7 +171,7 @@ describe('TopicService', () => {
       const result = await topicService.updateTopic(id, content, testUser, name);
       
       // Assert
-      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, name);
+      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, name, testUser.id, undefined);
       expect(result).toBe(updatedTopic);
     });
     
@@ -155,55 +186,556 @@ describe('TopicService', () => {
       const result = await topicService.updateTopic(id, content, testUser);
       
       // Assert
-      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, undefined);
+      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(id, content, undefined, testUser.id, undefined);
       expect(result).toBeNull();
     });
   });
   
   describe('deleteTopic', () => {
-    it('should delete a topic with no children', async () => {
-      // Arrange
-      const id = 'topic-id';
-      
-      mockTopicRepository.findByParentId.mockResolvedValue([]);
+    let root: Topic;
+    let child: Topic;
+    let grandchild: Topic;
+    let resource: Resource;
+    let resources: Resource[];
+    let topics: Topic[];
+    
+    beforeEach(() => {
+      root = new Topic('Root', 'Root content').createNewVersion('Root v2');
+      child = root.createChildTopic('Child', 'Child content');
+      grandchild = child.createChildTopic('Grandchild', 'Grandchild content');
+      resource = new Resource(grandchild.rootTopicId, 'https://example.com', 'Example', ResourceType.ARTICLE);
+      topics = [root, child, grandchild];
+      
+      mockTopicRepository.findLatestById.mockImplementation(
+        async id => topics.find(topic => topic.id === id || topic.rootTopicId === id) ?? null
+      );
+      mockTopicRepository.findByParentId.mockImplementation(
+        async parentId => topics.filter(topic => topic.parentTopicId === parentId)
+      );
+      mockTopicRepository.findAllVersions.mockImplementation(
+        async rootTopicId => topics.filter(topic => topic.rootTopicId === rootTopicId)
+      );
+      mockTopicRepository.trashAllVersions.mockImplementation(
+        async (rootTopicId, deletedBy, deletedAt) => topics
+          .filter(topic => topic.rootTopicId === rootTopicId)
+          .map(topic => topic.moveToTrash(deletedBy, deletedAt))
+      );
+      mockTopicRepository.restoreAllVersions.mockResolvedValue([]);
       mockTopicRepository.delete.mockResolvedValue(true);
+      mockTopicRepository.createMovedVersion.mockImplementation(
+        async (id, newParentTopicId, authorId) => topics.find(topic => topic.id === id)?.moveTo(newParentTopicId, authorId) ?? null
+      );
+      resources = [resource];
+      mockResourceRepository.findByTopicId.mockImplementation(
+        async topicId => resources.filter(candidate => candidate.topicId === topicId)
+      );
+      mockResourceRepository.trash.mockImplementation(async (id, deletedBy, deletedAt) => resource.moveToTrash(deletedBy, deletedAt));
+      mockResourceRepository.restore.mockResolvedValue(resource);
+    });
+    
+    it('should move all versions of a topic with no children to the trash', async () => {
+      // Arrange
+      const first = new Topic('Leaf', 'Leaf content');
+      const leaf = first.createNewVersion('Leaf v2');
+      topics = [first, leaf];
       
       // Act
-      const result = await topicService.deleteTopic(id, testUser);
+      const result = await topicService.deleteTopic(leaf.id, testUser);
       
       // Assert
-      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(id);
-      expect(mockTopicRepository.delete).toHaveBeenCalledWith(id);
+      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(leaf.rootTopicId);
+      expect(mockTopicRepository.trashAllVersions).toHaveBeenCalledWith(leaf.rootTopicId, testUser.id, expect.any(Date), undefined);
+      expect(mockTopicRepository.delete).not.toHaveBeenCalled();
+      expect(mockResourceRepository.trash).not.toHaveBeenCalled();
       expect(result).toBe(true);
     });
     
-    it('should throw an error if topic has children', async () => {
+    it('should trash the resources of a topic deleted in orphan-check mode', async () => {
       // Arrange
-      const id = 'topic-id';
-      const childTopic = new Topic('Child Topic', 'Child Content', 1, id);
+      const leafResource = new Resource(grandchild.rootTopicId, 'https://example.org', 'Leaf', ResourceType.VIDEO);
+      resources = [resource, leafResource];
       
-      mockTopicRepository.findByParentId.mockResolvedValue([childTopic]);
+      // Act
+      await topicService.deleteTopic(grandchild.id, testUser, 'orphan-check');
       
+      // Assert
+      const deletedAt = mockTopicRepository.trashAllVersions.mock.calls[0][2];
+      expect(mockResourceRepository.trash).toHaveBeenCalledTimes(2);
+      expect(mockResourceRepository.trash).toHaveBeenCalledWith(resource.id, testUser.id, deletedAt);
+      expect(mockResourceRepository.trash).toHaveBeenCalledWith(leafResource.id, testUser.id, deletedAt);
+    });
+    
+    it('should throw an error if topic has children', async () => {
       // Act & Assert
-      await expect(topicService.deleteTopic(id, testUser))
+      await expect(topicService.deleteTopic(root.id, testUser))
         .rejects.toThrow('Cannot delete a topic with child topics');
+      await expect(topicService.deleteTopic(root.id, testUser)).rejects.toThrow(ConflictError);
+      expect(mockTopicRepository.trashAllVersions).not.toHaveBeenCalled();
     });
     
     it('should return false if topic not found', async () => {
       // Arrange
       const id = 'non-existent-id';
       
-      mockTopicRepository.findByParentId.mockResolvedValue([]);
-      mockTopicRepository.delete.mockResolvedValue(false);
-      
       // Act
       const result = await topicService.deleteTopic(id, testUser);
       
       // Assert
-      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(id);
-      expect(mockTopicRepository.delete).toHaveBeenCalledWith(id);
+      expect(mockTopicRepository.findLatestById).toHaveBeenCalledWith(id);
+      expect(mockTopicRepository.trashAllVersions).not.toHaveBeenCalled();
       expect(result).toBe(false);
     });
+    
+    it('should change nothing if the topic is no longer at the expected version', async () => {
+      // Act
+      const act = topicService.deleteTopic(root.id, testUser, 'cascade', 1);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PreconditionFailedError);
+      expect(mockTopicRepository.trashAllVersions).not.toHaveBeenCalled();
+      expect(mockResourceRepository.trash).not.toHaveBeenCalled();
+    });
+    
+    it('should check the expected version when the deleted topic is trashed', async () => {
+      // Act
+      await topicService.deleteTopic(root.id, testUser, 'cascade', 2);
+      
+      // Assert
+      expect(mockTopicRepository.trashAllVersions).toHaveBeenCalledWith(root.rootTopicId, testUser.id, expect.any(Date), 2);
+      expect(mockTopicRepository.trashAllVersions).toHaveBeenCalledWith(child.rootTopicId, testUser.id, expect.any(Date), undefined);
+    });
+    
+    it('should trash the whole subtree and its resources with one deletion date in cascade mode', async () => {
+      // Act
+      const result = await topicService.deleteTopic(root.id, testUser, 'cascade');
+      
+      // Assert
+      const calls = mockTopicRepository.trashAllVersions.mock.calls;
+      const deletedAt = calls[0][2];
+      expect(result).toBe(true);
+      expect(mockResourceRepository.trash).toHaveBeenCalledWith(resource.id, testUser.id, deletedAt);
+      expect(calls.map(call => call[0])).toEqual([grandchild.rootTopicId, child.rootTopicId, root.rootTopicId]);
+      expect(calls.every(call => call[2] === deletedAt)).toBe(true);
+    });
+    
+    it('should move the children up to the deleted topic\'s parent in reparent mode', async () => {
+      // Act
+      const result = await topicService.deleteTopic(child.id, testUser, 'reparent');
+      
+      // Assert
+      expect(result).toBe(true);
+      expect(mockTopicRepository.createMovedVersion).toHaveBeenCalledWith(grandchild.rootTopicId, root.rootTopicId, testUser.id);
+      expect(mockTopicRepository.trashAllVersions).toHaveBeenCalledTimes(1);
+      expect(mockTopicRepository.trashAllVersions).toHaveBeenCalledWith(child.rootTopicId, testUser.id, expect.any(Date), undefined);
+      expect(mockResourceRepository.trash).not.toHaveBeenCalled();
+    });
+    
+    it('should trash the deleted topic\'s resources but not those of the moved children in reparent mode', async () => {
+      // Arrange
+      const childResource = new Resource(child.rootTopicId, 'https://example.org', 'Child', ResourceType.VIDEO);
+      resources = [resource, childResource];
+      
+      // Act
+      await topicService.deleteTopic(child.id, testUser, 'reparent');
+      
+      // Assert
+      expect(mockResourceRepository.trash).toHaveBeenCalledTimes(1);
+      expect(mockResourceRepository.trash).toHaveBeenCalledWith(childResource.id, testUser.id, expect.any(Date));
+    });
+    
+    it('should plan the deletion in the transaction that carries it out', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockTopicRepository.findByParentId.mockImplementation(async parentId => {
+        transactions.push(getCurrentTransaction());
+        return topics.filter(topic => topic.parentTopicId === parentId);
+      });
+      mockTopicRepository.trashAllVersions.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return [];
+      });
+      
+      // Act
+      await topicService.deleteTopic(grandchild.id, testUser);
+      
+      // Assert
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toBeDefined();
+      expect(transactions[1]).toBe(transactions[0]);
+    });
+    
+    it('should run every step in one transaction that is rolled back if a later step fails', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockResourceRepository.trash.mockImplementation(async (id, deletedBy, deletedAt) => {
+        transactions.push(getCurrentTransaction());
+        return resource.moveToTrash(deletedBy, deletedAt);
+      });
+      mockTopicRepository.trashAllVersions.mockImplementation(async (rootTopicId, deletedBy, deletedAt) => {
+        transactions.push(getCurrentTransaction());
+        if (rootTopicId === root.rootTopicId) {
+          throw new Error('Disk full');
+        }
+        return [topics.find(topic => topic.rootTopicId === rootTopicId)!.moveToTrash(deletedBy, deletedAt)];
+      });
+      
+      // Act
+      const act = topicService.deleteTopic(root.id, testUser, 'cascade');
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+      expect(transactions).toHaveLength(4);
+      expect(new Set(transactions).size).toBe(1);
+      expect(transactions[0]?.status).toBe('rolledBack');
+      expect(mockTopicRepository.restoreAllVersions).not.toHaveBeenCalled();
+      expect(mockResourceRepository.restore).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('planTopicDeletion', () => {
+    it('should report the subtree and its resources without changing anything', async () => {
+      // Arrange
+      const root = new Topic('Root', 'Root content');
+      const child = root.createChildTopic('Child', 'Child content');
+      const resource = new Resource(child.rootTopicId, 'https://example.com', 'Example', ResourceType.VIDEO);
+      const unrelated = new Resource('other-topic', 'https://example.org', 'Other', ResourceType.VIDEO);
+      
+      mockTopicRepository.findLatestById.mockResolvedValue(root);
+      mockTopicRepository.findByParentId.mockImplementation(
+        async parentId => [child].filter(topic => topic.parentTopicId === parentId)
+      );
+      mockResourceRepository.findByTopicId.mockImplementation(
+        async topicId => [resource, unrelated].filter(candidate => candidate.topicId === topicId)
+      );
+      
+      // Act
+      const plan = await topicService.planTopicDeletion(root.id, 'cascade', testUser);
+      
+      // Assert
+      expect(plan).toEqual({
+        mode: 'cascade',
+        deletedTopics: [root, child],
+        deletedResources: [resource],
+        movedTopics: [],
+        newParentTopicId: null
+      });
+      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(root.rootTopicId);
+      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(child.rootTopicId);
+      expect(mockTopicRepository.findLatestVersions).not.toHaveBeenCalled();
+      expect(mockTopicRepository.trashAllVersions).not.toHaveBeenCalled();
+      expect(mockResourceRepository.trash).not.toHaveBeenCalled();
+    });
+    
+    it('should only collect each topic once when the subtree already forms a cycle', async () => {
+      // Arrange
+      const loopA = new Topic('Loop A', 'Content', 1, 'loop-b', 'loop-a');
+      const loopB = new Topic('Loop B', 'Content', 1, 'loop-a', 'loop-b');
+      
+      mockTopicRepository.findLatestById.mockResolvedValue(loopA);
+      mockTopicRepository.findByParentId.mockImplementation(
+        async parentId => [loopA, loopB].filter(topic => topic.parentTopicId === parentId)
+      );
+      mockResourceRepository.findByTopicId.mockResolvedValue([]);
+      
+      // Act
+      const plan = await topicService.planTopicDeletion(loopA.id, 'cascade', testUser);
+      
+      // Assert
+      expect(plan?.deletedTopics).toEqual([loopA, loopB]);
+    });
+    
+    it('should make the children root topics when a root topic is deleted in reparent mode', async () => {
+      // Arrange
+      const root = new Topic('Root', 'Root content');
+      const child = root.createChildTopic('Child', 'Child content');
+      
+      mockTopicRepository.findLatestById.mockResolvedValue(root);
+      mockTopicRepository.findByParentId.mockResolvedValue([child]);
+      mockResourceRepository.findByTopicId.mockResolvedValue([]);
+      
+      // Act
+      const plan = await topicService.planTopicDeletion(root.id, 'reparent', testUser);
+      
+      // Assert
+      expect(plan?.deletedTopics).toEqual([root]);
+      expect(plan?.movedTopics).toEqual([child]);
+      expect(plan?.newParentTopicId).toBeNull();
+    });
+  });
+  
+  describe('copyTopic', () => {
+    let root: Topic;
+    let rootV2: Topic;
+    let child: Topic;
+    let target: Topic;
+    let resource: Resource;
+    let created: Topic[];
+    
+    beforeEach(() => {
+      root = new Topic('Root', 'Root content', 1, undefined, undefined, undefined, undefined, undefined, undefined, 'owner-id', 'owner-id');
+      rootV2 = root.createNewVersion('Root v2', undefined, 'author-id');
+      child = rootV2.createChildTopic('Child', 'Child content', 'owner-id');
+      target = new Topic('Target', 'Target content');
+      resource = new Resource(child.rootTopicId, 'https://example.com', 'Example', ResourceType.VIDEO);
+      created = [];
+      
+      const topics = [root, rootV2, child, target];
+      mockTopicRepository.findById.mockImplementation(async id => topics.find(topic => topic.id === id) ?? null);
+      mockTopicRepository.findLatestById.mockImplementation(async id => (id === root.id || id === rootV2.id ? rootV2 : null));
+      mockTopicRepository.findAllChildrenRecursive.mockResolvedValue([child]);
+      mockTopicRepository.findAllVersions.mockImplementation(
+        async rootTopicId => topics.filter(topic => topic.rootTopicId === rootTopicId)
+      );
+      mockTopicRepository.create.mockImplementation(async topic => {
+        created.push(topic);
+        return topic;
+      });
+      mockTopicRepository.delete.mockResolvedValue(true);
+      mockResourceRepository.findByTopicId.mockImplementation(async topicId => (topicId === child.rootTopicId ? [resource] : []));
+      mockResourceRepository.create.mockImplementation(async copy => copy);
+      mockResourceRepository.delete.mockResolvedValue(true);
+    });
+    
+    it('should copy the latest version of every topic with fresh IDs and rewritten parents', async () => {
+      // Act
+      const result = await topicService.copyTopic(root.id, {
+        targetParentId: target.id,
+        includeResources: false,
+        includeHistory: false
+      }, testUser);
+      
+      // Assert
+      const rootCopy = result?.tree.topic;
+      const childCopy = result?.tree.children[0].topic;
+      expect(created).toHaveLength(2);
+      expect(rootCopy).toEqual(expect.objectContaining({
+        name: 'Root',
+        content: 'Root v2',
+        version: 1,
+        parentTopicId: target.rootTopicId,
+        ownerId: testUser.id,
+        authorId: testUser.id
+      }));
+      expect(rootCopy?.id).not.toBe(root.id);
+      expect(rootCopy?.rootTopicId).toBe(rootCopy?.id);
+      expect(childCopy?.parentTopicId).toBe(rootCopy?.rootTopicId);
+      expect(result?.resources).toEqual([]);
+      expect(mockResourceRepository.create).not.toHaveBeenCalled();
+    });
+    
+    it('should copy every version and the resources when asked to', async () => {
+      // Act
+      const result = await topicService.copyTopic(root.id, {
+        targetParentId: null,
+        includeResources: true,
+        includeHistory: true
+      }, testUser);
+      
+      // Assert
+      const [rootCopyV1, rootCopyV2, childCopy] = created;
+      expect(created).toHaveLength(3);
+      expect(rootCopyV1).toEqual(expect.objectContaining({ content: 'Root content', version: 1, authorId: 'owner-id' }));
+      expect(rootCopyV2).toEqual(expect.objectContaining({
+        content: 'Root v2',
+        version: 2,
+        previousVersionId: rootCopyV1.id,
+        rootTopicId: rootCopyV1.id,
+        authorId: 'author-id'
+      }));
+      expect(rootCopyV2.parentTopicId).toBeUndefined();
+      expect(result?.tree.topic).toBe(rootCopyV2);
+      expect(childCopy.parentTopicId).toBe(rootCopyV1.id);
+      expect(result?.resources).toHaveLength(1);
+      expect(result?.resources[0]).toEqual(expect.objectContaining({
+        topicId: childCopy.rootTopicId,
+        url: resource.url,
+        description: resource.description
+      }));
+      expect(result?.resources[0].id).not.toBe(resource.id);
+    });
+    
+    it('should throw a NotFoundError if the target parent does not exist', async () => {
+      // Act
+      const act = topicService.copyTopic(root.id, {
+        targetParentId: 'missing-id',
+        includeResources: false,
+        includeHistory: false
+      }, testUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Parent topic with ID missing-id not found');
+      expect(mockTopicRepository.create).not.toHaveBeenCalled();
+    });
+    
+    it('should make the copy in one transaction that is rolled back if a later step fails', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      const createTopic = mockTopicRepository.create.getMockImplementation()!;
+      mockTopicRepository.create.mockImplementation(async topic => {
+        transactions.push(getCurrentTransaction());
+        return createTopic(topic);
+      });
+      mockResourceRepository.create.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        throw new Error('Disk full');
+      });
+      
+      // Act
+      const act = topicService.copyTopic(root.id, {
+        targetParentId: null,
+        includeResources: true,
+        includeHistory: false
+      }, testUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+      expect(transactions).toHaveLength(3);
+      expect(new Set(transactions).size).toBe(1);
+      expect(transactions[0]?.status).toBe('rolledBack');
+      expect(mockTopicRepository.delete).not.toHaveBeenCalled();
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Act
+      const result = await topicService.copyTopic('missing-id', {
+        targetParentId: null,
+        includeResources: false,
+        includeHistory: false
+      }, testUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('moveTopic', () => {
+    let root: Topic;
+    let child: Topic;
+    let grandchild: Topic;
+    let other: Topic;
+    
+    beforeEach(() => {
+      root = new Topic('Root', 'Root content');
+      child = root.createChildTopic('Child', 'Child content');
+      grandchild = child.createChildTopic('Grandchild', 'Grandchild content');
+      other = new Topic('Other', 'Other content').createNewVersion('Other v2');
+      
+      const topics = [root, child, grandchild, other];
+      mockTopicRepository.findById.mockImplementation(async id => topics.find(topic => topic.id === id) ?? null);
+      mockTopicRepository.findLatestById.mockImplementation(async id => topics.find(topic => topic.id === id) ?? null);
+      mockTopicRepository.findLatestVersion.mockImplementation(
+        async rootTopicId => topics.find(topic => topic.rootTopicId === rootTopicId) ?? null
+      );
+      mockTopicRepository.createMovedVersion.mockImplementation(
+        async (id, newParentTopicId, authorId) => child.moveTo(newParentTopicId, authorId)
+      );
+    });
+    
+    it('should move a topic under the root topic ID of the new parent', async () => {
+      // Act
+      const result = await topicService.moveTopic(child.id, other.id, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.createMovedVersion).toHaveBeenCalledWith(child.rootTopicId, other.rootTopicId, testUser.id);
+      expect(result?.parentTopicId).toBe(other.rootTopicId);
+      expect(result?.version).toBe(2);
+    });
+    
+    it('should make a topic a root topic when the new parent is null', async () => {
+      // Act
+      const result = await topicService.moveTopic(child.id, null, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.createMovedVersion).toHaveBeenCalledWith(child.rootTopicId, undefined, testUser.id);
+      expect(result?.parentTopicId).toBeUndefined();
+    });
+    
+    it('should reject moving a topic under itself or its descendants', async () => {
+      // Act
+      const ontoItself = topicService.moveTopic(child.id, child.id, testUser);
+      const intoSubtree = topicService.moveTopic(root.id, grandchild.id, testUser);
+      
+      // Assert
+      await expect(ontoItself).rejects.toThrow(ConflictError);
+      await expect(intoSubtree).rejects.toThrow('Cannot move a topic into its own subtree');
+      expect(mockTopicRepository.createMovedVersion).not.toHaveBeenCalled();
+    });
+    
+    it('should stop walking up ancestors that already form a cycle', async () => {
+      // Arrange
+      const loopA = new Topic('Loop A', 'Content', 1, 'loop-b', 'loop-a');
+      const loopB = new Topic('Loop B', 'Content', 1, 'loop-a', 'loop-b');
+      const loop = [loopA, loopB];
+      mockTopicRepository.findLatestVersion.mockImplementation(
+        async rootTopicId => loop.find(topic => topic.rootTopicId === rootTopicId) ?? null
+      );
+      mockTopicRepository.findById.mockResolvedValue(loopA);
+      mockTopicRepository.findLatestById.mockResolvedValue(child);
+      
+      // Act
+      const result = await topicService.moveTopic(child.id, loopA.id, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.createMovedVersion).toHaveBeenCalledWith(child.rootTopicId, 'loop-a', testUser.id);
+      expect(result).not.toBeNull();
+    });
+    
+    it('should walk up the ancestors of the new parent one at a time', async () => {
+      // Act
+      await topicService.moveTopic(root.id, other.id, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.findLatestVersion).toHaveBeenCalledWith(other.rootTopicId);
+      expect(mockTopicRepository.findLatestVersions).not.toHaveBeenCalled();
+    });
+    
+    it('should check for cycles in the transaction that moves the topic', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockTopicRepository.findLatestVersion.mockImplementation(async rootTopicId => {
+        transactions.push(getCurrentTransaction());
+        return rootTopicId === other.rootTopicId ? other : null;
+      });
+      mockTopicRepository.createMovedVersion.mockImplementation(async (id, newParentTopicId, authorId) => {
+        transactions.push(getCurrentTransaction());
+        return child.moveTo(newParentTopicId, authorId);
+      });
+      
+      // Act
+      await topicService.moveTopic(child.id, other.id, testUser);
+      
+      // Assert
+      expect(transactions).toHaveLength(2);
+      expect(transactions[0]).toBeDefined();
+      expect(transactions[1]).toBe(transactions[0]);
+    });
+    
+    it('should leave a topic unchanged when it already has the new parent', async () => {
+      // Act
+      const result = await topicService.moveTopic(child.id, root.id, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.createMovedVersion).not.toHaveBeenCalled();
+      expect(result).toBe(child);
+    });
+    
+    it('should throw an error if the new parent does not exist', async () => {
+      // Act
+      const act = topicService.moveTopic(child.id, 'missing-id', testUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow(NotFoundError);
+      await expect(act).rejects.toThrow('Parent topic with ID missing-id not found');
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Act
+      const result = await topicService.moveTopic('missing-id', root.id, testUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
   });
   
   describe('getAllTopics', () => {
@@ -214,13 +746,80 @@ describe('TopicService', () => {
         new Topic('Topic 2', 'Content 2')
       ];
       
-      mockTopicRepository.findAll.mockResolvedValue(topics);
+      mockTopicRepository.findLatestVersions.mockResolvedValue(topics);
       
       // Act
       const result = await topicService.getAllTopics(testUser);
       
       // Assert
-      expect(mockTopicRepository.findAll).toHaveBeenCalled();
+      expect(mockTopicRepository.findLatestVersions).toHaveBeenCalled();
+      expect(result).toEqual(topics);
+    });
+  });
+  
+  describe('listTopics', () => {
+    it('should return a page with the position of its last topic', async () => {
+      // Arrange
+      const topic = new Topic('Topic', 'Content');
+      mockTopicRepository.findLatestPage.mockResolvedValue({ items: [topic], hasMore: true });
+      
+      // Act
+      const result = await topicService.listTopics({ sortBy: 'name', limit: 1 }, testUser);
+      
+      // Assert
+      expect(result).toEqual({ items: [topic], next: { value: 'Topic', id: topic.id } });
+    });
+    
+    it('should not return a position on the last page', async () => {
+      // Arrange
+      mockTopicRepository.findLatestPage.mockResolvedValue({ items: [new Topic('Topic', 'Content')], hasMore: false });
+      
+      // Act
+      const result = await topicService.listTopics({ limit: 1 }, testUser);
+      
+      // Assert
+      expect(result.next).toBeNull();
+    });
+    
+    it('should list children by the root topic ID of the parent', async () => {
+      // Arrange
+      const parent = new Topic('Parent', 'v1');
+      const parentV2 = parent.createNewVersion('v2');
+      mockTopicRepository.findById.mockResolvedValue(parentV2);
+      mockTopicRepository.findLatestPage.mockResolvedValue({ items: [], hasMore: false });
+      
+      // Act
+      await topicService.listTopics({ parentTopicId: parentV2.id, limit: 20 }, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.findLatestPage).toHaveBeenCalledWith({ parentTopicId: parent.id, limit: 20 });
+    });
+    
+    it('should throw a NotFoundError if the parent topic does not exist', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(topicService.listTopics({ parentTopicId: 'missing-id', limit: 20 }, testUser))
+        .rejects.toThrow(NotFoundError);
+      expect(mockTopicRepository.findLatestPage).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('getOwnedTopics', () => {
+    it('should get the topics owned by the user', async () => {
+      // Arrange
+      const topics = [
+        new Topic('Owned Topic', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, testUser.id)
+      ];
+      
+      mockTopicRepository.findByOwner.mockResolvedValue(topics);
+      
+      // Act
+      const result = await topicService.getOwnedTopics(testUser);
+      
+      // Assert
+      expect(mockTopicRepository.findByOwner).toHaveBeenCalledWith(testUser.id);
       expect(result).toEqual(topics);
     });
   });
@@ -247,19 +846,21 @@ describe('TopicService', () => {
   describe('getChildTopics', () => {
     it('should get child topics of a parent', async () => {
       // Arrange
-      const parentId = 'parent-id';
+      const parentTopic = new Topic('Parent Topic', 'Parent Content');
+      const parentVersion = parentTopic.createNewVersion('Updated Parent Content');
       const childTopics = [
-        new Topic('Child Topic 1', 'Content 1', 1, parentId),
-        new Topic('Child Topic 2', 'Content 2', 1, parentId)
+        new Topic('Child Topic 1', 'Content 1', 1, parentTopic.rootTopicId),
+        new Topic('Child Topic 2', 'Content 2', 1, parentTopic.rootTopicId)
       ];
       
+      mockTopicRepository.findById.mockResolvedValue(parentVersion);
       mockTopicRepository.findByParentId.mockResolvedValue(childTopics);
       
       // Act
-      const result = await topicService.getChildTopics(parentId, testUser);
+      const result = await topicService.getChildTopics(parentVersion.id, testUser);
       
       // Assert
-      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(parentId);
+      expect(mockTopicRepository.findByParentId).toHaveBeenCalledWith(parentTopic.rootTopicId);
       expect(result).toEqual(childTopics);
     });
   });
@@ -348,6 +949,115 @@ describe('TopicService', () => {
     });
   });
   
+  describe('diffTopicVersions', () => {
+    it('should diff the name and content of two versions', async () => {
+      // Arrange
+      const version1 = new Topic('Old Name', 'first line\nsecond line');
+      const version2 = version1.createNewVersion('first line\nchanged line', 'New Name');
+      
+      mockTopicRepository.findById.mockResolvedValue(version2);
+      mockTopicRepository.findVersion
+        .mockResolvedValueOnce(version1)
+        .mockResolvedValueOnce(version2);
+      
+      // Act
+      const result = await topicService.diffTopicVersions(version2.id, 1, 2, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.findVersion).toHaveBeenCalledWith(version1.rootTopicId, 1);
+      expect(mockTopicRepository.findVersion).toHaveBeenCalledWith(version1.rootTopicId, 2);
+      expect(result).toEqual({
+        rootTopicId: version1.rootTopicId,
+        fromVersion: 1,
+        toVersion: 2,
+        granularity: 'line',
+        name: [
+          { type: 'removed', value: 'Old Name' },
+          { type: 'added', value: 'New Name' }
+        ],
+        content: [
+          { type: 'equal', value: 'first line' },
+          { type: 'removed', value: 'second line' },
+          { type: 'added', value: 'changed line' }
+        ]
+      });
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await topicService.diffTopicVersions('non-existent-id', 1, 2, testUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+    
+    it('should throw an error if a version does not exist', async () => {
+      // Arrange
+      const topic = new Topic('Test Topic', 'Test Content');
+      
+      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicRepository.findVersion.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(topicService.diffTopicVersions(topic.id, 1, 5, testUser))
+        .rejects.toThrow(`Version 1 of topic ${topic.rootTopicId} not found`);
+    });
+  });
+  
+  describe('revertTopic', () => {
+    it('should create a new version copying the old version', async () => {
+      // Arrange
+      const version1 = new Topic('Original Name', 'Original Content');
+      const version2 = version1.createNewVersion('Changed Content', 'Changed Name');
+      const version3 = version2.createNewVersion('Original Content', 'Original Name');
+      
+      mockTopicRepository.findById.mockResolvedValue(version2);
+      mockTopicRepository.findVersion.mockResolvedValue(version1);
+      mockTopicRepository.createNewVersion.mockResolvedValue(version3);
+      
+      // Act
+      const result = await topicService.revertTopic(version2.id, 1, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.findVersion).toHaveBeenCalledWith(version1.rootTopicId, 1);
+      expect(mockTopicRepository.createNewVersion).toHaveBeenCalledWith(
+        version1.rootTopicId,
+        'Original Content',
+        'Original Name',
+        testUser.id
+      );
+      expect(result).toBe(version3);
+    });
+    
+    it('should return null if topic not found', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await topicService.revertTopic('non-existent-id', 1, testUser);
+      
+      // Assert
+      expect(mockTopicRepository.createNewVersion).not.toHaveBeenCalled();
+      expect(result).toBeNull();
+    });
+    
+    it('should throw an error if the version does not exist', async () => {
+      // Arrange
+      const topic = new Topic('Test Topic', 'Test Content');
+      
+      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicRepository.findVersion.mockResolvedValue(null);
+      
+      // Act & Assert
+      await expect(topicService.revertTopic(topic.id, 7, testUser))
+        .rejects.toThrow(`Version 7 of topic ${topic.rootTopicId} not found`);
+      expect(mockTopicRepository.createNewVersion).not.toHaveBeenCalled();
+    });
+  });
+  
   describe('getTopicTree', () => {
     it('should get a topic tree', async () => {
       // Arrange
@@ -358,21 +1068,22 @@ describe('TopicService', () => {
       
       // Set IDs for the topics
       Object.defineProperty(topic, 'id', { value: topicId });
-      Object.defineProperty(childTopic1, 'id', { value: 'child-1' });
-      Object.defineProperty(childTopic2, 'id', { value: 'child-2' });
+      Object.defineProperty(topic, 'rootTopicId', { value: topicId });
+      Object.defineProperty(childTopic1, 'rootTopicId', { value: 'child-1' });
+      Object.defineProperty(childTopic2, 'rootTopicId', { value: 'child-2' });
       
       // Set parent IDs for the child topics
       Object.defineProperty(childTopic1, 'parentTopicId', { value: topicId });
       Object.defineProperty(childTopic2, 'parentTopicId', { value: topicId });
       
-      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicRepository.findLatestById.mockResolvedValue(topic);
       mockTopicRepository.findAllChildrenRecursive.mockResolvedValue([childTopic1, childTopic2]);
       
       // Act
       const result = await topicService.getTopicTree(topicId, testUser);
       
       // Assert
-      expect(mockTopicRepository.findById).toHaveBeenCalledWith(topicId);
+      expect(mockTopicRepository.findLatestById).toHaveBeenCalledWith(topicId);
       expect(mockTopicRepository.findAllChildrenRecursive).toHaveBeenCalledWith(topicId);
       expect(result).toEqual({
         topic,
@@ -386,13 +1097,13 @@ describe('TopicService', () => {
     it('should return null if topic is not found', async () => {
       // Arrange
       const topicId = 'non-existent-id';
-      mockTopicRepository.findById.mockResolvedValue(null);
+      mockTopicRepository.findLatestById.mockResolvedValue(null);
       
       // Act
       const result = await topicService.getTopicTree(topicId, testUser);
       
       // Assert
-      expect(mockTopicRepository.findById).toHaveBeenCalledWith(topicId);
+      expect(mockTopicRepository.findLatestById).toHaveBeenCalledWith(topicId);
       expect(result).toBeNull();
     });
   });
@@ -414,7 +1125,7 @@ describe('TopicService', () => {
       const result = await topicService.findPath(startTopicId, endTopicId, testUser);
       
       // Assert
-      expect(mockTopicRepository.findPath).toHaveBeenCalledWith(startTopicId, endTopicId);
+      expect(mockTopicRepository.findPath).toHaveBeenCalledWith(startTopicId, endTopicId, {});
       expect(result).toEqual(path);
     });
     
@@ -429,8 +1140,108 @@ describe('TopicService', () => {
       const result = await topicService.findPath(startTopicId, endTopicId, testUser);
       
       // Assert
-      expect(mockTopicRepository.findPath).toHaveBeenCalledWith(startTopicId, endTopicId);
+      expect(mockTopicRepository.findPath).toHaveBeenCalledWith(startTopicId, endTopicId, {});
       expect(result).toBeNull();
     });
+    
+    it('should pass path options to the repository', async () => {
+      // Arrange
+      const options = { maxDepth: 2, direction: 'ancestors' as const };
+      mockTopicRepository.findPath.mockResolvedValue(null);
+      
+      // Act
+      await topicService.findPath('start-id', 'end-id', testUser, options);
+      
+      // Assert
+      expect(mockTopicRepository.findPath).toHaveBeenCalledWith('start-id', 'end-id', options);
+    });
+  });
+  
+  describe('topic access control lists', () => {
+    it('should get the entries of a topic by its root topic ID', async () => {
+      // Arrange
+      const topic = new Topic('Topic', 'Content').createNewVersion('Updated');
+      const entries = [new TopicAclEntry(topic.rootTopicId, AclPrincipalType.GROUP, 'team', TopicPermission.READ)];
+      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicAclRepository.findByTopicId.mockResolvedValue(entries);
+      
+      // Act
+      const result = await topicService.getTopicAcl(topic.id, testUser);
+      
+      // Assert
+      expect(mockTopicAclRepository.findByTopicId).toHaveBeenCalledWith(topic.rootTopicId);
+      expect(result).toBe(entries);
+    });
+    
+    it('should replace the entries of a topic', async () => {
+      // Arrange
+      const topic = new Topic('Topic', 'Content');
+      mockTopicRepository.findById.mockResolvedValue(topic);
+      mockTopicAclRepository.replaceForTopic.mockImplementation(async (_topicId, entries) => entries);
+      
+      // Act
+      const result = await topicService.setTopicAcl(topic.id, [
+        { principalType: AclPrincipalType.USER, principalId: 'user-id', permission: TopicPermission.WRITE }
+      ], testUser);
+      
+      // Assert
+      expect(mockTopicAclRepository.replaceForTopic).toHaveBeenCalledWith(topic.rootTopicId, [expect.any(TopicAclEntry)]);
+      expect(result?.[0]).toMatchObject({
+        topicId: topic.rootTopicId,
+        principalType: AclPrincipalType.USER,
+        principalId: 'user-id',
+        permission: TopicPermission.WRITE
+      });
+    });
+    
+    it('should return null for the entries of a missing topic', async () => {
+      // Arrange
+      mockTopicRepository.findById.mockResolvedValue(null);
+      
+      // Act & Assert
+      expect(await topicService.getTopicAcl('missing-id', testUser)).toBeNull();
+      expect(await topicService.setTopicAcl('missing-id', [], testUser)).toBeNull();
+      expect(mockTopicAclRepository.replaceForTopic).not.toHaveBeenCalled();
+    });
+    
+    it('should not build a resolver when no topic has entries', async () => {
+      // Arrange
+      mockTopicAclRepository.findAll.mockResolvedValue([]);
+      
+      // Act
+      const resolver = await topicService.getAclResolver();
+      
+      // Assert
+      expect(resolver).toBeNull();
+      expect(mockTopicRepository.findByParentId).not.toHaveBeenCalled();
+    });
+    
+    it('should build a resolver from the entries and the subtrees below them', async () => {
+      // Arrange
+      const root = new Topic('Root', 'Content');
+      const topic = root.createChildTopic('Topic', 'Content');
+      const child = topic.createChildTopic('Child', 'Content');
+      const grandchild = child.createChildTopic('Grandchild', 'Content');
+      const sibling = root.createChildTopic('Sibling', 'Content');
+      const topics = [root, topic, child, grandchild, sibling];
+      mockTopicAclRepository.findAll.mockResolvedValue([
+        new TopicAclEntry(topic.rootTopicId, AclPrincipalType.GROUP, 'team', TopicPermission.READ)
+      ]);
+      mockTopicRepository.findByParentId.mockImplementation(
+        async parentId => topics.filter(candidate => candidate.parentTopicId === parentId)
+      );
+      
+      // Act
+      const resolver = await topicService.getAclResolver();
+      
+      // Assert
+      const member = testUser.updateGroups(['team']);
+      expect(resolver?.getPermission(member, grandchild)).toBe(TopicPermission.READ);
+      expect(resolver?.getPermission(member, sibling)).toBeUndefined();
+      expect(resolver?.getPermission(member, root)).toBeUndefined();
+      expect(mockTopicRepository.findByParentId.mock.calls.map(call => call[0]).sort())
+        .toEqual([topic.rootTopicId, child.rootTopicId, grandchild.rootTopicId].sort());
+      expect(mockTopicRepository.findLatestVersions).not.toHaveBeenCalled();
+    });
   });
 }); 
\ No newline at end of file
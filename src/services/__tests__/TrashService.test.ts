@@ -0,0 +1,237 @@
+import { TrashService } from '../TrashService';
+import { AuditService } from '../AuditService';
+import { SearchService } from '../SearchService';
+import { TopicRepository } from '../../repositories/TopicRepository';
+import { ResourceRepository } from '../../repositories/ResourceRepository';
+import { TopicAclRepository } from '../../repositories/TopicAclRepository';
+import { Topic } from '../../models/Topic';
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { ResourceType } from '../../enums/ResourceType';
+import { AuditAction } from '../../enums/AuditAction';
+import { AuditEntityType } from '../../enums/AuditEntityType';
+import { ConflictError } from '../../errors/ConflictError';
+import { PermissionDeniedError } from '../../errors/PermissionDeniedError';
+import { getCurrentTransaction, Transaction } from '../../database/Transaction';
+
+// Mock the repositories and services
+jest.mock('../../repositories/TopicRepository');
+jest.mock('../../repositories/ResourceRepository');
+jest.mock('../../repositories/TopicAclRepository');
+jest.mock('../AuditService');
+jest.mock('../SearchService');
+
+describe('TrashService', () => {
+  const deletedAt = new Date('2026-03-01T12:00:00Z');
+  let trashService: TrashService;
+  let mockTopicRepository: jest.Mocked<TopicRepository>;
+  let mockResourceRepository: jest.Mocked<ResourceRepository>;
+  let mockTopicAclRepository: jest.Mocked<TopicAclRepository>;
+  let mockAuditService: jest.Mocked<AuditService>;
+  let mockSearchService: jest.Mocked<SearchService>;
+  let adminUser: User;
+  let editorUser: User;
+  let live: Topic;
+  let root: Topic;
+  let child: Topic;
+  let deletedEarlier: Topic;
+  let resource: Resource;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockTopicRepository = new TopicRepository() as jest.Mocked<TopicRepository>;
+    mockResourceRepository = new ResourceRepository() as jest.Mocked<ResourceRepository>;
+    mockTopicAclRepository = new TopicAclRepository() as jest.Mocked<TopicAclRepository>;
+    mockAuditService = new AuditService() as jest.Mocked<AuditService>;
+    mockSearchService = new SearchService() as jest.Mocked<SearchService>;
+    trashService = new TrashService(
+      mockTopicRepository,
+      mockResourceRepository,
+      mockTopicAclRepository,
+      mockAuditService,
+      mockSearchService,
+      { retentionDays: 30 }
+    );
+    
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN, 'admin-id');
+    editorUser = new User('Editor User', 'editor@example.com', UserRole.EDITOR, 'editor-id');
+    
+    // A live parent, a subtree trashed in one deletion and a child trashed on its own before that
+    live = new Topic('Live', 'Live content');
+    root = live.createChildTopic('Root', 'Root content').moveToTrash(adminUser.id, deletedAt);
+    child = root.createChildTopic('Child', 'Child content').moveToTrash(adminUser.id, deletedAt);
+    deletedEarlier = root.createChildTopic('Earlier', 'Earlier content')
+      .moveToTrash(editorUser.id, new Date('2026-02-01T12:00:00Z'));
+    resource = new Resource(child.rootTopicId, 'https://example.com', 'Example', ResourceType.ARTICLE)
+      .moveToTrash(adminUser.id, deletedAt);
+    
+    const trashedTopics = [root, child, deletedEarlier];
+    mockTopicRepository.findTrashedById.mockImplementation(async id => trashedTopics.find(topic => topic.id === id) ?? null);
+    mockTopicRepository.findTrashedLatestVersions.mockResolvedValue(trashedTopics);
+    mockTopicRepository.findLatestVersion.mockImplementation(async rootTopicId => rootTopicId === live.rootTopicId ? live : null);
+    mockTopicRepository.restoreAllVersions.mockImplementation(async rootTopicId => trashedTopics
+      .filter(topic => topic.rootTopicId === rootTopicId)
+      .map(topic => topic.restoreFromTrash()));
+    mockResourceRepository.findTrashedById.mockImplementation(async id => id === resource.id ? resource : null);
+    mockResourceRepository.findTrashed.mockResolvedValue([resource]);
+    mockResourceRepository.restore.mockImplementation(async () => resource.restoreFromTrash());
+  });
+  
+  describe('getTrash', () => {
+    it('should list trashed topics and resources, most recently deleted first', async () => {
+      // Act
+      const result = await trashService.getTrash(adminUser);
+      
+      // Assert
+      expect(result.topics.map(topic => topic.id)).toEqual([root.id, child.id, deletedEarlier.id]);
+      expect(result.resources).toEqual([resource]);
+    });
+    
+    it('should throw a PermissionDeniedError for non-admins', async () => {
+      // Act
+      const act = trashService.getTrash(editorUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+      expect(mockTopicRepository.findTrashedLatestVersions).not.toHaveBeenCalled();
+    });
+  });
+  
+  describe('restore', () => {
+    it('should restore a topic with the subtree and resources deleted together with it', async () => {
+      // Act
+      const result = await trashService.restore(root.id, adminUser);
+      
+      // Assert
+      expect(result?.topics.map(topic => topic.id)).toEqual([root.id, child.id]);
+      expect(result?.resources.map(restored => restored.id)).toEqual([resource.id]);
+      expect(mockTopicRepository.restoreAllVersions.mock.calls).toEqual([[root.rootTopicId], [child.rootTopicId]]);
+      expect(mockTopicRepository.restoreAllVersions).not.toHaveBeenCalledWith(deletedEarlier.rootTopicId);
+      expect(mockSearchService.indexTopic).toHaveBeenCalledTimes(2);
+      expect(mockSearchService.indexResource).toHaveBeenCalledTimes(1);
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        actor: adminUser,
+        action: AuditAction.RESTORE,
+        entityType: AuditEntityType.TOPIC,
+        entityId: root.rootTopicId
+      }));
+      expect(mockAuditService.record).toHaveBeenCalledWith(expect.objectContaining({
+        action: AuditAction.RESTORE,
+        entityType: AuditEntityType.RESOURCE,
+        entityId: resource.id
+      }));
+    });
+    
+    it('should refuse to restore a topic whose parent is in the trash', async () => {
+      // Act
+      const act = trashService.restore(child.id, adminUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow(ConflictError);
+      await expect(act).rejects.toThrow('Cannot restore a topic whose parent topic is in the trash');
+      expect(mockTopicRepository.restoreAllVersions).not.toHaveBeenCalled();
+    });
+    
+    it('should refuse to restore a resource whose topic is in the trash', async () => {
+      // Act
+      const act = trashService.restore(resource.id, adminUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow('Cannot restore a resource whose topic is in the trash');
+      expect(mockResourceRepository.restore).not.toHaveBeenCalled();
+    });
+    
+    it('should restore a resource whose topic is not in the trash', async () => {
+      // Arrange
+      mockTopicRepository.findLatestVersion.mockResolvedValue(live);
+      
+      // Act
+      const result = await trashService.restore(resource.id, adminUser);
+      
+      // Assert
+      expect(result).toEqual({ topics: [], resources: [resource.restoreFromTrash()] });
+      expect(mockResourceRepository.restore).toHaveBeenCalledWith(resource.id);
+      expect(mockSearchService.indexResource).toHaveBeenCalled();
+    });
+    
+    it('should return null if the ID is not in the trash', async () => {
+      // Act
+      const result = await trashService.restore('non-existent-id', adminUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+    
+    it('should throw a PermissionDeniedError for non-admins', async () => {
+      // Act
+      const act = trashService.restore(root.id, editorUser);
+      
+      // Assert
+      await expect(act).rejects.toThrow(PermissionDeniedError);
+    });
+  });
+  
+  describe('purgeExpired', () => {
+    it('should purge everything deleted before the retention period', async () => {
+      // Arrange
+      mockTopicRepository.purgeTrashedBefore.mockResolvedValue([root, root.createNewVersion('v2'), child]);
+      mockResourceRepository.purgeTrashedBefore.mockResolvedValue([resource]);
+      
+      // Act
+      const result = await trashService.purgeExpired(new Date('2026-04-01T00:00:00Z'));
+      
+      // Assert
+      const cutoff = new Date('2026-03-02T00:00:00Z');
+      expect(mockTopicRepository.purgeTrashedBefore).toHaveBeenCalledWith(cutoff);
+      expect(mockResourceRepository.purgeTrashedBefore).toHaveBeenCalledWith(cutoff);
+      expect(result).toEqual({ topicIds: [root.rootTopicId, child.rootTopicId], resourceIds: [resource.id] });
+    });
+    
+    it('should remove the access control entries of purged topics in the same transaction', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockTopicRepository.purgeTrashedBefore.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return [root, child];
+      });
+      mockResourceRepository.purgeTrashedBefore.mockResolvedValue([]);
+      mockTopicAclRepository.deleteByTopicId.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return 1;
+      });
+      
+      // Act
+      await trashService.purgeExpired(new Date('2026-04-01T00:00:00Z'));
+      
+      // Assert
+      expect(mockTopicAclRepository.deleteByTopicId).toHaveBeenCalledTimes(2);
+      expect(mockTopicAclRepository.deleteByTopicId).toHaveBeenCalledWith(root.rootTopicId);
+      expect(mockTopicAclRepository.deleteByTopicId).toHaveBeenCalledWith(child.rootTopicId);
+      expect(transactions[0]).toBeDefined();
+      expect(new Set(transactions).size).toBe(1);
+    });
+  });
+  
+  describe('constructor', () => {
+    it('should refuse a retention period that is not a positive whole number', () => {
+      // Arrange
+      const previous = process.env.TRASH_RETENTION_DAYS;
+      process.env.TRASH_RETENTION_DAYS = 'thirty';
+      
+      try {
+        // Act & Assert
+        expect(() => new TrashService(mockTopicRepository, mockResourceRepository, mockTopicAclRepository))
+          .toThrow('TRASH_RETENTION_DAYS must be a positive whole number');
+      } finally {
+        if (previous === undefined) {
+          delete process.env.TRASH_RETENTION_DAYS;
+        } else {
+          process.env.TRASH_RETENTION_DAYS = previous;
+        }
+      }
+    });
+  });
+});
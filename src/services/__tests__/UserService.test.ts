@@ -0,0 +1,294 @@
+import { UserService } from '../UserService';
+import { UserRepository } from '../../repositories/UserRepository';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+import { getCurrentTransaction, Transaction } from '../../database/Transaction';
+
+// Mock the UserRepository
+jest.mock('../../repositories/UserRepository');
+
+describe('UserService', () => {
+  let userService: UserService;
+  let mockUserRepository: jest.Mocked<UserRepository>;
+  let adminUser: User;
+  let user: User;
+  
+  beforeEach(() => {
+    // Clear all mocks
+    jest.clearAllMocks();
+    
+    mockUserRepository = new UserRepository() as jest.Mocked<UserRepository>;
+    userService = new UserService(mockUserRepository);
+    
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN);
+    user = User.createWithPassword('Test User', 'test@example.com', 'password123');
+  });
+  
+  describe('getAllUsers', () => {
+    it('should return all users when no role is given', async () => {
+      // Arrange
+      mockUserRepository.findAll.mockResolvedValue([adminUser, user]);
+      
+      // Act
+      const result = await userService.getAllUsers(adminUser);
+      
+      // Assert
+      expect(mockUserRepository.findAll).toHaveBeenCalled();
+      expect(result).toEqual([adminUser, user]);
+    });
+    
+    it('should return users with the given role', async () => {
+      // Arrange
+      mockUserRepository.findByRole.mockResolvedValue([adminUser]);
+      
+      // Act
+      const result = await userService.getAllUsers(adminUser, UserRole.ADMIN);
+      
+      // Assert
+      expect(mockUserRepository.findByRole).toHaveBeenCalledWith(UserRole.ADMIN);
+      expect(result).toEqual([adminUser]);
+    });
+  });
+  
+  describe('createUser', () => {
+    it('should create a user with a password', async () => {
+      // Arrange
+      mockUserRepository.createWithPassword.mockResolvedValue(user);
+      
+      // Act
+      const result = await userService.createUser(
+        'Test User', 'test@example.com', 'password123', UserRole.VIEWER, adminUser
+      );
+      
+      // Assert
+      expect(mockUserRepository.createWithPassword).toHaveBeenCalledWith(
+        'Test User', 'test@example.com', 'password123', UserRole.VIEWER
+      );
+      expect(result).toBe(user);
+    });
+    
+    it('should reject an invalid email', async () => {
+      // Act & Assert
+      await expect(userService.createUser('Test User', 'not-an-email', 'password123', UserRole.VIEWER, adminUser))
+        .rejects.toThrow('Invalid user: User email is not valid');
+      expect(mockUserRepository.createWithPassword).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a short password', async () => {
+      // Act & Assert
+      await expect(userService.createUser('Test User', 'test@example.com', 'short', UserRole.VIEWER, adminUser))
+        .rejects.toThrow('Invalid user: Password must be at least 8 characters long');
+    });
+  });
+  
+  describe('updateProfile', () => {
+    it('should update the name and email', async () => {
+      // Arrange
+      const updated = user.updateProfile('New Name');
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockUserRepository.updateProfile.mockResolvedValue(updated);
+      
+      // Act
+      const result = await userService.updateProfile(user.id, { name: 'New Name' }, user);
+      
+      // Assert
+      expect(mockUserRepository.updateProfile).toHaveBeenCalledWith(user.id, 'New Name', undefined);
+      expect(mockUserRepository.updatePassword).not.toHaveBeenCalled();
+      expect(result).toBe(updated);
+    });
+    
+    it('should change the password when the current password is correct', async () => {
+      // Arrange
+      const updated = user.changePassword('new-password');
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockUserRepository.updateProfile.mockResolvedValue(user);
+      mockUserRepository.updatePassword.mockResolvedValue(updated);
+      
+      // Act
+      const result = await userService.updateProfile(
+        user.id,
+        { password: 'new-password', currentPassword: 'password123' },
+        user
+      );
+      
+      // Assert
+      expect(mockUserRepository.updatePassword).toHaveBeenCalledWith(user.id, 'new-password');
+      expect(result).toBe(updated);
+    });
+    
+    it('should change the profile and the password in one transaction that is rolled back if either fails', async () => {
+      // Arrange
+      const transactions: Array<Transaction | undefined> = [];
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockUserRepository.updateProfile.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        return user.updateProfile('New Name');
+      });
+      mockUserRepository.updatePassword.mockImplementation(async () => {
+        transactions.push(getCurrentTransaction());
+        throw new Error('Disk full');
+      });
+      
+      // Act
+      const act = userService.updateProfile(
+        user.id,
+        { name: 'New Name', password: 'new-password', currentPassword: 'password123' },
+        user
+      );
+      
+      // Assert
+      await expect(act).rejects.toThrow('Disk full');
+      expect(transactions).toHaveLength(2);
+      expect(transactions[1]).toBe(transactions[0]);
+      expect(transactions[0]?.status).toBe('rolledBack');
+    });
+    
+    it('should reject a wrong current password', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(user);
+      
+      // Act & Assert
+      await expect(userService.updateProfile(
+        user.id,
+        { password: 'new-password', currentPassword: 'wrong-password' },
+        user
+      )).rejects.toThrow('Invalid user: Current password is incorrect');
+      expect(mockUserRepository.updateProfile).not.toHaveBeenCalled();
+    });
+    
+    it('should return null if the user does not exist', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await userService.updateProfile('missing-id', { name: 'New Name' }, user);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('updateRole', () => {
+    it('should change the role of a user', async () => {
+      // Arrange
+      const updated = user.updateRole(UserRole.EDITOR);
+      mockUserRepository.updateRole.mockResolvedValue(updated);
+      
+      // Act
+      const result = await userService.updateRole(user.id, UserRole.EDITOR, adminUser);
+      
+      // Assert
+      expect(mockUserRepository.updateRole).toHaveBeenCalledWith(user.id, UserRole.EDITOR);
+      expect(result).toBe(updated);
+    });
+  });
+  
+  describe('updateGroups', () => {
+    it('should replace the groups of a user', async () => {
+      // Arrange
+      const updated = user.updateGroups(['team']);
+      mockUserRepository.findById.mockResolvedValue(user);
+      mockUserRepository.updateGroups.mockResolvedValue(updated);
+      
+      // Act
+      const result = await userService.updateGroups(user.id, ['team'], adminUser);
+      
+      // Assert
+      expect(mockUserRepository.updateGroups).toHaveBeenCalledWith(user.id, ['team']);
+      expect(result).toBe(updated);
+    });
+    
+    it('should reject empty group names', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(user);
+      
+      // Act & Assert
+      await expect(userService.updateGroups(user.id, [' '], adminUser))
+        .rejects.toThrow('Invalid user: User group names cannot be empty');
+      expect(mockUserRepository.updateGroups).not.toHaveBeenCalled();
+    });
+    
+    it('should return null if the user does not exist', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(null);
+      
+      // Act
+      const result = await userService.updateGroups('missing-id', ['team'], adminUser);
+      
+      // Assert
+      expect(result).toBeNull();
+    });
+  });
+  
+  describe('deleteUser', () => {
+    it('should delete a user', async () => {
+      // Arrange
+      mockUserRepository.delete.mockResolvedValue(true);
+      
+      // Act
+      const result = await userService.deleteUser(user.id, adminUser);
+      
+      // Assert
+      expect(mockUserRepository.delete).toHaveBeenCalledWith(user.id);
+      expect(result).toBe(true);
+    });
+  });
+  
+  describe('createFirstAdmin', () => {
+    it('should create an administrator when none can log in yet', async () => {
+      // Arrange
+      const admin = User.createWithPassword('Owner', 'owner@example.com', 'password123', UserRole.ADMIN);
+      mockUserRepository.findByRole.mockResolvedValue([adminUser]);
+      mockUserRepository.findByEmail.mockResolvedValue(null);
+      mockUserRepository.createWithPassword.mockResolvedValue(admin);
+      
+      // Act
+      const result = await userService.createFirstAdmin('Owner', 'owner@example.com', 'password123');
+      
+      // Assert
+      expect(mockUserRepository.findByRole).toHaveBeenCalledWith(UserRole.ADMIN);
+      expect(mockUserRepository.createWithPassword).toHaveBeenCalledWith(
+        'Owner', 'owner@example.com', 'password123', UserRole.ADMIN
+      );
+      expect(result).toBe(admin);
+    });
+    
+    it('should give an existing user with the email the password and the Admin role', async () => {
+      // Arrange
+      const promoted = user.updateRole(UserRole.ADMIN);
+      mockUserRepository.findByRole.mockResolvedValue([]);
+      mockUserRepository.findByEmail.mockResolvedValue(user);
+      mockUserRepository.updateRole.mockResolvedValue(promoted);
+      
+      // Act
+      const result = await userService.createFirstAdmin('Test User', user.email, 'new-password');
+      
+      // Assert
+      expect(mockUserRepository.updatePassword).toHaveBeenCalledWith(user.id, 'new-password');
+      expect(mockUserRepository.updateRole).toHaveBeenCalledWith(user.id, UserRole.ADMIN);
+      expect(mockUserRepository.createWithPassword).not.toHaveBeenCalled();
+      expect(result).toBe(promoted);
+    });
+    
+    it('should change nothing once an administrator with a password exists', async () => {
+      // Arrange
+      const admin = User.createWithPassword('Owner', 'owner@example.com', 'password123', UserRole.ADMIN);
+      mockUserRepository.findByRole.mockResolvedValue([admin]);
+      
+      // Act
+      const result = await userService.createFirstAdmin('Other', 'other@example.com', 'password123');
+      
+      // Assert
+      expect(result).toBeNull();
+      expect(mockUserRepository.createWithPassword).not.toHaveBeenCalled();
+      expect(mockUserRepository.updatePassword).not.toHaveBeenCalled();
+    });
+    
+    it('should reject a short password', async () => {
+      // Act & Assert
+      await expect(userService.createFirstAdmin('Owner', 'owner@example.com', 'short'))
+        .rejects.toThrow('Invalid user: Password must be at least 8 characters long');
+      expect(mockUserRepository.findByRole).not.toHaveBeenCalled();
+    });
+  });
+});
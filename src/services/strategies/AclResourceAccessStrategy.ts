@@ -0,0 +1,84 @@
+import { IResourceAccessStrategy } from './IResourceAccessStrategy';
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+import { TopicPermission } from '../../enums/TopicPermission';
+import { TopicAclResolver } from '../TopicAclResolver';
+
+/**
+ * Strategy that layers the access control lists of a resource's topic over a role-based strategy
+ * Resources need the role-based rule and the same permission on their topic as the matching topic operation
+ */
+export class AclResourceAccessStrategy implements IResourceAccessStrategy {
+  /**
+   * Creates a new AclResourceAccessStrategy instance
+   * @param roleStrategy The role-based strategy
+   * @param resolver The resolver for access control lists
+   */
+  constructor(
+    private readonly roleStrategy: IResourceAccessStrategy,
+    private readonly resolver: TopicAclResolver
+  ) {}
+
+  /**
+   * Checks if a user can create a resource
+   * @param user The user
+   * @param topicId Optional root topic ID of the topic the resource belongs to
+   * @returns True if the user can create the resource
+   */
+  public canCreateResource(user: User, topicId?: string): boolean {
+    const permission = topicId ? this.resolver.getPermission(user, topicId) : undefined;
+    
+    if (!this.roleStrategy.canCreateResource(user, topicId)) {
+      return false;
+    }
+    
+    return permission === undefined || TopicAclResolver.allows(permission, TopicPermission.WRITE);
+  }
+  
+  /**
+   * Checks if a user can read a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can read the resource
+   */
+  public canReadResource(user: User, resource: Resource): boolean {
+    return this.check(user, resource, TopicPermission.READ, () => this.roleStrategy.canReadResource(user, resource));
+  }
+  
+  /**
+   * Checks if a user can update a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can update the resource
+   */
+  public canUpdateResource(user: User, resource: Resource): boolean {
+    return this.check(user, resource, TopicPermission.WRITE, () => this.roleStrategy.canUpdateResource(user, resource));
+  }
+  
+  /**
+   * Checks if a user can delete a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can delete the resource
+   */
+  public canDeleteResource(user: User, resource: Resource): boolean {
+    return this.check(user, resource, TopicPermission.MANAGE, () => this.roleStrategy.canDeleteResource(user, resource));
+  }
+  
+  /**
+   * Checks the role-based rule and the access control list of the resource's topic
+   * @param user The user
+   * @param resource The resource
+   * @param required The permission required by the operation
+   * @param roleRule The role-based rule
+   */
+  private check(user: User, resource: Resource, required: TopicPermission, roleRule: () => boolean): boolean {
+    const permission = this.resolver.getPermission(user, resource.topicId);
+    
+    if (!roleRule()) {
+      return false;
+    }
+    
+    return permission === undefined || TopicAclResolver.allows(permission, required);
+  }
+}
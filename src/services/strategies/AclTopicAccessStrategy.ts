@@ -0,0 +1,106 @@
+import { ITopicAccessStrategy } from './ITopicAccessStrategy';
+import { Topic } from '../../models/Topic';
+import { User } from '../../models/User';
+import { TopicPermission } from '../../enums/TopicPermission';
+import { TopicAclResolver } from '../TopicAclResolver';
+
+/**
+ * Strategy that layers per-topic access control lists over a role-based strategy
+ * Access control lists only narrow access: an operation needs both the role-based rule
+ * and, where an access control list applies, a sufficient permission
+ */
+export class AclTopicAccessStrategy implements ITopicAccessStrategy {
+  /**
+   * Creates a new AclTopicAccessStrategy instance
+   * @param roleStrategy The role-based strategy
+   * @param resolver The resolver for access control lists
+   */
+  constructor(
+    private readonly roleStrategy: ITopicAccessStrategy,
+    private readonly resolver: TopicAclResolver
+  ) {}
+
+  /**
+   * Checks if a user can create a topic
+   * Creating a child topic requires write permission on the parent
+   * @param user The user
+   * @param parentTopicId Optional root topic ID of the parent topic
+   * @returns True if the user can create the topic
+   */
+  public canCreateTopic(user: User, parentTopicId?: string): boolean {
+    const permission = parentTopicId ? this.resolver.getPermission(user, parentTopicId) : undefined;
+    
+    if (!this.roleStrategy.canCreateTopic(user, parentTopicId)) {
+      return false;
+    }
+    
+    return permission === undefined || TopicAclResolver.allows(permission, TopicPermission.WRITE);
+  }
+  
+  /**
+   * Checks if a user can read a topic
+   * @param user The user
+   * @param topic The topic
+   * @returns True if the user can read the topic
+   */
+  public canReadTopic(user: User, topic: Topic): boolean {
+    return this.check(user, topic, TopicPermission.READ, () => this.roleStrategy.canReadTopic(user, topic));
+  }
+  
+  /**
+   * Checks if a user can update a topic
+   * @param user The user
+   * @param topic The topic
+   * @returns True if the user can update the topic
+   */
+  public canUpdateTopic(user: User, topic: Topic): boolean {
+    return this.check(user, topic, TopicPermission.WRITE, () => this.roleStrategy.canUpdateTopic(user, topic));
+  }
+  
+  /**
+   * Checks if a user can delete a topic
+   * @param user The user
+   * @param topic The topic
+   * @returns True if the user can delete the topic
+   */
+  public canDeleteTopic(user: User, topic: Topic): boolean {
+    return this.check(user, topic, TopicPermission.MANAGE, () => this.roleStrategy.canDeleteTopic(user, topic));
+  }
+  
+  /**
+   * Checks if a user can move a topic
+   * Moving changes which access control lists the subtree inherits, so it requires manage
+   * permission on the topic and, like creating a child, write permission on the new parent
+   * @param user The user
+   * @param topic The topic
+   * @param newParentTopicId Root topic ID of the new parent, or undefined to make the topic a root topic
+   * @returns True if the user can move the topic
+   */
+  public canMoveTopic(user: User, topic: Topic, newParentTopicId?: string): boolean {
+    const parentPermission = newParentTopicId ? this.resolver.getPermission(user, newParentTopicId) : undefined;
+    const roleRule = (): boolean => this.roleStrategy.canMoveTopic(user, topic, newParentTopicId);
+    
+    if (!this.check(user, topic, TopicPermission.MANAGE, roleRule)) {
+      return false;
+    }
+    
+    return parentPermission === undefined || TopicAclResolver.allows(parentPermission, TopicPermission.WRITE);
+  }
+  
+  /**
+   * Checks the role-based rule and the access control list of a topic
+   * @param user The user
+   * @param topic The topic
+   * @param required The permission required by the operation
+   * @param roleRule The role-based rule
+   */
+  private check(user: User, topic: Topic, required: TopicPermission, roleRule: () => boolean): boolean {
+    const permission = this.resolver.getPermission(user, topic);
+    
+    if (!roleRule()) {
+      return false;
+    }
+    
+    return permission === undefined || TopicAclResolver.allows(permission, required);
+  }
+}
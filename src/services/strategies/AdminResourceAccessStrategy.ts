@@ -0,0 +1,45 @@
+import { IResourceAccessStrategy } from './IResourceAccessStrategy';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+/**
+ * Strategy for admin users
+ * Admins have full access to all resources
+ */
+export class AdminResourceAccessStrategy implements IResourceAccessStrategy {
+  /**
+   * Checks if a user can create a resource
+   * @param user The user
+   * @returns True if the user is an admin
+   */
+  public canCreateResource(user: User): boolean {
+    return user.role === UserRole.ADMIN;
+  }
+  
+  /**
+   * Checks if a user can read a resource
+   * @param user The user
+   * @returns True if the user is an admin
+   */
+  public canReadResource(user: User): boolean {
+    return user.role === UserRole.ADMIN;
+  }
+  
+  /**
+   * Checks if a user can update a resource
+   * @param user The user
+   * @returns True if the user is an admin
+   */
+  public canUpdateResource(user: User): boolean {
+    return user.role === UserRole.ADMIN;
+  }
+  
+  /**
+   * Checks if a user can delete a resource
+   * @param user The user
+   * @returns True if the user is an admin
+   */
+  public canDeleteResource(user: User): boolean {
+    return user.role === UserRole.ADMIN;
+  }
+}
@@ -42,4 +42,13 @@ export class AdminTopicAccessStrategy implements ITopicAccessStrategy {
   public canDeleteTopic(user: User): boolean {
     return user.role === UserRole.ADMIN;
   }
+  
+  /**
+   * Checks if a user can move a topic
+   * @param user The user
+   * @returns True if the user is an admin
+   */
+  public canMoveTopic(user: User): boolean {
+    return user.role === UserRole.ADMIN;
+  }
 } 
\ No newline at end of file
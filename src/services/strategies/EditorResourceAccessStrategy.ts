@@ -0,0 +1,44 @@
+import { IResourceAccessStrategy } from './IResourceAccessStrategy';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+/**
+ * Strategy for editor users
+ * Editors can create, read, and update resources, but not delete them
+ */
+export class EditorResourceAccessStrategy implements IResourceAccessStrategy {
+  /**
+   * Checks if a user can create a resource
+   * @param user The user
+   * @returns True if the user is an editor
+   */
+  public canCreateResource(user: User): boolean {
+    return user.role === UserRole.EDITOR;
+  }
+  
+  /**
+   * Checks if a user can read a resource
+   * @param user The user
+   * @returns True if the user is an editor
+   */
+  public canReadResource(user: User): boolean {
+    return user.role === UserRole.EDITOR;
+  }
+  
+  /**
+   * Checks if a user can update a resource
+   * @param user The user
+   * @returns True if the user is an editor
+   */
+  public canUpdateResource(user: User): boolean {
+    return user.role === UserRole.EDITOR;
+  }
+  
+  /**
+   * Checks if a user can delete a resource
+   * @returns False, editors cannot delete resources
+   */
+  public canDeleteResource(): boolean {
+    return false;
+  }
+}
@@ -1,10 +1,11 @@
 import { ITopicAccessStrategy } from './ITopicAccessStrategy';
 import { User } from '../../models/User';
+import { Topic } from '../../models/Topic';
 import { UserRole } from '../../enums/UserRole';
 
 /**
  * Strategy for editor users
- * Editors can create, read, and update topics, but not delete them
+ * Editors can create, read, update and move topics, but only delete topics they own
  */
 export class EditorTopicAccessStrategy implements ITopicAccessStrategy {
   /**
@@ -36,9 +37,20 @@ export class EditorTopicAccessStrategy implements ITopicAccessStrategy {
   
   /**
    * Checks if a user can delete a topic
-   * @returns False, editors cannot delete topics
+   * @param user The user
+   * @param topic The topic
+   * @returns True if the user is an editor who owns the topic
+   */
+  public canDeleteTopic(user: User, topic: Topic): boolean {
+    return user.role === UserRole.EDITOR && topic.ownerId === user.id;
+  }
+  
+  /**
+   * Checks if a user can move a topic
+   * @param user The user
+   * @returns True if the user is an editor
    */
-  public canDeleteTopic(): boolean {
-    return false;
+  public canMoveTopic(user: User): boolean {
+    return user.role === UserRole.EDITOR;
   }
 } 
\ No newline at end of file
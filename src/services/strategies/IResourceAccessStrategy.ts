@@ -0,0 +1,40 @@
+import { Resource } from '../../models/Resource';
+import { User } from '../../models/User';
+
+/**
+ * Interface for resource access strategies
+ * Defines methods for checking if a user can perform operations on resources
+ */
+export interface IResourceAccessStrategy {
+  /**
+   * Checks if a user can create a resource
+   * @param user The user
+   * @param topicId Optional ID of the topic the resource belongs to
+   * @returns True if the user can create a resource, false otherwise
+   */
+  canCreateResource(user: User, topicId?: string): boolean;
+  
+  /**
+   * Checks if a user can read a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can read the resource, false otherwise
+   */
+  canReadResource(user: User, resource: Resource): boolean;
+  
+  /**
+   * Checks if a user can update a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can update the resource, false otherwise
+   */
+  canUpdateResource(user: User, resource: Resource): boolean;
+  
+  /**
+   * Checks if a user can delete a resource
+   * @param user The user
+   * @param resource The resource
+   * @returns True if the user can delete the resource, false otherwise
+   */
+  canDeleteResource(user: User, resource: Resource): boolean;
+}
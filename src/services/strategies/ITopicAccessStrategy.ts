@@ -37,4 +37,13 @@ export interface ITopicAccessStrategy {
    * @returns True if the user can delete the topic, false otherwise
    */
   canDeleteTopic(user: User, topic: Topic): boolean;
+  
+  /**
+   * Checks if a user can move a topic under a new parent
+   * @param user The user
+   * @param topic The topic
+   * @param newParentTopicId Root topic ID of the new parent, or undefined to make the topic a root topic
+   * @returns True if the user can move the topic, false otherwise
+   */
+  canMoveTopic(user: User, topic: Topic, newParentTopicId?: string): boolean;
 } 
\ No newline at end of file
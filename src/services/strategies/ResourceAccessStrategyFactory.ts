@@ -0,0 +1,41 @@
+import { IResourceAccessStrategy } from './IResourceAccessStrategy';
+import { AdminResourceAccessStrategy } from './AdminResourceAccessStrategy';
+import { EditorResourceAccessStrategy } from './EditorResourceAccessStrategy';
+import { ViewerResourceAccessStrategy } from './ViewerResourceAccessStrategy';
+import { AclResourceAccessStrategy } from './AclResourceAccessStrategy';
+import { TopicAclResolver } from '../TopicAclResolver';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+/**
+ * Factory for creating resource access strategies based on user role
+ * and, when given, the access control lists of topics
+ */
+export class ResourceAccessStrategyFactory {
+  private static readonly strategies: Map<UserRole, IResourceAccessStrategy> = new Map([
+    [UserRole.ADMIN, new AdminResourceAccessStrategy()],
+    [UserRole.EDITOR, new EditorResourceAccessStrategy()],
+    [UserRole.VIEWER, new ViewerResourceAccessStrategy()]
+  ]);
+
+  /**
+   * Gets the appropriate strategy for a user
+   * @param user The user
+   * @param aclResolver Optional resolver for the access control lists of topics
+   * @returns The appropriate strategy for the user's role, layered with access control lists
+   */
+  public static getStrategy(user: User, aclResolver?: TopicAclResolver | null): IResourceAccessStrategy {
+    const strategy = this.strategies.get(user.role);
+    
+    if (!strategy) {
+      throw new Error(`No strategy found for role ${user.role}`);
+    }
+    
+    // Access control lists never lock admins out
+    if (!aclResolver || user.role === UserRole.ADMIN) {
+      return strategy;
+    }
+    
+    return new AclResourceAccessStrategy(strategy, aclResolver);
+  }
+}
@@ -2,11 +2,14 @@ import { ITopicAccessStrategy } from './ITopicAccessStrategy';
 import { AdminTopicAccessStrategy } from './AdminTopicAccessStrategy';
 import { EditorTopicAccessStrategy } from './EditorTopicAccessStrategy';
 import { ViewerTopicAccessStrategy } from './ViewerTopicAccessStrategy';
+import { AclTopicAccessStrategy } from './AclTopicAccessStrategy';
+import { TopicAclResolver } from '../TopicAclResolver';
 import { User } from '../../models/User';
 import { UserRole } from '../../enums/UserRole';
 
 /**
  * Factory for creating topic access strategies based on user role
+ * and, when given, per-topic access control lists
  */
 export class TopicAccessStrategyFactory {
   private static readonly strategies: Map<UserRole, ITopicAccessStrategy> = new Map([
@@ -18,15 +21,21 @@ export class TopicAccessStrategyFactory {
   /**
    * Gets the appropriate strategy for a user
    * @param user The user
-   * @returns The appropriate strategy for the user's role
+   * @param aclResolver Optional resolver for access control lists
+   * @returns The appropriate strategy for the user's role, layered with access control lists
    */
-  public static getStrategy(user: User): ITopicAccessStrategy {
+  public static getStrategy(user: User, aclResolver?: TopicAclResolver | null): ITopicAccessStrategy {
     const strategy = this.strategies.get(user.role);
     
     if (!strategy) {
       throw new Error(`No strategy found for role ${user.role}`);
     }
     
-    return strategy;
+    // Access control lists never lock admins out
+    if (!aclResolver || user.role === UserRole.ADMIN) {
+      return strategy;
+    }
+    
+    return new AclTopicAccessStrategy(strategy, aclResolver);
   }
 } 
\ No newline at end of file
@@ -0,0 +1,42 @@
+import { IResourceAccessStrategy } from './IResourceAccessStrategy';
+import { User } from '../../models/User';
+import { UserRole } from '../../enums/UserRole';
+
+/**
+ * Strategy for viewer users
+ * Viewers can only read resources
+ */
+export class ViewerResourceAccessStrategy implements IResourceAccessStrategy {
+  /**
+   * Checks if a user can create a resource
+   * @returns False, viewers cannot create resources
+   */
+  public canCreateResource(): boolean {
+    return false;
+  }
+  
+  /**
+   * Checks if a user can read a resource
+   * @param user The user
+   * @returns True if the user is a viewer
+   */
+  public canReadResource(user: User): boolean {
+    return user.role === UserRole.VIEWER;
+  }
+  
+  /**
+   * Checks if a user can update a resource
+   * @returns False, viewers cannot update resources
+   */
+  public canUpdateResource(): boolean {
+    return false;
+  }
+  
+  /**
+   * Checks if a user can delete a resource
+   * @returns False, viewers cannot delete resources
+   */
+  public canDeleteResource(): boolean {
+    return false;
+  }
+}
@@ -39,4 +39,12 @@ export class ViewerTopicAccessStrategy implements ITopicAccessStrategy {
   public canDeleteTopic(): boolean {
     return false;
   }
+  
+  /**
+   * Checks if a user can move a topic
+   * @returns False, viewers cannot move topics
+   */
+  public canMoveTopic(): boolean {
+    return false;
+  }
 } 
\ No newline at end of file
@@ -2,6 +2,7 @@ import { AdminTopicAccessStrategy } from '../AdminTopicAccessStrategy';
 import { EditorTopicAccessStrategy } from '../EditorTopicAccessStrategy';
 import { ViewerTopicAccessStrategy } from '../ViewerTopicAccessStrategy';
 import { User } from '../../../models/User';
+import { Topic } from '../../../models/Topic';
 import { UserRole } from '../../../enums/UserRole';
 
 describe('Access Strategies', () => {
@@ -57,6 +58,11 @@ describe('Access Strategies', () => {
       expect(strategy.canDeleteTopic(editorUser)).toBe(false);
       expect(strategy.canDeleteTopic(viewerUser)).toBe(false);
     });
+    
+    it('should allow only admins to move topics', () => {
+      expect(strategy.canMoveTopic(adminUser)).toBe(true);
+      expect(strategy.canMoveTopic(editorUser)).toBe(false);
+    });
   });
   
   describe('EditorTopicAccessStrategy', () => {
@@ -93,8 +99,29 @@ describe('Access Strategies', () => {
       expect(strategy.canUpdateTopic(viewerUser)).toBe(false);
     });
     
-    it('should not allow editors to delete topics', () => {
-      expect(strategy.canDeleteTopic()).toBe(false);
+    it('should allow editors to delete topics they own', () => {
+      const ownTopic = new Topic('Own', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, editorUser.id);
+      
+      expect(strategy.canDeleteTopic(editorUser, ownTopic)).toBe(true);
+    });
+    
+    it('should not allow editors to delete topics owned by others', () => {
+      const otherTopic = new Topic('Other', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, adminUser.id);
+      const unownedTopic = new Topic('Unowned', 'Content');
+      
+      expect(strategy.canDeleteTopic(editorUser, otherTopic)).toBe(false);
+      expect(strategy.canDeleteTopic(editorUser, unownedTopic)).toBe(false);
+    });
+    
+    it('should not allow non-editors to delete topics through the editor rule', () => {
+      const adminTopic = new Topic('Admin', 'Content', 1, undefined, undefined, undefined, undefined, undefined, undefined, adminUser.id);
+      
+      expect(strategy.canDeleteTopic(adminUser, adminTopic)).toBe(false);
+    });
+    
+    it('should allow only editors to move topics', () => {
+      expect(strategy.canMoveTopic(editorUser)).toBe(true);
+      expect(strategy.canMoveTopic(viewerUser)).toBe(false);
     });
   });
   
@@ -125,5 +152,9 @@ describe('Access Strategies', () => {
     it('should not allow viewers to delete topics', () => {
       expect(strategy.canDeleteTopic()).toBe(false);
     });
+    
+    it('should not allow viewers to move topics', () => {
+      expect(strategy.canMoveTopic()).toBe(false);
+    });
   });
 }); 
\ No newline at end of file
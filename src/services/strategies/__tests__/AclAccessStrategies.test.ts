@@ -0,0 +1,146 @@
+import { AclTopicAccessStrategy } from '../AclTopicAccessStrategy';
+import { AclResourceAccessStrategy } from '../AclResourceAccessStrategy';
+import { EditorTopicAccessStrategy } from '../EditorTopicAccessStrategy';
+import { ViewerTopicAccessStrategy } from '../ViewerTopicAccessStrategy';
+import { EditorResourceAccessStrategy } from '../EditorResourceAccessStrategy';
+import { TopicAccessStrategyFactory } from '../TopicAccessStrategyFactory';
+import { ResourceAccessStrategyFactory } from '../ResourceAccessStrategyFactory';
+import { TopicAclResolver } from '../../TopicAclResolver';
+import { Topic } from '../../../models/Topic';
+import { Resource } from '../../../models/Resource';
+import { User } from '../../../models/User';
+import { TopicAclEntry } from '../../../models/TopicAclEntry';
+import { UserRole } from '../../../enums/UserRole';
+import { ResourceType } from '../../../enums/ResourceType';
+import { AclPrincipalType } from '../../../enums/AclPrincipalType';
+import { TopicPermission } from '../../../enums/TopicPermission';
+
+describe('ACL Access Strategies', () => {
+  let publicTopic: Topic;
+  let privateTopic: Topic;
+  let privateChild: Topic;
+  let editorUser: User;
+  let viewerUser: User;
+  let resolver: TopicAclResolver;
+  
+  beforeEach(() => {
+    publicTopic = new Topic('Public', 'Public content');
+    privateTopic = new Topic('Private', 'Private content');
+    privateChild = privateTopic.createChildTopic('Private child', 'Child content');
+    editorUser = new User('Editor User', 'editor@example.com', UserRole.EDITOR, 'editor-id');
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER, 'viewer-id');
+    
+    // Only the editor may see the private subtree
+    resolver = new TopicAclResolver(
+      [new TopicAclEntry(privateTopic.rootTopicId, AclPrincipalType.USER, 'editor-id', TopicPermission.WRITE)],
+      [publicTopic, privateTopic, privateChild]
+    );
+  });
+  
+  describe('AclTopicAccessStrategy', () => {
+    it('should use the role-based rules where no access control list applies', () => {
+      // Arrange
+      const strategy = new AclTopicAccessStrategy(new ViewerTopicAccessStrategy(), resolver);
+      
+      // Act & Assert
+      expect(strategy.canReadTopic(viewerUser, publicTopic)).toBe(true);
+      expect(strategy.canUpdateTopic(viewerUser, publicTopic)).toBe(false);
+    });
+    
+    it('should hide a private subtree from users without an entry', () => {
+      // Arrange
+      const strategy = new AclTopicAccessStrategy(new ViewerTopicAccessStrategy(), resolver);
+      
+      // Act & Assert
+      expect(strategy.canReadTopic(viewerUser, privateTopic)).toBe(false);
+      expect(strategy.canReadTopic(viewerUser, privateChild)).toBe(false);
+    });
+    
+    it('should allow users with an entry what both the entry and their role allow', () => {
+      // Arrange
+      const strategy = new AclTopicAccessStrategy(new EditorTopicAccessStrategy(), resolver);
+      
+      // Act & Assert
+      expect(strategy.canReadTopic(editorUser, privateChild)).toBe(true);
+      expect(strategy.canUpdateTopic(editorUser, privateChild)).toBe(true);
+      expect(strategy.canCreateTopic(editorUser, privateTopic.rootTopicId)).toBe(true);
+      expect(strategy.canDeleteTopic(editorUser, privateChild)).toBe(false);
+    });
+    
+    it('should not let an entry grant more than the role allows', () => {
+      // Arrange
+      const grantingResolver = new TopicAclResolver(
+        [new TopicAclEntry(privateTopic.rootTopicId, AclPrincipalType.USER, 'viewer-id', TopicPermission.MANAGE)],
+        [privateTopic]
+      );
+      const strategy = new AclTopicAccessStrategy(new ViewerTopicAccessStrategy(), grantingResolver);
+      
+      // Act & Assert
+      expect(strategy.canReadTopic(viewerUser, privateTopic)).toBe(true);
+      expect(strategy.canUpdateTopic(viewerUser, privateTopic)).toBe(false);
+    });
+    
+    it('should deny creating children under a topic without write permission', () => {
+      // Arrange
+      const readOnlyResolver = new TopicAclResolver(
+        [new TopicAclEntry(privateTopic.rootTopicId, AclPrincipalType.USER, 'editor-id', TopicPermission.READ)],
+        [privateTopic]
+      );
+      const strategy = new AclTopicAccessStrategy(new EditorTopicAccessStrategy(), readOnlyResolver);
+      
+      // Act & Assert
+      expect(strategy.canCreateTopic(editorUser, privateTopic.rootTopicId)).toBe(false);
+      expect(strategy.canCreateTopic(editorUser)).toBe(true);
+    });
+    
+    it('should require manage permission on the topic and write permission on the new parent to move', () => {
+      // Arrange
+      const managingResolver = new TopicAclResolver(
+        [
+          new TopicAclEntry(privateTopic.rootTopicId, AclPrincipalType.USER, 'editor-id', TopicPermission.MANAGE),
+          new TopicAclEntry(publicTopic.rootTopicId, AclPrincipalType.USER, 'editor-id', TopicPermission.READ)
+        ],
+        [publicTopic, privateTopic, privateChild]
+      );
+      const strategy = new AclTopicAccessStrategy(new EditorTopicAccessStrategy(), managingResolver);
+      const writeOnly = new AclTopicAccessStrategy(new EditorTopicAccessStrategy(), resolver);
+      
+      // Act & Assert
+      expect(strategy.canMoveTopic(editorUser, privateChild)).toBe(true);
+      expect(strategy.canMoveTopic(editorUser, privateChild, privateTopic.rootTopicId)).toBe(true);
+      expect(strategy.canMoveTopic(editorUser, privateChild, publicTopic.rootTopicId)).toBe(false);
+      expect(writeOnly.canMoveTopic(editorUser, privateChild)).toBe(false);
+    });
+  });
+  
+  describe('AclResourceAccessStrategy', () => {
+    it('should apply the access control list of the resource topic', () => {
+      // Arrange
+      const strategy = new AclResourceAccessStrategy(new EditorResourceAccessStrategy(), resolver);
+      const privateResource = new Resource(privateChild.rootTopicId, 'https://example.com', 'Private', ResourceType.LINK);
+      const otherEditor = new User('Other Editor', 'other@example.com', UserRole.EDITOR);
+      
+      // Act & Assert
+      expect(strategy.canReadResource(editorUser, privateResource)).toBe(true);
+      expect(strategy.canReadResource(otherEditor, privateResource)).toBe(false);
+      expect(strategy.canCreateResource(otherEditor, privateTopic.rootTopicId)).toBe(false);
+      expect(strategy.canUpdateResource(otherEditor, privateResource)).toBe(false);
+    });
+  });
+  
+  describe('factories', () => {
+    it('should layer access control lists over the role strategy', () => {
+      expect(TopicAccessStrategyFactory.getStrategy(viewerUser, resolver)).toBeInstanceOf(AclTopicAccessStrategy);
+      expect(ResourceAccessStrategyFactory.getStrategy(viewerUser, resolver)).toBeInstanceOf(AclResourceAccessStrategy);
+    });
+    
+    it('should return the role strategy without a resolver or for admins', () => {
+      // Arrange
+      const adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN);
+      
+      // Act & Assert
+      expect(TopicAccessStrategyFactory.getStrategy(viewerUser)).toBeInstanceOf(ViewerTopicAccessStrategy);
+      expect(TopicAccessStrategyFactory.getStrategy(adminUser, resolver).canReadTopic(adminUser, privateTopic)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,92 @@
+import { AdminResourceAccessStrategy } from '../AdminResourceAccessStrategy';
+import { EditorResourceAccessStrategy } from '../EditorResourceAccessStrategy';
+import { ViewerResourceAccessStrategy } from '../ViewerResourceAccessStrategy';
+import { ResourceAccessStrategyFactory } from '../ResourceAccessStrategyFactory';
+import { Resource } from '../../../models/Resource';
+import { User } from '../../../models/User';
+import { UserRole } from '../../../enums/UserRole';
+import { ResourceType } from '../../../enums/ResourceType';
+
+describe('Resource Access Strategies', () => {
+  let adminUser: User;
+  let editorUser: User;
+  let viewerUser: User;
+  let resource: Resource;
+  
+  beforeEach(() => {
+    adminUser = new User('Admin User', 'admin@example.com', UserRole.ADMIN);
+    editorUser = new User('Editor User', 'editor@example.com', UserRole.EDITOR);
+    viewerUser = new User('Viewer User', 'viewer@example.com', UserRole.VIEWER);
+    resource = new Resource('topic-id', 'https://example.com', 'Example', ResourceType.LINK);
+  });
+  
+  describe('AdminResourceAccessStrategy', () => {
+    const strategy = new AdminResourceAccessStrategy();
+    
+    it('should allow admins every operation', () => {
+      expect(strategy.canCreateResource(adminUser)).toBe(true);
+      expect(strategy.canReadResource(adminUser)).toBe(true);
+      expect(strategy.canUpdateResource(adminUser)).toBe(true);
+      expect(strategy.canDeleteResource(adminUser)).toBe(true);
+    });
+    
+    it('should not allow non-admins any operation', () => {
+      expect(strategy.canCreateResource(editorUser)).toBe(false);
+      expect(strategy.canReadResource(viewerUser)).toBe(false);
+      expect(strategy.canUpdateResource(editorUser)).toBe(false);
+      expect(strategy.canDeleteResource(viewerUser)).toBe(false);
+    });
+  });
+  
+  describe('EditorResourceAccessStrategy', () => {
+    const strategy = new EditorResourceAccessStrategy();
+    
+    it('should allow editors to create, read and update resources', () => {
+      expect(strategy.canCreateResource(editorUser)).toBe(true);
+      expect(strategy.canReadResource(editorUser)).toBe(true);
+      expect(strategy.canUpdateResource(editorUser)).toBe(true);
+    });
+    
+    it('should not allow editors to delete resources', () => {
+      expect(strategy.canDeleteResource()).toBe(false);
+    });
+  });
+  
+  describe('ViewerResourceAccessStrategy', () => {
+    const strategy = new ViewerResourceAccessStrategy();
+    
+    it('should allow viewers to read resources', () => {
+      expect(strategy.canReadResource(viewerUser)).toBe(true);
+    });
+    
+    it('should not allow viewers to change resources', () => {
+      expect(strategy.canCreateResource()).toBe(false);
+      expect(strategy.canUpdateResource()).toBe(false);
+      expect(strategy.canDeleteResource()).toBe(false);
+    });
+  });
+  
+  describe('ResourceAccessStrategyFactory', () => {
+    it('should return the strategy matching the user role', () => {
+      // Act & Assert
+      expect(ResourceAccessStrategyFactory.getStrategy(adminUser)).toBeInstanceOf(AdminResourceAccessStrategy);
+      expect(ResourceAccessStrategyFactory.getStrategy(editorUser)).toBeInstanceOf(EditorResourceAccessStrategy);
+      expect(ResourceAccessStrategyFactory.getStrategy(viewerUser)).toBeInstanceOf(ViewerResourceAccessStrategy);
+    });
+    
+    it('should only let admins delete a resource', () => {
+      // Act & Assert
+      expect(ResourceAccessStrategyFactory.getStrategy(adminUser).canDeleteResource(adminUser, resource)).toBe(true);
+      expect(ResourceAccessStrategyFactory.getStrategy(editorUser).canDeleteResource(editorUser, resource)).toBe(false);
+    });
+    
+    it('should throw an error for unknown user roles', () => {
+      // Arrange
+      const invalidUser = new User('Invalid User', 'invalid@example.com', 'INVALID_ROLE' as UserRole);
+      
+      // Act & Assert
+      expect(() => ResourceAccessStrategyFactory.getStrategy(invalidUser))
+        .toThrow(`No strategy found for role ${invalidUser.role}`);
+    });
+  });
+});
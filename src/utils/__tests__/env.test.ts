@@ -0,0 +1,28 @@
+import { positiveIntegerFromEnv } from '../env';
+
+describe('positiveIntegerFromEnv', () => {
+  const name = 'TEST_POSITIVE_INTEGER';
+  
+  afterEach(() => {
+    delete process.env[name];
+  });
+  
+  it('should read a positive whole number', () => {
+    process.env[name] = '42';
+    
+    expect(positiveIntegerFromEnv(name, 7)).toBe(42);
+  });
+  
+  it('should fall back to the default when the variable is not set or empty', () => {
+    expect(positiveIntegerFromEnv(name, 7)).toBe(7);
+    
+    process.env[name] = '';
+    expect(positiveIntegerFromEnv(name, 7)).toBe(7);
+  });
+  
+  it.each(['abc', '0', '-5', '1.5', '15m'])('should reject %p', value => {
+    process.env[name] = value;
+    
+    expect(() => positiveIntegerFromEnv(name, 7)).toThrow(`${name} must be a positive whole number, got "${value}"`);
+  });
+});
@@ -0,0 +1,37 @@
+import { matchesETag, parseETags, versionETag, versionFromETag } from '../etag';
+
+describe('etag', () => {
+  it('should read back the version it tagged', () => {
+    // Arrange
+    const etag = versionETag(3);
+    
+    // Act
+    const version = versionFromETag(etag);
+    
+    // Assert
+    expect(etag).toBe('"3"');
+    expect(version).toBe(3);
+  });
+  
+  it('should not read a version from weak or foreign tags', () => {
+    expect(versionFromETag('W/"3"')).toBeNull();
+    expect(versionFromETag('"0"')).toBeNull();
+    expect(versionFromETag('"abc"')).toBeNull();
+    expect(versionFromETag('3')).toBeNull();
+  });
+  
+  it('should parse tag lists and the wildcard', () => {
+    expect(parseETags(undefined)).toBeNull();
+    expect(parseETags('  ')).toBeNull();
+    expect(parseETags(' * ')).toBe('*');
+    expect(parseETags('"1", W/"2" ,')).toEqual(['"1"', 'W/"2"']);
+  });
+  
+  it('should match tags weakly', () => {
+    expect(matchesETag(['W/"2"'], '"2"')).toBe(true);
+    expect(matchesETag(['"1"', '"2"'], '"2"')).toBe(true);
+    expect(matchesETag(['"1"'], '"2"')).toBe(false);
+    expect(matchesETag('*', '"2"')).toBe(true);
+    expect(matchesETag(null, '"2"')).toBe(false);
+  });
+});
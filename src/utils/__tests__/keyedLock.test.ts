@@ -0,0 +1,54 @@
+import { KeyedLock } from '../keyedLock';
+
+describe('KeyedLock', () => {
+  it('should run tasks for the same key one at a time in order', async () => {
+    // Arrange
+    const lock = new KeyedLock();
+    const events: string[] = [];
+    const task = (name: string) => async (): Promise<string> => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      events.push(`${name} end`);
+      return name;
+    };
+    
+    // Act
+    const results = await Promise.all([lock.run('key', task('first')), lock.run('key', task('second'))]);
+    
+    // Assert
+    expect(results).toEqual(['first', 'second']);
+    expect(events).toEqual(['first start', 'first end', 'second start', 'second end']);
+  });
+  
+  it('should run tasks for different keys side by side', async () => {
+    // Arrange
+    const lock = new KeyedLock();
+    const events: string[] = [];
+    const task = (name: string) => async (): Promise<void> => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      events.push(`${name} end`);
+    };
+    
+    // Act
+    await Promise.all([lock.run('a', task('a')), lock.run('b', task('b'))]);
+    
+    // Assert
+    expect(events.slice(0, 2)).toEqual(['a start', 'b start']);
+  });
+  
+  it('should keep running later tasks after a task fails', async () => {
+    // Arrange
+    const lock = new KeyedLock();
+    const failing = lock.run('key', async () => {
+      throw new Error('boom');
+    });
+    
+    // Act
+    const next = lock.run('key', async () => 'next');
+    
+    // Assert
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('next');
+  });
+});
@@ -0,0 +1,29 @@
+import { decodeCursor, encodeCursor } from '../pageCursor';
+
+describe('pageCursor', () => {
+  it('should decode the position it encoded', () => {
+    // Arrange
+    const position = { value: '2026-01-01T00:00:00.000Z', id: 'topic-id' };
+    
+    // Act
+    const cursor = encodeCursor(position, 'createdAt');
+    
+    // Assert
+    expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(cursor, 'createdAt')).toEqual(position);
+  });
+  
+  it('should reject a cursor of another sort field', () => {
+    // Arrange
+    const cursor = encodeCursor({ value: 3, id: 'topic-id' }, 'version');
+    
+    // Act & Assert
+    expect(decodeCursor(cursor, 'name')).toBeNull();
+  });
+  
+  it('should reject malformed cursors', () => {
+    expect(decodeCursor('not-a-cursor', 'name')).toBeNull();
+    expect(decodeCursor(Buffer.from('null').toString('base64url'), 'name')).toBeNull();
+    expect(decodeCursor(Buffer.from('{"s":"name","v":{},"i":"x"}').toString('base64url'), 'name')).toBeNull();
+  });
+});
@@ -0,0 +1,77 @@
+import { diffText } from '../textDiff';
+
+describe('diffText', () => {
+  it('should report identical texts as a single equal change', () => {
+    expect(diffText('same\ntext', 'same\ntext')).toEqual([
+      { type: 'equal', value: 'same\ntext' }
+    ]);
+  });
+  
+  it('should diff texts line by line', () => {
+    const oldText = 'line one\nline two\nline three';
+    const newText = 'line one\nline 2\nline three\nline four';
+    
+    expect(diffText(oldText, newText, 'line')).toEqual([
+      { type: 'equal', value: 'line one' },
+      { type: 'removed', value: 'line two' },
+      { type: 'added', value: 'line 2' },
+      { type: 'equal', value: 'line three' },
+      { type: 'added', value: 'line four' }
+    ]);
+  });
+  
+  it('should diff texts word by word', () => {
+    expect(diffText('the quick brown fox', 'the slow brown fox', 'word')).toEqual([
+      { type: 'equal', value: 'the ' },
+      { type: 'removed', value: 'quick' },
+      { type: 'added', value: 'slow' },
+      { type: 'equal', value: ' brown fox' }
+    ]);
+  });
+  
+  it('should handle empty texts', () => {
+    expect(diffText('', '')).toEqual([]);
+    expect(diffText('', 'new text', 'word')).toEqual([
+      { type: 'added', value: 'new text' }
+    ]);
+    expect(diffText('old text', '', 'word')).toEqual([
+      { type: 'removed', value: 'old text' }
+    ]);
+  });
+
+  it('should diff large texts that share most of their words', () => {
+    const words = Array.from({ length: 20000 }, (_, i) => `word${i}`);
+    const oldText = words.join(' ');
+    const newText = words.map((word, i) => i === 10000 ? 'changed' : word).join(' ');
+    
+    const changes = diffText(oldText, newText, 'word');
+    
+    expect(changes).toEqual([
+      { type: 'equal', value: words.slice(0, 10000).join(' ') + ' ' },
+      { type: 'removed', value: 'word10000' },
+      { type: 'added', value: 'changed' },
+      { type: 'equal', value: ' ' + words.slice(10001).join(' ') }
+    ]);
+  });
+  
+  it('should diff large texts with nothing in common', () => {
+    const oldText = Array.from({ length: 20000 }, (_, i) => `old${i}`).join('\n');
+    const newText = Array.from({ length: 20000 }, (_, i) => `new${i}`).join('\n');
+    
+    const changes = diffText(oldText, newText, 'line');
+    
+    expect(changes.some(change => change.type === 'equal')).toBe(false);
+    expect(changes.filter(change => change.type === 'removed').map(change => change.value).join('\n')).toBe(oldText);
+    expect(changes.filter(change => change.type === 'added').map(change => change.value).join('\n')).toBe(newText);
+  });
+  
+  it('should rebuild both texts from the diff of large, heavily changed texts', () => {
+    const oldText = Array.from({ length: 20000 }, (_, i) => `w${i % 3}`).join(' ');
+    const newText = Array.from({ length: 20000 }, (_, i) => `w${i % 4}`).join(' ');
+    
+    const changes = diffText(oldText, newText, 'word');
+    
+    expect(changes.filter(change => change.type !== 'added').map(change => change.value).join('')).toBe(oldText);
+    expect(changes.filter(change => change.type !== 'removed').map(change => change.value).join('')).toBe(newText);
+  });
+});
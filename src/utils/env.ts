@@ -0,0 +1,27 @@
+/**
+ * Settings read from environment variables
+ */
+
+/**
+ * Reads a positive whole number from an environment variable
+ * Meant to be called at start-up, so a mistyped setting stops the server instead of misbehaving later
+ * @param name The name of the variable
+ * @param defaultValue The value used when the variable is not set
+ * @returns The value of the variable, or the default
+ * @throws Error if the variable is set to anything but a positive whole number
+ */
+export const positiveIntegerFromEnv = (name: string, defaultValue: number): number => {
+  const value = process.env[name];
+  
+  if (value === undefined || value.trim() === '') {
+    return defaultValue;
+  }
+  
+  const parsed = Number(value);
+  
+  if (!Number.isSafeInteger(parsed) || parsed <= 0) {
+    throw new Error(`${name} must be a positive whole number, got "${value}"`);
+  }
+  
+  return parsed;
+};
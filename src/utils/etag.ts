@@ -0,0 +1,57 @@
+/**
+ * Entity tags of topic versions, as used by the ETag, If-Match and If-None-Match headers
+ * A version of a topic never changes once written, so its version number identifies its representation
+ */
+
+/**
+ * Formats the entity tag of a topic version
+ * @param version The version number
+ * @returns A strong entity tag, such as "3"
+ */
+export const versionETag = (version: number): string => `"${version}"`;
+
+/**
+ * Reads the entity tags listed in an If-Match or If-None-Match header
+ * @param header The header value
+ * @returns The tags, '*' for any tag, or null if the header is missing or empty
+ */
+export const parseETags = (header: string | undefined): string[] | '*' | null => {
+  if (!header || header.trim().length === 0) {
+    return null;
+  }
+  
+  if (header.trim() === '*') {
+    return '*';
+  }
+  
+  return header.split(',').map(tag => tag.trim()).filter(tag => tag.length > 0);
+};
+
+/**
+ * Reads the version number of an entity tag
+ * @param tag A tag formatted by versionETag
+ * @returns The version, or null if the tag is weak or not the tag of a version
+ */
+export const versionFromETag = (tag: string): number | null => {
+  const match = /^"([1-9][0-9]*)"$/.exec(tag);
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Checks whether a list of tags includes a tag, ignoring whether tags are weak
+ * This is the weak comparison If-None-Match uses
+ * @param tags The tags from the header
+ * @param etag The current tag
+ */
+export const matchesETag = (tags: string[] | '*' | null, etag: string): boolean => {
+  if (tags === null) {
+    return false;
+  }
+  
+  if (tags === '*') {
+    return true;
+  }
+  
+  const opaque = (tag: string): string => tag.replace(/^W\//, '');
+  return tags.some(tag => opaque(tag) === opaque(etag));
+};
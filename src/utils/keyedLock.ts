@@ -0,0 +1,49 @@
+/**
+ * Runs tasks one at a time per key
+ * Tasks for different keys run side by side; tasks for the same key run in the order they were given
+ */
+export class KeyedLock {
+  private readonly tails: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Runs a task once every earlier task for the key has settled
+   * @param key The key to serialize on
+   * @param task The task to run
+   * @returns Promise resolving to the result of the task
+   */
+  public async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const release = await this.acquire(key);
+    
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Takes the lock of a key once every earlier holder has released it
+   * For work that cannot be wrapped in a single task, such as a transaction that ends in a later call
+   * @param key The key to serialize on
+   * @returns Promise resolving to the function that releases the lock
+   */
+  public async acquire(key: string): Promise<() => void> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    let release: () => void = () => undefined;
+    const tail = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    
+    this.tails.set(key, tail);
+    await previous;
+    
+    return () => {
+      // Forget the key once nothing else is queued behind this holder
+      if (this.tails.get(key) === tail) {
+        this.tails.delete(key);
+      }
+      
+      release();
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { PagePosition } from '../database/PageQuery';
+
+/**
+ * Contents of a cursor: the sort field it belongs to and the position it points at
+ */
+interface CursorPayload {
+  s: string;
+  v: string | number | null;
+  i: string;
+}
+
+/**
+ * Encodes a page position as an opaque cursor for clients
+ * @param position The position to continue from
+ * @param sortBy The field the listing is sorted by
+ * @returns A URL-safe cursor
+ */
+export const encodeCursor = (position: PagePosition, sortBy: string): string => {
+  const payload: CursorPayload = { s: sortBy, v: position.value, i: position.id };
+  return Buffer.from(JSON.stringify(payload), 'utf-8').toString('base64url');
+};
+
+/**
+ * Decodes a cursor sent by a client
+ * @param cursor The cursor
+ * @param sortBy The field the listing is sorted by
+ * @returns The position, or null if the cursor is malformed or belongs to another sort order
+ */
+export const decodeCursor = (cursor: string, sortBy: string): PagePosition | null => {
+  try {
+    const payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8')) as Partial<CursorPayload>;
+    const valueType = payload.v === null ? 'null' : typeof payload.v;
+    
+    if (payload.s !== sortBy || typeof payload.i !== 'string' || !['string', 'number', 'null'].includes(valueType)) {
+      return null;
+    }
+    
+    return { value: payload.v as PagePosition['value'], id: payload.i };
+  } catch {
+    return null;
+  }
+};
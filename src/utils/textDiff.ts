@@ -0,0 +1,246 @@
+/**
+ * Granularity used when comparing two texts
+ */
+export type DiffGranularity = 'line' | 'word';
+
+/**
+ * A run of tokens that is unchanged, added or removed between two texts
+ */
+export interface DiffChange {
+  type: 'equal' | 'added' | 'removed';
+  value: string;
+}
+
+/**
+ * Splits a text into the tokens compared by the diff
+ * Word tokens keep their surrounding whitespace so changes can be joined back verbatim
+ * @param text The text to split
+ * @param granularity Whether to split into lines or words
+ */
+const tokenize = (text: string, granularity: DiffGranularity): string[] => {
+  if (text.length === 0) {
+    return [];
+  }
+
+  if (granularity === 'line') {
+    return text.split('\n');
+  }
+
+  return text.split(/(\s+)/).filter(token => token.length > 0);
+};
+
+/**
+ * Number of changes the search for the middle of an edit script goes through before it settles
+ * for the furthest point it reached; keeps heavily changed texts from taking quadratic time
+ */
+const MAX_SEARCH_COST = 512;
+
+/**
+ * A single token that is unchanged, added or removed
+ */
+interface TokenChange {
+  type: DiffChange['type'];
+  token: string;
+}
+
+/**
+ * Finds where the shortest edit script between two token ranges crosses its middle
+ * Runs Myers' search forwards from the start and backwards from the end until the two meet,
+ * keeping only one row of furthest reaching points per direction so memory stays linear
+ * Past MAX_SEARCH_COST changes it splits at the furthest point reached forwards instead, so the
+ * script may then be longer than the shortest one but is found in bounded time
+ * @param a The original tokens
+ * @param b The changed tokens
+ * @param aStart Start of the range of a, inclusive
+ * @param aEnd End of the range of a, exclusive
+ * @param bStart Start of the range of b, inclusive
+ * @param bEnd End of the range of b, exclusive
+ * @returns The point to split the ranges at, or null if they have nothing in common
+ */
+const findMiddle = (
+  a: string[],
+  b: string[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number
+): [number, number] | null => {
+  const n = aEnd - aStart;
+  const m = bEnd - bStart;
+  const maxD = Math.ceil((n + m) / 2);
+  const offset = maxD;
+  const forward = new Int32Array(2 * maxD + 2).fill(-1);
+  const backward = new Int32Array(2 * maxD + 2).fill(-1);
+  const delta = n - m;
+  // With an odd delta the paths can only meet while extending forwards, with an even one backwards
+  const checkForward = delta % 2 !== 0;
+  let forwardStart = 0;
+  let forwardEnd = 0;
+  let backwardStart = 0;
+  let backwardEnd = 0;
+  let furthest: [number, number] | null = null;
+
+  forward[offset + 1] = 0;
+  backward[offset + 1] = 0;
+
+  for (let d = 0; d < maxD; d++) {
+    if (d === MAX_SEARCH_COST) {
+      return furthest;
+    }
+
+    for (let k = -d + forwardStart; k <= d - forwardEnd; k += 2) {
+      let x = k === -d || (k !== d && forward[offset + k - 1] < forward[offset + k + 1])
+        ? forward[offset + k + 1]
+        : forward[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[aStart + x] === b[bStart + y]) {
+        x++;
+        y++;
+      }
+
+      forward[offset + k] = x;
+
+      if (x <= n && y <= m && x + y > 0 && x + y < n + m &&
+        (!furthest || x + y > furthest[0] + furthest[1] - aStart - bStart)) {
+        furthest = [aStart + x, bStart + y];
+      }
+
+      if (x > n) {
+        forwardEnd += 2;
+      } else if (y > m) {
+        forwardStart += 2;
+      } else if (checkForward) {
+        const reverse = offset + delta - k;
+
+        if (reverse >= 0 && reverse < backward.length && backward[reverse] !== -1 && x >= n - backward[reverse]) {
+          return [aStart + x, bStart + y];
+        }
+      }
+    }
+
+    for (let k = -d + backwardStart; k <= d - backwardEnd; k += 2) {
+      let x = k === -d || (k !== d && backward[offset + k - 1] < backward[offset + k + 1])
+        ? backward[offset + k + 1]
+        : backward[offset + k - 1] + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[aEnd - x - 1] === b[bEnd - y - 1]) {
+        x++;
+        y++;
+      }
+
+      backward[offset + k] = x;
+
+      if (x > n) {
+        backwardEnd += 2;
+      } else if (y > m) {
+        backwardStart += 2;
+      } else if (!checkForward) {
+        const reverse = offset + delta - k;
+
+        if (reverse >= 0 && reverse < forward.length && forward[reverse] !== -1) {
+          const forwardX = forward[reverse];
+
+          if (forwardX >= n - x) {
+            return [aStart + forwardX, bStart + forwardX - (reverse - offset)];
+          }
+        }
+      }
+    }
+  }
+
+  return null;
+};
+
+/**
+ * Appends the changes turning a range of tokens into another, splitting the ranges in the middle
+ * of their edit script until what is left is unchanged, only added or only removed
+ * @param a The original tokens
+ * @param b The changed tokens
+ * @param aStart Start of the range of a, inclusive
+ * @param aEnd End of the range of a, exclusive
+ * @param bStart Start of the range of b, inclusive
+ * @param bEnd End of the range of b, exclusive
+ * @param changes The list the changes are appended to
+ */
+const diffRange = (
+  a: string[],
+  b: string[],
+  aStart: number,
+  aEnd: number,
+  bStart: number,
+  bEnd: number,
+  changes: TokenChange[]
+): void => {
+  // Tokens both ranges start or end with are unchanged
+  while (aStart < aEnd && bStart < bEnd && a[aStart] === b[bStart]) {
+    changes.push({ type: 'equal', token: a[aStart] });
+    aStart++;
+    bStart++;
+  }
+
+  let suffix = 0;
+
+  while (aStart < aEnd - suffix && bStart < bEnd - suffix && a[aEnd - suffix - 1] === b[bEnd - suffix - 1]) {
+    suffix++;
+  }
+
+  aEnd -= suffix;
+  bEnd -= suffix;
+
+  const middle = aStart < aEnd && bStart < bEnd ? findMiddle(a, b, aStart, aEnd, bStart, bEnd) : null;
+
+  if (middle) {
+    diffRange(a, b, aStart, middle[0], bStart, middle[1], changes);
+    diffRange(a, b, middle[0], aEnd, middle[1], bEnd, changes);
+  } else {
+    for (let i = aStart; i < aEnd; i++) {
+      changes.push({ type: 'removed', token: a[i] });
+    }
+
+    for (let j = bStart; j < bEnd; j++) {
+      changes.push({ type: 'added', token: b[j] });
+    }
+  }
+
+  for (let i = aEnd; i < aEnd + suffix; i++) {
+    changes.push({ type: 'equal', token: a[i] });
+  }
+};
+
+/**
+ * Computes the differences between two texts using Myers' linear space diff algorithm
+ * Time grows with the size of the texts times the number of changes, and memory only with their size
+ * @param oldText The original text
+ * @param newText The changed text
+ * @param granularity Whether to compare lines or words
+ * @returns The ordered list of changes turning oldText into newText
+ */
+export const diffText = (
+  oldText: string,
+  newText: string,
+  granularity: DiffGranularity = 'line'
+): DiffChange[] => {
+  const oldTokens = tokenize(oldText, granularity);
+  const newTokens = tokenize(newText, granularity);
+  const separator = granularity === 'line' ? '\n' : '';
+  const tokens: TokenChange[] = [];
+
+  diffRange(oldTokens, newTokens, 0, oldTokens.length, 0, newTokens.length, tokens);
+
+  // Merge consecutive tokens of the same type into a single change
+  const changes: { type: DiffChange['type']; tokens: string[] }[] = [];
+
+  for (const { type, token } of tokens) {
+    const last = changes[changes.length - 1];
+
+    if (last && last.type === type) {
+      last.tokens.push(token);
+    } else {
+      changes.push({ type, tokens: [token] });
+    }
+  }
+
+  return changes.map(change => ({ type: change.type, value: change.tokens.join(separator) }));
+};
@@ -0,0 +1,80 @@
+/**
+ * Rules for a string field
+ */
+export interface StringFieldSchema {
+  type: 'string';
+  required?: boolean;
+  /** Accepts null, for example to clear a reference */
+  nullable?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  /** Rejects values that are empty or only whitespace */
+  notBlank?: boolean;
+  format?: 'uuid' | 'date-time';
+  enum?: readonly string[];
+}
+
+/**
+ * Rules for an integer field
+ * In params and the query string the integer is given as a string of digits
+ */
+export interface IntegerFieldSchema {
+  type: 'integer';
+  required?: boolean;
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Rules for a boolean field
+ * Only JSON booleans are accepted, so the field belongs in the body
+ */
+export interface BooleanFieldSchema {
+  type: 'boolean';
+  required?: boolean;
+}
+
+/**
+ * Rules for an array field, applied to each item as well
+ */
+export interface ArrayFieldSchema {
+  type: 'array';
+  required?: boolean;
+  minItems?: number;
+  maxItems?: number;
+  items: FieldSchema;
+}
+
+/**
+ * Rules for a nested object field
+ */
+export interface ObjectFieldSchema {
+  type: 'object';
+  required?: boolean;
+  properties: ObjectSchema;
+}
+
+/**
+ * Rules for a single field
+ */
+export type FieldSchema =
+  | StringFieldSchema
+  | IntegerFieldSchema
+  | BooleanFieldSchema
+  | ArrayFieldSchema
+  | ObjectFieldSchema;
+
+/**
+ * Rules for the fields of an object; fields that are not listed are rejected
+ */
+export type ObjectSchema = Record<string, FieldSchema>;
+
+/**
+ * Rules for the parts of a request
+ * Parts without a schema are not checked
+ */
+export interface RequestSchema {
+  body?: ObjectSchema;
+  params?: ObjectSchema;
+  query?: ObjectSchema;
+}
@@ -0,0 +1,253 @@
+import { validate as isUuid } from 'uuid';
+import { FieldError } from '../errors/ValidationError';
+import {
+  ArrayFieldSchema,
+  FieldSchema,
+  IntegerFieldSchema,
+  ObjectSchema,
+  RequestSchema,
+  StringFieldSchema
+} from './RequestSchema';
+
+/**
+ * The parts of a request that can be validated
+ */
+export interface RequestParts {
+  body?: unknown;
+  params?: unknown;
+  query?: unknown;
+}
+
+type Location = FieldError['location'];
+
+const LOCATIONS: Location[] = ['params', 'query', 'body'];
+
+// A date, optionally followed by a time and time zone, such as 2026-01-31 or 2026-01-31T12:00:00Z
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?)?$/;
+
+/**
+ * Checks requests against declarative schemas
+ * Collects every problem instead of stopping at the first, so clients can fix them all at once
+ */
+export class SchemaValidator {
+  /**
+   * Checks the parts of a request against a schema
+   * @param schema The rules for the request
+   * @param request The request to check
+   * @returns The problems found, empty if the request is valid
+   */
+  public validate(schema: RequestSchema, request: RequestParts): FieldError[] {
+    const errors: FieldError[] = [];
+    
+    for (const location of LOCATIONS) {
+      const objectSchema = schema[location];
+      
+      if (objectSchema) {
+        // A request without a body has none of the fields, rather than a malformed body
+        const value = request[location] ?? {};
+        this.validateObject(objectSchema, value, location, '', errors);
+      }
+    }
+    
+    return errors;
+  }
+  
+  /**
+   * Checks an object and each of its fields
+   * @param schema The rules for the fields
+   * @param value The value to check
+   * @param location The part of the request the value comes from
+   * @param path The path of the value, empty for the part itself
+   * @param errors The list the problems are added to
+   */
+  private validateObject(
+    schema: ObjectSchema,
+    value: unknown,
+    location: Location,
+    path: string,
+    errors: FieldError[]
+  ): void {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push({ location, field: path || location, message: 'must be an object' });
+      return;
+    }
+    
+    const fields = value as Record<string, unknown>;
+    
+    for (const key of Object.keys(fields)) {
+      if (!Object.prototype.hasOwnProperty.call(schema, key)) {
+        errors.push({ location, field: this.join(path, key), message: 'is not allowed' });
+      }
+    }
+    
+    for (const [key, fieldSchema] of Object.entries(schema)) {
+      this.validateField(fieldSchema, fields[key], location, this.join(path, key), errors);
+    }
+  }
+  
+  /**
+   * Checks a single field
+   * @param schema The rules for the field
+   * @param value The value to check
+   * @param location The part of the request the value comes from
+   * @param path The path of the field
+   * @param errors The list the problems are added to
+   */
+  private validateField(
+    schema: FieldSchema,
+    value: unknown,
+    location: Location,
+    path: string,
+    errors: FieldError[]
+  ): void {
+    if (value === undefined) {
+      if (schema.required) {
+        errors.push({ location, field: path, message: 'is required' });
+      }
+      return;
+    }
+    
+    if (value === null && schema.type === 'string' && schema.nullable) {
+      return;
+    }
+    
+    const fail = (message: string): void => {
+      errors.push({ location, field: path, message });
+    };
+    
+    switch (schema.type) {
+      case 'string':
+        this.validateString(schema, value, fail);
+        break;
+      case 'integer':
+        // Params and query values always arrive as strings
+        this.validateInteger(schema, value, location !== 'body', fail);
+        break;
+      case 'boolean':
+        if (typeof value !== 'boolean') {
+          fail('must be a boolean');
+        }
+        break;
+      case 'array':
+        this.validateArray(schema, value, location, path, errors, fail);
+        break;
+      case 'object':
+        this.validateObject(schema.properties, value, location, path, errors);
+        break;
+    }
+  }
+  
+  /**
+   * Checks a string field
+   * @param schema The rules for the field
+   * @param value The value to check
+   * @param fail Records a problem with the field
+   */
+  private validateString(schema: StringFieldSchema, value: unknown, fail: (message: string) => void): void {
+    if (typeof value !== 'string') {
+      fail('must be a string');
+      return;
+    }
+    
+    if (schema.notBlank && value.trim().length === 0) {
+      fail('must not be blank');
+    } else if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters long`);
+    }
+    
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters long`);
+    }
+    
+    if (schema.format === 'uuid' && !isUuid(value)) {
+      fail('must be a UUID');
+    }
+    
+    if (schema.format === 'date-time' && (!ISO_DATE_TIME.test(value) || isNaN(Date.parse(value)))) {
+      fail('must be an ISO 8601 date and time');
+    }
+    
+    if (schema.enum && !schema.enum.includes(value)) {
+      fail(`must be one of: ${schema.enum.join(', ')}`);
+    }
+  }
+  
+  /**
+   * Checks an integer field
+   * @param schema The rules for the field
+   * @param value The value to check
+   * @param fromString Whether the integer is given as a string of digits
+   * @param fail Records a problem with the field
+   */
+  private validateInteger(
+    schema: IntegerFieldSchema,
+    value: unknown,
+    fromString: boolean,
+    fail: (message: string) => void
+  ): void {
+    let parsed: number | null = null;
+    
+    if (fromString) {
+      parsed = typeof value === 'string' && /^-?\d+$/.test(value) ? Number(value) : null;
+    } else {
+      parsed = typeof value === 'number' && Number.isInteger(value) ? value : null;
+    }
+    
+    if (parsed === null) {
+      fail('must be an integer');
+      return;
+    }
+    
+    if (schema.min !== undefined && parsed < schema.min) {
+      fail(`must be at least ${schema.min}`);
+    }
+    
+    if (schema.max !== undefined && parsed > schema.max) {
+      fail(`must be at most ${schema.max}`);
+    }
+  }
+  
+  /**
+   * Checks an array field and each of its items
+   * @param schema The rules for the field
+   * @param value The value to check
+   * @param location The part of the request the value comes from
+   * @param path The path of the field
+   * @param errors The list the problems are added to
+   * @param fail Records a problem with the field
+   */
+  private validateArray(
+    schema: ArrayFieldSchema,
+    value: unknown,
+    location: Location,
+    path: string,
+    errors: FieldError[],
+    fail: (message: string) => void
+  ): void {
+    if (!Array.isArray(value)) {
+      fail('must be an array');
+      return;
+    }
+    
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must contain at least ${schema.minItems} items`);
+    }
+    
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must contain at most ${schema.maxItems} items`);
+    }
+    
+    value.forEach((item, index) => {
+      this.validateField(schema.items, item, location, `${path}[${index}]`, errors);
+    });
+  }
+  
+  /**
+   * Joins a field name to the path of its parent
+   * @param path The path of the parent, empty for the part itself
+   * @param key The name of the field
+   */
+  private join(path: string, key: string): string {
+    return path ? `${path}.${key}` : key;
+  }
+}
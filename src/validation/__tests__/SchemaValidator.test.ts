@@ -0,0 +1,216 @@
+import { SchemaValidator } from '../SchemaValidator';
+import { RequestSchema } from '../RequestSchema';
+import {
+  copyTopicSchema,
+  createTopicSchema,
+  deleteTopicSchema,
+  diffTopicVersionsSchema,
+  moveTopicSchema,
+  setTopicAclSchema,
+  TOPIC_NAME_MAX_LENGTH,
+  topicVersionSchema
+} from '../schemas/topicSchemas';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+
+describe('SchemaValidator', () => {
+  const topicId = '120ec902-014e-4475-b447-6a2697641eb1';
+  let validator: SchemaValidator;
+  
+  beforeEach(() => {
+    validator = new SchemaValidator();
+  });
+  
+  describe('validate', () => {
+    it('should accept a valid request', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, {
+        body: { name: 'Topic', content: 'Content', parentTopicId: topicId }
+      });
+      
+      // Assert
+      expect(errors).toEqual([]);
+    });
+    
+    it('should report missing required fields', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, { body: {} });
+      
+      // Assert
+      expect(errors).toEqual([
+        { location: 'body', field: 'name', message: 'is required' },
+        { location: 'body', field: 'content', message: 'is required' }
+      ]);
+    });
+    
+    it('should treat a missing body as an empty one', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, {});
+      
+      // Assert
+      expect(errors.map(error => error.field)).toEqual(['name', 'content']);
+    });
+    
+    it('should report wrong types, lengths, formats and unknown fields', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, {
+        body: {
+          name: 'x'.repeat(TOPIC_NAME_MAX_LENGTH + 1),
+          content: 42,
+          parentTopicId: 'parent',
+          version: 3
+        }
+      });
+      
+      // Assert
+      expect(errors).toEqual([
+        { location: 'body', field: 'version', message: 'is not allowed' },
+        { location: 'body', field: 'name', message: `must be at most ${TOPIC_NAME_MAX_LENGTH} characters long` },
+        { location: 'body', field: 'content', message: 'must be a string' },
+        { location: 'body', field: 'parentTopicId', message: 'must be a UUID' }
+      ]);
+    });
+    
+    it('should reject blank strings', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, { body: { name: '   ', content: 'Content' } });
+      
+      // Assert
+      expect(errors).toEqual([{ location: 'body', field: 'name', message: 'must not be blank' }]);
+    });
+    
+    it('should accept null only for nullable strings', () => {
+      // Act
+      const nullParent = validator.validate(moveTopicSchema, { params: { id: topicId }, body: { newParentId: null } });
+      const missingParent = validator.validate(moveTopicSchema, { params: { id: topicId }, body: {} });
+      const nullName = validator.validate(createTopicSchema, { body: { name: null, content: 'Content' } });
+      
+      // Assert
+      expect(nullParent).toEqual([]);
+      expect(missingParent).toEqual([{ location: 'body', field: 'newParentId', message: 'is required' }]);
+      expect(nullName).toEqual([{ location: 'body', field: 'name', message: 'must be a string' }]);
+    });
+    
+    it('should only accept the known delete modes', () => {
+      // Act
+      const valid = validator.validate(deleteTopicSchema, { params: { id: topicId }, query: { mode: 'cascade', dryRun: 'true' } });
+      const invalid = validator.validate(deleteTopicSchema, { params: { id: topicId }, query: { mode: 'everything' } });
+      
+      // Assert
+      expect(valid).toEqual([]);
+      expect(invalid).toEqual([
+        { location: 'query', field: 'mode', message: 'must be one of: orphan-check, cascade, reparent' }
+      ]);
+    });
+    
+    it('should only accept JSON booleans for boolean fields', () => {
+      // Act
+      const valid = validator.validate(copyTopicSchema, {
+        params: { id: topicId },
+        body: { targetParentId: null, includeResources: true, includeHistory: false }
+      });
+      const invalid = validator.validate(copyTopicSchema, {
+        params: { id: topicId },
+        body: { targetParentId: topicId, includeResources: 'true' }
+      });
+      
+      // Assert
+      expect(valid).toEqual([]);
+      expect(invalid).toEqual([{ location: 'body', field: 'includeResources', message: 'must be a boolean' }]);
+    });
+    
+    it('should report a body that is not an object', () => {
+      // Act
+      const errors = validator.validate(createTopicSchema, { body: ['name'] });
+      
+      // Assert
+      expect(errors).toEqual([{ location: 'body', field: 'body', message: 'must be an object' }]);
+    });
+    
+    it('should read integers in params and the query from strings', () => {
+      // Act
+      const valid = validator.validate(diffTopicVersionsSchema, {
+        params: { id: topicId },
+        query: { from: '1', to: '2', granularity: 'word' }
+      });
+      const invalid = validator.validate(diffTopicVersionsSchema, {
+        params: { id: topicId },
+        query: { from: 'first', to: '0', granularity: 'char' }
+      });
+      
+      // Assert
+      expect(valid).toEqual([]);
+      expect(invalid).toEqual([
+        { location: 'query', field: 'from', message: 'must be an integer' },
+        { location: 'query', field: 'to', message: 'must be at least 1' },
+        { location: 'query', field: 'granularity', message: 'must be one of: line, word' }
+      ]);
+    });
+    
+    it('should only accept numbers as integers in the body', () => {
+      // Arrange
+      const schema: RequestSchema = { body: { depth: { type: 'integer', required: true, max: 5 } } };
+      
+      // Act & Assert
+      expect(validator.validate(schema, { body: { depth: 3 } })).toEqual([]);
+      expect(validator.validate(schema, { body: { depth: '3' } })[0].message).toBe('must be an integer');
+      expect(validator.validate(schema, { body: { depth: 2.5 } })[0].message).toBe('must be an integer');
+      expect(validator.validate(schema, { body: { depth: 6 } })[0].message).toBe('must be at most 5');
+    });
+    
+    it('should check date-time formats', () => {
+      // Arrange
+      const schema: RequestSchema = { query: { since: { type: 'string', format: 'date-time' } } };
+      
+      // Act & Assert
+      expect(validator.validate(schema, { query: { since: '2026-01-31' } })).toEqual([]);
+      expect(validator.validate(schema, { query: { since: '2026-01-31T12:00:00.000Z' } })).toEqual([]);
+      expect(validator.validate(schema, { query: { since: '2026-13-45' } })[0].message)
+        .toBe('must be an ISO 8601 date and time');
+      expect(validator.validate(schema, { query: { since: 'yesterday' } })[0].message)
+        .toBe('must be an ISO 8601 date and time');
+    });
+    
+    it('should check params', () => {
+      // Act
+      const errors = validator.validate(topicVersionSchema, { params: { id: 'missing-id', version: '2' } });
+      
+      // Assert
+      expect(errors).toEqual([{ location: 'params', field: 'id', message: 'must be a UUID' }]);
+    });
+    
+    it('should check each item of an array with its path', () => {
+      // Act
+      const errors = validator.validate(setTopicAclSchema, {
+        params: { id: topicId },
+        body: {
+          entries: [
+            { principalType: AclPrincipalType.GROUP, principalId: 'team', permission: TopicPermission.READ },
+            { principalType: 'Team', principalId: ' ', permission: TopicPermission.READ, note: 'x' },
+            'editor'
+          ]
+        }
+      });
+      
+      // Assert
+      expect(errors).toEqual([
+        { location: 'body', field: 'entries[1].note', message: 'is not allowed' },
+        { location: 'body', field: 'entries[1].principalType', message: 'must be one of: User, Group' },
+        { location: 'body', field: 'entries[1].principalId', message: 'must not be blank' },
+        { location: 'body', field: 'entries[2]', message: 'must be an object' }
+      ]);
+    });
+    
+    it('should check the size of arrays', () => {
+      // Arrange
+      const schema: RequestSchema = {
+        body: { tags: { type: 'array', minItems: 1, maxItems: 2, items: { type: 'string' } } }
+      };
+      
+      // Act & Assert
+      expect(validator.validate(schema, { body: { tags: [] } })[0].message).toBe('must contain at least 1 items');
+      expect(validator.validate(schema, { body: { tags: ['a', 'b', 'c'] } })[0].message).toBe('must contain at most 2 items');
+      expect(validator.validate(schema, { body: { tags: 'a' } })[0].message).toBe('must be an array');
+    });
+  });
+});
@@ -0,0 +1,11 @@
+import { IntegerFieldSchema, StringFieldSchema } from '../RequestSchema';
+
+/**
+ * A required entity ID, as generated for every entity
+ */
+export const entityId: StringFieldSchema = { type: 'string', required: true, format: 'uuid' };
+
+/**
+ * A required version number
+ */
+export const versionNumber: IntegerFieldSchema = { type: 'integer', required: true, min: 1 };
@@ -0,0 +1,22 @@
+import { RequestSchema } from '../RequestSchema';
+
+/**
+ * Longest accepted search text
+ */
+export const SEARCH_QUERY_MAX_LENGTH = 200;
+
+/**
+ * Largest number of results of one search
+ */
+export const SEARCH_MAX_LIMIT = 50;
+
+/**
+ * Request for a full-text search (GET /search)
+ */
+export const searchSchema: RequestSchema = {
+  query: {
+    q: { type: 'string', required: true, notBlank: true, maxLength: SEARCH_QUERY_MAX_LENGTH },
+    limit: { type: 'integer', min: 1, max: SEARCH_MAX_LIMIT },
+    type: { type: 'string', enum: ['topic', 'resource'] }
+  }
+};
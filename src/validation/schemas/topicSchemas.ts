@@ -0,0 +1,175 @@
+import { ObjectSchema, RequestSchema, StringFieldSchema } from '../RequestSchema';
+import { entityId, versionNumber } from './commonSchemas';
+import { AclPrincipalType } from '../../enums/AclPrincipalType';
+import { TopicPermission } from '../../enums/TopicPermission';
+
+/**
+ * Longest accepted topic name and content
+ */
+export const TOPIC_NAME_MAX_LENGTH = 200;
+export const TOPIC_CONTENT_MAX_LENGTH = 100000;
+
+const topicName: StringFieldSchema = { type: 'string', notBlank: true, maxLength: TOPIC_NAME_MAX_LENGTH };
+const topicContent: StringFieldSchema = { type: 'string', notBlank: true, maxLength: TOPIC_CONTENT_MAX_LENGTH };
+
+/**
+ * Largest number of topics on one page
+ */
+export const TOPIC_PAGE_MAX_LIMIT = 100;
+
+const topicPageQuery: ObjectSchema = {
+  limit: { type: 'integer', min: 1, max: TOPIC_PAGE_MAX_LIMIT },
+  cursor: { type: 'string', notBlank: true },
+  sortBy: { type: 'string', enum: ['name', 'createdAt', 'updatedAt', 'version'] },
+  order: { type: 'string', enum: ['asc', 'desc'] },
+  updatedSince: { type: 'string', format: 'date-time' },
+  namePrefix: { type: 'string', notBlank: true, maxLength: TOPIC_NAME_MAX_LENGTH }
+};
+
+/**
+ * Request for a page of topics (GET /topics)
+ */
+export const listTopicsSchema: RequestSchema = {
+  query: {
+    ...topicPageQuery,
+    parentTopicId: { type: 'string', format: 'uuid' }
+  }
+};
+
+/**
+ * Request for a page of root topics (GET /topics/root)
+ */
+export const listRootTopicsSchema: RequestSchema = {
+  query: topicPageQuery
+};
+
+/**
+ * Request for the topics the user owns (GET /topics/mine)
+ * The list is not paged, so any query parameter, including the paging and sort ones, is rejected
+ */
+export const listOwnedTopicsSchema: RequestSchema = {
+  query: {}
+};
+
+/**
+ * Request to a route that only takes a topic ID
+ */
+export const topicIdSchema: RequestSchema = {
+  params: { id: entityId }
+};
+
+/**
+ * Request to create a topic (POST /topics)
+ */
+export const createTopicSchema: RequestSchema = {
+  body: {
+    name: { ...topicName, required: true },
+    content: { ...topicContent, required: true },
+    parentTopicId: { type: 'string', format: 'uuid' }
+  }
+};
+
+/**
+ * Request to update a topic (PUT /topics/:id)
+ */
+export const updateTopicSchema: RequestSchema = {
+  params: { id: entityId },
+  body: {
+    content: { ...topicContent, required: true },
+    name: topicName
+  }
+};
+
+/**
+ * Request to delete a topic (DELETE /topics/:id)
+ */
+export const deleteTopicSchema: RequestSchema = {
+  params: { id: entityId },
+  query: {
+    mode: { type: 'string', enum: ['orphan-check', 'cascade', 'reparent'] },
+    dryRun: { type: 'string', enum: ['true', 'false'] }
+  }
+};
+
+/**
+ * Request to move a topic under a new parent (POST /topics/:id/move)
+ * A null parent makes the topic a root topic
+ */
+export const moveTopicSchema: RequestSchema = {
+  params: { id: entityId },
+  body: {
+    newParentId: { type: 'string', required: true, nullable: true, format: 'uuid' }
+  }
+};
+
+/**
+ * Request to copy a topic and its subtree (POST /topics/:id/copy)
+ * A null target parent makes the copy a root topic
+ */
+export const copyTopicSchema: RequestSchema = {
+  params: { id: entityId },
+  body: {
+    targetParentId: { type: 'string', required: true, nullable: true, format: 'uuid' },
+    includeResources: { type: 'boolean' },
+    includeHistory: { type: 'boolean' }
+  }
+};
+
+/**
+ * Request for the children of a topic (GET /topics/:parentId/children)
+ */
+export const childTopicsSchema: RequestSchema = {
+  params: { parentId: entityId }
+};
+
+/**
+ * Request for the path between two topics (GET /topics/:id/path/:targetId)
+ */
+export const findPathSchema: RequestSchema = {
+  params: { id: entityId, targetId: entityId },
+  query: {
+    maxDepth: { type: 'integer', min: 1 },
+    direction: { type: 'string', enum: ['any', 'ancestors', 'descendants'] }
+  }
+};
+
+/**
+ * Request to replace the access control entries of a topic (PUT /topics/:id/acl)
+ */
+export const setTopicAclSchema: RequestSchema = {
+  params: { id: entityId },
+  body: {
+    entries: {
+      type: 'array',
+      required: true,
+      items: {
+        type: 'object',
+        required: true,
+        properties: {
+          principalType: { type: 'string', required: true, enum: Object.values(AclPrincipalType) },
+          principalId: { type: 'string', required: true, notBlank: true },
+          permission: { type: 'string', required: true, enum: Object.values(TopicPermission) }
+        }
+      }
+    }
+  }
+};
+
+/**
+ * Request for a single version of a topic (GET /topics/:id/versions/:version, POST /topics/:id/revert/:version)
+ */
+export const topicVersionSchema: RequestSchema = {
+  params: { id: entityId, version: versionNumber }
+};
+
+/**
+ * Request to compare two versions of a topic (GET /topics/:id/diff)
+ */
+export const diffTopicVersionsSchema: RequestSchema = {
+  params: { id: entityId },
+  query: {
+    from: versionNumber,
+    to: versionNumber,
+    granularity: { type: 'string', enum: ['line', 'word'] }
+  }
+};
@@ -0,0 +1,9 @@
+import { RequestSchema } from '../RequestSchema';
+import { entityId } from './commonSchemas';
+
+/**
+ * Request to take a topic or resource out of the trash (POST /trash/:id/restore)
+ */
+export const restoreFromTrashSchema: RequestSchema = {
+  params: { id: entityId }
+};